@@ -0,0 +1,126 @@
+/**
+ * @format
+ */
+
+import { Booking, BookingStatus } from '../src/types/booking';
+import { BlockedPeriod, Court, CourtBlock } from '../src/types/court';
+import {
+  checkSlotAvailability,
+  isCourtOpenAt,
+  isCourtOpenForRange,
+  toMinutesOfDay,
+} from '../src/utils/availability';
+
+const court: Court = {
+  id: 'court-1',
+  name: 'Court 1',
+  businessId: 'business-1',
+  openingHour: '08:00',
+  closingHour: '22:00',
+};
+
+const at = (time: string) => new Date(`2026-03-14T${time}:00`);
+
+const booking = (id: string, start: string, end: string, status = BookingStatus.CONFIRMED): Booking => ({
+  id,
+  courtId: court.id,
+  timeSlotStart: at(start).toISOString(),
+  timeSlotEnd: at(end).toISOString(),
+  status,
+  totalPrice: 0,
+});
+
+const block: CourtBlock = {
+  id: 'block-1',
+  courtId: court.id,
+  reason: 'MAINTENANCE',
+  date: '2026-03-14',
+  startTime: '12:00',
+  endTime: '14:00',
+  createdAt: '2026-03-01T00:00:00.000Z',
+};
+
+const blockedPeriod: BlockedPeriod = { block, courtId: court.id, start: at('12:00'), end: at('14:00') };
+
+describe('opening hours', () => {
+  test('a booking ending at midnight ends at minute 1440', () => {
+    expect(toMinutesOfDay(at('00:00'))).toBe(0);
+    expect(toMinutesOfDay(at('00:00'), true)).toBe(1440);
+  });
+
+  test('opening time is inclusive and closing time exclusive', () => {
+    expect(isCourtOpenAt(court, 7 * 60 + 59)).toBe(false);
+    expect(isCourtOpenAt(court, 8 * 60)).toBe(true);
+    expect(isCourtOpenAt(court, 21 * 60 + 59)).toBe(true);
+    expect(isCourtOpenAt(court, 22 * 60)).toBe(false);
+  });
+
+  test('defaults to 06:00 until midnight', () => {
+    const defaults: Court = { id: 'court-2', name: 'Court 2', businessId: 'business-1' };
+    expect(isCourtOpenAt(defaults, 6 * 60)).toBe(true);
+    expect(isCourtOpenAt(defaults, 23 * 60 + 59)).toBe(true);
+    expect(isCourtOpenAt(defaults, 0)).toBe(false);
+  });
+
+  test('overnight hours run past midnight', () => {
+    const lateCourt: Court = { ...court, openingHour: '18:00', closingHour: '02:00' };
+    expect(isCourtOpenAt(lateCourt, 1 * 60 + 59)).toBe(true);
+    expect(isCourtOpenAt(lateCourt, 2 * 60)).toBe(false);
+    expect(isCourtOpenForRange(lateCourt, 23 * 60, 25 * 60)).toBe(true);
+    expect(isCourtOpenForRange(lateCourt, 23 * 60, 27 * 60)).toBe(false);
+  });
+});
+
+describe('checkSlotAvailability', () => {
+  const check = (start: string, end: string, bookings: Booking[], extra: Partial<Parameters<typeof checkSlotAvailability>[0]> = {}) =>
+    checkSlotAvailability({ court, capacity: 1, start: at(start), end: at(end), bookings, ...extra });
+
+  test('back-to-back bookings do not conflict', () => {
+    const result = check('10:00', '11:00', [booking('a', '09:00', '10:00'), booking('b', '11:00', '12:00')]);
+    expect(result.isAvailable).toBe(true);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  test('an overlapping booking makes the slot unavailable', () => {
+    const result = check('10:00', '11:00', [booking('a', '10:30', '11:30')]);
+    expect(result.isAvailable).toBe(false);
+    expect(result.conflicts.map(b => b.id)).toEqual(['a']);
+  });
+
+  test('cancelled, no-show and edited bookings are ignored', () => {
+    const result = check('10:00', '11:00', [
+      booking('a', '10:00', '11:00', BookingStatus.CANCELLED),
+      booking('b', '10:00', '11:00', BookingStatus.NO_SHOW),
+      booking('c', '10:00', '11:00'),
+    ], { excludeIds: ['c'] });
+    expect(result.isAvailable).toBe(true);
+  });
+
+  test('slots past closing time are outside hours', () => {
+    const result = check('21:00', '23:00', []);
+    expect(result.outsideHours).toBe(true);
+    expect(result.isAvailable).toBe(false);
+  });
+
+  test('blocked periods close the court', () => {
+    expect(check('13:00', '15:00', [], { blockedPeriods: [blockedPeriod] }).blocked).toEqual([blockedPeriod]);
+    expect(check('14:00', '15:00', [], { blockedPeriods: [blockedPeriod] }).isAvailable).toBe(true);
+  });
+
+  test('capacity facilities allow overlaps up to their capacity', () => {
+    const bookings = [booking('a', '10:00', '11:00'), booking('b', '10:30', '11:30')];
+
+    const roomy = check('10:00', '12:00', bookings, { capacity: 3 });
+    expect(roomy.peakUsage).toBe(2);
+    expect(roomy.isAvailable).toBe(true);
+
+    const full = check('10:00', '12:00', bookings, { capacity: 2 });
+    expect(full.capacityExceeded).toBe(true);
+    expect(full.conflicts).toHaveLength(2);
+  });
+
+  test('bookings that only touch each other do not add up', () => {
+    const bookings = [booking('a', '10:00', '11:00'), booking('b', '11:00', '12:00')];
+    expect(check('10:00', '12:00', bookings, { capacity: 2 }).peakUsage).toBe(1);
+  });
+});
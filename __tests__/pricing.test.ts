@@ -0,0 +1,108 @@
+/**
+ * @format
+ */
+
+import { Court } from '../src/types/court';
+import { calculatePrice, getBookingRange } from '../src/utils/pricing';
+
+const court: Court = {
+  id: 'court-1',
+  name: 'Court 1',
+  businessId: 'business-1',
+  hourlyRate: 200,
+  pricingRules: {
+    bands: [
+      { id: 'peak', label: 'Peak', startTime: '18:00', endTime: '22:00', weekdays: [], hourlyRate: 400 },
+      { id: 'late', label: 'Late', startTime: '22:00', endTime: '02:00', weekdays: [], hourlyRate: 250 },
+      { id: 'morning', label: 'Morning', startTime: '10:00', endTime: '12:00', weekdays: [], hourlyRate: 250 },
+      { id: 'weekend', label: 'Weekend', startTime: '08:00', endTime: '12:00', weekdays: [0, 6], hourlyRate: 300 },
+    ],
+    holidays: [{ date: '2026-04-13', label: 'Songkran', hourlyRate: 500 }],
+    memberTiers: [{ id: 'gold', name: 'Gold', discountPercent: 15 }],
+    minDurationMinutes: 60,
+  },
+};
+
+// 2026-03-16 is a Monday, 2026-03-14 a Saturday
+const quote = (date: string, startTime: string, endTime: string, memberTierId?: string) =>
+  calculatePrice({ court, ...getBookingRange(date, startTime, endTime), memberTierId });
+
+describe('calculatePrice', () => {
+  test('splits a booking at the start of a band', () => {
+    const result = quote('2026-03-16', '17:00', '19:00');
+    expect(result.lines).toEqual([
+      { label: 'ราคาปกติ', minutes: 60, hourlyRate: 200, amount: 200 },
+      { label: 'Peak', minutes: 60, hourlyRate: 400, amount: 400 },
+    ]);
+    expect(result.total).toBe(600);
+  });
+
+  test('band end times are exclusive', () => {
+    expect(quote('2026-03-16', '17:30', '18:00').lines.map(line => line.label)).toEqual(['ราคาปกติ']);
+    expect(quote('2026-03-16', '18:00', '18:30').lines.map(line => line.label)).toEqual(['Peak']);
+  });
+
+  test('a band for the weekday wins over an every-day band', () => {
+    expect(quote('2026-03-14', '10:00', '11:00').total).toBe(300);
+    expect(quote('2026-03-16', '10:00', '11:00').total).toBe(250);
+  });
+
+  test('overnight bookings and bands run past midnight', () => {
+    const result = quote('2026-03-16', '21:00', '01:00');
+    expect(result.lines).toEqual([
+      { label: 'Peak', minutes: 60, hourlyRate: 400, amount: 400 },
+      { label: 'Late', minutes: 180, hourlyRate: 250, amount: 750 },
+    ]);
+    expect(quote('2026-03-16', '01:30', '02:30').lines.map(line => line.minutes)).toEqual([30, 30]);
+  });
+
+  test('overnight bands keep the weekday they started on after midnight', () => {
+    const fridayNight: Court = {
+      ...court,
+      pricingRules: {
+        ...court.pricingRules!,
+        bands: [{ id: 'friday', label: 'Friday night', startTime: '23:00', endTime: '02:00', weekdays: [5], hourlyRate: 350 }],
+      },
+    };
+    const fridayQuote = (date: string, startTime: string, endTime: string) =>
+      calculatePrice({ court: fridayNight, ...getBookingRange(date, startTime, endTime) });
+
+    // 2026-03-13 is a Friday
+    expect(fridayQuote('2026-03-13', '23:00', '01:00').lines).toEqual([
+      { label: 'Friday night', minutes: 120, hourlyRate: 350, amount: 700 },
+    ]);
+    expect(fridayQuote('2026-03-14', '00:30', '01:00').lines.map(line => line.label)).toEqual(['Friday night']);
+    expect(fridayQuote('2026-03-14', '23:00', '00:30').lines.map(line => line.label)).toEqual(['ราคาปกติ']);
+  });
+
+  test('holidays take their rate for the whole day', () => {
+    expect(quote('2026-04-13', '18:00', '19:00').lines).toEqual([
+      { label: 'Songkran', minutes: 60, hourlyRate: 500, amount: 500 },
+    ]);
+  });
+
+  test('member discounts are rounded to whole baht', () => {
+    const result = quote('2026-03-16', '17:00', '18:30', 'gold');
+    expect(result.subtotal).toBe(400);
+    expect(result.discount).toEqual({ label: 'Gold', percent: 15, amount: 60 });
+    expect(result.total).toBe(340);
+  });
+
+  test('flags bookings shorter than the minimum duration', () => {
+    expect(quote('2026-03-16', '17:00', '17:30').belowMinimum).toBe(true);
+    expect(quote('2026-03-16', '17:00', '18:00').belowMinimum).toBe(false);
+  });
+
+  test('courts without rules use the hourly rate', () => {
+    const plain: Court = { id: 'court-2', name: 'Court 2', businessId: 'business-1', hourlyRate: 150 };
+    expect(calculatePrice({ court: plain, ...getBookingRange('2026-03-16', '18:00', '19:30') }).total).toBe(225);
+  });
+});
+
+describe('getBookingRange', () => {
+  test('an end at or before the start is on the next day', () => {
+    const { start, end } = getBookingRange('2026-03-16', '22:00', '00:00');
+    expect(end.getTime() - start.getTime()).toBe(2 * 60 * 60 * 1000);
+    expect(end.getDate()).toBe(17);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @format
+ */
+
+import { buildPromptPayPayload, getPromptPayIdType, maskPromptPayId } from '../src/utils/promptpay';
+
+// Expected payloads were checked against an independent CRC-16/CCITT-FALSE implementation
+describe('buildPromptPayPayload', () => {
+  test('mobile number without an amount', () => {
+    expect(buildPromptPayPayload('081-234-5678')).toBe(
+      '00020101021129370016A0000006770101110113006681234567853037645802TH6304823E',
+    );
+  });
+
+  test('mobile number with an amount', () => {
+    expect(buildPromptPayPayload('0812345678', 50)).toBe(
+      '00020101021229370016A000000677010111011300668123456785303764540550.005802TH63045197',
+    );
+  });
+
+  test('tax ID', () => {
+    expect(buildPromptPayPayload('1234567890123')).toBe(
+      '00020101021129370016A0000006770101110213123456789012353037645802TH630433FC',
+    );
+  });
+
+  test('e-wallet ID with a fractional amount', () => {
+    expect(buildPromptPayPayload('123456789012345', 1.5)).toBe(
+      '00020101021229390016A0000006770101110315123456789012345530376454041.505802TH6304F618',
+    );
+  });
+
+  test('a zero amount leaves the amount to the customer', () => {
+    expect(buildPromptPayPayload('0812345678', 0)).toBe(buildPromptPayPayload('0812345678'));
+  });
+
+  test('rejects IDs that are not PromptPay IDs', () => {
+    expect(() => buildPromptPayPayload('12345')).toThrow('Invalid PromptPay ID');
+  });
+});
+
+test('getPromptPayIdType', () => {
+  expect(getPromptPayIdType('081 234 5678')).toBe('PHONE');
+  expect(getPromptPayIdType('1234567890')).toBeNull();
+  expect(getPromptPayIdType('1-2345-67890-12-3')).toBe('TAX_ID');
+  expect(getPromptPayIdType('123456789012345')).toBe('E_WALLET');
+});
+
+test('maskPromptPayId keeps the first and last three digits', () => {
+  expect(maskPromptPayId('081-234-5678')).toBe('081xxxx678');
+});
@@ -0,0 +1,106 @@
+/**
+ * @format
+ */
+/* eslint-disable no-bitwise */
+
+import { buildPromptPayPayload } from '../src/utils/promptpay';
+import { encodeQrCode } from '../src/utils/qrCode';
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (r, c) => (r + c) % 2 === 0,
+  r => r % 2 === 0,
+  (_r, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+// Format information (level and mask), read from the copy beside the top-left finder pattern
+const readFormat = (modules: boolean[][]) => {
+  const cells: Array<[number, number]> = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ];
+  const bits = cells.reduce((sum, [row, col], i) => sum | (modules[row][col] ? 1 << i : 0), 0) ^ 0x5412;
+  return { level: bits >>> 13, mask: (bits >>> 10) & 7 };
+};
+
+/**
+ * Reads the data back out of a version 5 (37x37) symbol: unmask, walk the codeword zigzag,
+ * de-interleave the two data blocks and parse the byte-mode segment
+ */
+const decodeVersion5 = (modules: boolean[][]): string => {
+  const size = modules.length;
+  const isFunction = (row: number, col: number) =>
+    (row <= 8 && col <= 8) ||
+    (row <= 8 && col >= size - 8) ||
+    (row >= size - 8 && col <= 8) ||
+    row === 6 ||
+    col === 6 ||
+    (Math.abs(row - 30) <= 2 && Math.abs(col - 30) <= 2);
+  const { mask } = readFormat(modules);
+
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const col = right - j;
+        const row = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+        if (!isFunction(row, col)) bits.push(modules[row][col] !== MASKS[mask](row, col) ? 1 : 0);
+      }
+    }
+  }
+  const codewords = Array.from({ length: 86 }, (_, i) => bits.slice(i * 8, i * 8 + 8).reduce((sum, bit) => (sum << 1) | bit, 0));
+  const data = [0, 1].flatMap(block => Array.from({ length: 43 }, (_, i) => codewords[i * 2 + block]));
+
+  const stream = data.flatMap(byte => Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1));
+  const read = (offset: number, length: number) => stream.slice(offset, offset + length).reduce((sum, bit) => (sum << 1) | bit, 0);
+  expect(read(0, 4)).toBe(0b0100); // Byte mode
+  const length = read(4, 8);
+  return String.fromCharCode(...Array.from({ length }, (_, i) => read(12 + i * 8, 8)));
+};
+
+const isFinderPattern = (modules: boolean[][], top: number, left: number) =>
+  Array.from({ length: 7 }, (_, dy) => Array.from({ length: 7 }, (__, dx) => {
+    const dist = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+    return modules[top + dy][left + dx] === (dist !== 2);
+  })).flat().every(Boolean);
+
+describe('encodeQrCode', () => {
+  test('picks the smallest version that fits', () => {
+    expect(encodeQrCode('hello')).toHaveLength(21);
+    expect(encodeQrCode('x'.repeat(14))).toHaveLength(21);
+    expect(encodeQrCode('x'.repeat(15))).toHaveLength(25);
+  });
+
+  test('draws finder and timing patterns', () => {
+    const modules = encodeQrCode('hello');
+    const size = modules.length;
+    expect(isFinderPattern(modules, 0, 0)).toBe(true);
+    expect(isFinderPattern(modules, 0, size - 7)).toBe(true);
+    expect(isFinderPattern(modules, size - 7, 0)).toBe(true);
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true); // Dark module
+  });
+
+  test('uses error correction level M', () => {
+    expect(readFormat(encodeQrCode('hello')).level).toBe(0b00);
+  });
+
+  test('a PromptPay payload reads back unchanged', () => {
+    const payload = buildPromptPayPayload('0812345678');
+    const modules = encodeQrCode(payload);
+    expect(modules).toHaveLength(37);
+    expect(decodeVersion5(modules)).toBe(payload);
+  });
+
+  test('throws when the text does not fit', () => {
+    expect(() => encodeQrCode('x'.repeat(300))).toThrow('Text is too long for a QR code');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @format
+ */
+
+import { Receipt } from '../src/types/booking';
+import { getOfflineReceiptNumber, splitVat } from '../src/services/receipt.service';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-firebase/crashlytics', () => () => ({ recordError: jest.fn(), log: jest.fn() }));
+
+const receipt = (number: string, businessId = 'business-1'): Receipt => ({
+  id: number,
+  number,
+  kind: number.startsWith('TX') ? 'TAX_INVOICE' : 'RECEIPT',
+  businessId,
+  bookingIds: [],
+  seller: { name: 'Venue' },
+  customer: { name: 'Customer' },
+  lines: [],
+  subtotal: 0,
+  discount: 0,
+  total: 0,
+  vatRate: 0,
+  vatAmount: 0,
+  amountBeforeVat: 0,
+  payments: [],
+  paid: 0,
+  issuedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('getOfflineReceiptNumber', () => {
+  const lastOf2025 = new Date(2025, 11, 31, 23, 59);
+  const firstOf2026 = new Date(2026, 0, 1, 0, 1);
+  const receipts = [receipt('RC2025-AB12-00041'), receipt('RC2025-AB12-00042')];
+
+  test('continues the running number of the year', () => {
+    expect(getOfflineReceiptNumber(receipts, 'business-1', 'RECEIPT', lastOf2025, 'AB12')).toBe('RC2025-AB12-00043');
+  });
+
+  test('starts again from 1 in a new year', () => {
+    expect(getOfflineReceiptNumber(receipts, 'business-1', 'RECEIPT', firstOf2026, 'AB12')).toBe('RC2026-AB12-00001');
+    expect(getOfflineReceiptNumber(
+      [...receipts, receipt('RC2026-AB12-00001')],
+      'business-1',
+      'RECEIPT',
+      firstOf2026,
+      'AB12',
+    )).toBe('RC2026-AB12-00002');
+  });
+
+  test('counts per device, business and kind', () => {
+    const others = [
+      ...receipts,
+      receipt('RC2025-CD34-00100'),
+      receipt('RC2025-AB12-00500', 'business-2'),
+      receipt('TX2025-AB12-00007'),
+      receipt('RC2025-00900'), // Allocated by the server
+    ];
+    expect(getOfflineReceiptNumber(others, 'business-1', 'RECEIPT', lastOf2025, 'AB12')).toBe('RC2025-AB12-00043');
+    expect(getOfflineReceiptNumber(others, 'business-1', 'RECEIPT', lastOf2025, 'CD34')).toBe('RC2025-CD34-00101');
+    expect(getOfflineReceiptNumber(others, 'business-1', 'TAX_INVOICE', lastOf2025, 'AB12')).toBe('TX2025-AB12-00008');
+  });
+});
+
+test('splitVat takes the VAT out of an inclusive total', () => {
+  expect(splitVat(107, 7)).toEqual({ vatAmount: 7, amountBeforeVat: 100 });
+  expect(splitVat(500, 7)).toEqual({ vatAmount: 32.71, amountBeforeVat: 467.29 });
+});
@@ -0,0 +1,39 @@
+/**
+ * @format
+ */
+
+import { describeRecurrence, generateOccurrenceDates, MAX_OCCURRENCES } from '../src/utils/recurrence';
+
+describe('generateOccurrenceDates', () => {
+  test('weekly series with a count', () => {
+    expect(generateOccurrenceDates('2026-03-14', { frequency: 'WEEKLY', weekdays: [], endType: 'COUNT', count: 3 }))
+      .toEqual(['2026-03-14', '2026-03-21', '2026-03-28']);
+  });
+
+  test('the end date is inclusive', () => {
+    expect(generateOccurrenceDates('2026-03-02', { frequency: 'BIWEEKLY', weekdays: [], endType: 'DATE', endDate: '2026-03-30' }))
+      .toEqual(['2026-03-02', '2026-03-16', '2026-03-30']);
+  });
+
+  test('custom weekdays across a month boundary', () => {
+    // 2026-03-30 is a Monday
+    expect(generateOccurrenceDates('2026-03-30', { frequency: 'CUSTOM', weekdays: [1, 3], endType: 'DATE', endDate: '2026-04-08' }))
+      .toEqual(['2026-03-30', '2026-04-01', '2026-04-06', '2026-04-08']);
+  });
+
+  test('custom without weekdays repeats on the start day', () => {
+    expect(generateOccurrenceDates('2026-03-30', { frequency: 'CUSTOM', weekdays: [], endType: 'COUNT', count: 2 }))
+      .toEqual(['2026-03-30', '2026-04-06']);
+  });
+
+  test('series are capped', () => {
+    expect(generateOccurrenceDates('2026-01-01', { frequency: 'WEEKLY', weekdays: [], endType: 'COUNT', count: 500 }))
+      .toHaveLength(MAX_OCCURRENCES);
+    expect(generateOccurrenceDates('2026-01-01', { frequency: 'WEEKLY', weekdays: [], endType: 'DATE', endDate: '2099-12-31' }))
+      .toHaveLength(MAX_OCCURRENCES);
+  });
+});
+
+test('describeRecurrence lists custom weekdays in order', () => {
+  expect(describeRecurrence({ frequency: 'CUSTOM', weekdays: [5, 1], endType: 'COUNT', count: 4 })).toBe('ทุกวัน จ, ศ');
+});
@@ -0,0 +1,100 @@
+/**
+ * @format
+ */
+/* eslint-disable no-bitwise */
+
+import { toCsv, toXlsx } from '../src/utils/spreadsheet';
+
+const readUint16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const readUint32 = (bytes: Uint8Array, offset: number) => (readUint16(bytes, offset) + readUint16(bytes, offset + 2) * 0x10000);
+
+const decodeUtf8 = (bytes: Uint8Array) =>
+  decodeURIComponent(Array.from(bytes, byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+
+// Bit-by-bit CRC-32, independent of the table-driven one under test
+const referenceCrc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  data.forEach(byte => {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  crc: number;
+  data: Uint8Array;
+}
+
+const readZip = (zip: Uint8Array): { entries: ZipEntry[]; endRecord: { count: number; centralOffset: number } } => {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  while (readUint32(zip, offset) === 0x04034b50) {
+    const size = readUint32(zip, offset + 18);
+    const nameLength = readUint16(zip, offset + 26);
+    const extraLength = readUint16(zip, offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    entries.push({
+      name: decodeUtf8(zip.slice(offset + 30, offset + 30 + nameLength)),
+      method: readUint16(zip, offset + 8),
+      crc: readUint32(zip, offset + 14),
+      data: zip.slice(dataStart, dataStart + size),
+    });
+    offset = dataStart + size;
+  }
+  const end = zip.length - 22;
+  expect(readUint32(zip, end)).toBe(0x06054b50);
+  return { entries, endRecord: { count: readUint16(zip, end + 10), centralOffset: readUint32(zip, end + 16) } };
+};
+
+describe('toCsv', () => {
+  test('starts with a byte order mark and ends rows with CRLF', () => {
+    expect(toCsv([['a', 1], ['b', 2]])).toBe('\uFEFFa,1\r\nb,2\r\n');
+  });
+
+  test('quotes cells with commas, quotes or line breaks', () => {
+    expect(toCsv([['1,000', 'say "hi"', 'two\nlines', null, undefined, 'สนาม 1']])).toBe(
+      '\uFEFF"1,000","say ""hi""","two\nlines",,,สนาม 1\r\n',
+    );
+  });
+});
+
+describe('toXlsx', () => {
+  const rows = [['วันที่', 'รายได้ & ค่าบริการ'], ['2026-03-14', 1250.5], ['', null], ['<ok>', 0]];
+  const zip = toXlsx('รายงาน', rows);
+  const { entries, endRecord } = readZip(zip);
+  const text = (name: string) => decodeUtf8(entries.find(entry => entry.name === name)?.data || new Uint8Array());
+
+  test('writes a stored zip of the workbook parts', () => {
+    expect(entries.map(entry => entry.name)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(entries.every(entry => entry.method === 0)).toBe(true);
+    expect(endRecord.count).toBe(entries.length);
+    expect(readUint32(zip, endRecord.centralOffset)).toBe(0x02014b50);
+  });
+
+  test('entry checksums are valid', () => {
+    expect(referenceCrc32(Uint8Array.from('123456789', char => char.charCodeAt(0)))).toBe(0xcbf43926);
+    entries.forEach(entry => expect(entry.crc).toBe(referenceCrc32(entry.data)));
+  });
+
+  test('keeps numbers numeric and escapes text', () => {
+    const sheet = text('xl/worksheets/sheet1.xml');
+    expect(sheet).toContain('<c r="B2"><v>1250.5</v></c>');
+    expect(sheet).toContain('<c r="B4"><v>0</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">รายได้ &amp; ค่าบริการ</t>');
+    expect(sheet).toContain('<t xml:space="preserve">&lt;ok&gt;</t>');
+    expect(sheet).toContain('<row r="3"></row>');
+  });
+
+  test('names the sheet', () => {
+    expect(text('xl/workbook.xml')).toContain('<sheet name="รายงาน" sheetId="1" r:id="rId1"/>');
+  });
+});
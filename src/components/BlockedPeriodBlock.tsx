@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, fonts } from '../theme/tokens';
+
+interface BlockedPeriodBlockProps {
+    style?: StyleProp<ViewStyle>;
+    width: number;
+    height: number;
+    label: string;
+    timeLabel: string;
+    onPress?: () => void;
+}
+
+const STRIPE_SPACING = 12;
+
+/**
+ * Hatched block marking a period the court is closed (maintenance, private events)
+ */
+export const BlockedPeriodBlock = ({ style, width, height, label, timeLabel, onPress }: BlockedPeriodBlockProps) => {
+    // Enough diagonal stripes to cover the block once rotated
+    const stripeCount = Math.ceil((width + height * 2) / STRIPE_SPACING);
+
+    return (
+        <TouchableOpacity style={[styles.container, { height }, style]} activeOpacity={0.8} onPress={onPress}>
+            <View style={styles.hatch} pointerEvents="none">
+                {Array.from({ length: stripeCount }, (_, i) => (
+                    <View
+                        key={i}
+                        style={[styles.stripe, { left: i * STRIPE_SPACING - height, top: -height, height: height * 3 }]}
+                    />
+                ))}
+            </View>
+            <View style={styles.labelRow}>
+                <MaterialCommunityIcons name="wrench" size={12} color={colors.neutral[700]} />
+                <Text style={styles.label} numberOfLines={1}>{label}</Text>
+            </View>
+            {height >= 40 && <Text style={styles.timeLabel} numberOfLines={1}>{timeLabel}</Text>}
+        </TouchableOpacity>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        left: 2,
+        right: 2,
+        overflow: 'hidden',
+        borderRadius: 4,
+        borderWidth: 1,
+        borderColor: colors.neutral[400],
+        backgroundColor: colors.neutral[100],
+        padding: 4,
+        zIndex: 2,
+    },
+    hatch: {
+        ...StyleSheet.absoluteFillObject,
+    },
+    stripe: {
+        position: 'absolute',
+        width: 3,
+        backgroundColor: colors.neutral[300],
+        transform: [{ rotate: '45deg' }],
+    },
+    labelRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        alignSelf: 'flex-start',
+        backgroundColor: colors.neutral[100],
+        borderRadius: 4,
+        paddingHorizontal: 4,
+    },
+    label: {
+        fontFamily: fonts.semiBold,
+        fontSize: 11,
+        color: colors.neutral[700],
+        flexShrink: 1,
+    },
+    timeLabel: {
+        alignSelf: 'flex-start',
+        marginTop: 2,
+        fontFamily: fonts.regular,
+        fontSize: 10,
+        color: colors.neutral[600],
+        backgroundColor: colors.neutral[100],
+        borderRadius: 4,
+        paddingHorizontal: 4,
+    },
+});
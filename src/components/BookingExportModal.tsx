@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, TouchableOpacity, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { addMonths, endOfMonth, format, startOfMonth } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { bookingExportService, ExportFormat } from '../services/bookingExport.service';
+
+interface BookingExportModalProps {
+    visible: boolean;
+    businessId: string;
+    initialMonth?: Date;          // Defaults to the current month
+    onClose: () => void;
+}
+
+const FORMATS: Array<{ key: ExportFormat; label: string; icon: string }> = [
+    { key: 'XLSX', label: 'Excel (.xlsx)', icon: 'microsoft-excel' },
+    { key: 'CSV', label: 'CSV', icon: 'file-delimited-outline' },
+];
+
+/**
+ * Exports a month of bookings as a spreadsheet, e.g. for the accountant
+ */
+export const BookingExportModal = ({ visible, businessId, initialMonth, onClose }: BookingExportModalProps) => {
+    const [month, setMonth] = useState(() => startOfMonth(initialMonth || new Date()));
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('XLSX');
+    const [exporting, setExporting] = useState(false);
+
+    useEffect(() => {
+        if (visible) setMonth(startOfMonth(initialMonth || new Date()));
+    }, [visible, initialMonth]);
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const count = await bookingExportService.exportBookings({
+                from: month,
+                to: endOfMonth(month),
+                businessId,
+                format: exportFormat,
+            });
+            if (count === 0) {
+                Alert.alert('แจ้งเตือน', 'ไม่มีการจองในเดือนที่เลือก');
+                return;
+            }
+            onClose();
+        } catch (error) {
+            console.error('Booking export failed:', error);
+            Alert.alert('ผิดพลาด', 'ไม่สามารถส่งออกรายการจองได้');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>ส่งออกรายการจอง</Text>
+                        <TouchableOpacity onPress={onClose} disabled={exporting}>
+                            <MaterialCommunityIcons name="close" size={24} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <Text style={styles.fieldLabel}>เดือน</Text>
+                    <View style={styles.monthRow}>
+                        <TouchableOpacity style={styles.monthButton} onPress={() => setMonth(m => addMonths(m, -1))}>
+                            <MaterialCommunityIcons name="chevron-left" size={24} color={colors.neutral[600]} />
+                        </TouchableOpacity>
+                        <Text style={styles.monthText}>{format(month, 'MMMM yyyy', { locale: th })}</Text>
+                        <TouchableOpacity style={styles.monthButton} onPress={() => setMonth(m => addMonths(m, 1))}>
+                            <MaterialCommunityIcons name="chevron-right" size={24} color={colors.neutral[600]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <Text style={styles.fieldLabel}>รูปแบบไฟล์</Text>
+                    <View style={styles.chipRow}>
+                        {FORMATS.map(f => (
+                            <TouchableOpacity
+                                key={f.key}
+                                style={[styles.chip, exportFormat === f.key && styles.chipSelected]}
+                                onPress={() => setExportFormat(f.key)}
+                            >
+                                <MaterialCommunityIcons
+                                    name={f.icon}
+                                    size={18}
+                                    color={exportFormat === f.key ? colors.primary.main : colors.neutral[500]}
+                                />
+                                <Text style={[styles.chipText, exportFormat === f.key && styles.chipTextSelected]}>{f.label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <Text style={styles.hint}>รวมการจองทั้งแบบรายสนามและแบบระบุจำนวนของธุรกิจนี้</Text>
+
+                    <TouchableOpacity style={styles.exportButton} onPress={handleExport} disabled={exporting}>
+                        {exporting ? (
+                            <ActivityIndicator color={colors.white} />
+                        ) : (
+                            <>
+                                <MaterialCommunityIcons name="export-variant" size={20} color={colors.white} />
+                                <Text style={styles.exportButtonText}>ส่งออกและแชร์</Text>
+                            </>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    content: {
+        width: '100%',
+        maxWidth: 420,
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.xl,
+        color: colors.neutral[900],
+    },
+    fieldLabel: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+        marginBottom: spacing.xs,
+    },
+    monthRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        borderRadius: borderRadius.md,
+        marginBottom: spacing.md,
+    },
+    monthButton: {
+        padding: spacing.sm,
+    },
+    monthText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginBottom: spacing.md,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    hint: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+        marginBottom: spacing.lg,
+    },
+    exportButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: spacing.xs,
+        height: 48,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.primary.main,
+    },
+    exportButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.white,
+    },
+});
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, ActivityIndicator, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { BookingAuditAction, BookingAuditEntry, BookingAuditField, BookingAuditValue } from '../types/booking';
+import {
+    bookingAuditService,
+    AUDIT_ACTION_LABELS,
+    AUDIT_FIELD_LABELS,
+} from '../services/bookingAudit.service';
+import { describeApiError } from '../services/apiErrors';
+import { translateBookingStatus } from '../utils/statusTranslation';
+
+interface BookingHistoryTimelineProps {
+    bookingIds: string[];    // One booking or a merged group
+}
+
+const ACTION_ICONS: Record<BookingAuditAction, string> = {
+    CREATED: 'calendar-plus',
+    EDITED: 'pencil',
+    STATUS_CHANGED: 'swap-horizontal',
+    PAYMENT_CHANGED: 'cash',
+};
+
+const formatValue = (field: BookingAuditField, value: BookingAuditValue | undefined) => {
+    if (value === undefined || value === '') return '-';
+    switch (field) {
+        case 'status':
+            return translateBookingStatus(String(value));
+        case 'isPaid':
+            return value ? 'จ่ายแล้ว' : 'ยังไม่จ่าย';
+        case 'courtId':
+            return bookingAuditService.getCourtName(String(value));
+        case 'price':
+            return `฿${Number(value).toLocaleString()}`;
+        default:
+            return String(value);
+    }
+};
+
+/**
+ * Changes recorded for a booking, newest first
+ */
+export const BookingHistoryTimeline = ({ bookingIds }: BookingHistoryTimelineProps) => {
+    const [entries, setEntries] = useState<BookingAuditEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let active = true;
+        setLoading(true);
+        setError(null);
+        bookingAuditService.getHistory(bookingIds)
+            .then(history => {
+                if (active) setEntries(history);
+            })
+            .catch(err => {
+                if (active) setError(describeApiError(err, 'ไม่สามารถโหลดประวัติการเปลี่ยนแปลงได้'));
+            })
+            .finally(() => {
+                if (active) setLoading(false);
+            });
+        return () => {
+            active = false;
+        };
+    }, [bookingIds]);
+
+    if (loading) {
+        return <ActivityIndicator size="small" color={colors.primary.main} style={styles.loading} />;
+    }
+
+    if (error) {
+        return <Text style={styles.emptyText}>{error}</Text>;
+    }
+
+    if (entries.length === 0) {
+        return <Text style={styles.emptyText}>ยังไม่มีประวัติการเปลี่ยนแปลง</Text>;
+    }
+
+    return (
+        <ScrollView>
+            {entries.map((entry, index) => (
+                <View key={entry.id} style={styles.entry}>
+                    <View style={styles.rail}>
+                        <View style={styles.dot}>
+                            <MaterialCommunityIcons name={ACTION_ICONS[entry.action]} size={14} color={colors.primary.main} />
+                        </View>
+                        {index < entries.length - 1 && <View style={styles.line} />}
+                    </View>
+                    <View style={styles.body}>
+                        <View style={styles.titleRow}>
+                            <Text style={styles.action}>{AUDIT_ACTION_LABELS[entry.action]}</Text>
+                            <Text style={styles.time}>{format(parseISO(entry.at), 'd MMM yy HH:mm', { locale: th })}</Text>
+                        </View>
+                        <Text style={styles.actor}>
+                            {entry.actor || 'ไม่ทราบผู้ใช้'}
+                            {bookingIds.length > 1 ? ` · #${entry.bookingId.slice(0, 8)}` : ''}
+                        </Text>
+                        {entry.changes.map(change => (
+                            <Text key={change.field} style={styles.change}>
+                                {AUDIT_FIELD_LABELS[change.field]}: {change.before !== undefined ? `${formatValue(change.field, change.before)} → ` : ''}
+                                {formatValue(change.field, change.after)}
+                            </Text>
+                        ))}
+                        {entry.reason ? <Text style={styles.reason}>เหตุผล: {entry.reason}</Text> : null}
+                        <View style={styles.badges}>
+                            {entry.source === 'QR_SCANNER' && (
+                                <View style={styles.badge}>
+                                    <MaterialCommunityIcons name="qrcode-scan" size={12} color={colors.neutral[600]} />
+                                    <Text style={styles.badgeText}>สแกน QR</Text>
+                                </View>
+                            )}
+                            {entry.batchSize ? (
+                                <View style={styles.badge}>
+                                    <Text style={styles.badgeText}>ทำพร้อมกัน {entry.batchSize} รายการ</Text>
+                                </View>
+                            ) : null}
+                            {entry.queued && (
+                                <View style={styles.badge}>
+                                    <MaterialCommunityIcons name="cloud-off-outline" size={12} color={colors.neutral[600]} />
+                                    <Text style={styles.badgeText}>บันทึกขณะออฟไลน์</Text>
+                                </View>
+                            )}
+                        </View>
+                    </View>
+                </View>
+            ))}
+        </ScrollView>
+    );
+};
+
+const styles = StyleSheet.create({
+    loading: {
+        marginVertical: spacing.lg,
+    },
+    emptyText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[500],
+        textAlign: 'center',
+        marginVertical: spacing.lg,
+    },
+    entry: {
+        flexDirection: 'row',
+    },
+    rail: {
+        alignItems: 'center',
+        width: 28,
+        marginRight: spacing.sm,
+    },
+    dot: {
+        width: 24,
+        height: 24,
+        borderRadius: 12,
+        backgroundColor: colors.neutral[100],
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    line: {
+        flex: 1,
+        width: 2,
+        backgroundColor: colors.neutral[200],
+        marginVertical: 2,
+    },
+    body: {
+        flex: 1,
+        paddingBottom: spacing.md,
+    },
+    titleRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    action: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[900],
+    },
+    time: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.xs,
+        color: colors.neutral[500],
+    },
+    actor: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.xs,
+        color: colors.neutral[500],
+        marginBottom: 2,
+    },
+    change: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+    },
+    reason: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+        fontStyle: 'italic',
+    },
+    badges: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginTop: 2,
+    },
+    badge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: colors.neutral[100],
+        borderRadius: borderRadius.sm,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        marginRight: spacing.xs,
+        marginTop: 2,
+    },
+    badgeText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.xs,
+        color: colors.neutral[600],
+        marginLeft: 2,
+    },
+});
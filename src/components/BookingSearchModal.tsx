@@ -0,0 +1,386 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+    StyleSheet,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { addDays, format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { Court } from '../types/court';
+import { Booking } from '../types/booking';
+import { bookingService } from '../services/booking.service';
+import { CancelledError } from '../services/apiErrors';
+import { translateBookingStatus } from '../utils/statusTranslation';
+
+interface BookingSearchModalProps {
+    visible: boolean;
+    businessId?: string;
+    courts: Court[];
+    onSelect: (booking: Booking) => void;
+    onClose: () => void;
+}
+
+type RangeKey = 'NEXT_7' | 'NEXT_30' | 'PAST_30' | 'AROUND_90';
+
+// Days relative to today
+const RANGES: Array<{ key: RangeKey; label: string; from: number; to: number }> = [
+    { key: 'NEXT_7', label: '7 วันข้างหน้า', from: 0, to: 7 },
+    { key: 'NEXT_30', label: '30 วันข้างหน้า', from: 0, to: 30 },
+    { key: 'PAST_30', label: 'ย้อนหลัง 30 วัน', from: -30, to: 0 },
+    { key: 'AROUND_90', label: '±90 วัน', from: -90, to: 90 },
+];
+
+const MIN_QUERY_LENGTH = 2;
+
+interface DateGroup {
+    date: string;
+    courts: Array<{ courtId: string; courtName: string; bookings: Booking[] }>;
+}
+
+/**
+ * Finds bookings by customer name, phone, booking ID or notes across a date range,
+ * listed by day and court
+ */
+export const BookingSearchModal = ({ visible, businessId, courts, onSelect, onClose }: BookingSearchModalProps) => {
+    const [query, setQuery] = useState('');
+    const [rangeKey, setRangeKey] = useState<RangeKey>('NEXT_30');
+    const [results, setResults] = useState<Booking[]>([]);
+    const [searchedQuery, setSearchedQuery] = useState<string | null>(null);
+    const [nextOffset, setNextOffset] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const searchAbortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        if (!visible) {
+            // Closed mid-search: drop the request
+            searchAbortRef.current?.abort();
+            return;
+        }
+        setResults([]);
+        setSearchedQuery(null);
+        setHasMore(false);
+        setLoading(false);
+    }, [visible]);
+
+    useEffect(() => {
+        return () => searchAbortRef.current?.abort();
+    }, []);
+
+    const range = RANGES.find(r => r.key === rangeKey) || RANGES[0];
+
+    const runSearch = async (offset: number) => {
+        const text = query.trim();
+        if (text.length < MIN_QUERY_LENGTH) {
+            Alert.alert('แจ้งเตือน', `กรุณาพิมพ์อย่างน้อย ${MIN_QUERY_LENGTH} ตัวอักษร`);
+            return;
+        }
+
+        searchAbortRef.current?.abort();
+        const controller = new AbortController();
+        searchAbortRef.current = controller;
+
+        const today = new Date();
+        setLoading(true);
+        try {
+            const page = await bookingService.searchBookings({
+                query: text,
+                dateFrom: format(addDays(today, range.from), 'yyyy-MM-dd'),
+                dateTo: format(addDays(today, range.to), 'yyyy-MM-dd'),
+                businessId,
+                offset,
+                signal: controller.signal,
+            });
+            setResults(prev => (offset === 0 ? page.items : [...prev, ...page.items]));
+            setNextOffset(page.nextOffset);
+            setHasMore(page.hasMore);
+            setSearchedQuery(text);
+        } catch (error) {
+            if (error instanceof CancelledError) return;
+            console.error('Booking search failed:', error);
+            Alert.alert('ผิดพลาด', 'ไม่สามารถค้นหาการจองได้');
+        } finally {
+            if (!controller.signal.aborted) setLoading(false);
+        }
+    };
+
+    const groups = useMemo<DateGroup[]>(() => {
+        const courtName = (booking: Booking) =>
+            booking.court?.name || courts.find(c => c.id === booking.courtId)?.name || '-';
+
+        return results.reduce<DateGroup[]>((acc, booking) => {
+            const date = format(parseISO(booking.timeSlotStart), 'yyyy-MM-dd');
+            let group = acc.find(g => g.date === date);
+            if (!group) {
+                group = { date, courts: [] };
+                acc.push(group);
+            }
+            let court = group.courts.find(c => c.courtId === booking.courtId);
+            if (!court) {
+                court = { courtId: booking.courtId, courtName: courtName(booking), bookings: [] };
+                group.courts.push(court);
+            }
+            court.bookings.push(booking);
+            return acc;
+        }, []);
+    }, [results, courts]);
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>ค้นหาการจอง</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={styles.searchRow}>
+                        <View style={styles.inputWrapper}>
+                            <MaterialCommunityIcons name="magnify" size={20} color={colors.neutral[400]} />
+                            <TextInput
+                                style={styles.input}
+                                value={query}
+                                onChangeText={setQuery}
+                                placeholder="ชื่อ, เบอร์โทร, รหัสการจอง หรือหมายเหตุ"
+                                placeholderTextColor={colors.neutral[400]}
+                                returnKeyType="search"
+                                onSubmitEditing={() => runSearch(0)}
+                                autoFocus
+                            />
+                        </View>
+                        <TouchableOpacity style={styles.searchButton} onPress={() => runSearch(0)} disabled={loading}>
+                            <Text style={styles.searchButtonText}>ค้นหา</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={styles.chipRow}>
+                        {RANGES.map(r => (
+                            <TouchableOpacity
+                                key={r.key}
+                                style={[styles.chip, rangeKey === r.key && styles.chipSelected]}
+                                onPress={() => setRangeKey(r.key)}
+                            >
+                                <Text style={[styles.chipText, rangeKey === r.key && styles.chipTextSelected]}>{r.label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <ScrollView style={styles.body}>
+                        {searchedQuery !== null && results.length === 0 && !loading && (
+                            <Text style={styles.emptyText}>ไม่พบการจองที่ตรงกับ "{searchedQuery}"</Text>
+                        )}
+                        {groups.map(group => (
+                            <View key={group.date} style={styles.dateGroup}>
+                                <Text style={styles.dateTitle}>{format(parseISO(group.date), 'EEEE d MMMM yyyy', { locale: th })}</Text>
+                                {group.courts.map(court => (
+                                    <View key={court.courtId}>
+                                        <Text style={styles.courtTitle}>{court.courtName}</Text>
+                                        {court.bookings.map(booking => (
+                                            <TouchableOpacity key={booking.id} style={styles.resultItem} onPress={() => onSelect(booking)}>
+                                                <Text style={styles.resultTime}>
+                                                    {format(parseISO(booking.timeSlotStart), 'HH:mm')} - {format(parseISO(booking.timeSlotEnd), 'HH:mm')}
+                                                </Text>
+                                                <View style={styles.resultInfo}>
+                                                    <Text style={styles.resultName}>{booking.serviceUser?.name || booking.customerName || '-'}</Text>
+                                                    <Text style={styles.resultMeta} numberOfLines={1}>
+                                                        {booking.serviceUser?.phone || booking.customerPhone || '-'} • #{booking.id.slice(0, 8)}
+                                                        {booking.notes ? ` • ${booking.notes}` : ''}
+                                                    </Text>
+                                                </View>
+                                                <Text style={styles.resultStatus}>{translateBookingStatus(booking.status)}</Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+                                ))}
+                            </View>
+                        ))}
+                        {loading ? (
+                            <ActivityIndicator color={colors.primary.main} style={styles.loading} />
+                        ) : hasMore && (
+                            <TouchableOpacity style={styles.loadMore} onPress={() => runSearch(nextOffset)}>
+                                <Text style={styles.loadMoreText}>ค้นหาเพิ่มเติม</Text>
+                            </TouchableOpacity>
+                        )}
+                    </ScrollView>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    content: {
+        width: '100%',
+        maxWidth: 560,
+        maxHeight: '90%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.xl,
+        color: colors.neutral[900],
+    },
+    searchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    inputWrapper: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+    },
+    input: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    searchButton: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.primary.main,
+    },
+    searchButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.white,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginBottom: spacing.md,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    body: {
+        flexGrow: 0,
+    },
+    emptyText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[400],
+    },
+    dateGroup: {
+        marginBottom: spacing.md,
+    },
+    dateTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        marginBottom: spacing.xs,
+    },
+    courtTitle: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.primary.main,
+        marginTop: spacing.xs,
+        marginBottom: spacing.xs,
+    },
+    resultItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.xs,
+    },
+    resultTime: {
+        width: 96,
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[700],
+    },
+    resultInfo: {
+        flex: 1,
+    },
+    resultName: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    resultMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    resultStatus: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.neutral[600],
+    },
+    loading: {
+        marginVertical: spacing.md,
+    },
+    loadMore: {
+        alignItems: 'center',
+        paddingVertical: spacing.sm,
+    },
+    loadMoreText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.primary.main,
+    },
+});
@@ -0,0 +1,603 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+    StyleSheet,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { addDays, format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { Court, CourtBlock, CourtBlockReason } from '../types/court';
+import { BookingStatus } from '../types/booking';
+import { courtBlockService, BLOCK_REASON_LABELS } from '../services/courtBlock.service';
+import { bookingService } from '../services/booking.service';
+import { describeApiError } from '../services/apiErrors';
+import { findBlockedPeriods } from '../utils/availability';
+import { WEEKDAY_LABELS } from '../utils/recurrence';
+
+interface CourtBlocksModalProps {
+    visible: boolean;
+    court: Court | null;
+    onClose: () => void;
+}
+
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+// How far ahead new blocks are checked against existing bookings
+const BOOKING_CHECK_DAYS = 60;
+
+const REASONS = Object.keys(BLOCK_REASON_LABELS) as CourtBlockReason[];
+
+const emptyForm = () => ({
+    reason: 'MAINTENANCE' as CourtBlockReason,
+    note: '',
+    date: format(new Date(), 'yyyy-MM-dd'),
+    endDate: format(new Date(), 'yyyy-MM-dd'),
+    startTime: '08:00',
+    endTime: '12:00',
+    repeatWeekly: false,
+    weekdays: [] as number[],
+    hasEndDate: true,
+});
+
+const formatDay = (date: string) => format(parseISO(date), 'EEE d MMM yyyy', { locale: th });
+
+const describeDays = (block: CourtBlock) => {
+    if (block.weekdays && block.weekdays.length > 0) {
+        const days = [...block.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join(', ');
+        return `ทุกวัน ${days} ตั้งแต่ ${formatDay(block.date)}${block.endDate ? ` ถึง ${formatDay(block.endDate)}` : ''}`;
+    }
+    if (block.endDate && block.endDate !== block.date) {
+        return `${formatDay(block.date)} - ${formatDay(block.endDate)}`;
+    }
+    return formatDay(block.date);
+};
+
+/**
+ * Manage blocked / maintenance periods of a court
+ */
+export const CourtBlocksModal = ({ visible, court, onClose }: CourtBlocksModalProps) => {
+    const [blocks, setBlocks] = useState<CourtBlock[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState(emptyForm);
+
+    const loadBlocks = useCallback(async () => {
+        if (!court) return;
+        setLoading(true);
+        try {
+            const today = format(new Date(), 'yyyy-MM-dd');
+            const courtBlocks = await courtBlockService.getBlocks(court.id);
+            // Finished blocks are history; only show current and upcoming ones
+            setBlocks(courtBlocks
+                .filter(b => (b.endDate || (b.weekdays?.length ? today : b.date)) >= today)
+                .sort((a, b) => a.date.localeCompare(b.date)));
+        } finally {
+            setLoading(false);
+        }
+    }, [court]);
+
+    useEffect(() => {
+        if (visible) {
+            setForm(emptyForm());
+            loadBlocks();
+        }
+    }, [visible, loadBlocks]);
+
+    const shiftDate = (field: 'date' | 'endDate', days: number) => {
+        const next = format(addDays(parseISO(form[field]), days), 'yyyy-MM-dd');
+        if (field === 'date') {
+            setForm(f => ({ ...f, date: next, endDate: f.endDate < next ? next : f.endDate }));
+        } else if (next >= form.date) {
+            setForm(f => ({ ...f, endDate: next }));
+        }
+    };
+
+    const toggleWeekday = (day: number) => {
+        setForm(f => ({
+            ...f,
+            weekdays: f.weekdays.includes(day) ? f.weekdays.filter(d => d !== day) : [...f.weekdays, day],
+        }));
+    };
+
+    const buildBlock = (): Omit<CourtBlock, 'id' | 'createdAt'> | null => {
+        if (!court) return null;
+        if (!TIME_REGEX.test(form.startTime) || !TIME_REGEX.test(form.endTime)) {
+            Alert.alert('รูปแบบเวลาไม่ถูกต้อง (HH:mm)');
+            return null;
+        }
+        if (form.repeatWeekly && form.weekdays.length === 0) {
+            Alert.alert('กรุณาเลือกวันที่ปิดสนาม');
+            return null;
+        }
+        return {
+            courtId: court.id,
+            reason: form.reason,
+            note: form.note.trim() || undefined,
+            date: form.date,
+            endDate: form.repeatWeekly && !form.hasEndDate ? undefined : form.endDate,
+            startTime: form.startTime.padStart(5, '0'),
+            endTime: form.endTime.padStart(5, '0'),
+            weekdays: form.repeatWeekly ? form.weekdays : undefined,
+        };
+    };
+
+    const saveBlock = async (block: Omit<CourtBlock, 'id' | 'createdAt'>) => {
+        setSaving(true);
+        try {
+            await courtBlockService.saveBlock(block);
+            setForm(emptyForm());
+            await loadBlocks();
+        } catch (error) {
+            console.error('Failed to save court block:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถบันทึกช่วงปิดสนามได้'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAdd = async () => {
+        const block = buildBlock();
+        if (!block) return;
+
+        // Existing bookings are not cancelled automatically; warn the staff about them
+        setSaving(true);
+        let overlapping = 0;
+        let checkedAll = true;
+        try {
+            const from = parseISO(block.date);
+            const to = addDays(from, BOOKING_CHECK_DAYS);
+            const periods = courtBlockService.expandBlocks([{ ...block, id: 'draft', createdAt: '' }], from, to);
+            const existing = await bookingService.getBookingsInRange(from.toISOString(), to.toISOString(), block.courtId);
+            checkedAll = existing.complete;
+            overlapping = existing.items.filter(b =>
+                b.status !== BookingStatus.CANCELLED &&
+                b.status !== BookingStatus.NO_SHOW &&
+                findBlockedPeriods(periods, block.courtId, parseISO(b.timeSlotStart), parseISO(b.timeSlotEnd)).length > 0
+            ).length;
+        } finally {
+            setSaving(false);
+        }
+
+        if (overlapping > 0) {
+            Alert.alert(
+                'มีการจองในช่วงที่ปิดสนาม',
+                `พบการจอง ${overlapping} รายการในช่วงเวลานี้ การจองเดิมจะไม่ถูกยกเลิกอัตโนมัติ ต้องการปิดสนามต่อหรือไม่?`,
+                [
+                    { text: 'ยกเลิก', style: 'cancel' },
+                    { text: 'ปิดสนาม', onPress: () => saveBlock(block) }
+                ]
+            );
+            return;
+        }
+        if (!checkedAll) {
+            Alert.alert(
+                'ตรวจสอบการจองได้ไม่ครบ',
+                'โหลดรายการจองในช่วงนี้ได้ไม่ครบ อาจมีการจองที่ทับช่วงปิดสนาม ต้องการปิดสนามต่อหรือไม่?',
+                [
+                    { text: 'ยกเลิก', style: 'cancel' },
+                    { text: 'ปิดสนาม', onPress: () => saveBlock(block) }
+                ]
+            );
+            return;
+        }
+        saveBlock(block);
+    };
+
+    const handleDelete = (block: CourtBlock) => {
+        Alert.alert('ลบช่วงปิดสนาม', 'ต้องการเปิดให้จองช่วงเวลานี้อีกครั้งใช่หรือไม่?', [
+            { text: 'ยกเลิก', style: 'cancel' },
+            {
+                text: 'ลบ',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await courtBlockService.deleteBlock(block.id);
+                        loadBlocks();
+                    } catch (error) {
+                        console.error('Failed to delete court block:', error);
+                        Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถลบช่วงปิดสนามได้'));
+                    }
+                }
+            }
+        ]);
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>ปิดสนาม / ปิดปรับปรุง</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.body}>
+                        <Text style={styles.courtName}>{court?.name}</Text>
+
+                        {/* Existing blocks */}
+                        {loading ? (
+                            <ActivityIndicator color={colors.primary.main} />
+                        ) : blocks.length === 0 ? (
+                            <Text style={styles.emptyText}>ยังไม่มีช่วงปิดสนาม</Text>
+                        ) : (
+                            blocks.map(block => (
+                                <View key={block.id} style={styles.blockItem}>
+                                    <MaterialCommunityIcons name="wrench" size={18} color={colors.neutral[600]} />
+                                    <View style={styles.blockInfo}>
+                                        <Text style={styles.blockTitle}>
+                                            {block.note || BLOCK_REASON_LABELS[block.reason]} • {block.startTime} - {block.endTime}
+                                        </Text>
+                                        <Text style={styles.blockDays}>{describeDays(block)}</Text>
+                                    </View>
+                                    <TouchableOpacity onPress={() => handleDelete(block)}>
+                                        <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                                    </TouchableOpacity>
+                                </View>
+                            ))
+                        )}
+
+                        {/* New block */}
+                        <Text style={styles.sectionTitle}>เพิ่มช่วงปิดสนาม</Text>
+
+                        <View style={styles.chipRow}>
+                            {REASONS.map(reason => (
+                                <TouchableOpacity
+                                    key={reason}
+                                    style={[styles.chip, form.reason === reason && styles.chipSelected]}
+                                    onPress={() => setForm(f => ({ ...f, reason }))}
+                                >
+                                    <Text style={[styles.chipText, form.reason === reason && styles.chipTextSelected]}>
+                                        {BLOCK_REASON_LABELS[reason]}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <View style={styles.inputWrapper}>
+                            <TextInput
+                                style={styles.input}
+                                value={form.note}
+                                onChangeText={note => setForm(f => ({ ...f, note }))}
+                                placeholder="หมายเหตุ เช่น เปลี่ยนพื้นสนาม"
+                                placeholderTextColor={colors.neutral[400]}
+                            />
+                        </View>
+
+                        <View style={styles.timeRow}>
+                            <View style={[styles.inputWrapper, styles.timeInput]}>
+                                <TextInput
+                                    style={styles.input}
+                                    value={form.startTime}
+                                    onChangeText={startTime => setForm(f => ({ ...f, startTime }))}
+                                    placeholder="08:00"
+                                    keyboardType="numbers-and-punctuation"
+                                />
+                            </View>
+                            <Text style={styles.timeSeparator}>-</Text>
+                            <View style={[styles.inputWrapper, styles.timeInput]}>
+                                <TextInput
+                                    style={styles.input}
+                                    value={form.endTime}
+                                    onChangeText={endTime => setForm(f => ({ ...f, endTime }))}
+                                    placeholder="12:00"
+                                    keyboardType="numbers-and-punctuation"
+                                />
+                            </View>
+                            <TouchableOpacity
+                                style={styles.chip}
+                                onPress={() => setForm(f => ({ ...f, startTime: '00:00', endTime: '00:00' }))}
+                            >
+                                <Text style={styles.chipText}>ทั้งวัน</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        <View style={styles.chipRow}>
+                            <TouchableOpacity
+                                style={[styles.chip, !form.repeatWeekly && styles.chipSelected]}
+                                onPress={() => setForm(f => ({ ...f, repeatWeekly: false, hasEndDate: true }))}
+                            >
+                                <Text style={[styles.chipText, !form.repeatWeekly && styles.chipTextSelected]}>ช่วงวันที่</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[styles.chip, form.repeatWeekly && styles.chipSelected]}
+                                onPress={() => setForm(f => ({
+                                    ...f,
+                                    repeatWeekly: true,
+                                    weekdays: f.weekdays.length > 0 ? f.weekdays : [parseISO(f.date).getDay()],
+                                }))}
+                            >
+                                <Text style={[styles.chipText, form.repeatWeekly && styles.chipTextSelected]}>ทุกสัปดาห์</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        {form.repeatWeekly && (
+                            <View style={styles.chipRow}>
+                                {WEEKDAY_LABELS.map((label, day) => (
+                                    <TouchableOpacity
+                                        key={label}
+                                        style={[styles.dayChip, form.weekdays.includes(day) && styles.chipSelected]}
+                                        onPress={() => toggleWeekday(day)}
+                                    >
+                                        <Text style={[styles.chipText, form.weekdays.includes(day) && styles.chipTextSelected]}>{label}</Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        )}
+
+                        <View style={styles.dateRow}>
+                            <Text style={styles.dateLabel}>{form.repeatWeekly ? 'เริ่ม' : 'ตั้งแต่'}</Text>
+                            <View style={styles.dateStepper}>
+                                <TouchableOpacity onPress={() => shiftDate('date', -1)}>
+                                    <MaterialCommunityIcons name="chevron-left" size={22} color={colors.neutral[600]} />
+                                </TouchableOpacity>
+                                <Text style={styles.dateStepperText}>{formatDay(form.date)}</Text>
+                                <TouchableOpacity onPress={() => shiftDate('date', 1)}>
+                                    <MaterialCommunityIcons name="chevron-right" size={22} color={colors.neutral[600]} />
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+
+                        {form.repeatWeekly && (
+                            <TouchableOpacity
+                                style={styles.checkboxRow}
+                                onPress={() => setForm(f => ({ ...f, hasEndDate: !f.hasEndDate }))}
+                            >
+                                <MaterialCommunityIcons
+                                    name={form.hasEndDate ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                                    size={20}
+                                    color={colors.primary.main}
+                                />
+                                <Text style={styles.dateLabel}>กำหนดวันสิ้นสุด</Text>
+                            </TouchableOpacity>
+                        )}
+
+                        {(!form.repeatWeekly || form.hasEndDate) && (
+                            <View style={styles.dateRow}>
+                                <Text style={styles.dateLabel}>ถึง</Text>
+                                <View style={styles.dateStepper}>
+                                    <TouchableOpacity onPress={() => shiftDate('endDate', -1)}>
+                                        <MaterialCommunityIcons name="chevron-left" size={22} color={colors.neutral[600]} />
+                                    </TouchableOpacity>
+                                    <Text style={styles.dateStepperText}>{formatDay(form.endDate)}</Text>
+                                    <TouchableOpacity onPress={() => shiftDate('endDate', 1)}>
+                                        <MaterialCommunityIcons name="chevron-right" size={22} color={colors.neutral[600]} />
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        )}
+                    </ScrollView>
+
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose} disabled={saving}>
+                            <Text style={styles.cancelButtonText}>ปิด</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleAdd} disabled={saving}>
+                            {saving ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                            ) : (
+                                <Text style={styles.saveButtonText}>เพิ่มช่วงปิดสนาม</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    content: {
+        width: '100%',
+        maxWidth: 480,
+        maxHeight: '90%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.xl,
+        color: colors.neutral[900],
+    },
+    body: {
+        marginBottom: spacing.lg,
+    },
+    courtName: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.lg,
+        color: colors.primary.main,
+        marginBottom: spacing.md,
+    },
+    emptyText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[400],
+    },
+    blockItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    blockInfo: {
+        flex: 1,
+    },
+    blockTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    blockDays: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    sectionTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        marginTop: spacing.lg,
+        marginBottom: spacing.sm,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginBottom: spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    dayChip: {
+        width: 40,
+        paddingVertical: spacing.xs,
+        alignItems: 'center',
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    input: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    timeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    timeInput: {
+        width: 90,
+        marginBottom: 0,
+    },
+    timeSeparator: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.md,
+        color: colors.neutral[500],
+    },
+    dateRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    dateLabel: {
+        minWidth: 48,
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+    },
+    dateStepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        backgroundColor: colors.white,
+    },
+    dateStepperText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+        minWidth: 140,
+        textAlign: 'center',
+    },
+    checkboxRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        marginBottom: spacing.sm,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: spacing.md,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.lg,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    cancelButton: {
+        backgroundColor: colors.neutral[100],
+    },
+    cancelButtonText: {
+        fontFamily: fonts.medium,
+        color: colors.neutral[600],
+        fontSize: fontSize.md,
+    },
+    saveButton: {
+        backgroundColor: 'rgba(2, 38, 99, 0.9)', // Deep Blue
+    },
+    saveButtonText: {
+        fontFamily: fonts.semiBold,
+        color: colors.white,
+        fontSize: fontSize.md,
+    },
+});
@@ -0,0 +1,392 @@
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+    StyleSheet,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { BookingDiscount, DiscountKind, PromoCode } from '../types/booking';
+import {
+    discountService,
+    calculateDiscountAmount,
+    getPromoCodeProblem,
+    DISCOUNT_KIND_LABELS,
+} from '../services/discount.service';
+import { describeApiError } from '../services/apiErrors';
+
+export interface DiscountDraft {
+    kind: DiscountKind;
+    value: number;
+    promoCode?: string;
+    reason?: string;
+}
+
+interface DiscountModalProps {
+    visible: boolean;
+    originalAmount: number;  // Total of the bookings before any discount
+    bookingCount: number;    // Bookings in the merged group being discounted
+    existing: BookingDiscount | null;
+    saving: boolean;
+    onApply: (draft: DiscountDraft) => void;
+    onRemove: () => void;
+    onClose: () => void;
+}
+
+const KINDS = Object.keys(DISCOUNT_KIND_LABELS) as DiscountKind[];
+
+/**
+ * Give a percentage, fixed or promo-code discount on a booking or merged group
+ */
+export const DiscountModal = ({ visible, originalAmount, bookingCount, existing, saving, onApply, onRemove, onClose }: DiscountModalProps) => {
+    const [kind, setKind] = useState<DiscountKind>('PERCENT');
+    const [value, setValue] = useState('');
+    const [code, setCode] = useState('');
+    const [reason, setReason] = useState('');
+    const [promo, setPromo] = useState<PromoCode | undefined>();
+    const [promoChecked, setPromoChecked] = useState(false);
+    const [promoError, setPromoError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!visible) return;
+        setKind(existing?.kind || 'PERCENT');
+        setValue(existing && existing.kind !== 'PROMO' ? existing.value.toString() : '');
+        setCode(existing?.promoCode || '');
+        setReason(existing?.reason || '');
+        setPromo(undefined);
+        setPromoChecked(false);
+        setPromoError(null);
+    }, [visible, existing]);
+
+    const handleCheckCode = async () => {
+        setPromoError(null);
+        try {
+            setPromo(await discountService.findPromoCode(code));
+        } catch (error) {
+            setPromo(undefined);
+            setPromoError(describeApiError(error, 'ไม่สามารถตรวจสอบโค้ดส่วนลดได้'));
+        }
+        setPromoChecked(true);
+    };
+
+    const promoProblem = promoChecked ? promoError || getPromoCodeProblem(promo, existing) : null;
+    const numericValue = parseFloat(value) || 0;
+    const discountAmount = kind === 'PROMO'
+        ? (promo && !promoProblem ? calculateDiscountAmount(promo.type, promo.value, originalAmount) : 0)
+        : calculateDiscountAmount(kind, numericValue, originalAmount);
+    const canApply = kind === 'PROMO'
+        ? promoChecked && !promoProblem
+        : numericValue > 0 && (kind !== 'PERCENT' || numericValue <= 100) && reason.trim().length > 0;
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>ส่วนลด</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    {bookingCount > 1 && (
+                        <Text style={styles.scopeText}>ใช้กับการจองต่อเนื่อง {bookingCount} รายการ</Text>
+                    )}
+
+                    <View style={styles.chipRow}>
+                        {KINDS.map(k => (
+                            <TouchableOpacity
+                                key={k}
+                                style={[styles.chip, kind === k && styles.chipSelected]}
+                                onPress={() => setKind(k)}
+                            >
+                                <Text style={[styles.chipText, kind === k && styles.chipTextSelected]}>{DISCOUNT_KIND_LABELS[k]}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    {kind === 'PROMO' ? (
+                        <View style={styles.codeRow}>
+                            <View style={[styles.inputWrapper, styles.codeInput]}>
+                                <MaterialCommunityIcons name="ticket-percent-outline" size={20} color={colors.neutral[400]} />
+                                <TextInput
+                                    style={styles.input}
+                                    value={code}
+                                    onChangeText={text => {
+                                        setCode(text);
+                                        setPromoChecked(false);
+                                    }}
+                                    placeholder="กรอกโค้ดส่วนลด"
+                                    placeholderTextColor={colors.neutral[400]}
+                                    autoCapitalize="characters"
+                                />
+                            </View>
+                            <TouchableOpacity style={styles.checkButton} onPress={handleCheckCode} disabled={!code.trim()}>
+                                <Text style={styles.checkButtonText}>ตรวจสอบ</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ) : (
+                        <View style={styles.inputWrapper}>
+                            <MaterialCommunityIcons name={kind === 'PERCENT' ? 'percent' : 'cash-minus'} size={20} color={colors.neutral[400]} />
+                            <TextInput
+                                style={styles.input}
+                                value={value}
+                                onChangeText={setValue}
+                                placeholder={kind === 'PERCENT' ? 'เปอร์เซ็นต์ส่วนลด' : 'จำนวนเงินที่ลด (บาท)'}
+                                placeholderTextColor={colors.neutral[400]}
+                                keyboardType="numeric"
+                            />
+                        </View>
+                    )}
+
+                    {promoProblem && <Text style={styles.errorText}>{promoProblem}</Text>}
+                    {kind === 'PROMO' && promo && !promoProblem && (
+                        <Text style={styles.hintText}>
+                            {promo.type === 'PERCENT' ? `ลด ${promo.value}%` : `ลด ฿${promo.value.toLocaleString()}`} • ใช้ไปแล้ว {promo.usedCount}
+                            {promo.usageLimit !== undefined ? `/${promo.usageLimit}` : ''} ครั้ง
+                        </Text>
+                    )}
+
+                    <View style={styles.inputWrapper}>
+                        <TextInput
+                            style={styles.input}
+                            value={reason}
+                            onChangeText={setReason}
+                            placeholder={kind === 'PROMO' ? 'เหตุผล (ไม่บังคับ)' : 'เหตุผลที่ให้ส่วนลด *'}
+                            placeholderTextColor={colors.neutral[400]}
+                        />
+                    </View>
+
+                    <View style={styles.summary}>
+                        <View style={styles.summaryRow}>
+                            <Text style={styles.summaryLabel}>ราคาเดิม</Text>
+                            <Text style={styles.summaryValue}>฿{originalAmount.toLocaleString()}</Text>
+                        </View>
+                        <View style={styles.summaryRow}>
+                            <Text style={styles.summaryLabel}>ส่วนลด</Text>
+                            <Text style={[styles.summaryValue, styles.discountValue]}>-฿{discountAmount.toLocaleString()}</Text>
+                        </View>
+                        <View style={[styles.summaryRow, styles.totalRow]}>
+                            <Text style={styles.totalLabel}>ราคาหลังหักส่วนลด</Text>
+                            <Text style={styles.totalValue}>฿{(originalAmount - discountAmount).toLocaleString()}</Text>
+                        </View>
+                    </View>
+
+                    <View style={styles.footer}>
+                        {existing && (
+                            <TouchableOpacity style={[styles.button, styles.removeButton]} onPress={onRemove} disabled={saving}>
+                                <Text style={styles.removeButtonText}>ยกเลิกส่วนลด</Text>
+                            </TouchableOpacity>
+                        )}
+                        <TouchableOpacity
+                            style={[styles.button, styles.saveButton, (!canApply || saving) && styles.buttonDisabled]}
+                            onPress={() => onApply({
+                                kind,
+                                value: kind === 'PROMO' ? 0 : numericValue,
+                                promoCode: kind === 'PROMO' ? code : undefined,
+                                reason,
+                            })}
+                            disabled={!canApply || saving}
+                        >
+                            {saving ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                            ) : (
+                                <Text style={styles.saveButtonText}>ใช้ส่วนลด</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    content: {
+        width: '100%',
+        maxWidth: 420,
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.xl,
+        color: colors.neutral[900],
+    },
+    scopeText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.primary.main,
+        marginBottom: spacing.sm,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginBottom: spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    input: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    codeRow: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+    },
+    codeInput: {
+        flex: 1,
+    },
+    checkButton: {
+        height: 44,
+        paddingHorizontal: spacing.md,
+        justifyContent: 'center',
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.primary.main,
+    },
+    checkButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.primary.main,
+    },
+    errorText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.error,
+        marginBottom: spacing.sm,
+    },
+    hintText: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.success,
+        marginBottom: spacing.sm,
+    },
+    summary: {
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.neutral[50],
+        gap: 4,
+        marginBottom: spacing.lg,
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    summaryLabel: {
+        fontFamily: fonts.regular,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    summaryValue: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+    },
+    discountValue: {
+        color: colors.success,
+    },
+    totalRow: {
+        marginTop: 4,
+        paddingTop: 4,
+        borderTopWidth: 1,
+        borderTopColor: colors.neutral[200],
+    },
+    totalLabel: {
+        fontFamily: fonts.semiBold,
+        fontSize: 14,
+        color: colors.neutral[800],
+    },
+    totalValue: {
+        fontFamily: fonts.bold,
+        fontSize: 15,
+        color: colors.primary.main,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.md,
+        alignItems: 'center',
+    },
+    buttonDisabled: {
+        opacity: 0.5,
+    },
+    removeButton: {
+        borderWidth: 1,
+        borderColor: colors.error,
+    },
+    removeButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.error,
+    },
+    saveButton: {
+        backgroundColor: colors.primary.main,
+    },
+    saveButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.white,
+    },
+});
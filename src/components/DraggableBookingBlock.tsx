@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Animated, PanResponder, StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+
+const LONG_PRESS_DELAY = 400;
+const TAP_SLOP = 8;
+
+interface DraggableBookingBlockProps {
+    style: StyleProp<ViewStyle>;
+    children: React.ReactNode;
+    // Cancelled / finished bookings can still be tapped but not dragged
+    dragEnabled?: boolean;
+    onPress: () => void;
+    onDragStart: () => void;
+    onDragMove: (dx: number, dy: number) => void;
+    onDragEnd: (dx: number, dy: number) => void;
+    onDragCancel: () => void;
+    // Bottom edge handle for changing the duration; only shown when provided
+    onResizeStart?: () => void;
+    onResizeMove?: (dy: number) => void;
+    onResizeEnd?: (dy: number) => void;
+    onResizeCancel?: () => void;
+}
+
+/**
+ * Booking block on the timeline grid that can be tapped, long-pressed and dragged,
+ * or resized from its bottom edge.
+ * Only reports raw offsets - snapping and validation are up to the parent grid.
+ */
+export const DraggableBookingBlock = ({
+    style,
+    children,
+    dragEnabled = true,
+    onPress,
+    onDragStart,
+    onDragMove,
+    onDragEnd,
+    onDragCancel,
+    onResizeStart,
+    onResizeMove,
+    onResizeEnd,
+    onResizeCancel,
+}: DraggableBookingBlockProps) => {
+    const pan = useRef(new Animated.ValueXY()).current;
+    const [dragging, setDragging] = useState(false);
+    const draggingRef = useRef(false);
+    const movedRef = useRef(false);
+    const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // PanResponder is created once, so always call the latest handlers
+    const handlersRef = useRef({ dragEnabled, onPress, onDragStart, onDragMove, onDragEnd, onDragCancel, onResizeStart, onResizeMove, onResizeEnd, onResizeCancel });
+    handlersRef.current = { dragEnabled, onPress, onDragStart, onDragMove, onDragEnd, onDragCancel, onResizeStart, onResizeMove, onResizeEnd, onResizeCancel };
+
+    const clearLongPress = () => {
+        if (longPressTimer.current) {
+            clearTimeout(longPressTimer.current);
+            longPressTimer.current = null;
+        }
+    };
+
+    useEffect(() => clearLongPress, []);
+
+    const panResponder = useMemo(() => {
+        const finishDrag = () => {
+            clearLongPress();
+            draggingRef.current = false;
+            setDragging(false);
+            pan.setValue({ x: 0, y: 0 });
+        };
+
+        return PanResponder.create({
+            onStartShouldSetPanResponder: () => true,
+            onMoveShouldSetPanResponder: () => draggingRef.current,
+            // Let the grid scroll views take over until the long press kicks in
+            onPanResponderTerminationRequest: () => !draggingRef.current,
+            onPanResponderGrant: () => {
+                movedRef.current = false;
+                if (!handlersRef.current.dragEnabled) return;
+                longPressTimer.current = setTimeout(() => {
+                    longPressTimer.current = null;
+                    draggingRef.current = true;
+                    setDragging(true);
+                    handlersRef.current.onDragStart();
+                }, LONG_PRESS_DELAY);
+            },
+            onPanResponderMove: (_, gesture) => {
+                if (!draggingRef.current) {
+                    if (Math.abs(gesture.dx) > TAP_SLOP || Math.abs(gesture.dy) > TAP_SLOP) {
+                        movedRef.current = true;
+                        clearLongPress();
+                    }
+                    return;
+                }
+                pan.setValue({ x: gesture.dx, y: gesture.dy });
+                handlersRef.current.onDragMove(gesture.dx, gesture.dy);
+            },
+            onPanResponderRelease: (_, gesture) => {
+                if (draggingRef.current) {
+                    handlersRef.current.onDragEnd(gesture.dx, gesture.dy);
+                } else if (!movedRef.current) {
+                    handlersRef.current.onPress();
+                }
+                finishDrag();
+            },
+            onPanResponderTerminate: () => {
+                if (draggingRef.current) {
+                    handlersRef.current.onDragCancel();
+                }
+                finishDrag();
+            },
+        });
+    }, [pan]);
+
+    // The handle is a child responder, so it wins over the block's own long-press
+    const resizeResponder = useMemo(() => PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => handlersRef.current.onResizeStart?.(),
+        onPanResponderMove: (_, gesture) => handlersRef.current.onResizeMove?.(gesture.dy),
+        onPanResponderRelease: (_, gesture) => handlersRef.current.onResizeEnd?.(gesture.dy),
+        onPanResponderTerminate: () => handlersRef.current.onResizeCancel?.(),
+    }), []);
+
+    return (
+        <Animated.View
+            {...panResponder.panHandlers}
+            style={[
+                style,
+                dragging && styles.dragging,
+                { transform: pan.getTranslateTransform() },
+            ]}
+        >
+            {children}
+            {onResizeMove && dragEnabled && (
+                <View {...resizeResponder.panHandlers} style={styles.resizeHandle}>
+                    <View style={styles.resizeGrip} />
+                </View>
+            )}
+        </Animated.View>
+    );
+};
+
+const styles = StyleSheet.create({
+    dragging: {
+        opacity: 0.85,
+        zIndex: 100,
+        elevation: 10,
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+    },
+    resizeHandle: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        height: 14,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    resizeGrip: {
+        width: 24,
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: 'rgba(0, 0, 0, 0.25)',
+    },
+});
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { memberService, Member } from '../services/member.service';
+
+interface MemberAutocompleteProps {
+    query: string;                   // Whatever was last typed into the name or phone field
+    businessId?: string;
+    memberId?: string;               // Member the form is linked to
+    onSelect: (member: Member) => void;
+    onUnlink: () => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 5;
+
+const formatVisit = (date?: string | null) => (date ? format(parseISO(date), 'd MMM yy', { locale: th }) : 'ยังไม่เคยมา');
+
+/**
+ * Member suggestions for the booking form, and the linked member's record once one is picked
+ */
+export const MemberAutocomplete = ({ query, businessId, memberId, onSelect, onUnlink }: MemberAutocompleteProps) => {
+    const [suggestions, setSuggestions] = useState<Member[]>([]);
+    const [searching, setSearching] = useState(false);
+    const [record, setRecord] = useState<{ noShows: number; lastVisit: string | null } | null>(null);
+
+    // Search as staff type, once they pause
+    useEffect(() => {
+        const search = query.trim();
+        if (memberId || search.length < MIN_QUERY_LENGTH) {
+            setSuggestions([]);
+            return;
+        }
+
+        // Aborted when the query changes or the form closes
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            setSearching(true);
+            try {
+                const res = await memberService.getMembers({
+                    search,
+                    limit: MAX_SUGGESTIONS,
+                    sortBy: 'lastBookingDate',
+                    sortOrder: 'desc',
+                    businessId,
+                    signal: controller.signal,
+                });
+                if (!controller.signal.aborted) setSuggestions(res.members);
+            } finally {
+                if (!controller.signal.aborted) setSearching(false);
+            }
+        }, SEARCH_DELAY_MS);
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+    }, [query, memberId, businessId]);
+
+    useEffect(() => {
+        setRecord(null);
+        if (!memberId) return;
+
+        const controller = new AbortController();
+        memberService.getMemberDetail(memberId, controller.signal).then(detail => {
+            if (!controller.signal.aborted && detail) {
+                setRecord({ noShows: detail.statistics.noShowBookings, lastVisit: detail.member.lastBookingAt });
+            }
+        });
+        return () => controller.abort();
+    }, [memberId]);
+
+    if (memberId) {
+        return (
+            <View style={styles.linkedCard}>
+                <MaterialCommunityIcons name="account-check" size={20} color={colors.success} />
+                <View style={styles.linkedInfo}>
+                    <Text style={styles.linkedTitle}>สมาชิก</Text>
+                    {record ? (
+                        <Text style={styles.linkedMeta}>
+                            มาล่าสุด {formatVisit(record.lastVisit)} •{' '}
+                            <Text style={record.noShows > 0 ? styles.noShowWarning : undefined}>ไม่มาใช้บริการ {record.noShows} ครั้ง</Text>
+                        </Text>
+                    ) : (
+                        <ActivityIndicator size="small" color={colors.neutral[400]} style={styles.linkedLoading} />
+                    )}
+                </View>
+                <TouchableOpacity onPress={onUnlink}>
+                    <Text style={styles.unlinkText}>ยกเลิกการเชื่อม</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    if (!searching && suggestions.length === 0) return null;
+
+    return (
+        <View style={styles.list}>
+            {searching && suggestions.length === 0 ? (
+                <ActivityIndicator size="small" color={colors.primary.main} style={styles.listLoading} />
+            ) : (
+                suggestions.map(member => (
+                    <TouchableOpacity key={member.id} style={styles.item} onPress={() => onSelect(member)}>
+                        <MaterialCommunityIcons name="account-circle-outline" size={22} color={colors.neutral[400]} />
+                        <View style={styles.itemInfo}>
+                            <Text style={styles.itemName}>{member.name || '-'}</Text>
+                            <Text style={styles.itemMeta}>
+                                {member.phone || '-'} • มาล่าสุด {formatVisit(member.lastBookingDate)}
+                            </Text>
+                        </View>
+                        {member.totalBookings ? <Text style={styles.itemCount}>{member.totalBookings} ครั้ง</Text> : null}
+                    </TouchableOpacity>
+                ))
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    list: {
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.white,
+        marginBottom: spacing.md,
+        overflow: 'hidden',
+    },
+    listLoading: {
+        marginVertical: spacing.sm,
+    },
+    item: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.neutral[100],
+    },
+    itemInfo: {
+        flex: 1,
+    },
+    itemName: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[900],
+    },
+    itemMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    itemCount: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    linkedCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: '#ECFDF5',
+        borderWidth: 1,
+        borderColor: '#A7F3D0',
+        marginBottom: spacing.md,
+    },
+    linkedInfo: {
+        flex: 1,
+    },
+    linkedTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: '#047857',
+    },
+    linkedMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[600],
+    },
+    linkedLoading: {
+        alignSelf: 'flex-start',
+    },
+    noShowWarning: {
+        fontFamily: fonts.semiBold,
+        color: colors.error,
+    },
+    unlinkText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+});
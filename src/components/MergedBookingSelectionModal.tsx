@@ -12,6 +12,7 @@ interface MergedBookingSelectionModalProps {
     onEdit: () => void;
     onBulkPayment: () => void;
     onBulkStatusChange: (status: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED' | 'NO_SHOW') => void;
+    onAddToWaitlist?: () => void;
 }
 
 const STATUS_OPTIONS = [
@@ -29,7 +30,8 @@ export const MergedBookingSelectionModal: React.FC<MergedBookingSelectionModalPr
     onSelectSlot,
     onEdit,
     onBulkPayment,
-    onBulkStatusChange
+    onBulkStatusChange,
+    onAddToWaitlist
 }) => {
     const [selectedStatus, setSelectedStatus] = useState(STATUS_OPTIONS[0]);
 
@@ -148,6 +150,14 @@ export const MergedBookingSelectionModal: React.FC<MergedBookingSelectionModalPr
                                 </View>
                             </View>
 
+                            {/* Waitlist for this taken time */}
+                            {onAddToWaitlist && (
+                                <TouchableOpacity style={styles.waitlistButton} onPress={onAddToWaitlist}>
+                                    <MaterialCommunityIcons name="account-clock-outline" size={20} color="#4b5563" />
+                                    <Text style={styles.waitlistButtonText}>เพิ่มลูกค้ารอคิวช่วงเวลานี้</Text>
+                                </TouchableOpacity>
+                            )}
+
                             {/* Cancel Button */}
                             <TouchableOpacity
                                 style={styles.cancelButton}
@@ -311,6 +321,21 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         fontSize: 14,
     },
+    waitlistButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        padding: 12,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#d1d5db',
+    },
+    waitlistButtonText: {
+        color: '#374151',
+        fontWeight: '600',
+        fontSize: 15,
+    },
     cancelButton: {
         backgroundColor: '#e5e7eb',
         padding: 12,
@@ -57,14 +57,16 @@ export const NotificationModal: React.FC<NotificationModalProps> = ({
                 <Text style={styles.message} numberOfLines={2}>
                     {item.message}
                 </Text>
-                <Text style={styles.time}>
-                    {new Date(item.createdAt).toLocaleDateString('th-TH', {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                        day: 'numeric',
-                        month: 'short'
-                    })}
-                </Text>
+                {item.createdAt ? (
+                    <Text style={styles.time}>
+                        {new Date(item.createdAt).toLocaleDateString('th-TH', {
+                            hour: '2-digit',
+                            minute: '2-digit',
+                            day: 'numeric',
+                            month: 'short'
+                        })}
+                    </Text>
+                ) : null}
             </View>
             {!item.isRead && <View style={styles.unreadDot} />}
         </TouchableOpacity>
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, StyleProp, ViewStyle } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { format, parseISO } from 'date-fns';
+import { colors, fonts, spacing, borderRadius } from '../theme/tokens';
+import { apiService } from '../services/api.service';
+import { offlineQueueService, OfflineQueueItem, OfflineQueueItemStatus } from '../services/offlineQueue.service';
+
+interface OfflineQueueBannerProps {
+    // Called when every pending item has been replayed, so the parent can reload fresh data
+    onSynced?: () => void;
+    style?: StyleProp<ViewStyle>;
+}
+
+const STATUS_META: Record<OfflineQueueItemStatus, { label: string; icon: string; color: string; bg: string }> = {
+    pending: { label: 'รอส่ง', icon: 'cloud-upload-outline', color: '#854D0E', bg: '#FEF9C3' },
+    syncing: { label: 'กำลังซิงค์', icon: 'cloud-sync-outline', color: '#1E40AF', bg: '#DBEAFE' },
+    conflict: { label: 'ข้อมูลขัดแย้ง', icon: 'alert-octagon-outline', color: '#9A3412', bg: '#FFEDD5' },
+    failed: { label: 'ส่งไม่สำเร็จ', icon: 'close-circle-outline', color: '#991B1B', bg: '#FEE2E2' },
+};
+
+export const OfflineQueueBanner = ({ onSynced, style }: OfflineQueueBannerProps) => {
+    const [items, setItems] = useState<OfflineQueueItem[]>([]);
+    const [expanded, setExpanded] = useState(false);
+    const pendingCountRef = useRef(0);
+
+    useEffect(() => {
+        return offlineQueueService.subscribe(setItems);
+    }, []);
+
+    const pendingCount = items.filter(i => i.status === 'pending' || i.status === 'syncing').length;
+    const problemCount = items.length - pendingCount;
+
+    // Notify parent once the outbox drains
+    useEffect(() => {
+        if (pendingCountRef.current > 0 && pendingCount === 0) {
+            onSynced?.();
+        }
+        pendingCountRef.current = pendingCount;
+    }, [pendingCount, onSynced]);
+
+    if (items.length === 0) return null;
+
+    const handleDiscard = (item: OfflineQueueItem) => {
+        Alert.alert(
+            'ลบรายการที่ยังไม่ซิงค์',
+            `ต้องการลบ "${item.label}" ออกจากคิวใช่หรือไม่? รายการนี้จะไม่ถูกส่งไปยังระบบ`,
+            [
+                { text: 'ยกเลิก', style: 'cancel' },
+                { text: 'ลบ', style: 'destructive', onPress: () => offlineQueueService.remove(item.id) }
+            ]
+        );
+    };
+
+    const handleRetry = async (item: OfflineQueueItem) => {
+        await offlineQueueService.retry(item.id);
+        apiService.flushOfflineQueue();
+    };
+
+    return (
+        <View style={[styles.container, problemCount > 0 && styles.containerProblem, style]}>
+            <TouchableOpacity style={styles.summaryRow} onPress={() => setExpanded(!expanded)} activeOpacity={0.7}>
+                <MaterialCommunityIcons
+                    name={problemCount > 0 ? 'cloud-alert' : 'cloud-off-outline'}
+                    size={20}
+                    color={problemCount > 0 ? colors.error : colors.warning}
+                />
+                <Text style={styles.summaryText}>
+                    {pendingCount > 0 ? `รอซิงค์ ${pendingCount} รายการ` : ''}
+                    {pendingCount > 0 && problemCount > 0 ? ' • ' : ''}
+                    {problemCount > 0 ? `ต้องตรวจสอบ ${problemCount} รายการ` : ''}
+                </Text>
+                {pendingCount > 0 && (
+                    <TouchableOpacity style={styles.syncButton} onPress={() => apiService.flushOfflineQueue()}>
+                        <MaterialCommunityIcons name="sync" size={16} color={colors.primary.main} />
+                        <Text style={styles.syncButtonText}>ซิงค์ตอนนี้</Text>
+                    </TouchableOpacity>
+                )}
+                <MaterialCommunityIcons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={colors.neutral[500]} />
+            </TouchableOpacity>
+
+            {expanded && (
+                <ScrollView style={styles.list} nestedScrollEnabled>
+                    {items.map(item => {
+                        const meta = STATUS_META[item.status];
+                        const canResolve = item.status === 'conflict' || item.status === 'failed';
+                        return (
+                            <View key={item.id} style={styles.item}>
+                                <View style={[styles.statusBadge, { backgroundColor: meta.bg }]}>
+                                    <MaterialCommunityIcons name={meta.icon} size={14} color={meta.color} />
+                                    <Text style={[styles.statusText, { color: meta.color }]}>{meta.label}</Text>
+                                </View>
+                                <View style={styles.itemBody}>
+                                    <Text style={styles.itemLabel} numberOfLines={1}>{item.label}</Text>
+                                    <Text style={styles.itemMeta}>
+                                        {format(parseISO(item.createdAt), 'd MMM HH:mm')}
+                                        {item.attempts > 0 ? ` • ลองแล้ว ${item.attempts} ครั้ง` : ''}
+                                    </Text>
+                                    {item.error && <Text style={styles.itemError} numberOfLines={2}>{item.error}</Text>}
+                                </View>
+                                {canResolve && (
+                                    <View style={styles.itemActions}>
+                                        <TouchableOpacity onPress={() => handleRetry(item)} style={styles.iconButton}>
+                                            <MaterialCommunityIcons name="refresh" size={18} color={colors.primary.main} />
+                                        </TouchableOpacity>
+                                        <TouchableOpacity onPress={() => handleDiscard(item)} style={styles.iconButton}>
+                                            <MaterialCommunityIcons name="delete-outline" size={18} color={colors.error} />
+                                        </TouchableOpacity>
+                                    </View>
+                                )}
+                            </View>
+                        );
+                    })}
+                </ScrollView>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: '#FFFBEB',
+        borderRadius: borderRadius.lg,
+        borderWidth: 1,
+        borderColor: '#FDE68A',
+        marginBottom: spacing.sm,
+        overflow: 'hidden',
+    },
+    containerProblem: {
+        backgroundColor: '#FEF2F2',
+        borderColor: '#FECACA',
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        gap: spacing.sm,
+    },
+    summaryText: {
+        flex: 1,
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+    },
+    syncButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.white,
+        borderWidth: 1,
+        borderColor: colors.primary[200],
+    },
+    syncButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.primary.main,
+    },
+    list: {
+        maxHeight: 220,
+        borderTopWidth: 1,
+        borderTopColor: 'rgba(0, 0, 0, 0.05)',
+    },
+    item: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        gap: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(0, 0, 0, 0.04)',
+    },
+    statusBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        borderRadius: borderRadius.md,
+    },
+    statusText: {
+        fontFamily: fonts.medium,
+        fontSize: 11,
+    },
+    itemBody: {
+        flex: 1,
+    },
+    itemLabel: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+    },
+    itemMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 11,
+        color: colors.neutral[500],
+    },
+    itemError: {
+        fontFamily: fonts.regular,
+        fontSize: 11,
+        color: colors.error,
+    },
+    itemActions: {
+        flexDirection: 'row',
+        gap: 4,
+    },
+    iconButton: {
+        padding: 6,
+    },
+});
@@ -0,0 +1,473 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+    StyleSheet,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { useAuth } from '../context/AuthContext';
+import { PaymentEntry, PaymentMethod } from '../types/booking';
+import {
+    paymentService,
+    summarizePayments,
+    PAYMENT_METHOD_LABELS,
+    PAYMENT_METHOD_ICONS,
+} from '../services/payment.service';
+import { pricingRulesService } from '../services/pricingRules.service';
+
+interface PaymentLedgerModalProps {
+    visible: boolean;
+    businessId?: string;
+    bookingIds: string[];    // One booking or a merged group, paid as one
+    courtId?: string;        // For the court's deposit rule
+    totalDue: number;
+    markedPaid: boolean;     // Paid flag from the API
+    onClose: () => void;
+    onChanged: (fullyPaid: boolean) => void;
+}
+
+const METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+/**
+ * Payments taken for a booking, with the outstanding balance and a form to take another
+ */
+export const PaymentLedgerModal = ({ visible, businessId, bookingIds, courtId, totalDue, markedPaid, onClose, onChanged }: PaymentLedgerModalProps) => {
+    const { user } = useAuth();
+    const [entries, setEntries] = useState<PaymentEntry[]>([]);
+    const [depositPercent, setDepositPercent] = useState<number | undefined>();
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [amount, setAmount] = useState('');
+    const [method, setMethod] = useState<PaymentMethod>('CASH');
+    const [note, setNote] = useState('');
+
+    const summary = summarizePayments(entries, totalDue, markedPaid, depositPercent);
+
+    const loadLedger = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [payments, rules] = await Promise.all([
+                paymentService.getPayments(bookingIds),
+                courtId ? pricingRulesService.getRules(courtId) : Promise.resolve(undefined),
+            ]);
+            setEntries(payments);
+            setDepositPercent(rules?.depositPercent);
+            const loaded = summarizePayments(payments, totalDue, markedPaid, rules?.depositPercent);
+            setAmount(loaded.outstanding > 0 ? loaded.outstanding.toString() : '');
+        } finally {
+            setLoading(false);
+        }
+    }, [bookingIds, courtId, totalDue, markedPaid]);
+
+    useEffect(() => {
+        if (visible) {
+            setMethod('CASH');
+            setNote('');
+            loadLedger();
+        }
+    }, [visible, loadLedger]);
+
+    const handleRecord = async () => {
+        const value = parseFloat(amount);
+        if (!value || value <= 0) {
+            Alert.alert('กรุณากรอกจำนวนเงินให้ถูกต้อง');
+            return;
+        }
+        if (value > summary.outstanding && summary.outstanding > 0) {
+            Alert.alert('จำนวนเงินเกินยอดค้างชำระ', `ยอดค้างชำระ ฿${summary.outstanding.toLocaleString()}`);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const { fullyPaid, queued } = await paymentService.recordPayment({
+                bookingIds,
+                businessId,
+                amount: value,
+                method,
+                // The first payment that leaves a balance is the deposit
+                isDeposit: entries.length === 0 && value < totalDue,
+                staff: user?.username,
+                note,
+            }, totalDue);
+            setNote('');
+            await loadLedger();
+            onChanged(fullyPaid);
+            if (queued) {
+                Alert.alert('บันทึกแบบออฟไลน์', 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต สถานะชำระเงินจะถูกซิงค์อัตโนมัติเมื่อกลับมาออนไลน์');
+            }
+        } catch (error) {
+            console.error('Failed to record payment:', error);
+            Alert.alert('ผิดพลาด', 'ไม่สามารถบันทึกการชำระเงินได้');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = (entry: PaymentEntry) => {
+        Alert.alert('ลบรายการชำระเงิน', `ต้องการลบรายการ ฿${entry.amount.toLocaleString()} (${PAYMENT_METHOD_LABELS[entry.method]}) ใช่หรือไม่?`, [
+            { text: 'ยกเลิก', style: 'cancel' },
+            {
+                text: 'ลบ',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        const { fullyPaid } = await paymentService.deletePayment(entry, totalDue);
+                        await loadLedger();
+                        onChanged(fullyPaid);
+                    } catch (error) {
+                        console.error('Failed to delete payment:', error);
+                        Alert.alert('ผิดพลาด', 'ไม่สามารถลบรายการชำระเงินได้');
+                    }
+                }
+            }
+        ]);
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>การชำระเงิน</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.body}>
+                        {/* Balance */}
+                        <View style={styles.summary}>
+                            <View style={styles.summaryRow}>
+                                <Text style={styles.summaryLabel}>ยอดรวม{bookingIds.length > 1 ? ` (${bookingIds.length} รายการ)` : ''}</Text>
+                                <Text style={styles.summaryValue}>฿{summary.totalDue.toLocaleString()}</Text>
+                            </View>
+                            <View style={styles.summaryRow}>
+                                <Text style={styles.summaryLabel}>ชำระแล้ว</Text>
+                                <Text style={[styles.summaryValue, styles.paidValue]}>฿{summary.paid.toLocaleString()}</Text>
+                            </View>
+                            {summary.depositRequired > 0 && (
+                                <View style={styles.summaryRow}>
+                                    <Text style={styles.summaryLabel}>มัดจำขั้นต่ำ ({depositPercent}%)</Text>
+                                    <Text style={[styles.summaryValue, !summary.depositPaid && styles.warningValue]}>
+                                        ฿{summary.depositRequired.toLocaleString()} {summary.depositPaid ? '✓' : '• ยังไม่ได้มัดจำ'}
+                                    </Text>
+                                </View>
+                            )}
+                            <View style={[styles.summaryRow, styles.totalRow]}>
+                                <Text style={styles.totalLabel}>ค้างชำระ</Text>
+                                <Text style={[styles.totalValue, summary.outstanding === 0 && styles.paidValue]}>
+                                    {summary.outstanding === 0 ? 'ชำระครบแล้ว' : `฿${summary.outstanding.toLocaleString()}`}
+                                </Text>
+                            </View>
+                        </View>
+
+                        {/* Ledger */}
+                        {loading ? (
+                            <ActivityIndicator color={colors.primary.main} />
+                        ) : entries.length === 0 ? (
+                            <Text style={styles.emptyText}>
+                                {markedPaid ? 'ชำระแล้ว (ไม่มีรายละเอียดการชำระ)' : 'ยังไม่มีการชำระเงิน'}
+                            </Text>
+                        ) : (
+                            entries.map(entry => (
+                                <View key={entry.id} style={styles.entryItem}>
+                                    <MaterialCommunityIcons name={PAYMENT_METHOD_ICONS[entry.method]} size={20} color={colors.neutral[600]} />
+                                    <View style={styles.entryInfo}>
+                                        <Text style={styles.entryTitle}>
+                                            ฿{entry.amount.toLocaleString()} • {PAYMENT_METHOD_LABELS[entry.method]}{entry.isDeposit ? ' • มัดจำ' : ''}
+                                        </Text>
+                                        <Text style={styles.entryMeta}>
+                                            {format(parseISO(entry.paidAt), 'd MMM HH:mm', { locale: th })}
+                                            {entry.staff ? ` • ${entry.staff}` : ''}
+                                            {entry.note ? ` • ${entry.note}` : ''}
+                                        </Text>
+                                    </View>
+                                    <TouchableOpacity onPress={() => handleDelete(entry)}>
+                                        <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                                    </TouchableOpacity>
+                                </View>
+                            ))
+                        )}
+
+                        {/* New payment */}
+                        {summary.outstanding > 0 && (
+                            <>
+                                <Text style={styles.sectionTitle}>รับชำระเงิน</Text>
+                                <View style={styles.chipRow}>
+                                    {METHODS.map(m => (
+                                        <TouchableOpacity
+                                            key={m}
+                                            style={[styles.chip, method === m && styles.chipSelected]}
+                                            onPress={() => setMethod(m)}
+                                        >
+                                            <MaterialCommunityIcons
+                                                name={PAYMENT_METHOD_ICONS[m]}
+                                                size={16}
+                                                color={method === m ? colors.primary.main : colors.neutral[500]}
+                                            />
+                                            <Text style={[styles.chipText, method === m && styles.chipTextSelected]}>{PAYMENT_METHOD_LABELS[m]}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
+                                <View style={styles.inputWrapper}>
+                                    <Text style={styles.currency}>฿</Text>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={amount}
+                                        onChangeText={setAmount}
+                                        placeholder="จำนวนเงิน"
+                                        placeholderTextColor={colors.neutral[400]}
+                                        keyboardType="numeric"
+                                    />
+                                </View>
+                                <View style={styles.chipRow}>
+                                    {!summary.depositPaid && (
+                                        <TouchableOpacity
+                                            style={styles.chip}
+                                            onPress={() => setAmount((summary.depositRequired - summary.paid).toString())}
+                                        >
+                                            <Text style={styles.chipText}>มัดจำ ฿{(summary.depositRequired - summary.paid).toLocaleString()}</Text>
+                                        </TouchableOpacity>
+                                    )}
+                                    <TouchableOpacity style={styles.chip} onPress={() => setAmount(summary.outstanding.toString())}>
+                                        <Text style={styles.chipText}>เต็มจำนวน ฿{summary.outstanding.toLocaleString()}</Text>
+                                    </TouchableOpacity>
+                                </View>
+
+                                <View style={styles.inputWrapper}>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={note}
+                                        onChangeText={setNote}
+                                        placeholder="หมายเหตุ (ไม่บังคับ)"
+                                        placeholderTextColor={colors.neutral[400]}
+                                    />
+                                </View>
+                            </>
+                        )}
+                    </ScrollView>
+
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose} disabled={saving}>
+                            <Text style={styles.cancelButtonText}>ปิด</Text>
+                        </TouchableOpacity>
+                        {summary.outstanding > 0 && (
+                            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleRecord} disabled={saving}>
+                                {saving ? (
+                                    <ActivityIndicator size="small" color={colors.white} />
+                                ) : (
+                                    <Text style={styles.saveButtonText}>บันทึกรับเงิน</Text>
+                                )}
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    content: {
+        width: '100%',
+        maxWidth: 460,
+        maxHeight: '90%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.xl,
+        color: colors.neutral[900],
+    },
+    body: {
+        marginBottom: spacing.lg,
+    },
+    summary: {
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.neutral[50],
+        gap: 4,
+        marginBottom: spacing.md,
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    summaryLabel: {
+        fontFamily: fonts.regular,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    summaryValue: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+    },
+    paidValue: {
+        color: colors.success,
+    },
+    warningValue: {
+        color: colors.warning,
+    },
+    totalRow: {
+        marginTop: 4,
+        paddingTop: 4,
+        borderTopWidth: 1,
+        borderTopColor: colors.neutral[200],
+    },
+    totalLabel: {
+        fontFamily: fonts.semiBold,
+        fontSize: 14,
+        color: colors.neutral[800],
+    },
+    totalValue: {
+        fontFamily: fonts.bold,
+        fontSize: 15,
+        color: colors.error,
+    },
+    emptyText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[400],
+    },
+    entryItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        marginBottom: spacing.sm,
+    },
+    entryInfo: {
+        flex: 1,
+    },
+    entryTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    entryMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    sectionTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        marginTop: spacing.md,
+        marginBottom: spacing.sm,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginBottom: spacing.sm,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    currency: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[500],
+    },
+    input: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.md,
+        alignItems: 'center',
+    },
+    cancelButton: {
+        backgroundColor: colors.neutral[100],
+    },
+    cancelButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[700],
+    },
+    saveButton: {
+        backgroundColor: colors.primary.main,
+    },
+    saveButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.white,
+    },
+});
@@ -0,0 +1,178 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, fonts, spacing, borderRadius } from '../theme/tokens';
+import { MemberTier } from '../types/court';
+import { PriceQuote } from '../utils/pricing';
+
+interface PriceBreakdownProps {
+    quote: PriceQuote;
+    memberTiers: MemberTier[];
+    selectedTierId: string | null;
+    onSelectTier: (tierId: string | null) => void;
+    priceOverridden: boolean; // Staff typed a different price
+}
+
+const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours > 0 ? `${hours} ชม. ` : ''}${mins > 0 ? `${mins} นาที` : ''}`.trim();
+};
+
+/**
+ * How the quoted price of a booking is made up, with the member discount picker
+ */
+export const PriceBreakdown = ({ quote, memberTiers, selectedTierId, onSelectTier, priceOverridden }: PriceBreakdownProps) => {
+    return (
+        <View style={styles.container}>
+            <View style={styles.headerRow}>
+                <MaterialCommunityIcons name="calculator-variant-outline" size={18} color={colors.neutral[600]} />
+                <Text style={styles.headerText}>รายละเอียดราคา</Text>
+            </View>
+
+            {quote.lines.map((line, index) => (
+                <View key={`${line.label}-${index}`} style={styles.row}>
+                    <Text style={styles.rowLabel}>
+                        {line.label} • {formatMinutes(line.minutes)} × ฿{line.hourlyRate.toLocaleString()}/ชม.
+                    </Text>
+                    <Text style={styles.rowValue}>฿{line.amount.toLocaleString()}</Text>
+                </View>
+            ))}
+
+            {memberTiers.length > 0 && (
+                <View style={styles.tierRow}>
+                    <TouchableOpacity
+                        style={[styles.chip, !selectedTierId && styles.chipSelected]}
+                        onPress={() => onSelectTier(null)}
+                    >
+                        <Text style={[styles.chipText, !selectedTierId && styles.chipTextSelected]}>ไม่ใช่สมาชิก</Text>
+                    </TouchableOpacity>
+                    {memberTiers.map(tier => (
+                        <TouchableOpacity
+                            key={tier.id}
+                            style={[styles.chip, selectedTierId === tier.id && styles.chipSelected]}
+                            onPress={() => onSelectTier(tier.id)}
+                        >
+                            <Text style={[styles.chipText, selectedTierId === tier.id && styles.chipTextSelected]}>
+                                {tier.name} -{tier.discountPercent}%
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+
+            {quote.discount && (
+                <View style={styles.row}>
+                    <Text style={styles.rowLabel}>ส่วนลดสมาชิก {quote.discount.label} ({quote.discount.percent}%)</Text>
+                    <Text style={[styles.rowValue, styles.discountValue]}>-฿{quote.discount.amount.toLocaleString()}</Text>
+                </View>
+            )}
+
+            <View style={[styles.row, styles.totalRow]}>
+                <Text style={styles.totalLabel}>ราคาตามเรท</Text>
+                <Text style={styles.totalValue}>฿{quote.total.toLocaleString()}</Text>
+            </View>
+
+            {priceOverridden && (
+                <Text style={styles.note}>ราคาที่กรอกแตกต่างจากราคาตามเรท</Text>
+            )}
+            {quote.belowMinimum && (
+                <Text style={styles.warning}>ต้องจองขั้นต่ำ {quote.minDurationMinutes} นาที</Text>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        marginBottom: spacing.md,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        gap: 4,
+    },
+    headerRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        marginBottom: 2,
+    },
+    headerText: {
+        fontFamily: fonts.semiBold,
+        fontSize: 14,
+        color: colors.neutral[700],
+    },
+    row: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    rowLabel: {
+        flex: 1,
+        fontFamily: fonts.regular,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    rowValue: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+    },
+    discountValue: {
+        color: colors.success,
+    },
+    tierRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginVertical: 4,
+    },
+    chip: {
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 4,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    totalRow: {
+        marginTop: 4,
+        paddingTop: 4,
+        borderTopWidth: 1,
+        borderTopColor: colors.neutral[200],
+    },
+    totalLabel: {
+        fontFamily: fonts.semiBold,
+        fontSize: 14,
+        color: colors.neutral[800],
+    },
+    totalValue: {
+        fontFamily: fonts.bold,
+        fontSize: 15,
+        color: colors.primary.main,
+    },
+    note: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    warning: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.error,
+    },
+});
@@ -0,0 +1,317 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { PricingRules, PriceBand, HolidayRate, MemberTier } from '../types/court';
+import { WEEKDAY_LABELS } from '../utils/recurrence';
+
+interface PricingRulesEditorProps {
+    rules: PricingRules;
+    onChange: (rules: PricingRules) => void;
+}
+
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * First problem in a set of pricing rules, or null when they can be saved
+ */
+export const validatePricingRules = (rules: PricingRules): string | null => {
+    for (const band of rules.bands) {
+        if (!TIME_REGEX.test(band.startTime) || !TIME_REGEX.test(band.endTime)) return 'รูปแบบเวลาของช่วงราคาไม่ถูกต้อง (HH:mm)';
+        if (!(band.hourlyRate >= 0)) return 'กรุณากรอกราคาของช่วงราคาให้ถูกต้อง';
+    }
+    for (const holiday of rules.holidays) {
+        if (!DATE_REGEX.test(holiday.date)) return 'รูปแบบวันที่ของวันหยุดไม่ถูกต้อง (YYYY-MM-DD)';
+    }
+    for (const tier of rules.memberTiers) {
+        if (!tier.name.trim()) return 'กรุณากรอกชื่อระดับสมาชิก';
+        if (tier.discountPercent < 0 || tier.discountPercent > 100) return 'ส่วนลดสมาชิกต้องอยู่ระหว่าง 0-100%';
+    }
+    if (rules.depositPercent !== undefined && rules.depositPercent > 100) return 'เงินมัดจำต้องไม่เกิน 100%';
+    return null;
+};
+
+/**
+ * Edit time bands, holiday rates, member discounts, the minimum duration and deposit of a court
+ */
+export const PricingRulesEditor = ({ rules, onChange }: PricingRulesEditorProps) => {
+    const updateBand = (id: string, changes: Partial<PriceBand>) =>
+        onChange({ ...rules, bands: rules.bands.map(b => (b.id === id ? { ...b, ...changes } : b)) });
+    const updateHoliday = (index: number, changes: Partial<HolidayRate>) =>
+        onChange({ ...rules, holidays: rules.holidays.map((h, i) => (i === index ? { ...h, ...changes } : h)) });
+    const updateTier = (id: string, changes: Partial<MemberTier>) =>
+        onChange({ ...rules, memberTiers: rules.memberTiers.map(t => (t.id === id ? { ...t, ...changes } : t)) });
+
+    const toggleBandWeekday = (band: PriceBand, day: number) => {
+        updateBand(band.id, {
+            weekdays: band.weekdays.includes(day) ? band.weekdays.filter(d => d !== day) : [...band.weekdays, day],
+        });
+    };
+
+    const toNumber = (text: string) => Number(text.replace(/[^0-9.]/g, '')) || 0;
+
+    return (
+        <View>
+            {/* Time-of-day / day-of-week bands */}
+            <Text style={styles.sectionTitle}>ราคาตามช่วงเวลา</Text>
+            <Text style={styles.hint}>ไม่เลือกวัน = ทุกวัน • ช่วงที่เลือกวันจะใช้ก่อนช่วงทุกวัน</Text>
+            {rules.bands.map(band => (
+                <View key={band.id} style={styles.card}>
+                    <View style={styles.row}>
+                        <TextInput
+                            style={[styles.input, styles.flexInput]}
+                            value={band.label}
+                            onChangeText={label => updateBand(band.id, { label })}
+                            placeholder="ชื่อ เช่น Peak"
+                            placeholderTextColor={colors.neutral[400]}
+                        />
+                        <TouchableOpacity onPress={() => onChange({ ...rules, bands: rules.bands.filter(b => b.id !== band.id) })}>
+                            <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                        </TouchableOpacity>
+                    </View>
+                    <View style={styles.row}>
+                        <TextInput
+                            style={[styles.input, styles.timeInput]}
+                            value={band.startTime}
+                            onChangeText={startTime => updateBand(band.id, { startTime })}
+                            placeholder="17:00"
+                            keyboardType="numbers-and-punctuation"
+                        />
+                        <Text style={styles.separator}>-</Text>
+                        <TextInput
+                            style={[styles.input, styles.timeInput]}
+                            value={band.endTime}
+                            onChangeText={endTime => updateBand(band.id, { endTime })}
+                            placeholder="22:00"
+                            keyboardType="numbers-and-punctuation"
+                        />
+                        <TextInput
+                            style={[styles.input, styles.flexInput]}
+                            value={band.hourlyRate ? band.hourlyRate.toString() : ''}
+                            onChangeText={text => updateBand(band.id, { hourlyRate: toNumber(text) })}
+                            placeholder="บาท/ชม."
+                            placeholderTextColor={colors.neutral[400]}
+                            keyboardType="numeric"
+                        />
+                    </View>
+                    <View style={styles.chipRow}>
+                        {WEEKDAY_LABELS.map((label, day) => (
+                            <TouchableOpacity
+                                key={label}
+                                style={[styles.dayChip, band.weekdays.includes(day) && styles.chipSelected]}
+                                onPress={() => toggleBandWeekday(band, day)}
+                            >
+                                <Text style={[styles.chipText, band.weekdays.includes(day) && styles.chipTextSelected]}>{label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </View>
+            ))}
+            <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => onChange({
+                    ...rules,
+                    bands: [...rules.bands, { id: generateId(), label: '', startTime: '17:00', endTime: '22:00', weekdays: [], hourlyRate: 0 }],
+                })}
+            >
+                <MaterialCommunityIcons name="plus" size={16} color={colors.primary.main} />
+                <Text style={styles.addButtonText}>เพิ่มช่วงราคา</Text>
+            </TouchableOpacity>
+
+            {/* Holiday overrides */}
+            <Text style={styles.sectionTitle}>ราคาวันหยุดนักขัตฤกษ์</Text>
+            {rules.holidays.map((holiday, index) => (
+                <View key={index} style={[styles.card, styles.row]}>
+                    <TextInput
+                        style={[styles.input, styles.dateInput]}
+                        value={holiday.date}
+                        onChangeText={date => updateHoliday(index, { date })}
+                        placeholder="2026-12-31"
+                        keyboardType="numbers-and-punctuation"
+                    />
+                    <TextInput
+                        style={[styles.input, styles.flexInput]}
+                        value={holiday.label}
+                        onChangeText={label => updateHoliday(index, { label })}
+                        placeholder="ชื่อวันหยุด"
+                        placeholderTextColor={colors.neutral[400]}
+                    />
+                    <TextInput
+                        style={[styles.input, styles.rateInput]}
+                        value={holiday.hourlyRate ? holiday.hourlyRate.toString() : ''}
+                        onChangeText={text => updateHoliday(index, { hourlyRate: toNumber(text) })}
+                        placeholder="บาท/ชม."
+                        placeholderTextColor={colors.neutral[400]}
+                        keyboardType="numeric"
+                    />
+                    <TouchableOpacity onPress={() => onChange({ ...rules, holidays: rules.holidays.filter((_, i) => i !== index) })}>
+                        <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                    </TouchableOpacity>
+                </View>
+            ))}
+            <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => onChange({ ...rules, holidays: [...rules.holidays, { date: '', label: '', hourlyRate: 0 }] })}
+            >
+                <MaterialCommunityIcons name="plus" size={16} color={colors.primary.main} />
+                <Text style={styles.addButtonText}>เพิ่มวันหยุด</Text>
+            </TouchableOpacity>
+
+            {/* Member tier discounts */}
+            <Text style={styles.sectionTitle}>ส่วนลดสมาชิก</Text>
+            {rules.memberTiers.map(tier => (
+                <View key={tier.id} style={[styles.card, styles.row]}>
+                    <TextInput
+                        style={[styles.input, styles.flexInput]}
+                        value={tier.name}
+                        onChangeText={name => updateTier(tier.id, { name })}
+                        placeholder="ระดับ เช่น Gold"
+                        placeholderTextColor={colors.neutral[400]}
+                    />
+                    <TextInput
+                        style={[styles.input, styles.rateInput]}
+                        value={tier.discountPercent ? tier.discountPercent.toString() : ''}
+                        onChangeText={text => updateTier(tier.id, { discountPercent: toNumber(text) })}
+                        placeholder="%"
+                        placeholderTextColor={colors.neutral[400]}
+                        keyboardType="numeric"
+                    />
+                    <TouchableOpacity onPress={() => onChange({ ...rules, memberTiers: rules.memberTiers.filter(t => t.id !== tier.id) })}>
+                        <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                    </TouchableOpacity>
+                </View>
+            ))}
+            <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => onChange({ ...rules, memberTiers: [...rules.memberTiers, { id: generateId(), name: '', discountPercent: 10 }] })}
+            >
+                <MaterialCommunityIcons name="plus" size={16} color={colors.primary.main} />
+                <Text style={styles.addButtonText}>เพิ่มระดับสมาชิก</Text>
+            </TouchableOpacity>
+
+            {/* Minimum duration */}
+            <Text style={styles.sectionTitle}>ระยะเวลาจองขั้นต่ำ (นาที)</Text>
+            <TextInput
+                style={[styles.input, styles.rateInput]}
+                value={rules.minDurationMinutes ? rules.minDurationMinutes.toString() : ''}
+                onChangeText={text => onChange({ ...rules, minDurationMinutes: toNumber(text) || undefined })}
+                placeholder="ไม่กำหนด"
+                placeholderTextColor={colors.neutral[400]}
+                keyboardType="numeric"
+            />
+
+            {/* Deposit */}
+            <Text style={styles.sectionTitle}>เงินมัดจำ (% ของราคา)</Text>
+            <TextInput
+                style={[styles.input, styles.rateInput]}
+                value={rules.depositPercent ? rules.depositPercent.toString() : ''}
+                onChangeText={text => onChange({ ...rules, depositPercent: toNumber(text) || undefined })}
+                placeholder="ไม่ต้องมัดจำ"
+                placeholderTextColor={colors.neutral[400]}
+                keyboardType="numeric"
+            />
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    sectionTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        marginTop: spacing.md,
+        marginBottom: spacing.xs,
+    },
+    hint: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+        marginBottom: spacing.xs,
+    },
+    card: {
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+        gap: spacing.xs,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 6,
+        backgroundColor: colors.white,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[900],
+    },
+    flexInput: {
+        flex: 1,
+    },
+    timeInput: {
+        width: 70,
+        textAlign: 'center',
+    },
+    dateInput: {
+        width: 110,
+    },
+    rateInput: {
+        width: 90,
+    },
+    separator: {
+        fontFamily: fonts.medium,
+        color: colors.neutral[500],
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 4,
+    },
+    dayChip: {
+        width: 36,
+        paddingVertical: 4,
+        alignItems: 'center',
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    addButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        gap: 4,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 6,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.primary[50],
+    },
+    addButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.primary.main,
+    },
+});
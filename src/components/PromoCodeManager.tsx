@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Alert, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { addDays, format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { PromoCode } from '../types/booking';
+import { discountService, normalizePromoCode } from '../services/discount.service';
+import { describeApiError } from '../services/apiErrors';
+
+const emptyForm = () => ({
+    code: '',
+    type: 'PERCENT' as PromoCode['type'],
+    value: '',
+    validFrom: format(new Date(), 'yyyy-MM-dd'),
+    validTo: format(addDays(new Date(), 30), 'yyyy-MM-dd'),
+    usageLimit: '',
+});
+
+const formatDay = (date: string) => format(parseISO(date), 'd MMM yyyy', { locale: th });
+
+/**
+ * Create and remove promo codes that staff can apply to bookings
+ */
+export const PromoCodeManager = () => {
+    const [codes, setCodes] = useState<PromoCode[]>([]);
+    const [form, setForm] = useState(emptyForm);
+
+    const loadCodes = useCallback(async () => {
+        try {
+            const all = await discountService.getPromoCodes();
+            setCodes(all.sort((a, b) => b.validTo.localeCompare(a.validTo)));
+        } catch (error) {
+            console.error('Failed to load promo codes:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถโหลดโค้ดส่วนลดได้'));
+        }
+    }, []);
+
+    useEffect(() => {
+        loadCodes();
+    }, [loadCodes]);
+
+    const shiftDate = (field: 'validFrom' | 'validTo', days: number) => {
+        const next = format(addDays(parseISO(form[field]), days), 'yyyy-MM-dd');
+        if (field === 'validFrom') {
+            setForm(f => ({ ...f, validFrom: next, validTo: f.validTo < next ? next : f.validTo }));
+        } else if (next >= form.validFrom) {
+            setForm(f => ({ ...f, validTo: next }));
+        }
+    };
+
+    const handleAdd = async () => {
+        const code = normalizePromoCode(form.code);
+        const value = parseFloat(form.value);
+        const usageLimit = form.usageLimit ? parseInt(form.usageLimit, 10) : undefined;
+
+        if (!code) {
+            Alert.alert('กรุณากรอกโค้ดส่วนลด');
+            return;
+        }
+        if (!value || value <= 0 || (form.type === 'PERCENT' && value > 100)) {
+            Alert.alert('มูลค่าส่วนลดไม่ถูกต้อง');
+            return;
+        }
+        if (usageLimit !== undefined && (isNaN(usageLimit) || usageLimit <= 0)) {
+            Alert.alert('จำนวนครั้งที่ใช้ได้ไม่ถูกต้อง');
+            return;
+        }
+        if (codes.some(c => c.code === code)) {
+            Alert.alert('มีโค้ดนี้อยู่แล้ว');
+            return;
+        }
+
+        try {
+            await discountService.savePromoCode({
+                code,
+                type: form.type,
+                value,
+                validFrom: form.validFrom,
+                validTo: form.validTo,
+                usageLimit,
+            });
+            setForm(emptyForm());
+            loadCodes();
+        } catch (error) {
+            console.error('Failed to save promo code:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถบันทึกโค้ดส่วนลดได้'));
+        }
+    };
+
+    const handleDelete = (promo: PromoCode) => {
+        Alert.alert('ลบโค้ดส่วนลด', `ต้องการลบโค้ด ${promo.code} ใช่หรือไม่? ส่วนลดที่ให้ไปแล้วจะไม่ถูกยกเลิก`, [
+            { text: 'ยกเลิก', style: 'cancel' },
+            {
+                text: 'ลบ',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await discountService.deletePromoCode(promo.code);
+                        loadCodes();
+                    } catch (error) {
+                        console.error('Failed to delete promo code:', error);
+                        Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถลบโค้ดส่วนลดได้'));
+                    }
+                }
+            }
+        ]);
+    };
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    return (
+        <View>
+            {codes.length === 0 ? (
+                <Text style={styles.emptyText}>ยังไม่มีโค้ดส่วนลด</Text>
+            ) : (
+                codes.map(promo => {
+                    const expired = promo.validTo < today;
+                    const usedUp = promo.usageLimit !== undefined && promo.usedCount >= promo.usageLimit;
+                    return (
+                        <View key={promo.code} style={[styles.codeItem, (expired || usedUp) && styles.codeItemInactive]}>
+                            <MaterialCommunityIcons name="ticket-percent-outline" size={20} color={colors.primary.main} />
+                            <View style={styles.codeInfo}>
+                                <Text style={styles.codeTitle}>
+                                    {promo.code} • {promo.type === 'PERCENT' ? `ลด ${promo.value}%` : `ลด ฿${promo.value.toLocaleString()}`}
+                                </Text>
+                                <Text style={styles.codeMeta}>
+                                    {formatDay(promo.validFrom)} - {formatDay(promo.validTo)} • ใช้ไปแล้ว {promo.usedCount}
+                                    {promo.usageLimit !== undefined ? `/${promo.usageLimit}` : ''} ครั้ง
+                                    {expired ? ' • หมดอายุ' : usedUp ? ' • ใช้ครบแล้ว' : ''}
+                                </Text>
+                            </View>
+                            <TouchableOpacity onPress={() => handleDelete(promo)}>
+                                <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                            </TouchableOpacity>
+                        </View>
+                    );
+                })
+            )}
+
+            <Text style={styles.formTitle}>เพิ่มโค้ดส่วนลด</Text>
+
+            <View style={styles.row}>
+                <View style={[styles.inputWrapper, styles.flex]}>
+                    <TextInput
+                        style={styles.input}
+                        value={form.code}
+                        onChangeText={code => setForm(f => ({ ...f, code }))}
+                        placeholder="โค้ด เช่น NEWYEAR"
+                        placeholderTextColor={colors.neutral[400]}
+                        autoCapitalize="characters"
+                    />
+                </View>
+                <TouchableOpacity
+                    style={[styles.chip, form.type === 'PERCENT' && styles.chipSelected]}
+                    onPress={() => setForm(f => ({ ...f, type: 'PERCENT' }))}
+                >
+                    <Text style={[styles.chipText, form.type === 'PERCENT' && styles.chipTextSelected]}>%</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.chip, form.type === 'FIXED' && styles.chipSelected]}
+                    onPress={() => setForm(f => ({ ...f, type: 'FIXED' }))}
+                >
+                    <Text style={[styles.chipText, form.type === 'FIXED' && styles.chipTextSelected]}>บาท</Text>
+                </TouchableOpacity>
+            </View>
+
+            <View style={styles.row}>
+                <View style={[styles.inputWrapper, styles.flex]}>
+                    <TextInput
+                        style={styles.input}
+                        value={form.value}
+                        onChangeText={value => setForm(f => ({ ...f, value }))}
+                        placeholder={form.type === 'PERCENT' ? 'ส่วนลด (%)' : 'ส่วนลด (บาท)'}
+                        placeholderTextColor={colors.neutral[400]}
+                        keyboardType="numeric"
+                    />
+                </View>
+                <View style={[styles.inputWrapper, styles.flex]}>
+                    <TextInput
+                        style={styles.input}
+                        value={form.usageLimit}
+                        onChangeText={usageLimit => setForm(f => ({ ...f, usageLimit }))}
+                        placeholder="ใช้ได้กี่ครั้ง (ว่าง = ไม่จำกัด)"
+                        placeholderTextColor={colors.neutral[400]}
+                        keyboardType="number-pad"
+                    />
+                </View>
+            </View>
+
+            {(['validFrom', 'validTo'] as const).map(field => (
+                <View key={field} style={styles.dateRow}>
+                    <Text style={styles.dateLabel}>{field === 'validFrom' ? 'ใช้ได้ตั้งแต่' : 'ถึง'}</Text>
+                    <View style={styles.dateStepper}>
+                        <TouchableOpacity onPress={() => shiftDate(field, -1)}>
+                            <MaterialCommunityIcons name="chevron-left" size={22} color={colors.neutral[600]} />
+                        </TouchableOpacity>
+                        <Text style={styles.dateStepperText}>{formatDay(form[field])}</Text>
+                        <TouchableOpacity onPress={() => shiftDate(field, 1)}>
+                            <MaterialCommunityIcons name="chevron-right" size={22} color={colors.neutral[600]} />
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            ))}
+
+            <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+                <MaterialCommunityIcons name="plus" size={18} color={colors.white} />
+                <Text style={styles.addButtonText}>เพิ่มโค้ด</Text>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    emptyText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[400],
+    },
+    codeItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    codeItemInactive: {
+        opacity: 0.5,
+    },
+    codeInfo: {
+        flex: 1,
+    },
+    codeTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    codeMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    formTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        marginTop: spacing.lg,
+        marginBottom: spacing.sm,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    flex: {
+        flex: 1,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        borderRadius: borderRadius.lg,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+        height: 44,
+    },
+    input: {
+        flex: 1,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    dateRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: spacing.sm,
+    },
+    dateLabel: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+    },
+    dateStepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+    },
+    dateStepperText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+        minWidth: 110,
+        textAlign: 'center',
+    },
+    addButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: spacing.xs,
+        height: 44,
+        borderRadius: borderRadius.lg,
+        backgroundColor: 'rgba(2, 38, 99, 0.9)', // Deep Blue
+        marginTop: spacing.sm,
+    },
+    addButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.white,
+    },
+});
@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    TouchableOpacity,
+    ActivityIndicator,
+    Alert,
+    StyleSheet,
+    useWindowDimensions,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { useAuth } from '../context/AuthContext';
+import { PaymentSummary } from '../types/booking';
+import { paymentService, summarizePayments } from '../services/payment.service';
+import { pricingRulesService } from '../services/pricingRules.service';
+import { businessSettingsService } from '../services/businessSettings.service';
+import { describeApiError } from '../services/apiErrors';
+import { buildPromptPayPayload, maskPromptPayId } from '../utils/promptpay';
+import { QrCodeView } from './QrCodeView';
+
+interface PromptPayQrModalProps {
+    visible: boolean;
+    businessId?: string;
+    bookingIds: string[];   // One booking or a merged group, paid as one
+    courtId?: string;       // For the court's deposit rule
+    totalDue: number;
+    markedPaid: boolean;
+    description?: string;   // Shown under the amount, e.g. court and time
+    onClose: () => void;
+    onPaid: (fullyPaid: boolean) => void;
+}
+
+/**
+ * Full-screen PromptPay QR for the outstanding amount of a booking, for the customer to scan
+ */
+export const PromptPayQrModal = ({
+    visible,
+    businessId,
+    bookingIds,
+    courtId,
+    totalDue,
+    markedPaid,
+    description,
+    onClose,
+    onPaid,
+}: PromptPayQrModalProps) => {
+    const { user } = useAuth();
+    const { width, height } = useWindowDimensions();
+    const [promptPayId, setPromptPayId] = useState<string | null>(null);
+    const [summary, setSummary] = useState<PaymentSummary | null>(null);
+    const [payDeposit, setPayDeposit] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [settings, payments, rules] = await Promise.all([
+                businessId ? businessSettingsService.getSettings(businessId) : Promise.resolve(undefined),
+                paymentService.getPayments(bookingIds),
+                courtId ? pricingRulesService.getRules(courtId) : Promise.resolve(undefined),
+            ]);
+            setPromptPayId(settings?.promptPayId || null);
+            setSummary(summarizePayments(payments, totalDue, markedPaid, rules?.depositPercent));
+        } catch (error) {
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถโหลดข้อมูลการชำระเงินได้'));
+        } finally {
+            setLoading(false);
+        }
+    }, [businessId, bookingIds, courtId, totalDue, markedPaid]);
+
+    useEffect(() => {
+        if (visible) {
+            setPayDeposit(false);
+            load();
+        }
+    }, [visible, load]);
+
+    const depositDue = summary ? Math.max(0, summary.depositRequired - summary.paid) : 0;
+    const amount = summary ? (payDeposit && depositDue > 0 ? depositDue : summary.outstanding) : 0;
+
+    let payload: string | null = null;
+    if (promptPayId && amount > 0) {
+        try {
+            payload = buildPromptPayPayload(promptPayId, amount);
+        } catch {
+            payload = null;
+        }
+    }
+
+    const handleMarkPaid = async () => {
+        setSaving(true);
+        try {
+            const { fullyPaid, queued } = await paymentService.recordPayment({
+                bookingIds,
+                businessId,
+                amount,
+                method: 'PROMPTPAY',
+                isDeposit: payDeposit && amount < totalDue,
+                staff: user?.username,
+            }, totalDue);
+            onPaid(fullyPaid);
+            onClose();
+            if (queued) {
+                Alert.alert('บันทึกแบบออฟไลน์', 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต สถานะชำระเงินจะถูกซิงค์อัตโนมัติเมื่อกลับมาออนไลน์');
+            }
+        } catch (error) {
+            console.error('Failed to record PromptPay payment:', error);
+            Alert.alert('ผิดพลาด', 'ไม่สามารถบันทึกการชำระเงินได้');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const qrSize = Math.min(width, height) * 0.6;
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.container}>
+                <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                    <MaterialCommunityIcons name="close" size={28} color={colors.neutral[600]} />
+                </TouchableOpacity>
+
+                {loading || !summary ? (
+                    <ActivityIndicator size="large" color={colors.primary.main} />
+                ) : !promptPayId ? (
+                    <View style={styles.message}>
+                        <MaterialCommunityIcons name="qrcode-remove" size={48} color={colors.neutral[400]} />
+                        <Text style={styles.messageText}>ยังไม่ได้ตั้งค่าพร้อมเพย์ของธุรกิจ</Text>
+                        <Text style={styles.messageHint}>ไปที่เมนูตั้งค่าเพื่อกรอกหมายเลขพร้อมเพย์</Text>
+                    </View>
+                ) : summary.outstanding === 0 ? (
+                    <View style={styles.message}>
+                        <MaterialCommunityIcons name="check-circle" size={48} color={colors.success} />
+                        <Text style={styles.messageText}>ชำระครบแล้ว</Text>
+                    </View>
+                ) : (
+                    <View style={styles.body}>
+                        <Text style={styles.title}>สแกนเพื่อชำระเงินด้วยพร้อมเพย์</Text>
+                        {payload ? (
+                            <QrCodeView value={payload} size={qrSize} />
+                        ) : (
+                            <Text style={styles.messageHint}>หมายเลขพร้อมเพย์ไม่ถูกต้อง กรุณาตรวจสอบในเมนูตั้งค่า</Text>
+                        )}
+                        <Text style={styles.amount}>฿{amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</Text>
+                        {description && <Text style={styles.description}>{description}</Text>}
+                        <Text style={styles.accountText}>พร้อมเพย์ {maskPromptPayId(promptPayId)}</Text>
+
+                        {depositDue > 0 && depositDue < summary.outstanding && (
+                            <View style={styles.chipRow}>
+                                <TouchableOpacity
+                                    style={[styles.chip, !payDeposit && styles.chipSelected]}
+                                    onPress={() => setPayDeposit(false)}
+                                >
+                                    <Text style={[styles.chipText, !payDeposit && styles.chipTextSelected]}>
+                                        ยอดค้าง ฿{summary.outstanding.toLocaleString()}
+                                    </Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[styles.chip, payDeposit && styles.chipSelected]}
+                                    onPress={() => setPayDeposit(true)}
+                                >
+                                    <Text style={[styles.chipText, payDeposit && styles.chipTextSelected]}>
+                                        มัดจำ ฿{depositDue.toLocaleString()}
+                                    </Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+
+                        <TouchableOpacity
+                            style={[styles.paidButton, (!payload || saving) && styles.paidButtonDisabled]}
+                            onPress={handleMarkPaid}
+                            disabled={!payload || saving}
+                        >
+                            {saving ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                            ) : (
+                                <>
+                                    <MaterialCommunityIcons name="check" size={20} color={colors.white} />
+                                    <Text style={styles.paidButtonText}>ได้รับเงินผ่านพร้อมเพย์แล้ว</Text>
+                                </>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                )}
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.white,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+    },
+    closeButton: {
+        position: 'absolute',
+        top: spacing.xl,
+        right: spacing.xl,
+        padding: spacing.sm,
+    },
+    body: {
+        alignItems: 'center',
+        gap: spacing.sm,
+    },
+    title: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.lg,
+        color: colors.neutral[800],
+        marginBottom: spacing.sm,
+    },
+    amount: {
+        fontFamily: fonts.bold,
+        fontSize: 32,
+        color: colors.primary.main,
+    },
+    description: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[600],
+    },
+    accountText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[500],
+    },
+    message: {
+        alignItems: 'center',
+        gap: spacing.sm,
+    },
+    messageText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.lg,
+        color: colors.neutral[800],
+    },
+    messageHint: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[500],
+    },
+    chipRow: {
+        flexDirection: 'row',
+        gap: spacing.xs,
+        marginTop: spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    paidButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        marginTop: spacing.md,
+        paddingVertical: spacing.md,
+        paddingHorizontal: spacing.xl,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.success,
+    },
+    paidButtonDisabled: {
+        opacity: 0.5,
+    },
+    paidButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.white,
+    },
+});
@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { colors } from '../theme/tokens';
+import { encodeQrCode } from '../utils/qrCode';
+
+interface QrCodeViewProps {
+    value: string;
+    size: number; // Largest width and height, including the quiet zone
+}
+
+// Light border scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+/**
+ * QR code drawn with plain views; each row is split into runs so a code costs a few hundred views
+ */
+export const QrCodeView = ({ value, size }: QrCodeViewProps) => {
+    const rows = useMemo(() => {
+        const modules = encodeQrCode(value);
+        return modules.map(row => {
+            const runs: Array<{ dark: boolean; length: number }> = [];
+            row.forEach(dark => {
+                const last = runs[runs.length - 1];
+                if (last && last.dark === dark) last.length++;
+                else runs.push({ dark, length: 1 });
+            });
+            return runs;
+        });
+    }, [value]);
+
+    // Whole pixels per module keep the edges sharp
+    const moduleSize = Math.max(1, Math.floor(size / (rows.length + QUIET_ZONE * 2)));
+    const outerSize = moduleSize * (rows.length + QUIET_ZONE * 2);
+
+    return (
+        <View style={[styles.container, { width: outerSize, height: outerSize, padding: moduleSize * QUIET_ZONE }]}>
+            {rows.map((runs, rowIndex) => (
+                <View key={rowIndex} style={[styles.row, { height: moduleSize }]}>
+                    {runs.map((run, runIndex) => (
+                        <View
+                            key={runIndex}
+                            style={[{ width: run.length * moduleSize }, run.dark && styles.dark]}
+                        />
+                    ))}
+                </View>
+            ))}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: colors.white,
+    },
+    row: {
+        flexDirection: 'row',
+    },
+    dark: {
+        backgroundColor: colors.black,
+    },
+});
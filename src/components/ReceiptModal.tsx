@@ -0,0 +1,436 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+    Share,
+    StyleSheet,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { useAuth } from '../context/AuthContext';
+import { Booking, Receipt, ReceiptKind } from '../types/booking';
+import { receiptService, RECEIPT_KIND_LABELS } from '../services/receipt.service';
+import { businessSettingsService } from '../services/businessSettings.service';
+import { describeApiError } from '../services/apiErrors';
+import { renderReceiptEscPos, renderReceiptHtml } from '../utils/receipt';
+
+interface ReceiptModalProps {
+    visible: boolean;
+    businessId?: string;
+    bookings: Booking[];     // One booking or a merged group, on one receipt
+    onClose: () => void;
+}
+
+// Characters per line of 58 mm and 80 mm thermal paper
+const PRINTER_COLUMNS = [32, 48];
+
+/**
+ * Receipts and tax invoices issued for a booking, with a form to issue another and
+ * PDF / thermal printer output
+ */
+export const ReceiptModal = ({ visible, businessId, bookings, onClose }: ReceiptModalProps) => {
+    const { user } = useAuth();
+    const [receipts, setReceipts] = useState<Receipt[]>([]);
+    const [vatRegistered, setVatRegistered] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [issuing, setIssuing] = useState(false);
+    const [kind, setKind] = useState<ReceiptKind>('RECEIPT');
+    const [customerName, setCustomerName] = useState('');
+    const [customerTaxId, setCustomerTaxId] = useState('');
+    const [customerAddress, setCustomerAddress] = useState('');
+    const [printerColumns, setPrinterColumns] = useState(PRINTER_COLUMNS[0]);
+
+    const loadReceipts = useCallback(async () => {
+        if (!businessId) return;
+        setLoading(true);
+        try {
+            const [issued, settings] = await Promise.all([
+                receiptService.getReceipts(bookings.map(b => b.id)),
+                businessSettingsService.getSettings(businessId),
+            ]);
+            setReceipts(issued);
+            setVatRegistered(!!settings.vatRegistered);
+        } catch (error) {
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถโหลดข้อมูลใบเสร็จได้'));
+        } finally {
+            setLoading(false);
+        }
+    }, [businessId, bookings]);
+
+    useEffect(() => {
+        if (visible) {
+            const first = bookings[0];
+            setKind('RECEIPT');
+            setCustomerName(first?.serviceUser?.name || first?.customerName || '');
+            setCustomerTaxId('');
+            setCustomerAddress('');
+            loadReceipts();
+        }
+    }, [visible, bookings, loadReceipts]);
+
+    const handleIssue = async () => {
+        if (!businessId) return;
+        if (!customerName.trim()) {
+            Alert.alert('กรุณากรอกชื่อลูกค้า');
+            return;
+        }
+        if (kind === 'TAX_INVOICE' && customerTaxId.replace(/\D/g, '').length !== 13) {
+            Alert.alert('เลขประจำตัวผู้เสียภาษีไม่ถูกต้อง', 'ใบกำกับภาษีต้องมีเลขประจำตัวผู้เสียภาษีของลูกค้า 13 หลัก');
+            return;
+        }
+
+        setIssuing(true);
+        try {
+            const first = bookings[0];
+            const receipt = await receiptService.issueReceipt({
+                businessId,
+                kind,
+                bookings,
+                customer: {
+                    name: customerName,
+                    taxId: kind === 'TAX_INVOICE' ? customerTaxId : undefined,
+                    address: kind === 'TAX_INVOICE' ? customerAddress : undefined,
+                    phone: first?.serviceUser?.phone || first?.customerPhone,
+                },
+                issuedBy: user?.username,
+            });
+            setReceipts(prev => [receipt, ...prev]);
+        } catch (error) {
+            Alert.alert('ไม่สามารถออกเอกสารได้', describeApiError(error, 'เกิดข้อผิดพลาด'));
+        } finally {
+            setIssuing(false);
+        }
+    };
+
+    const handleSharePdf = async (receipt: Receipt) => {
+        try {
+            const { uri } = await Print.printToFileAsync({ html: renderReceiptHtml(receipt) });
+            await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: receipt.number });
+        } catch (error) {
+            console.error('Failed to share receipt PDF:', error);
+            Alert.alert('ผิดพลาด', 'ไม่สามารถสร้างไฟล์ PDF ได้');
+        }
+    };
+
+    const handleShareEscPos = async (receipt: Receipt) => {
+        try {
+            await Share.share({ title: receipt.number, message: renderReceiptEscPos(receipt, printerColumns) });
+        } catch (error) {
+            console.error('Failed to share receipt for printing:', error);
+        }
+    };
+
+    const handleVoid = (receipt: Receipt) => {
+        Alert.alert(
+            'ยกเลิกเอกสาร',
+            `ยกเลิก ${receipt.number}? เลขที่นี้จะไม่ถูกนำกลับมาใช้อีก`,
+            [
+                { text: 'ไม่ใช่', style: 'cancel' },
+                {
+                    text: 'ยกเลิกเอกสาร',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            const voided = await receiptService.voidReceipt(receipt);
+                            setReceipts(prev => prev.map(r => (r.id === voided.id ? voided : r)));
+                        } catch (error) {
+                            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถยกเลิกเอกสารได้'));
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>ใบเสร็จ / ใบกำกับภาษี</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.body}>
+                        {/* Issued */}
+                        {loading ? (
+                            <ActivityIndicator color={colors.primary.main} />
+                        ) : receipts.length > 0 && (
+                            <>
+                                <View style={styles.chipRow}>
+                                    {PRINTER_COLUMNS.map(columns => (
+                                        <TouchableOpacity
+                                            key={columns}
+                                            style={[styles.chip, printerColumns === columns && styles.chipSelected]}
+                                            onPress={() => setPrinterColumns(columns)}
+                                        >
+                                            <Text style={[styles.chipText, printerColumns === columns && styles.chipTextSelected]}>
+                                                กระดาษ {columns === 32 ? '58' : '80'} มม.
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                                {receipts.map(receipt => (
+                                    <View key={receipt.id} style={[styles.receiptItem, !!receipt.voidedAt && styles.receiptItemVoided]}>
+                                        <View style={styles.receiptInfo}>
+                                            <Text style={styles.receiptTitle}>
+                                                {receipt.number}{receipt.voidedAt ? ' • ยกเลิกแล้ว' : ''}
+                                            </Text>
+                                            <Text style={styles.receiptMeta}>
+                                                {RECEIPT_KIND_LABELS[receipt.kind]} • ฿{receipt.total.toLocaleString()} • {format(parseISO(receipt.issuedAt), 'd MMM HH:mm', { locale: th })}
+                                            </Text>
+                                        </View>
+                                        <TouchableOpacity style={styles.iconButton} onPress={() => handleSharePdf(receipt)}>
+                                            <MaterialCommunityIcons name="file-pdf-box" size={22} color={colors.primary.main} />
+                                        </TouchableOpacity>
+                                        <TouchableOpacity style={styles.iconButton} onPress={() => handleShareEscPos(receipt)}>
+                                            <MaterialCommunityIcons name="printer-pos" size={22} color={colors.primary.main} />
+                                        </TouchableOpacity>
+                                        {!receipt.voidedAt && (
+                                            <TouchableOpacity style={styles.iconButton} onPress={() => handleVoid(receipt)}>
+                                                <MaterialCommunityIcons name="file-cancel-outline" size={22} color={colors.error} />
+                                            </TouchableOpacity>
+                                        )}
+                                    </View>
+                                ))}
+                            </>
+                        )}
+
+                        {/* New receipt */}
+                        <Text style={styles.sectionTitle}>ออกเอกสารใหม่</Text>
+                        <View style={styles.chipRow}>
+                            {(Object.keys(RECEIPT_KIND_LABELS) as ReceiptKind[]).map(k => {
+                                const disabled = k === 'TAX_INVOICE' && !vatRegistered;
+                                return (
+                                    <TouchableOpacity
+                                        key={k}
+                                        style={[styles.chip, kind === k && styles.chipSelected, disabled && styles.chipDisabled]}
+                                        onPress={() => setKind(k)}
+                                        disabled={disabled}
+                                    >
+                                        <Text style={[styles.chipText, kind === k && styles.chipTextSelected]}>{RECEIPT_KIND_LABELS[k]}</Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+                        {!vatRegistered && (
+                            <Text style={styles.hintText}>ออกใบกำกับภาษีได้เมื่อตั้งค่าธุรกิจเป็นผู้จดทะเบียนภาษีมูลค่าเพิ่ม</Text>
+                        )}
+
+                        <View style={styles.inputWrapper}>
+                            <TextInput
+                                style={styles.input}
+                                value={customerName}
+                                onChangeText={setCustomerName}
+                                placeholder={kind === 'TAX_INVOICE' ? 'ชื่อบริษัท / ลูกค้า' : 'ชื่อลูกค้า'}
+                                placeholderTextColor={colors.neutral[400]}
+                            />
+                        </View>
+                        {kind === 'TAX_INVOICE' && (
+                            <>
+                                <View style={styles.inputWrapper}>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={customerTaxId}
+                                        onChangeText={setCustomerTaxId}
+                                        placeholder="เลขประจำตัวผู้เสียภาษี 13 หลัก"
+                                        placeholderTextColor={colors.neutral[400]}
+                                        keyboardType="number-pad"
+                                    />
+                                </View>
+                                <View style={styles.inputWrapper}>
+                                    <TextInput
+                                        style={[styles.input, styles.multilineInput]}
+                                        value={customerAddress}
+                                        onChangeText={setCustomerAddress}
+                                        placeholder="ที่อยู่ (สำนักงานใหญ่ / สาขา)"
+                                        placeholderTextColor={colors.neutral[400]}
+                                        multiline
+                                    />
+                                </View>
+                            </>
+                        )}
+                    </ScrollView>
+
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose} disabled={issuing}>
+                            <Text style={styles.cancelButtonText}>ปิด</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleIssue} disabled={issuing || !businessId}>
+                            {issuing ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                            ) : (
+                                <Text style={styles.saveButtonText}>ออกเอกสาร</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    content: {
+        width: '100%',
+        maxWidth: 460,
+        maxHeight: '90%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.xl,
+        color: colors.neutral[900],
+    },
+    body: {
+        marginBottom: spacing.lg,
+    },
+    receiptItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        marginBottom: spacing.sm,
+    },
+    receiptItemVoided: {
+        opacity: 0.5,
+    },
+    receiptInfo: {
+        flex: 1,
+    },
+    receiptTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    receiptMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    iconButton: {
+        padding: 4,
+    },
+    sectionTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        marginTop: spacing.md,
+        marginBottom: spacing.sm,
+    },
+    hintText: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+        marginBottom: spacing.sm,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginBottom: spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipDisabled: {
+        opacity: 0.4,
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    inputWrapper: {
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    input: {
+        paddingVertical: spacing.sm,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    multilineInput: {
+        minHeight: 60,
+        textAlignVertical: 'top',
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.md,
+        alignItems: 'center',
+    },
+    cancelButton: {
+        backgroundColor: colors.neutral[100],
+    },
+    cancelButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[700],
+    },
+    saveButton: {
+        backgroundColor: colors.primary.main,
+    },
+    saveButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.white,
+    },
+});
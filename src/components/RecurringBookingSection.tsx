@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator, Switch } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { addWeeks, format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius } from '../theme/tokens';
+import { RecurrenceFrequency, RecurrenceRule, WEEKDAY_LABELS, MAX_OCCURRENCES } from '../utils/recurrence';
+import { recurringBookingService, OccurrencePreview } from '../services/recurringBooking.service';
+import { BLOCK_REASON_LABELS } from '../services/courtBlock.service';
+
+interface RecurringBookingSectionProps {
+    rule: RecurrenceRule | null;
+    onChangeRule: (rule: RecurrenceRule | null) => void;
+    courtId: string;
+    startDate: string; // yyyy-MM-dd
+    startTime: string;
+    endTime: string;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+    { value: 'WEEKLY', label: 'ทุกสัปดาห์' },
+    { value: 'BIWEEKLY', label: 'ทุก 2 สัปดาห์' },
+    { value: 'CUSTOM', label: 'เลือกวัน' },
+];
+
+/**
+ * Repeat options for the add-booking form, with a live preview of every occurrence
+ */
+export const RecurringBookingSection = ({ rule, onChangeRule, courtId, startDate, startTime, endTime }: RecurringBookingSectionProps) => {
+    const [preview, setPreview] = useState<OccurrencePreview[]>([]);
+    const [loadingPreview, setLoadingPreview] = useState(false);
+
+    useEffect(() => {
+        if (!rule || !courtId) {
+            setPreview([]);
+            return;
+        }
+
+        let cancelled = false;
+        setLoadingPreview(true);
+        recurringBookingService.previewOccurrences({ courtId, startDate, startTime, endTime }, rule)
+            .then(result => {
+                if (!cancelled) setPreview(result);
+            })
+            .catch(error => console.error('Failed to preview recurring bookings:', error))
+            .finally(() => {
+                if (!cancelled) setLoadingPreview(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [rule, courtId, startDate, startTime, endTime]);
+
+    const toggle = (enabled: boolean) => {
+        onChangeRule(enabled ? {
+            frequency: 'WEEKLY',
+            weekdays: [parseISO(startDate).getDay()],
+            endType: 'COUNT',
+            count: 4,
+            endDate: format(addWeeks(parseISO(startDate), 4), 'yyyy-MM-dd'),
+        } : null);
+    };
+
+    const update = (changes: Partial<RecurrenceRule>) => {
+        if (rule) onChangeRule({ ...rule, ...changes });
+    };
+
+    const toggleWeekday = (day: number) => {
+        if (!rule) return;
+        const weekdays = rule.weekdays.includes(day)
+            ? rule.weekdays.filter(d => d !== day)
+            : [...rule.weekdays, day];
+        update({ weekdays });
+    };
+
+    const shiftEndDate = (weeks: number) => {
+        if (!rule?.endDate) return;
+        const next = addWeeks(parseISO(rule.endDate), weeks);
+        if (format(next, 'yyyy-MM-dd') < startDate) return;
+        update({ endDate: format(next, 'yyyy-MM-dd') });
+    };
+
+    const conflictCount = preview.filter(p => p.conflictingBooking || p.blockedBy).length;
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.headerRow}>
+                <MaterialCommunityIcons name="repeat" size={20} color={colors.neutral[600]} />
+                <Text style={styles.headerText}>จองประจำ (ทำซ้ำ)</Text>
+                <Switch value={!!rule} onValueChange={toggle} />
+            </View>
+
+            {rule && (
+                <>
+                    <View style={styles.chipRow}>
+                        {FREQUENCY_OPTIONS.map(option => (
+                            <TouchableOpacity
+                                key={option.value}
+                                style={[styles.chip, rule.frequency === option.value && styles.chipSelected]}
+                                onPress={() => update({ frequency: option.value })}
+                            >
+                                <Text style={[styles.chipText, rule.frequency === option.value && styles.chipTextSelected]}>{option.label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    {rule.frequency === 'CUSTOM' && (
+                        <View style={styles.chipRow}>
+                            {WEEKDAY_LABELS.map((label, day) => (
+                                <TouchableOpacity
+                                    key={label}
+                                    style={[styles.dayChip, rule.weekdays.includes(day) && styles.chipSelected]}
+                                    onPress={() => toggleWeekday(day)}
+                                >
+                                    <Text style={[styles.chipText, rule.weekdays.includes(day) && styles.chipTextSelected]}>{label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    )}
+
+                    <View style={styles.endRow}>
+                        <TouchableOpacity
+                            style={[styles.chip, rule.endType === 'COUNT' && styles.chipSelected]}
+                            onPress={() => update({ endType: 'COUNT' })}
+                        >
+                            <Text style={[styles.chipText, rule.endType === 'COUNT' && styles.chipTextSelected]}>จำนวนครั้ง</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.chip, rule.endType === 'DATE' && styles.chipSelected]}
+                            onPress={() => update({ endType: 'DATE' })}
+                        >
+                            <Text style={[styles.chipText, rule.endType === 'DATE' && styles.chipTextSelected]}>จนถึงวันที่</Text>
+                        </TouchableOpacity>
+
+                        {rule.endType === 'COUNT' ? (
+                            <TextInput
+                                style={styles.countInput}
+                                value={rule.count ? String(rule.count) : ''}
+                                onChangeText={text => update({ count: Math.min(parseInt(text, 10) || 0, MAX_OCCURRENCES) })}
+                                keyboardType="numeric"
+                                placeholder="ครั้ง"
+                                placeholderTextColor={colors.neutral[400]}
+                            />
+                        ) : (
+                            <View style={styles.dateStepper}>
+                                <TouchableOpacity onPress={() => shiftEndDate(-1)}>
+                                    <MaterialCommunityIcons name="chevron-left" size={22} color={colors.neutral[600]} />
+                                </TouchableOpacity>
+                                <Text style={styles.dateStepperText}>
+                                    {rule.endDate ? format(parseISO(rule.endDate), 'd MMM yyyy', { locale: th }) : '-'}
+                                </Text>
+                                <TouchableOpacity onPress={() => shiftEndDate(1)}>
+                                    <MaterialCommunityIcons name="chevron-right" size={22} color={colors.neutral[600]} />
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                    </View>
+
+                    {/* Occurrence preview */}
+                    <View style={styles.previewBox}>
+                        {loadingPreview ? (
+                            <ActivityIndicator color={colors.primary.main} />
+                        ) : (
+                            <>
+                                <Text style={styles.previewSummary}>
+                                    ทั้งหมด {preview.length} ครั้ง
+                                    {conflictCount > 0 ? ` • ชนกับการจองอื่นหรือช่วงปิดสนาม ${conflictCount} ครั้ง (จะข้ามวันดังกล่าว)` : ''}
+                                </Text>
+                                {preview.map(occurrence => {
+                                    const isConflict = !!(occurrence.conflictingBooking || occurrence.blockedBy);
+                                    return (
+                                        <View key={occurrence.date} style={styles.previewItem}>
+                                            <MaterialCommunityIcons
+                                                name={isConflict ? 'alert-circle' : 'check-circle-outline'}
+                                                size={16}
+                                                color={isConflict ? colors.error : colors.success}
+                                            />
+                                            <Text style={[styles.previewDate, isConflict && styles.previewDateConflict]}>
+                                                {format(parseISO(occurrence.date), 'EEE d MMM yyyy', { locale: th })} {startTime} - {endTime}
+                                            </Text>
+                                            {occurrence.blockedBy ? (
+                                                <Text style={styles.previewConflict} numberOfLines={1}>
+                                                    สนามปิด: {occurrence.blockedBy.note || BLOCK_REASON_LABELS[occurrence.blockedBy.reason]}
+                                                </Text>
+                                            ) : occurrence.conflictingBooking && (
+                                                <Text style={styles.previewConflict} numberOfLines={1}>
+                                                    {occurrence.conflictingBooking.serviceUser?.name || occurrence.conflictingBooking.customerName || 'มีการจองแล้ว'}
+                                                </Text>
+                                            )}
+                                        </View>
+                                    );
+                                })}
+                            </>
+                        )}
+                    </View>
+                </>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        marginBottom: spacing.md,
+        padding: spacing.md,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        gap: spacing.sm,
+    },
+    headerRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+    },
+    headerText: {
+        flex: 1,
+        fontFamily: fonts.medium,
+        fontSize: 14,
+        color: colors.neutral[700],
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+    },
+    endRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    dayChip: {
+        width: 40,
+        paddingVertical: spacing.xs,
+        alignItems: 'center',
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    countInput: {
+        width: 64,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        backgroundColor: colors.white,
+        fontFamily: fonts.regular,
+        fontSize: 14,
+        color: colors.neutral[900],
+        textAlign: 'center',
+    },
+    dateStepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        backgroundColor: colors.white,
+    },
+    dateStepperText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+        minWidth: 96,
+        textAlign: 'center',
+    },
+    previewBox: {
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.white,
+        borderWidth: 1,
+        borderColor: colors.neutral[100],
+        gap: 4,
+    },
+    previewSummary: {
+        fontFamily: fonts.semiBold,
+        fontSize: 13,
+        color: colors.neutral[700],
+        marginBottom: 4,
+    },
+    previewItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    previewDate: {
+        fontFamily: fonts.regular,
+        fontSize: 13,
+        color: colors.neutral[700],
+    },
+    previewDateConflict: {
+        color: colors.error,
+        textDecorationLine: 'line-through',
+    },
+    previewConflict: {
+        flex: 1,
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.error,
+    },
+});
@@ -0,0 +1,247 @@
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, fonts, spacing, borderRadius } from '../theme/tokens';
+
+export interface RescheduleSlot {
+    courtName: string;
+    dateLabel: string;
+    startTime: string;
+    endTime: string;
+    price: number;
+}
+
+interface RescheduleConfirmSheetProps {
+    visible: boolean;
+    saving: boolean;
+    customerName: string;
+    slotCount: number;
+    from: RescheduleSlot | null;
+    to: RescheduleSlot | null;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const SlotCard = ({ label, slot, highlight }: { label: string; slot: RescheduleSlot; highlight?: boolean }) => (
+    <View style={[styles.slotCard, highlight && styles.slotCardHighlight]}>
+        <Text style={styles.slotLabel}>{label}</Text>
+        <Text style={styles.slotCourt} numberOfLines={1}>{slot.courtName}</Text>
+        <Text style={styles.slotTime}>{slot.startTime} - {slot.endTime}</Text>
+        <Text style={styles.slotDate}>{slot.dateLabel}</Text>
+    </View>
+);
+
+/**
+ * Bottom sheet shown after a booking block is dropped on a new court/time in the timeline grid
+ */
+export const RescheduleConfirmSheet = ({
+    visible,
+    saving,
+    customerName,
+    slotCount,
+    from,
+    to,
+    onConfirm,
+    onCancel,
+}: RescheduleConfirmSheetProps) => {
+    if (!from || !to) return null;
+
+    const priceChanged = from.price !== to.price;
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+            <View style={styles.overlay}>
+                <TouchableOpacity style={styles.overlayBackground} activeOpacity={1} onPress={saving ? undefined : onCancel} />
+                <View style={styles.sheet}>
+                    <View style={styles.handle} />
+                    <Text style={styles.title}>ย้ายการจอง</Text>
+                    <Text style={styles.subtitle}>
+                        {customerName}{slotCount > 1 ? ` • ${slotCount} ช่วงเวลา` : ''}
+                    </Text>
+
+                    <View style={styles.slotRow}>
+                        <SlotCard label="เดิม" slot={from} />
+                        <MaterialCommunityIcons name="arrow-right-bold" size={24} color={colors.neutral[400]} />
+                        <SlotCard label="ใหม่" slot={to} highlight />
+                    </View>
+
+                    <View style={styles.priceRow}>
+                        <Text style={styles.priceLabel}>ราคา</Text>
+                        {priceChanged ? (
+                            <View style={styles.priceValues}>
+                                <Text style={styles.priceOld}>฿{from.price.toLocaleString()}</Text>
+                                <Text style={styles.priceNew}>฿{to.price.toLocaleString()}</Text>
+                            </View>
+                        ) : (
+                            <Text style={styles.priceNew}>฿{to.price.toLocaleString()}</Text>
+                        )}
+                    </View>
+                    {priceChanged && (
+                        <Text style={styles.priceNote}>ราคาคำนวณใหม่ตามอัตราค่าบริการของสนามปลายทาง</Text>
+                    )}
+
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={saving}>
+                            <Text style={styles.cancelButtonText}>ยกเลิก</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.confirmButton, saving && styles.confirmButtonDisabled]}
+                            onPress={onConfirm}
+                            disabled={saving}
+                        >
+                            {saving ? (
+                                <ActivityIndicator color={colors.white} />
+                            ) : (
+                                <Text style={styles.confirmButtonText}>ยืนยันการย้าย</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.4)',
+        justifyContent: 'flex-end',
+        alignItems: 'center',
+    },
+    overlayBackground: {
+        ...StyleSheet.absoluteFillObject,
+    },
+    sheet: {
+        width: '100%',
+        maxWidth: 560,
+        backgroundColor: colors.white,
+        borderTopLeftRadius: borderRadius.xl,
+        borderTopRightRadius: borderRadius.xl,
+        padding: spacing.lg,
+        paddingTop: spacing.sm,
+    },
+    handle: {
+        alignSelf: 'center',
+        width: 40,
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: colors.neutral[300],
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: 20,
+        color: colors.neutral[900],
+    },
+    subtitle: {
+        fontFamily: fonts.regular,
+        fontSize: 14,
+        color: colors.neutral[500],
+        marginBottom: spacing.md,
+    },
+    slotRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+    },
+    slotCard: {
+        flex: 1,
+        padding: spacing.md,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.neutral[50],
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+    },
+    slotCardHighlight: {
+        backgroundColor: colors.primary[50],
+        borderColor: colors.primary[300],
+    },
+    slotLabel: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    slotCourt: {
+        fontFamily: fonts.semiBold,
+        fontSize: 15,
+        color: colors.neutral[900],
+    },
+    slotTime: {
+        fontFamily: fonts.bold,
+        fontSize: 18,
+        color: colors.neutral[800],
+    },
+    slotDate: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    priceRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: spacing.md,
+    },
+    priceLabel: {
+        fontFamily: fonts.medium,
+        fontSize: 15,
+        color: colors.neutral[700],
+    },
+    priceValues: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+    },
+    priceOld: {
+        fontFamily: fonts.regular,
+        fontSize: 14,
+        color: colors.neutral[400],
+        textDecorationLine: 'line-through',
+    },
+    priceNew: {
+        fontFamily: fonts.bold,
+        fontSize: 18,
+        color: colors.primary.main,
+    },
+    priceNote: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+        marginTop: spacing.xs,
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: spacing.md,
+        marginTop: spacing.lg,
+    },
+    cancelButton: {
+        flex: 1,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        alignItems: 'center',
+    },
+    cancelButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: 16,
+        color: colors.neutral[700],
+    },
+    confirmButton: {
+        flex: 1,
+        backgroundColor: colors.primary.main,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.md,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    confirmButtonDisabled: {
+        opacity: 0.7,
+    },
+    confirmButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: 16,
+        color: colors.white,
+    },
+});
@@ -3,7 +3,7 @@ import { View, Text, StyleSheet, TouchableOpacity, Image, useWindowDimensions }
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { colors } from '../theme/tokens';
 
-export type SidebarTab = 'overview' | 'dashboard' | 'booking' | 'courts' | 'users' | 'feedback' | 'settings';
+export type SidebarTab = 'overview' | 'dashboard' | 'booking' | 'closing' | 'courts' | 'users' | 'feedback' | 'settings';
 
 interface SidebarProps {
     activeTab: SidebarTab;
@@ -15,6 +15,7 @@ const MENU_ITEMS: { id: SidebarTab; icon: string; label: string }[] = [
     { id: 'overview', icon: 'home', label: 'หน้าหลัก' },
     { id: 'dashboard', icon: 'chart-box', label: 'ภาพรวม' },
     { id: 'booking', icon: 'calendar-clock', label: 'จัดการการจอง' },
+    { id: 'closing', icon: 'cash-register', label: 'ปิดยอดประจำวัน' },
     { id: 'courts', icon: 'soccer-field', label: 'จัดการสนาม' },
     { id: 'users', icon: 'account-group', label: 'จัดการสมาชิก' },
     { id: 'feedback', icon: 'message-text-outline', label: 'ข้อเสนอแนะ' },
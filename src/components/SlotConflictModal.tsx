@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius } from '../theme/tokens';
+import { Booking } from '../types/booking';
+import { translateBookingStatus } from '../utils/statusTranslation';
+
+interface SlotConflictModalProps {
+    visible: boolean;
+    problems: string[];
+    conflicts: Booking[];
+    onJumpTo: (booking: Booking) => void;
+    onClose: () => void;
+}
+
+/**
+ * Explains why a proposed slot can't be booked, listing the bookings in the way
+ */
+export const SlotConflictModal = ({ visible, problems, conflicts, onJumpTo, onClose }: SlotConflictModalProps) => {
+    return (
+        <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+            <View style={styles.overlay}>
+                <TouchableOpacity style={styles.overlayBackground} activeOpacity={1} onPress={onClose} />
+                <View style={styles.container}>
+                    <View style={styles.header}>
+                        <MaterialCommunityIcons name="calendar-alert" size={24} color={colors.error} />
+                        <Text style={styles.title}>ไม่สามารถจองช่วงเวลานี้ได้</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={22} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    {problems.map(problem => (
+                        <Text key={problem} style={styles.problem}>• {problem}</Text>
+                    ))}
+
+                    {conflicts.length > 0 && (
+                        <ScrollView style={styles.list}>
+                            {conflicts.map(booking => (
+                                <View key={booking.id} style={styles.item}>
+                                    <View style={styles.itemBody}>
+                                        <Text style={styles.itemName} numberOfLines={1}>
+                                            {booking.serviceUser?.name || booking.customerName || 'ลูกค้า'}
+                                        </Text>
+                                        <Text style={styles.itemMeta}>
+                                            {booking.court?.name || '-'} • {format(parseISO(booking.timeSlotStart), 'd MMM HH:mm', { locale: th })} - {format(parseISO(booking.timeSlotEnd), 'HH:mm')}
+                                        </Text>
+                                        <Text style={styles.itemStatus}>{translateBookingStatus(booking.status)}</Text>
+                                    </View>
+                                    <TouchableOpacity style={styles.jumpButton} onPress={() => onJumpTo(booking)}>
+                                        <MaterialCommunityIcons name="crosshairs-gps" size={16} color={colors.primary.main} />
+                                        <Text style={styles.jumpButtonText}>ไปที่การจอง</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            ))}
+                        </ScrollView>
+                    )}
+
+                    <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                        <Text style={styles.closeButtonText}>กลับไปแก้ไข</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    overlayBackground: {
+        ...StyleSheet.absoluteFillObject,
+    },
+    container: {
+        width: '100%',
+        maxWidth: 480,
+        maxHeight: '80%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginBottom: spacing.md,
+    },
+    title: {
+        flex: 1,
+        fontFamily: fonts.bold,
+        fontSize: 18,
+        color: colors.neutral[900],
+    },
+    problem: {
+        fontFamily: fonts.medium,
+        fontSize: 14,
+        color: colors.error,
+        marginBottom: spacing.xs,
+    },
+    list: {
+        marginTop: spacing.sm,
+    },
+    item: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+        gap: spacing.sm,
+    },
+    itemBody: {
+        flex: 1,
+    },
+    itemName: {
+        fontFamily: fonts.semiBold,
+        fontSize: 14,
+        color: colors.neutral[900],
+    },
+    itemMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[600],
+    },
+    itemStatus: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    jumpButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 6,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.primary[200],
+        backgroundColor: colors.white,
+    },
+    jumpButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.primary.main,
+    },
+    closeButton: {
+        marginTop: spacing.md,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.neutral[100],
+        alignItems: 'center',
+    },
+    closeButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: 15,
+        color: colors.neutral[700],
+    },
+});
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, StyleProp, ViewStyle } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, fonts, spacing, borderRadius } from '../theme/tokens';
+import { bookingUndoService, UndoEntry, UNDO_WINDOW_MS } from '../services/bookingUndo.service';
+
+interface UndoSnackbarProps {
+    style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Latest undoable booking action, shown until its undo window runs out
+ */
+export const UndoSnackbar = ({ style }: UndoSnackbarProps) => {
+    const [entries, setEntries] = useState<UndoEntry[]>([]);
+    const [undoing, setUndoing] = useState(false);
+
+    useEffect(() => {
+        return bookingUndoService.subscribe(() => setEntries(bookingUndoService.getEntries()));
+    }, []);
+
+    const latest = entries[entries.length - 1];
+
+    // Re-render once the latest entry expires so the next one (or nothing) shows
+    useEffect(() => {
+        if (!latest) return;
+        const timer = setTimeout(
+            () => setEntries(bookingUndoService.getEntries()),
+            Math.max(0, latest.createdAt + UNDO_WINDOW_MS - Date.now())
+        );
+        return () => clearTimeout(timer);
+    }, [latest]);
+
+    if (!latest) return null;
+
+    const handleUndo = async () => {
+        setUndoing(true);
+        try {
+            const failed = await bookingUndoService.undo(latest.id);
+            if (failed > 0) {
+                Alert.alert('ผิดพลาด', `ย้อนกลับไม่สำเร็จ ${failed}/${latest.previous.length} รายการ`);
+            }
+        } catch (error) {
+            console.error('Undo failed:', error);
+            Alert.alert('ผิดพลาด', 'ไม่สามารถย้อนกลับการดำเนินการได้');
+        } finally {
+            setUndoing(false);
+        }
+    };
+
+    return (
+        <View style={[styles.container, style]}>
+            <MaterialCommunityIcons name="check-circle" size={18} color={colors.success} />
+            <Text style={styles.label} numberOfLines={2}>
+                {latest.label}
+                {entries.length > 1 ? ` (+${entries.length - 1})` : ''}
+            </Text>
+            {undoing ? (
+                <ActivityIndicator size="small" color={colors.white} />
+            ) : (
+                <TouchableOpacity style={styles.undoButton} onPress={handleUndo}>
+                    <MaterialCommunityIcons name="undo" size={16} color={colors.primary[200]} />
+                    <Text style={styles.undoText}>เลิกทำ</Text>
+                </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.closeButton} onPress={() => bookingUndoService.dismiss(latest.id)} disabled={undoing}>
+                <MaterialCommunityIcons name="close" size={16} color={colors.neutral[400]} />
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        left: spacing.md,
+        right: spacing.md,
+        bottom: spacing.lg,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        backgroundColor: colors.neutral[800],
+        borderRadius: borderRadius.lg,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        shadowColor: colors.black,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.2,
+        shadowRadius: 8,
+        elevation: 6,
+        zIndex: 100,
+    },
+    label: {
+        flex: 1,
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.white,
+    },
+    undoButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 4,
+    },
+    undoText: {
+        fontFamily: fonts.bold,
+        fontSize: 13,
+        color: colors.primary[200],
+    },
+    closeButton: {
+        padding: 4,
+    },
+});
@@ -0,0 +1,556 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+    Linking,
+    StyleSheet,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, fonts, spacing, borderRadius, fontSize } from '../theme/tokens';
+import { Court } from '../types/court';
+import { WaitlistEntry } from '../types/booking';
+import { waitlistService, FreedSlot } from '../services/waitlist.service';
+import { describeApiError } from '../services/apiErrors';
+import { useAuth } from '../context/AuthContext';
+
+// Time window and court taken from the occupied cell the waitlist was opened from
+export interface WaitlistDraft {
+    courtId?: string;
+    startTime: string;
+    endTime: string;
+}
+
+interface WaitlistModalProps {
+    visible: boolean;
+    businessId: string;
+    date: string;                               // yyyy-MM-dd, the day listed
+    courts: Court[];
+    sports: Array<{ id: string; label: string }>;
+    draft: WaitlistDraft | null;                // Opens the form prefilled
+    matches: Record<string, FreedSlot>;         // Waiting customers a freed slot suits, by entry id
+    onBook: (entry: WaitlistEntry, slot: FreedSlot) => Promise<boolean>;
+    onChanged: () => void;
+    onClose: () => void;
+}
+
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const emptyForm = (draft: WaitlistDraft | null) => ({
+    customerName: '',
+    customerPhone: '',
+    startTime: draft?.startTime || '18:00',
+    endTime: draft?.endTime || '20:00',
+    courtId: draft?.courtId,
+    sportType: undefined as string | undefined,
+    note: '',
+});
+
+/**
+ * Customers waiting for a fully booked day, with the ones a freed slot suits highlighted
+ */
+export const WaitlistModal = ({ visible, businessId, date, courts, sports, draft, matches, onBook, onChanged, onClose }: WaitlistModalProps) => {
+    const { user } = useAuth();
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [bookingId, setBookingId] = useState<string | null>(null);
+    const [showForm, setShowForm] = useState(false);
+    const [form, setForm] = useState(() => emptyForm(null));
+
+    const courtName = (courtId: string) => courts.find(c => c.id === courtId)?.name || '-';
+
+    const loadEntries = useCallback(async () => {
+        setLoading(true);
+        try {
+            setEntries(await waitlistService.getEntries(businessId, date));
+        } catch (error) {
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถโหลดรายชื่อรอได้'));
+        } finally {
+            setLoading(false);
+        }
+    }, [businessId, date]);
+
+    useEffect(() => {
+        if (visible) {
+            setForm(emptyForm(draft));
+            setShowForm(!!draft);
+            loadEntries();
+        }
+    }, [visible, draft, loadEntries]);
+
+    const describePreference = (entry: WaitlistEntry) => {
+        if (entry.courtId) return courtName(entry.courtId);
+        if (entry.sportType) return `สนาม${sports.find(s => s.id === entry.sportType)?.label || entry.sportType}ใดก็ได้`;
+        return 'สนามใดก็ได้';
+    };
+
+    const handleAdd = async () => {
+        if (!TIME_REGEX.test(form.startTime) || !TIME_REGEX.test(form.endTime)) {
+            Alert.alert('รูปแบบเวลาไม่ถูกต้อง (HH:mm)');
+            return;
+        }
+        setSaving(true);
+        try {
+            await waitlistService.addEntry({
+                businessId,
+                customerName: form.customerName,
+                customerPhone: form.customerPhone,
+                date,
+                startTime: form.startTime.padStart(5, '0'),
+                endTime: form.endTime.padStart(5, '0'),
+                courtId: form.courtId,
+                sportType: form.courtId ? undefined : form.sportType,
+                note: form.note,
+                createdBy: user?.username,
+            });
+            setForm(emptyForm(null));
+            setShowForm(false);
+            await loadEntries();
+            onChanged();
+        } catch (error) {
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถเพิ่มรายชื่อรอได้'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleBook = async (entry: WaitlistEntry, slot: FreedSlot) => {
+        setBookingId(entry.id);
+        try {
+            if (await onBook(entry, slot)) {
+                await loadEntries();
+            }
+        } finally {
+            setBookingId(null);
+        }
+    };
+
+    const handleRemove = (entry: WaitlistEntry) => {
+        Alert.alert('ลบรายชื่อรอ', `ต้องการลบ ${entry.customerName} ออกจากรายชื่อรอใช่หรือไม่?`, [
+            { text: 'ยกเลิก', style: 'cancel' },
+            {
+                text: 'ลบ',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await waitlistService.removeEntry(entry.id);
+                    } catch (error) {
+                        Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถลบรายชื่อรอได้'));
+                        return;
+                    }
+                    await loadEntries();
+                    onChanged();
+                }
+            }
+        ]);
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent
+            onRequestClose={onClose}
+            supportedOrientations={['portrait', 'landscape']}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.content}>
+                    <View style={styles.header}>
+                        <View>
+                            <Text style={styles.title}>รายชื่อรอคิว</Text>
+                            <Text style={styles.subtitle}>{format(parseISO(date), 'EEEE d MMMM yyyy', { locale: th })}</Text>
+                        </View>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color={colors.neutral[500]} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.body}>
+                        {loading ? (
+                            <ActivityIndicator color={colors.primary.main} />
+                        ) : entries.length === 0 ? (
+                            <Text style={styles.emptyText}>ยังไม่มีลูกค้ารอคิวในวันนี้</Text>
+                        ) : (
+                            entries.map(entry => {
+                                const match = entry.status === 'WAITING' ? matches[entry.id] : undefined;
+                                return (
+                                    <View
+                                        key={entry.id}
+                                        style={[styles.entryItem, !!match && styles.entryItemMatched, entry.status === 'BOOKED' && styles.entryItemBooked]}
+                                    >
+                                        <View style={styles.entryInfo}>
+                                            <Text style={styles.entryName}>{entry.customerName}</Text>
+                                            <Text style={styles.entryMeta}>
+                                                {entry.startTime} - {entry.endTime} • {describePreference(entry)}
+                                            </Text>
+                                            {entry.note ? <Text style={styles.entryMeta}>{entry.note}</Text> : null}
+                                            {match && (
+                                                <Text style={styles.matchText}>
+                                                    ว่างแล้ว: {courtName(match.courtId)} {match.startTime} - {match.endTime}
+                                                </Text>
+                                            )}
+                                            {entry.status === 'BOOKED' && <Text style={styles.bookedText}>จองแล้ว</Text>}
+                                        </View>
+                                        {entry.customerPhone ? (
+                                            <TouchableOpacity style={styles.iconButton} onPress={() => Linking.openURL(`tel:${entry.customerPhone}`)}>
+                                                <MaterialCommunityIcons name="phone" size={20} color={colors.primary.main} />
+                                            </TouchableOpacity>
+                                        ) : null}
+                                        {match && (
+                                            <TouchableOpacity
+                                                style={styles.bookButton}
+                                                onPress={() => handleBook(entry, match)}
+                                                disabled={bookingId !== null}
+                                            >
+                                                {bookingId === entry.id ? (
+                                                    <ActivityIndicator size="small" color={colors.white} />
+                                                ) : (
+                                                    <Text style={styles.bookButtonText}>จองเลย</Text>
+                                                )}
+                                            </TouchableOpacity>
+                                        )}
+                                        {entry.status === 'WAITING' && (
+                                            <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(entry)}>
+                                                <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                                            </TouchableOpacity>
+                                        )}
+                                    </View>
+                                );
+                            })
+                        )}
+
+                        {showForm ? (
+                            <>
+                                <Text style={styles.sectionTitle}>เพิ่มลูกค้ารอคิว</Text>
+
+                                <View style={styles.inputWrapper}>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={form.customerName}
+                                        onChangeText={customerName => setForm(f => ({ ...f, customerName }))}
+                                        placeholder="ชื่อลูกค้า"
+                                        placeholderTextColor={colors.neutral[400]}
+                                    />
+                                </View>
+                                <View style={styles.inputWrapper}>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={form.customerPhone}
+                                        onChangeText={customerPhone => setForm(f => ({ ...f, customerPhone }))}
+                                        placeholder="เบอร์โทร"
+                                        placeholderTextColor={colors.neutral[400]}
+                                        keyboardType="phone-pad"
+                                    />
+                                </View>
+
+                                <Text style={styles.fieldLabel}>ช่วงเวลาที่ต้องการ</Text>
+                                <View style={styles.timeRow}>
+                                    <View style={[styles.inputWrapper, styles.timeInput]}>
+                                        <TextInput
+                                            style={styles.input}
+                                            value={form.startTime}
+                                            onChangeText={startTime => setForm(f => ({ ...f, startTime }))}
+                                            placeholder="18:00"
+                                            keyboardType="numbers-and-punctuation"
+                                        />
+                                    </View>
+                                    <Text style={styles.timeSeparator}>-</Text>
+                                    <View style={[styles.inputWrapper, styles.timeInput]}>
+                                        <TextInput
+                                            style={styles.input}
+                                            value={form.endTime}
+                                            onChangeText={endTime => setForm(f => ({ ...f, endTime }))}
+                                            placeholder="22:00"
+                                            keyboardType="numbers-and-punctuation"
+                                        />
+                                    </View>
+                                </View>
+
+                                <Text style={styles.fieldLabel}>สนามที่ต้องการ</Text>
+                                <View style={styles.chipRow}>
+                                    <TouchableOpacity
+                                        style={[styles.chip, !form.courtId && !form.sportType && styles.chipSelected]}
+                                        onPress={() => setForm(f => ({ ...f, courtId: undefined, sportType: undefined }))}
+                                    >
+                                        <Text style={[styles.chipText, !form.courtId && !form.sportType && styles.chipTextSelected]}>ใดก็ได้</Text>
+                                    </TouchableOpacity>
+                                    {sports.map(sport => (
+                                        <TouchableOpacity
+                                            key={sport.id}
+                                            style={[styles.chip, !form.courtId && form.sportType === sport.id && styles.chipSelected]}
+                                            onPress={() => setForm(f => ({ ...f, courtId: undefined, sportType: sport.id }))}
+                                        >
+                                            <Text style={[styles.chipText, !form.courtId && form.sportType === sport.id && styles.chipTextSelected]}>
+                                                {sport.label}ใดก็ได้
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                                <View style={styles.chipRow}>
+                                    {courts.map(court => (
+                                        <TouchableOpacity
+                                            key={court.id}
+                                            style={[styles.chip, form.courtId === court.id && styles.chipSelected]}
+                                            onPress={() => setForm(f => ({ ...f, courtId: court.id }))}
+                                        >
+                                            <Text style={[styles.chipText, form.courtId === court.id && styles.chipTextSelected]}>{court.name}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
+                                <View style={styles.inputWrapper}>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={form.note}
+                                        onChangeText={note => setForm(f => ({ ...f, note }))}
+                                        placeholder="หมายเหตุ"
+                                        placeholderTextColor={colors.neutral[400]}
+                                    />
+                                </View>
+                            </>
+                        ) : (
+                            <TouchableOpacity style={styles.addRow} onPress={() => setShowForm(true)}>
+                                <MaterialCommunityIcons name="account-plus-outline" size={18} color={colors.primary.main} />
+                                <Text style={styles.addRowText}>เพิ่มลูกค้ารอคิว</Text>
+                            </TouchableOpacity>
+                        )}
+                    </ScrollView>
+
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose} disabled={saving}>
+                            <Text style={styles.cancelButtonText}>ปิด</Text>
+                        </TouchableOpacity>
+                        {showForm && (
+                            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleAdd} disabled={saving}>
+                                {saving ? (
+                                    <ActivityIndicator size="small" color={colors.white} />
+                                ) : (
+                                    <Text style={styles.saveButtonText}>เพิ่มรายชื่อรอ</Text>
+                                )}
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: spacing.lg,
+    },
+    content: {
+        width: '100%',
+        maxWidth: 480,
+        maxHeight: '90%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.xl,
+        color: colors.neutral[900],
+    },
+    subtitle: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[500],
+    },
+    body: {
+        marginBottom: spacing.lg,
+    },
+    emptyText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[400],
+    },
+    entryItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    entryItemMatched: {
+        borderColor: colors.success,
+        backgroundColor: '#ECFDF5',
+    },
+    entryItemBooked: {
+        opacity: 0.6,
+    },
+    entryInfo: {
+        flex: 1,
+    },
+    entryName: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    entryMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    matchText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: '#047857',
+        marginTop: 2,
+    },
+    bookedText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.neutral[600],
+        marginTop: 2,
+    },
+    iconButton: {
+        padding: 4,
+    },
+    bookButton: {
+        minWidth: 72,
+        alignItems: 'center',
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.success,
+    },
+    bookButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: 13,
+        color: colors.white,
+    },
+    sectionTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        marginTop: spacing.lg,
+        marginBottom: spacing.sm,
+    },
+    fieldLabel: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+        marginBottom: spacing.xs,
+    },
+    addRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        marginTop: spacing.sm,
+        paddingVertical: spacing.sm,
+    },
+    addRowText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.primary.main,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.xs,
+        marginBottom: spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        backgroundColor: colors.white,
+    },
+    chipSelected: {
+        borderColor: colors.primary.main,
+        backgroundColor: colors.primary.light + '20',
+    },
+    chipText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    chipTextSelected: {
+        color: colors.primary.main,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.sm,
+    },
+    input: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    timeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    timeInput: {
+        width: 90,
+        marginBottom: 0,
+    },
+    timeSeparator: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.md,
+        color: colors.neutral[500],
+    },
+    footer: {
+        flexDirection: 'row',
+        gap: spacing.md,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.lg,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    cancelButton: {
+        backgroundColor: colors.neutral[100],
+    },
+    cancelButtonText: {
+        fontFamily: fonts.medium,
+        color: colors.neutral[600],
+        fontSize: fontSize.md,
+    },
+    saveButton: {
+        backgroundColor: 'rgba(2, 38, 99, 0.9)', // Deep Blue
+    },
+    saveButtonText: {
+        fontFamily: fonts.semiBold,
+        color: colors.white,
+        fontSize: fontSize.md,
+    },
+});
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { authService } from '../services/auth.service';
 import { apiService } from '../services/api.service';
+import { offlineQueueService } from '../services/offlineQueue.service';
 import { AuthState, LoginCredentials } from '../types/auth';
 import { pushNotificationService } from '../services/pushNotification.service';
 
@@ -50,6 +51,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
                 const newAccessToken = await authService.refreshAccessToken();
 
                 if (newAccessToken) {
+                    await offlineQueueService.setAccount(user.id);
                     setState({
                         user,
                         accessToken: newAccessToken,
@@ -26,12 +26,20 @@ import { CourtManagerView } from './dashboard/CourtManagerView';
 import { UserManagerView } from './dashboard/UserManagerView';
 import { DashboardView } from './dashboard/DashboardView';
 import { SettingsView } from './dashboard/SettingsView';
+import { EndOfDayView } from './dashboard/EndOfDayView';
 import { QRScannerScreen } from './QRScannerScreen';
 import { NotificationModal } from '../components/NotificationModal';
 import { FeedbackModal } from '../components/FeedbackModal';
+import { UndoSnackbar } from '../components/UndoSnackbar';
 import { Notification, notificationService } from '../services/notification.service';
+import { realtimeService } from '../services/realtime.service';
+import { apiService } from '../services/api.service';
+import { responseCacheService } from '../services/responseCache.service';
 
 
+// Notifications are polled at this interval while the realtime connection is down
+const NOTIFICATION_POLL_MS = 30000;
+
 const MENU_ITEMS = [
     {
         id: 'overview',
@@ -54,6 +62,13 @@ const MENU_ITEMS = [
         accent: '#10B981', // Emerald
         description: 'ตารางจองวันนี้'
     },
+    {
+        id: 'closing',
+        title: 'ปิดยอดประจำวัน',
+        iconName: 'cash-register',
+        accent: '#14B8A6', // Teal
+        description: 'นับเงินสดและสรุปยอด'
+    },
     {
         id: 'courts',
         title: 'จัดการสนาม',
@@ -101,10 +116,33 @@ export const HomeScreen = () => {
     const [showNotifications, setShowNotifications] = useState(false);
     const [loadingNotifications, setLoadingNotifications] = useState(false);
 
+    // Replay offline booking actions once connectivity returns
     useEffect(() => {
+        return apiService.startOfflineSync();
+    }, []);
+
+    // Live booking / notification updates for every tab; notifications are refetched on each
+    // connect to catch up on anything sent while disconnected, and polled until it reconnects
+    useEffect(() => {
+        const unsubscribe = realtimeService.subscribe(event => {
+            if (event.type === 'connected') {
+                fetchNotifications();
+            } else if (event.type === 'notification.created') {
+                const { notification, unreadCount: serverCount } = event;
+                setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+                setUnreadCount(prev => serverCount ?? (notification.isRead ? prev : prev + 1));
+            }
+        });
+        const stop = realtimeService.start();
         fetchNotifications();
-        const interval = setInterval(fetchNotifications, 30000); // Poll every 30s
-        return () => clearInterval(interval);
+        const poll = setInterval(() => {
+            if (!realtimeService.isConnected()) fetchNotifications();
+        }, NOTIFICATION_POLL_MS);
+        return () => {
+            unsubscribe();
+            stop();
+            clearInterval(poll);
+        };
     }, []);
 
     const fetchNotifications = async () => {
@@ -154,6 +192,7 @@ export const HomeScreen = () => {
     useEffect(() => {
         // Orientation is now handled in AppNavigator
         fetchBusinesses();
+        return responseCacheService.subscribe(['/api/court-owner/businesses'], () => fetchBusinesses());
     }, []);
 
     const fetchBusinesses = async () => {
@@ -264,6 +303,7 @@ export const HomeScreen = () => {
             onPress={() => {
                 if (item.id === 'feedback') setShowFeedback(true);
                 else if (item.id === 'booking') setActiveTab('booking');
+                else if (item.id === 'closing') setActiveTab('closing');
                 else if (item.id === 'customer') setActiveTab('users');
                 else if (item.id === 'overview') setActiveTab('overview');
                 else if (item.id === 'dashboard') setActiveTab('dashboard');
@@ -311,6 +351,8 @@ export const HomeScreen = () => {
                 return <DashboardView businessId={selectedBusinessId || '9999'} />;
             case 'booking':
                 return <BookingManagerView businessId={selectedBusinessId || '9999'} />;
+            case 'closing':
+                return <EndOfDayView businessId={selectedBusinessId || '9999'} />;
             case 'courts':
                 return <CourtManagerView businessId={selectedBusinessId || '9999'} />;
             case 'users':
@@ -345,6 +387,7 @@ export const HomeScreen = () => {
                 <View style={{ flex: 1 }}>
                     {(activeTab !== 'overview') && <StickyHeader />}
                     {renderContent()}
+                    <UndoSnackbar />
                 </View>
             </DashboardLayout>
 
@@ -24,11 +24,20 @@ import {
 } from 'react-native-vision-camera';
 import { colors, spacing, fontSize, borderRadius } from '../theme/tokens';
 import { bookingService } from '../services/booking.service';
+import { describeApiError, NetworkError, TimeoutError } from '../services/apiErrors';
 import { format as dateFnsFormat, parseISO } from 'date-fns';
 import { th } from 'date-fns/locale';
 import { translateBookingStatus } from '../utils/statusTranslation';
-import { BookingLookupResult } from '../types/booking';
+import { BookingLookupResult, PaymentSummary } from '../types/booking';
 import { mergeConsecutiveBookings } from '../utils/bookingUtils';
+import { OfflineQueueBanner } from '../components/OfflineQueueBanner';
+import { checkInRosterService, LocalCheckIn } from '../services/checkInRoster.service';
+import { PaymentLedgerModal } from '../components/PaymentLedgerModal';
+import { PromptPayQrModal } from '../components/PromptPayQrModal';
+import { paymentService, summarizePayments } from '../services/payment.service';
+import { pricingRulesService } from '../services/pricingRules.service';
+
+const OFFLINE_SAVED_MESSAGE = 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต รายการถูกบันทึกไว้และจะซิงค์อัตโนมัติเมื่อกลับมาออนไลน์';
 
 interface Props {
     visible: boolean;
@@ -55,6 +64,54 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
     const [manualInput, setManualInput] = useState('');
     const [useManualMode, setUseManualMode] = useState(false);
 
+    // Offline roster state
+    const [offlineMode, setOfflineMode] = useState(false);
+    const [rosterInfo, setRosterInfo] = useState<{ count: number; fetchedAt: string } | null>(null);
+    const [rejectedCheckIns, setRejectedCheckIns] = useState<LocalCheckIn[]>([]);
+    const [pendingCheckInCount, setPendingCheckInCount] = useState(0);
+
+    // Payment ledger
+    const [paymentBooking, setPaymentBooking] = useState<{ id: string; bookingIds: string[]; view: 'LEDGER' | 'PROMPTPAY' } | null>(null);
+    const [paymentSummaries, setPaymentSummaries] = useState<Record<string, PaymentSummary>>({});
+
+    const refreshLocalCheckIns = useCallback(async () => {
+        const checkIns = await checkInRosterService.getLocalCheckIns();
+        setRejectedCheckIns(checkIns.filter(c => c.status === 'rejected'));
+        setPendingCheckInCount(checkIns.filter(c => c.status === 'pending').length);
+    }, []);
+
+    // Sync offline check-ins, then refresh today's roster for offline use
+    useEffect(() => {
+        if (!visible || !businessId) return;
+
+        const syncRoster = async () => {
+            await checkInRosterService.reconcile();
+            await refreshLocalCheckIns();
+
+            const roster = await checkInRosterService.prefetchRoster(businessId)
+                || await checkInRosterService.getRoster(businessId);
+            setRosterInfo(roster ? { count: roster.bookings.length, fetchedAt: roster.fetchedAt } : null);
+        };
+
+        syncRoster();
+    }, [visible, businessId, refreshLocalCheckIns]);
+
+    // Balance of every booking found, for partly paid bookings and missing deposits
+    useEffect(() => {
+        const loadSummaries = async () => {
+            const entries = await Promise.all(bookingResults.map(async booking => {
+                const bookingIds = booking.mergedBookingIds || [booking.id];
+                const [payments, rules] = await Promise.all([
+                    paymentService.getPayments(bookingIds),
+                    booking.facility ? pricingRulesService.getRules(booking.facility.id) : Promise.resolve(undefined),
+                ]);
+                return [booking.id, summarizePayments(payments, Number(booking.totalPrice || 0), !!booking.isPaid, rules?.depositPercent)] as const;
+            }));
+            setPaymentSummaries(Object.fromEntries(entries));
+        };
+        loadSummaries();
+    }, [bookingResults]);
+
     // Initialize camera active state only when visible
     useEffect(() => {
         if (visible) {
@@ -65,6 +122,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
             setCustomerInfo(null);
             setError(null);
             setManualInput('');
+            setOfflineMode(false);
         } else {
             setIsActive(false);
         }
@@ -76,6 +134,27 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
         onClose();
     };
 
+    /**
+     * Lookup a QR code online, falling back to the cached day roster when there is no signal
+     * or the lookup times out
+     */
+    const lookupBooking = useCallback(async (qrCode: string) => {
+        try {
+            const result = await bookingService.lookupByQRCode(qrCode);
+            setOfflineMode(false);
+            return result;
+        } catch (err) {
+            if (!(err instanceof NetworkError || err instanceof TimeoutError) || !businessId) throw err;
+
+            const offlineResult = await checkInRosterService.lookupOffline(qrCode, businessId);
+            if (!offlineResult) {
+                throw new Error('ไม่มีการเชื่อมต่ออินเทอร์เน็ต และไม่พบการจองนี้ในข้อมูลออฟไลน์ของวันนี้');
+            }
+            setOfflineMode(true);
+            return offlineResult;
+        }
+    }, [businessId]);
+
     const onCodeScanned = useCallback(async (codes: any[]) => {
         if (scanned || loading || !codes.length) return;
 
@@ -101,7 +180,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
         setIsActive(false);
 
         try {
-            const result = await bookingService.lookupByQRCode(qrData);
+            const result = await lookupBooking(qrData);
 
             // Normalize bookings with strict manual construction
             const normalizedBookings: BookingLookupResult[] = (result.bookings || []).map((b: any) => {
@@ -151,7 +230,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
             if (targetBookingId) {
                 const matchedGroup = mergedBookings.find(b =>
                     b.id === targetBookingId ||
-                    ((b as any).mergedBookingIds && (b as any).mergedBookingIds.includes(targetBookingId))
+                    (b.mergedBookingIds && b.mergedBookingIds.includes(targetBookingId))
                 );
 
                 if (matchedGroup) {
@@ -161,16 +240,12 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
 
             setBookingResults(displayBookings);
             setCustomerInfo(result.customer);
-        } catch (err: any) {
-            if (err.code === 'NOT_YOUR_BUSINESS') {
-                setError('การจองนี้ไม่ได้อยู่ในธุรกิจของคุณ');
-            } else {
-                setError(err.message || 'ไม่พบข้อมูลการจอง');
-            }
+        } catch (err) {
+            setError(describeApiError(err, 'ไม่พบข้อมูลการจอง'));
         } finally {
             setLoading(false);
         }
-    }, [scanned, loading]);
+    }, [scanned, loading, lookupBooking]);
 
     const codeScanner = useCodeScanner({
         codeTypes: ['qr', 'ean-13'],
@@ -192,7 +267,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                 qrCode = `JONGSANAM-CHECKIN:${qrCode}`;
             }
 
-            const result = await bookingService.lookupByQRCode(qrCode);
+            const result = await lookupBooking(qrCode);
 
             // Normalize bookings with strict manual construction (same as onCodeScanned)
             const normalizedBookings: BookingLookupResult[] = (result.bookings || []).map((b: any) => {
@@ -230,12 +305,8 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
 
             setBookingResults(mergedBookings);
             setCustomerInfo(result.customer);
-        } catch (err: any) {
-            if (err.code === 'NOT_YOUR_BUSINESS') {
-                setError('การจองนี้ไม่ได้อยู่ในธุรกิจของคุณ');
-            } else {
-                setError(err.message || 'ไม่พบข้อมูลการจอง');
-            }
+        } catch (err) {
+            setError(describeApiError(err, 'ไม่พบข้อมูลการจอง'));
         } finally {
             setLoading(false);
         }
@@ -244,9 +315,24 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
     const processStatusUpdate = async (bookingId: string, action: 'check-in' | 'confirm', allBookingIds: string[], showAlert = true) => {
         setCheckingIn(prev => ({ ...prev, [bookingId]: true }));
         try {
+            // Offline: record locally, reconciled with the server once back online
+            if (offlineMode && businessId) {
+                await checkInRosterService.recordCheckIn(businessId, allBookingIds, action);
+                setBookingResults(prev => prev.map(b =>
+                    b.id === bookingId ? { ...b, status: action === 'check-in' ? 'COMPLETED' : 'CONFIRMED' } : b
+                ));
+                await refreshLocalCheckIns();
+                if (showAlert) {
+                    Alert.alert('บันทึกแบบออฟไลน์', 'บันทึกการเช็คอินไว้ในเครื่องแล้ว ระบบจะส่งข้อมูลเมื่อกลับมาออนไลน์');
+                }
+                return;
+            }
+
             // Update all booking IDs (for merged bookings)
+            let queued = false;
             for (const id of allBookingIds) {
-                await bookingService.updateBookingStatus(id, action);
+                const result = await bookingService.updateBookingStatus(id, action);
+                queued = queued || !!result.queued;
             }
             const statusText = action === 'check-in' ? 'ลูกค้ามาใช้บริการแล้ว' : 'ยืนยันสนาม';
 
@@ -258,12 +344,12 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
             if (showAlert) {
                 Alert.alert(
                     'บันทึกสำเร็จ!',
-                    `เปลี่ยนสถานะเป็น "${statusText}" เรียบร้อยแล้ว`,
+                    queued ? OFFLINE_SAVED_MESSAGE : `เปลี่ยนสถานะเป็น "${statusText}" เรียบร้อยแล้ว`,
                     [{ text: 'ตกลง' }]
                 );
             }
-        } catch (err: any) {
-            Alert.alert('เกิดข้อผิดพลาด', err.message || 'ไม่สามารถทำรายการได้');
+        } catch (err) {
+            Alert.alert('เกิดข้อผิดพลาด', describeApiError(err, 'ไม่สามารถทำรายการได้'));
         } finally {
             setCheckingIn(prev => ({ ...prev, [bookingId]: false }));
         }
@@ -272,7 +358,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
     const handleCheckIn = (bookingId: string) => {
         // Find the booking to get merged IDs if any
         const booking = bookingResults.find(b => b.id === bookingId);
-        const allBookingIds = (booking as any)?.mergedBookingIds || [bookingId];
+        const allBookingIds = booking?.mergedBookingIds || [bookingId];
         const bookingCount = allBookingIds.length;
 
         const countText = bookingCount > 1 ? ` (${bookingCount} รายการ)` : '';
@@ -297,7 +383,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
     const handleNoShow = async (bookingId: string) => {
         // Find the booking to get merged IDs if any
         const booking = bookingResults.find(b => b.id === bookingId);
-        const allBookingIds = (booking as any)?.mergedBookingIds || [bookingId];
+        const allBookingIds = booking?.mergedBookingIds || [bookingId];
         const bookingCount = allBookingIds.length;
 
         const countText = bookingCount > 1 ? ` ${bookingCount} รายการ` : '';
@@ -313,16 +399,18 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                     onPress: async () => {
                         try {
                             // Mark all bookings as no-show
+                            let queued = false;
                             for (const id of allBookingIds) {
-                                await bookingService.markNoShow(id);
+                                const result = await bookingService.markNoShow(id);
+                                queued = queued || !!result.queued;
                             }
                             // Update the booking status in the list
                             setBookingResults(prev => prev.map(b =>
                                 b.id === bookingId ? { ...b, status: 'NO_SHOW' } : b
                             ));
-                            Alert.alert('บันทึกแล้ว', `ทำเครื่องหมาย No-Show${countText} เรียบร้อย`);
-                        } catch (err: any) {
-                            Alert.alert('เกิดข้อผิดพลาด', err.message);
+                            Alert.alert('บันทึกแล้ว', queued ? OFFLINE_SAVED_MESSAGE : `ทำเครื่องหมาย No-Show${countText} เรียบร้อย`);
+                        } catch (err) {
+                            Alert.alert('เกิดข้อผิดพลาด', describeApiError(err, 'ไม่สามารถทำรายการได้'));
                         }
                     }
                 }
@@ -333,7 +421,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
     const handleCancelBooking = async (bookingId: string) => {
         // Find the booking to get merged IDs if any
         const booking = bookingResults.find(b => b.id === bookingId);
-        const bookingIds = (booking as any)?.mergedBookingIds || [bookingId];
+        const bookingIds = booking?.mergedBookingIds || [bookingId];
         const bookingCount = bookingIds.length;
 
         Alert.alert(
@@ -357,8 +445,8 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                                 b.id === bookingId ? { ...b, status: 'CANCELLED' } : b
                             ));
                             Alert.alert('ยกเลิกแล้ว', 'ยกเลิกการจองเรียบร้อยแล้ว');
-                        } catch (err: any) {
-                            Alert.alert('เกิดข้อผิดพลาด', err.message);
+                        } catch (err) {
+                            Alert.alert('เกิดข้อผิดพลาด', describeApiError(err, 'ไม่สามารถทำรายการได้'));
                         }
                     }
                 }
@@ -374,7 +462,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
         // Collect all individual booking IDs (including merged)
         const allBookingIds: string[] = [];
         for (const booking of pendingBookings) {
-            const ids = (booking as any).mergedBookingIds || [booking.id];
+            const ids = booking.mergedBookingIds || [booking.id];
             allBookingIds.push(...ids);
         }
 
@@ -388,16 +476,16 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                     onPress: async () => {
                         try {
                             // Use bulk API for check-in (sends single notification)
-                            await bookingService.bulkUpdateStatus(allBookingIds, 'COMPLETED');
+                            const result = await bookingService.bulkUpdateStatus(allBookingIds, 'COMPLETED');
 
                             // Update all booking statuses in state
                             setBookingResults(prev => prev.map(b =>
                                 pendingBookings.find(pb => pb.id === b.id) ? { ...b, status: 'COMPLETED' } : b
                             ));
 
-                            Alert.alert('สำเร็จ!', `Check-in ${allBookingIds.length} รายการเรียบร้อยแล้ว`);
-                        } catch (err: any) {
-                            Alert.alert('เกิดข้อผิดพลาด', err.message);
+                            Alert.alert('สำเร็จ!', result.queued ? OFFLINE_SAVED_MESSAGE : `Check-in ${allBookingIds.length} รายการเรียบร้อยแล้ว`);
+                        } catch (err) {
+                            Alert.alert('เกิดข้อผิดพลาด', describeApiError(err, 'ไม่สามารถทำรายการได้'));
                         }
                     }
                 }
@@ -413,7 +501,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
         // Collect all individual booking IDs (including merged)
         const allBookingIds: string[] = [];
         for (const booking of pendingBookings) {
-            const ids = (booking as any).mergedBookingIds || [booking.id];
+            const ids = booking.mergedBookingIds || [booking.id];
             allBookingIds.push(...ids);
         }
 
@@ -428,16 +516,16 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                     onPress: async () => {
                         try {
                             // Use bulk API for no-show (sends single notification)
-                            await bookingService.bulkUpdateStatus(allBookingIds, 'NO_SHOW', 'ลูกค้าไม่มาใช้บริการ');
+                            const result = await bookingService.bulkUpdateStatus(allBookingIds, 'NO_SHOW', 'ลูกค้าไม่มาใช้บริการ');
 
                             // Update all booking statuses in state
                             setBookingResults(prev => prev.map(b =>
                                 pendingBookings.find(pb => pb.id === b.id) ? { ...b, status: 'NO_SHOW' } : b
                             ));
 
-                            Alert.alert('สำเร็จ!', `ทำเครื่องหมาย No-Show ${allBookingIds.length} รายการเรียบร้อยแล้ว`);
-                        } catch (err: any) {
-                            Alert.alert('เกิดข้อผิดพลาด', err.message);
+                            Alert.alert('สำเร็จ!', result.queued ? OFFLINE_SAVED_MESSAGE : `ทำเครื่องหมาย No-Show ${allBookingIds.length} รายการเรียบร้อยแล้ว`);
+                        } catch (err) {
+                            Alert.alert('เกิดข้อผิดพลาด', describeApiError(err, 'ไม่สามารถทำรายการได้'));
                         }
                     }
                 }
@@ -445,35 +533,19 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
         );
     };
 
-    const handleTogglePayment = async (bookingId: string) => {
-        // Find the booking
+    const handleTogglePayment = (bookingId: string, view: 'LEDGER' | 'PROMPTPAY' = 'LEDGER') => {
         const booking = bookingResults.find(b => b.id === bookingId);
         if (!booking) return;
 
-        const newIsPaid = !booking.isPaid;
+        // Record a payment in the ledger; a merged booking is paid as one
+        setPaymentBooking({ id: bookingId, bookingIds: booking.mergedBookingIds || [bookingId], view });
+    };
 
-        // Optimistic update
+    const handlePaymentsChanged = (fullyPaid: boolean) => {
+        if (!paymentBooking) return;
         setBookingResults(prev => prev.map(b =>
-            b.id === bookingId ? { ...b, isPaid: newIsPaid } : b
+            b.id === paymentBooking.id ? { ...b, isPaid: fullyPaid } : b
         ));
-
-        // Get all booking IDs (if merged)
-        const bookingIds = (booking as any).mergedBookingIds || [bookingId];
-
-        try {
-            // Use bulk API for payment (sends single notification)
-            if (newIsPaid) {
-                await bookingService.bulkMarkAsPaid(bookingIds);
-            } else {
-                await bookingService.bulkUnmarkAsPaid(bookingIds);
-            }
-        } catch (err: any) {
-            // Revert on error
-            setBookingResults(prev => prev.map(b =>
-                b.id === bookingId ? { ...b, isPaid: !newIsPaid } : b
-            ));
-            Alert.alert('เกิดข้อผิดพลาด', 'ไม่สามารถอัพเดทสถานะการชำระเงินได้');
-        }
     };
 
     const handleReset = () => {
@@ -482,6 +554,7 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
         setCustomerInfo(null);
         setError(null);
         setManualInput('');
+        setOfflineMode(false);
         setIsActive(true); // Create camera active again
     };
 
@@ -513,6 +586,41 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
 
 
 
+    const handleDismissRejected = async () => {
+        await checkInRosterService.dismissRejected();
+        await refreshLocalCheckIns();
+    };
+
+    const renderOfflineStatus = () => (
+        <>
+            {rosterInfo && (
+                <View style={styles.rosterInfoRow}>
+                    <MaterialCommunityIcons name="database-check-outline" size={16} color={colors.neutral[500]} />
+                    <Text style={styles.rosterInfoText}>
+                        ข้อมูลออฟไลน์ {rosterInfo.count} การจอง • อัปเดต {dateFnsFormat(parseISO(rosterInfo.fetchedAt), 'HH:mm')}
+                        {pendingCheckInCount > 0 ? ` • รอซิงค์เช็คอิน ${pendingCheckInCount} รายการ` : ''}
+                    </Text>
+                </View>
+            )}
+            {rejectedCheckIns.length > 0 && (
+                <View style={styles.rejectedBox}>
+                    <View style={styles.rejectedHeader}>
+                        <MaterialCommunityIcons name="alert-octagon" size={18} color="#991B1B" />
+                        <Text style={styles.rejectedTitle}>เช็คอินออฟไลน์ถูกปฏิเสธ {rejectedCheckIns.length} รายการ</Text>
+                        <TouchableOpacity onPress={handleDismissRejected}>
+                            <Text style={styles.rejectedDismiss}>รับทราบ</Text>
+                        </TouchableOpacity>
+                    </View>
+                    {rejectedCheckIns.map(checkIn => (
+                        <Text key={`${checkIn.bookingId}-${checkIn.recordedAt}`} style={styles.rejectedItem}>
+                            • {checkIn.customerName || checkIn.bookingId}{checkIn.courtName ? ` (${checkIn.courtName})` : ''} เวลา {dateFnsFormat(parseISO(checkIn.recordedAt), 'HH:mm')}: {checkIn.error}
+                        </Text>
+                    ))}
+                </View>
+            )}
+        </>
+    );
+
     if (!visible) return null;
 
     // Render Manual Input Mode
@@ -561,6 +669,8 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                     </TouchableOpacity>
                 </View>
 
+                {renderOfflineStatus()}
+
                 {error && (
                     <View style={styles.errorBox}>
                         <MaterialCommunityIcons name="alert-circle" size={20} color="#DC2626" />
@@ -719,6 +829,20 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
             <View style={styles.resultOverlay}>
                 <ScrollView style={styles.resultScrollView} contentContainerStyle={styles.resultScrollContent}>
                     <View style={styles.resultCard}>
+                        {/* Unsynced offline actions */}
+                        <OfflineQueueBanner />
+
+                        {/* Result resolved from the cached roster */}
+                        {offlineMode && (
+                            <View style={styles.offlineModeBanner}>
+                                <MaterialCommunityIcons name="wifi-off" size={18} color="#92400E" />
+                                <Text style={styles.offlineModeText}>
+                                    โหมดออฟไลน์ - ข้อมูลจากตารางที่บันทึกไว้{rosterInfo ? ` เวลา ${dateFnsFormat(parseISO(rosterInfo.fetchedAt), 'HH:mm')}` : ''}
+                                </Text>
+                            </View>
+                        )}
+                        {renderOfflineStatus()}
+
                         {/* Customer Header */}
                         {customerInfo && (
                             <>
@@ -846,13 +970,13 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                                         </View>
                                     </View>
 
-                                    {/* Payment Status Checkbox */}
+                                    {/* Payment Status */}
                                     <TouchableOpacity
                                         style={styles.paymentCheckbox}
                                         onPress={() => handleTogglePayment(booking.id)}
                                     >
                                         <MaterialCommunityIcons
-                                            name={booking.isPaid ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                                            name={booking.isPaid ? 'check-circle' : 'cash-register'}
                                             size={24}
                                             color={booking.isPaid ? colors.primary[600] : colors.neutral[400]}
                                         />
@@ -860,9 +984,28 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
                                             styles.paymentCheckboxText,
                                             booking.isPaid && styles.paymentCheckboxTextChecked
                                         ]}>
-                                            จ่ายเงินแล้ว
+                                            {booking.isPaid
+                                                ? 'จ่ายเงินแล้ว'
+                                                : paymentSummaries[booking.id]?.paid
+                                                    ? `จ่ายแล้ว ฿${paymentSummaries[booking.id].paid.toLocaleString()} • ค้าง ฿${paymentSummaries[booking.id].outstanding.toLocaleString()}`
+                                                    : 'รับชำระเงิน'}
                                         </Text>
+                                        {paymentSummaries[booking.id] && !paymentSummaries[booking.id].depositPaid && (
+                                            <Text style={styles.depositMissingText}>
+                                                ต้องมัดจำ ฿{paymentSummaries[booking.id].depositRequired.toLocaleString()}
+                                            </Text>
+                                        )}
                                     </TouchableOpacity>
+
+                                    {!booking.isPaid && (
+                                        <TouchableOpacity
+                                            style={styles.promptPayButton}
+                                            onPress={() => handleTogglePayment(booking.id, 'PROMPTPAY')}
+                                        >
+                                            <MaterialCommunityIcons name="qrcode" size={20} color={colors.primary.main} />
+                                            <Text style={styles.promptPayButtonText}>แสดง QR พร้อมเพย์</Text>
+                                        </TouchableOpacity>
+                                    )}
                                 </View>
 
                                 {/* Status Indicators */}
@@ -928,6 +1071,29 @@ export const QRScannerScreen: React.FC<Props> = ({ visible, onClose, businessId
             supportedOrientations={['landscape']}
         >
             {useManualMode ? renderManualInputMode() : renderCameraMode()}
+
+            <PaymentLedgerModal
+                visible={paymentBooking?.view === 'LEDGER'}
+                businessId={businessId}
+                bookingIds={paymentBooking?.bookingIds || []}
+                courtId={bookingResults.find(b => b.id === paymentBooking?.id)?.facility?.id}
+                totalDue={Number(bookingResults.find(b => b.id === paymentBooking?.id)?.totalPrice || 0)}
+                markedPaid={!!bookingResults.find(b => b.id === paymentBooking?.id)?.isPaid}
+                onClose={() => setPaymentBooking(null)}
+                onChanged={handlePaymentsChanged}
+            />
+
+            <PromptPayQrModal
+                visible={paymentBooking?.view === 'PROMPTPAY'}
+                businessId={businessId}
+                bookingIds={paymentBooking?.bookingIds || []}
+                courtId={bookingResults.find(b => b.id === paymentBooking?.id)?.facility?.id}
+                totalDue={Number(bookingResults.find(b => b.id === paymentBooking?.id)?.totalPrice || 0)}
+                markedPaid={!!bookingResults.find(b => b.id === paymentBooking?.id)?.isPaid}
+                description={bookingResults.find(b => b.id === paymentBooking?.id)?.facility?.name}
+                onClose={() => setPaymentBooking(null)}
+                onPaid={handlePaymentsChanged}
+            />
         </Modal>
     );
 };
@@ -1074,6 +1240,66 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         justifyContent: 'center',
     },
+    rosterInfoRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginBottom: 12,
+    },
+    rosterInfoText: {
+        fontFamily: 'Kanit-Regular',
+        fontSize: 13,
+        color: colors.neutral[500],
+    },
+    offlineModeBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        backgroundColor: '#FEF3C7',
+        paddingVertical: 10,
+        paddingHorizontal: 14,
+        borderRadius: 10,
+        marginBottom: 12,
+    },
+    offlineModeText: {
+        flex: 1,
+        fontFamily: 'Kanit-Medium',
+        fontSize: 14,
+        color: '#92400E',
+    },
+    rejectedBox: {
+        backgroundColor: '#FEF2F2',
+        borderWidth: 1,
+        borderColor: '#FECACA',
+        borderRadius: 10,
+        padding: 12,
+        marginBottom: 12,
+        maxWidth: 500,
+        width: '100%',
+    },
+    rejectedHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginBottom: 4,
+    },
+    rejectedTitle: {
+        flex: 1,
+        fontFamily: 'Kanit-SemiBold',
+        fontSize: 14,
+        color: '#991B1B',
+    },
+    rejectedDismiss: {
+        fontFamily: 'Kanit-Medium',
+        fontSize: 13,
+        color: colors.primary[600],
+    },
+    rejectedItem: {
+        fontFamily: 'Kanit-Regular',
+        fontSize: 13,
+        color: '#7F1D1D',
+        marginTop: 2,
+    },
     errorBox: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -1511,6 +1737,28 @@ const styles = StyleSheet.create({
         fontFamily: 'Kanit-SemiBold',
         color: colors.primary[600],
     },
+    depositMissingText: {
+        marginLeft: 'auto',
+        fontFamily: 'Kanit-Medium',
+        fontSize: 13,
+        color: colors.warning,
+    },
+    promptPayButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 10,
+        borderWidth: 1,
+        borderColor: colors.primary.main,
+        borderRadius: 12,
+        marginTop: 8,
+    },
+    promptPayButtonText: {
+        fontFamily: 'Kanit-Medium',
+        fontSize: 15,
+        color: colors.primary.main,
+    },
     cancelBookingButton: {
         flexDirection: 'row',
         alignItems: 'center',
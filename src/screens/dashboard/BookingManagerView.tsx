@@ -2,18 +2,49 @@ import React, { useEffect, useState, useMemo, useRef, useCallback } from 'react'
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Modal, TextInput, Alert, NativeSyntheticEvent, NativeScrollEvent, useWindowDimensions } from 'react-native';
 import Clipboard from '@react-native-clipboard/clipboard';
 import { colors, fonts, spacing, borderRadius } from '../../theme/tokens';
-import { Court } from '../../types/court';
-import { Booking, BookingStatus } from '../../types/booking';
+import { Court, BlockedPeriod } from '../../types/court';
+import { Booking, BookingDiscount, BookingStatus, PaymentSummary, WaitlistEntry } from '../../types/booking';
 import { SportFilterTabs } from '../../components/common/SportFilterTabs';
 import { courtService } from '../../services/court.service';
 import { bookingService } from '../../services/booking.service';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
-import { format, parseISO, isToday } from 'date-fns';
+import { format, parseISO, isToday, addMinutes, addDays, startOfWeek, startOfDay, endOfDay, isSameDay } from 'date-fns';
 import { th } from 'date-fns/locale';
 import { translateBookingStatus } from '../../utils/statusTranslation';
 import { mergeConsecutiveBookings } from '../../utils/bookingUtils';
 import { BookingLookupResult } from '../../types/booking';
 import { MergedBookingSelectionModal } from '../../components/MergedBookingSelectionModal';
+import { OfflineQueueBanner } from '../../components/OfflineQueueBanner';
+import { offlineQueueService } from '../../services/offlineQueue.service';
+import { DraggableBookingBlock } from '../../components/DraggableBookingBlock';
+import { RescheduleConfirmSheet } from '../../components/RescheduleConfirmSheet';
+import { RecurringBookingSection } from '../../components/RecurringBookingSection';
+import { recurringBookingService, BookingSeries, SeriesScope } from '../../services/recurringBooking.service';
+import { RecurrenceRule, describeRecurrence } from '../../utils/recurrence';
+import { toMinutesOfDay, minutesToTime, isCourtOpenAt, isCourtOpenForRange, checkSlotAvailability, describeSlotProblems, findBlockedPeriods } from '../../utils/availability';
+import { SlotConflictModal } from '../../components/SlotConflictModal';
+import { BlockedPeriodBlock } from '../../components/BlockedPeriodBlock';
+import { PriceBreakdown } from '../../components/PriceBreakdown';
+import { calculatePrice, getBookingRange, PriceQuote } from '../../utils/pricing';
+import { courtBlockService, BLOCK_REASON_LABELS } from '../../services/courtBlock.service';
+import { DiscountModal, DiscountDraft } from '../../components/DiscountModal';
+import { discountService } from '../../services/discount.service';
+import { PaymentLedgerModal } from '../../components/PaymentLedgerModal';
+import { PromptPayQrModal } from '../../components/PromptPayQrModal';
+import { ReceiptModal } from '../../components/ReceiptModal';
+import { BookingHistoryTimeline } from '../../components/BookingHistoryTimeline';
+import { UndoSnackbar } from '../../components/UndoSnackbar';
+import { bookingUndoService, UndoKind } from '../../services/bookingUndo.service';
+import { realtimeService } from '../../services/realtime.service';
+import { responseCacheService } from '../../services/responseCache.service';
+import { describeApiError } from '../../services/apiErrors';
+import { WaitlistModal, WaitlistDraft } from '../../components/WaitlistModal';
+import { BookingSearchModal } from '../../components/BookingSearchModal';
+import { BookingExportModal } from '../../components/BookingExportModal';
+import { MemberAutocomplete } from '../../components/MemberAutocomplete';
+import { waitlistService, findWaitlistMatches, toFreedSlots, slotsOverlap, FreedSlot } from '../../services/waitlist.service';
+import { pricingRulesService } from '../../services/pricingRules.service';
+import { paymentService, summarizePayments } from '../../services/payment.service';
 
 // Constants for table layout
 const TIME_COL_WIDTH = 60;
@@ -23,6 +54,16 @@ const HEADER_HEIGHT = 50; // Height for sport badge + court name
 const ROW_HEIGHT = 60; // Height per hour slot
 const START_HOUR = 0; // 00:00
 const END_HOUR = 24;  // 24:00 (Midnight)
+const MULTI_DAY_OPTIONS = [3, 5, 7];
+
+// Booking actions offered in the undo snackbar, and what they change
+const UNDOABLE_ACTIONS: Partial<Record<string, UndoKind>> = {
+    cancel: 'STATUS',
+    noshow: 'STATUS',
+    completed: 'STATUS',
+    markPaid: 'PAYMENT',
+    markUnpaid: 'PAYMENT',
+};
 
 const SPORT_LABELS: Record<string, string> = {
     'badminton': 'แบดมินตัน',
@@ -56,6 +97,29 @@ interface MergedBooking {
     bookings: Booking[];
 }
 
+// DAY: all courts on one date, WEEK: one court over 7 days, MULTI_DAY: all courts over N days
+type ScheduleViewMode = 'DAY' | 'WEEK' | 'MULTI_DAY';
+
+// One column of the timeline grid
+interface GridColumn {
+    key: string;
+    court: Court;
+    date: Date;
+}
+
+// Target of a booking block being dragged on the timeline grid
+interface BookingMoveDraft {
+    mergedBooking: MergedBooking;
+    sourceCourtId: string;
+    targetCourtId: string;
+    startMinutes: number; // Minutes from midnight
+    endMinutes: number;
+    price: number;
+    conflictIds: string[];
+    outsideHours: boolean;
+    blocked: boolean; // Overlaps a blocked / maintenance period
+}
+
 // Helper to safely get sport type from court object (handling various potential API structures)
 const getCourtSportType = (court: Court): string | null => {
     const c = court as any;
@@ -106,6 +170,77 @@ const getCourtCapacity = (court: Court): number => {
     return 1; // Default slot-based
 };
 
+const hasPricing = (court: Court | undefined): court is Court => !!(court?.hourlyRate || court?.pricingRules);
+
+// Price of a booked slot if it were played on the given court
+const getSlotPriceOnCourt = (booking: Booking, court: Court | undefined): number => {
+    if (!hasPricing(court)) return Number(booking.totalPrice || 0);
+    return calculatePrice({ court, start: parseISO(booking.timeSlotStart), end: parseISO(booking.timeSlotEnd) }).total;
+};
+
+interface ResizePlan {
+    creates: Array<{ startMinutes: number; endMinutes: number; price: number }>;
+    updates: Array<{ booking: Booking; endMinutes: number; price: number }>;
+    cancelIds: string[];
+    price: number; // New total for the whole merged booking
+}
+
+/**
+ * Work out which hourly bookings to create, shorten or cancel so a merged booking ends at endMinutes.
+ * Hourly-slot bookings grow by adding slots; a single long booking is stretched instead.
+ */
+const planResize = (mergedBooking: MergedBooking, court: Court | undefined, endMinutes: number): ResizePlan => {
+    const sorted = [...mergedBooking.bookings].sort(
+        (a, b) => parseISO(a.timeSlotStart).getTime() - parseISO(b.timeSlotStart).getTime()
+    );
+    const startMinutes = toMinutesOfDay(parseISO(mergedBooking.timeSlotStart));
+    const originalEnd = toMinutesOfDay(parseISO(mergedBooking.timeSlotEnd), true);
+    const currentTotal = sorted.reduce((sum, b) => sum + Number(b.totalPrice || 0), 0);
+
+    // Court pricing first, otherwise keep the rate the customer is already paying
+    const dayStart = startOfDay(parseISO(mergedBooking.timeSlotStart));
+    const currentRate = currentTotal / ((originalEnd - startMinutes) / 60);
+    const priceFor = (from: number, to: number) => hasPricing(court)
+        ? calculatePrice({ court, start: addMinutes(dayStart, from), end: addMinutes(dayStart, to) }).total
+        : Math.round(((to - from) / 60) * currentRate);
+
+    const plan: ResizePlan = { creates: [], updates: [], cancelIds: [], price: 0 };
+
+    if (endMinutes >= originalEnd) {
+        if (endMinutes === originalEnd) {
+            plan.price = currentTotal;
+        } else if (sorted.length > 1) {
+            plan.price = currentTotal;
+            for (let m = originalEnd; m < endMinutes; m += 60) {
+                const slotEnd = Math.min(m + 60, endMinutes);
+                const price = priceFor(m, slotEnd);
+                plan.creates.push({ startMinutes: m, endMinutes: slotEnd, price });
+                plan.price += price;
+            }
+        } else {
+            const price = priceFor(startMinutes, endMinutes);
+            plan.updates.push({ booking: sorted[0], endMinutes, price });
+            plan.price = price;
+        }
+        return plan;
+    }
+
+    for (const booking of sorted) {
+        const bStart = toMinutesOfDay(parseISO(booking.timeSlotStart));
+        const bEnd = toMinutesOfDay(parseISO(booking.timeSlotEnd), true);
+        if (bStart >= endMinutes) {
+            plan.cancelIds.push(booking.id);
+        } else if (bEnd > endMinutes) {
+            const price = priceFor(bStart, endMinutes);
+            plan.updates.push({ booking, endMinutes, price });
+            plan.price += price;
+        } else {
+            plan.price += Number(booking.totalPrice || 0);
+        }
+    }
+    return plan;
+};
+
 
 
 export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
@@ -114,8 +249,10 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
 
     // State
     const [loading, setLoading] = useState(true);
+    const [bookingsIncomplete, setBookingsIncomplete] = useState(false); // Some pages of the visible range failed to load
     const [courts, setCourts] = useState<Court[]>([]);
     const [bookings, setBookings] = useState<Booking[]>([]);
+    const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
     const [selectedDate, setSelectedDate] = useState(new Date());
     const [selectedSport, setSelectedSport] = useState<string>('ALL');
 
@@ -128,9 +265,15 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
 
     // Refs for synchronized scrolling
     const headerScrollRef = useRef<ScrollView>(null);
+    const verticalScrollRef = useRef<ScrollView>(null);
+
+    // In-flight requests, cancelled when superseded or no longer needed
+    const loadAbortRef = useRef<AbortController | null>(null);
+    const detailAbortRef = useRef<AbortController | null>(null);
 
     // View Detail Modal
     const [modalVisible, setModalVisible] = useState(false);
+    const [detailTab, setDetailTab] = useState<'DETAILS' | 'HISTORY'>('DETAILS');
     const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
     const [loadingDetail, setLoadingDetail] = useState(false);
 
@@ -144,17 +287,107 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
         endTime: '11:00',
         customerName: '',
         customerPhone: '',
+        serviceUserId: '',
         price: '',
         status: 'CONFIRMED'
     });
+    // Last text typed into the customer fields, for member suggestions
+    const [memberQuery, setMemberQuery] = useState('');
     const [editingBookingId, setEditingBookingId] = useState<string | null>(null);
     const [editingBookingIds, setEditingBookingIds] = useState<string[]>([]); // For bulk editing merged bookings
     const [editingIsCapacity, setEditingIsCapacity] = useState<boolean>(false);
     const [expandedFacilityId, setExpandedFacilityId] = useState<string | null>(null);
     const [relatedBookingIds, setRelatedBookingIds] = useState<string[]>([]); // Track related merged booking IDs
+    const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(null); // New booking repeats
+    const [memberTierId, setMemberTierId] = useState<string | null>(null); // Member discount in the add / edit form
+    const [selectedSeries, setSelectedSeries] = useState<BookingSeries | null>(null); // Series of the booking in the detail modal
+    const [seriesEdit, setSeriesEdit] = useState<{ series: BookingSeries; scope: SeriesScope; bookingId: string } | null>(null);
+    const [selectedDiscount, setSelectedDiscount] = useState<BookingDiscount | null>(null); // Discount on the booking in the detail modal
+    const [discountTarget, setDiscountTarget] = useState<Array<{ id: string; totalPrice: number }> | null>(null);
+    const [savingDiscount, setSavingDiscount] = useState(false);
+    const [paymentSummary, setPaymentSummary] = useState<PaymentSummary | null>(null); // Balance of the booking in the detail modal
+    const [paymentView, setPaymentView] = useState<'LEDGER' | 'PROMPTPAY' | null>(null); // Payment screen open over the detail modal
+    const [receiptModalVisible, setReceiptModalVisible] = useState(false);
+
+    // Waitlist for fully booked times; matches are waiting customers a cancellation freed a slot for
+    const [waitlistVisible, setWaitlistVisible] = useState(false);
+    const [waitlistDate, setWaitlistDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+    const [waitlistDraft, setWaitlistDraft] = useState<WaitlistDraft | null>(null);
+    const [waitlistMatches, setWaitlistMatches] = useState<Record<string, FreedSlot>>({});
+    const [waitingCount, setWaitingCount] = useState(0);
+    const [searchVisible, setSearchVisible] = useState(false); // Search across dates
+    const [exportVisible, setExportVisible] = useState(false);
     const [managementMode, setManagementMode] = useState<'SLOT' | 'CAPACITY'>('SLOT');
+    const [viewMode, setViewMode] = useState<ScheduleViewMode>('DAY');
+    const [weekCourtId, setWeekCourtId] = useState<string | null>(null);
+    const [multiDayCount, setMultiDayCount] = useState(MULTI_DAY_OPTIONS[0]);
     const [currentTime, setCurrentTime] = useState(new Date());
     const [showPhoneNumbers, setShowPhoneNumbers] = useState(true);
+    const [unsyncedBookingIds, setUnsyncedBookingIds] = useState<Set<string>>(new Set());
+    const [slotConflict, setSlotConflict] = useState<{ problems: string[]; conflicts: Booking[] } | null>(null);
+    const [highlightedBookingId, setHighlightedBookingId] = useState<string | null>(null); // "Jump to" target in the grid
+
+    // Drag-and-drop rescheduling
+    const [dragPreview, setDragPreview] = useState<BookingMoveDraft | null>(null);
+    const [pendingMove, setPendingMove] = useState<BookingMoveDraft | null>(null);
+    const [savingMove, setSavingMove] = useState(false);
+    const [resizePreview, setResizePreview] = useState<BookingMoveDraft | null>(null);
+    const activeDraft = dragPreview || resizePreview;
+
+    // Track bookings with actions still waiting in the offline outbox
+    useEffect(() => {
+        return offlineQueueService.subscribe(items => {
+            setUnsyncedBookingIds(new Set(items.flatMap(item => item.bookingIds)));
+        });
+    }, []);
+
+    // Look up whether the opened booking belongs to a recurring series
+    useEffect(() => {
+        if (!selectedBooking) {
+            setSelectedSeries(null);
+            return;
+        }
+        recurringBookingService.getSeriesForBooking(selectedBooking.id).then(setSelectedSeries);
+    }, [selectedBooking]);
+
+    // Look up a discount recorded on the opened booking
+    useEffect(() => {
+        if (!selectedBooking) {
+            setSelectedDiscount(null);
+            return;
+        }
+        discountService.getDiscountForBooking(selectedBooking.id).then(setSelectedDiscount);
+    }, [selectedBooking]);
+
+    // A merged group is paid as one, so the balance covers every booking in it
+    const paymentBookingIds = useMemo(
+        () => (relatedBookingIds.length > 1 ? relatedBookingIds : selectedBooking ? [selectedBooking.id] : []),
+        [relatedBookingIds, selectedBooking]
+    );
+    const paymentBookings = useMemo(() => {
+        const group = bookings.filter(b => paymentBookingIds.includes(b.id));
+        return group.length > 0 ? group : selectedBooking ? [selectedBooking] : [];
+    }, [bookings, paymentBookingIds, selectedBooking]);
+    const paymentTotalDue = useMemo(
+        () => paymentBookings.reduce((sum, b) => sum + Number(b.totalPrice || 0), 0),
+        [paymentBookings]
+    );
+
+    const loadPaymentSummary = useCallback(async () => {
+        if (!selectedBooking) {
+            setPaymentSummary(null);
+            return;
+        }
+        const [entries, rules] = await Promise.all([
+            paymentService.getPayments(paymentBookingIds),
+            pricingRulesService.getRules(selectedBooking.courtId),
+        ]);
+        setPaymentSummary(summarizePayments(entries, paymentTotalDue, !!selectedBooking.isPaid, rules.depositPercent));
+    }, [selectedBooking, paymentBookingIds, paymentTotalDue]);
+
+    useEffect(() => {
+        loadPaymentSummary();
+    }, [loadPaymentSummary]);
 
     // Update current time every minute
     useEffect(() => {
@@ -164,9 +397,20 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
         return () => clearInterval(timer);
     }, []);
 
+    // Capacity management is always a single day; range views only apply to the court grid
+    const effectiveViewMode: ScheduleViewMode = managementMode === 'SLOT' ? viewMode : 'DAY';
+
+    // Dates currently shown (and loaded)
+    const visibleDays = useMemo(() => {
+        if (effectiveViewMode === 'DAY') return [selectedDate];
+        const start = effectiveViewMode === 'WEEK' ? startOfWeek(selectedDate, { weekStartsOn: 1 }) : selectedDate;
+        const count = effectiveViewMode === 'WEEK' ? 7 : multiDayCount;
+        return Array.from({ length: count }, (_, i) => addDays(start, i));
+    }, [effectiveViewMode, selectedDate, multiDayCount]);
+
     // Calculate current time indicator position
     const currentTimeIndicator = useMemo(() => {
-        if (!isToday(selectedDate)) return null;
+        if (!visibleDays.some(day => isToday(day))) return null;
 
         const now = currentTime;
         const currentHour = now.getHours();
@@ -180,16 +424,23 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
             top: topOffset,
             time: format(now, 'HH:mm'),
         };
-    }, [selectedDate, currentTime]);
+    }, [visibleDays, currentTime]);
 
     const loadData = useCallback(async () => {
+        // A newer load (other dates or business) supersedes any still in flight
+        loadAbortRef.current?.abort();
+        const controller = new AbortController();
+        loadAbortRef.current = controller;
+        const { signal } = controller;
+
         setLoading(true);
         try {
             // 1. Fetch courts and capacity facilities
             const [courtsData, facilitiesData] = await Promise.all([
-                courtService.getAllOwnerCourts(),
-                courtService.getCapacityFacilities()
+                courtService.getAllOwnerCourts(signal),
+                courtService.getCapacityFacilities(signal)
             ]);
+            if (signal.aborted) return;
 
             const allCourts = [...courtsData, ...facilitiesData];
 
@@ -210,14 +461,14 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
             console.log(`Courts: ${courtsData.length}, Facilities: ${facilitiesData.length}, Display: ${filteredCourts.length}`);
             setCourts(filteredCourts);
 
-            // 2. Fetch bookings for the date
+            // 2. Fetch bookings for the visible dates
             // API expects ISO timestamp in UTC
             // toISOString() automatically converts local time to UTC
             // For Bangkok (UTC+7): local 00:00 → UTC 17:00 previous day
-            const dateFrom = new Date(selectedDate);
+            const dateFrom = new Date(visibleDays[0]);
             dateFrom.setHours(0, 0, 0, 0);
 
-            const dateTo = new Date(selectedDate);
+            const dateTo = new Date(visibleDays[visibleDays.length - 1]);
             dateTo.setHours(23, 59, 59, 999);
 
             // Adjust for timezone offset manually if needed, or rely on toISOString()
@@ -233,22 +484,35 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
             // Note: Currently we don't filter bookings by businessId in API call?
             // If getBookings returns ALL bookings for owner, we might need to filter manually or API supports filtering.
             // Assuming getBookings handles owner context.
-            // Fetch both regular and capacity bookings
-            const [regularBookings, capacityBookings] = await Promise.all([
-                bookingService.getBookings(payload.startTime, payload.endTime),
-                bookingService.getCapacityBookings(payload.startTime, payload.endTime, businessId || '9999')
+            // Fetch both regular and capacity bookings (all pages, ranges can be a full week)
+            const [regularBookings, capacityBookings, periods] = await Promise.all([
+                bookingService.getBookingsInRange(payload.startTime, payload.endTime, undefined, signal),
+                bookingService.getCapacityBookingsInRange(payload.startTime, payload.endTime, businessId || '9999', signal),
+                courtBlockService.getBlockedPeriods(dateFrom, dateTo)
             ]);
+            if (signal.aborted) return;
 
-            const bookingsData = [...regularBookings, ...capacityBookings];
-            console.log('Bookings loaded:', bookingsData?.length || 0);
-            setBookings(bookingsData || []);
+            const bookingsData = [...regularBookings.items, ...capacityBookings.items];
+            setBookings(bookingsData);
+            setBookingsIncomplete(!regularBookings.complete || !capacityBookings.complete);
+            setBlockedPeriods(periods);
         } catch (error) {
+            if (signal.aborted) return;
             console.error('Error loading data:', error);
             Alert.alert('Error', 'Failed to load data');
         } finally {
-            setLoading(false);
+            if (!signal.aborted) setLoading(false);
         }
-    }, [selectedDate, businessId]);
+    }, [visibleDays, businessId]);
+
+    useEffect(() => {
+        return () => loadAbortRef.current?.abort();
+    }, []);
+
+    // Courts are shown from cache first; reload when the background revalidation changed them
+    useEffect(() => {
+        return responseCacheService.subscribe(['/api/owner/courts', '/api/owner/capacity-facilities'], () => loadData());
+    }, [loadData]);
 
     useEffect(() => {
         setSelectedSport('ALL');
@@ -256,8 +520,137 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
 
     useEffect(() => {
         loadData();
-    }, [selectedDate, businessId, loadData]); // Trigger when business changes
+    }, [visibleDays, businessId, loadData]); // Trigger when business or visible dates change
 
+    // Apply bookings pushed by the server (e.g. made online by a customer) to the grid in place;
+    // after a reconnect the pushes in between are lost, so reload instead
+    useEffect(() => {
+        const rangeStart = startOfDay(visibleDays[0]);
+        const rangeEnd = endOfDay(visibleDays[visibleDays.length - 1]);
+        const courtIds = new Set(courts.map(c => c.id));
+
+        return realtimeService.subscribe(event => {
+            if (event.type === 'connected') {
+                if (event.resumed) loadData();
+                return;
+            }
+            if (event.type === 'notification.created') return;
+
+            const { booking } = event;
+            const start = parseISO(booking.timeSlotStart);
+            const visible = start >= rangeStart && start <= rangeEnd && courtIds.has(booking.courtId);
+            setBookings(prev => {
+                const existing = prev.find(b => b.id === booking.id);
+                const others = prev.filter(b => b.id !== booking.id);
+                return visible ? [...others, { ...existing, ...booking }] : others;
+            });
+            setSelectedBooking(prev => (prev?.id === booking.id ? { ...prev, ...booking } : prev));
+        });
+    }, [visibleDays, courts, loadData]);
+
+    // Reload after an undo from the snackbar, which may have been tapped on another tab
+    useEffect(() => {
+        return bookingUndoService.onReverted(entry => {
+            loadData();
+            if (selectedBooking && entry.previous.some(b => b.id === selectedBooking.id)) {
+                bookingService.getBookingDetail(selectedBooking.id).then(updated => {
+                    if (updated) setSelectedBooking(updated);
+                });
+            }
+        });
+    }, [loadData, selectedBooking]);
+
+    // Bookings as currently loaded, for the "before" side of an undo
+    const getBookingsByIds = (ids: string[]) =>
+        ids
+            .map(id => bookings.find(b => b.id === id) || (selectedBooking?.id === id ? selectedBooking : undefined))
+            .filter((b): b is Booking => !!b);
+
+    const loadWaitingCount = useCallback(async () => {
+        try {
+            const entries = await waitlistService.getEntries(businessId || '9999', format(selectedDate, 'yyyy-MM-dd'));
+            setWaitingCount(entries.filter(e => e.status === 'WAITING').length);
+        } catch (error) {
+            // Only the badge count; the waitlist itself reports the error when opened
+            console.error('Error loading waitlist count:', error);
+        }
+    }, [businessId, selectedDate]);
+
+    useEffect(() => {
+        loadWaitingCount();
+    }, [loadWaitingCount]);
+
+    const openWaitlist = (date: string, draft: WaitlistDraft | null = null) => {
+        setWaitlistDate(date);
+        setWaitlistDraft(draft);
+        setWaitlistVisible(true);
+    };
+
+    // Cancelled or no-show bookings free their slots; point staff at customers waiting for them
+    const highlightWaitlist = async (freed: Booking[]) => {
+        const slots = toFreedSlots(freed);
+        if (slots.length === 0) return;
+        const entries = await waitlistService.getEntries(businessId || '9999').catch(error => {
+            console.error('Error loading waitlist:', error);
+            return [];
+        });
+        const matches = findWaitlistMatches(entries, slots, courtId => {
+            const court = courts.find(c => c.id === courtId);
+            return court ? getCourtSportType(court) : null;
+        });
+        const matchedIds = Object.keys(matches);
+        if (matchedIds.length === 0) return;
+
+        setWaitlistMatches(prev => ({ ...prev, ...matches }));
+        const firstDate = matches[matchedIds[0]].date;
+        Alert.alert(
+            'มีลูกค้ารอคิว',
+            `มีลูกค้าในรายชื่อรอ ${matchedIds.length} คนที่ตรงกับช่วงเวลาที่ว่าง`,
+            [
+                { text: 'ภายหลัง', style: 'cancel' },
+                { text: 'ดูรายชื่อรอ', onPress: () => openWaitlist(firstDate) }
+            ]
+        );
+    };
+
+    const handleBookFromWaitlist = async (entry: WaitlistEntry, slot: FreedSlot): Promise<boolean> => {
+        const court = courts.find(c => c.id === slot.courtId);
+        if (!court) return false;
+
+        const { start, end } = getBookingRange(slot.date, slot.startTime, slot.endTime);
+        const availability = checkSlotAvailability({ court, capacity: getCourtCapacity(court), start, end, bookings, blockedPeriods });
+        if (!availability.isAvailable) {
+            Alert.alert('ช่วงเวลานี้ไม่ว่างแล้ว', describeSlotProblems(availability, getCourtCapacity(court)).join('\n'));
+            setWaitlistMatches(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== entry.id)));
+            return false;
+        }
+
+        try {
+            const created = await bookingService.createBooking({
+                courtId: slot.courtId,
+                date: slot.date,
+                startTime: slot.startTime,
+                endTime: slot.endTime,
+                customerName: entry.customerName,
+                customerPhone: entry.customerPhone || '',
+                price: getFormQuote({ courtId: slot.courtId, date: slot.date, startTime: slot.startTime, endTime: slot.endTime }, null)?.total,
+                status: 'CONFIRMED',
+            });
+            // createBooking resolves to null when the request was queued offline
+            await waitlistService.markBooked(entry.id, created?.id)
+                // The booking stands; the entry just stays on the list for staff to remove
+                .catch(error => console.error('Error marking waitlist entry booked:', error));
+            // The slot is taken now, so nobody else is offered it
+            setWaitlistMatches(prev => Object.fromEntries(Object.entries(prev).filter(([, match]) => !slotsOverlap(match, slot))));
+            Alert.alert(created ? 'สำเร็จ' : 'บันทึกแบบออฟไลน์', `จองให้ ${entry.customerName} ${court.name} ${slot.startTime} - ${slot.endTime} แล้ว`);
+            loadData();
+            loadWaitingCount();
+            return true;
+        } catch (error) {
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถสร้างการจองได้'));
+            return false;
+        }
+    };
 
     // Generate time slots 08:00 - 24:00
     const timeSlots = useMemo(() => {
@@ -269,11 +662,12 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
     }, []);
 
     // Merge consecutive bookings using same logic as QR Scanner (Shared Utility)
-    const getMergedBookingsForCourt = (courtId: string) => {
-        // 1. Filter raw bookings for this court
+    const getMergedBookingsForCourt = (courtId: string, date: Date = selectedDate) => {
+        // 1. Filter raw bookings for this court (and day, when a range is loaded)
         const courtBookings = bookings.filter(b => {
             if ((b.court?.id || b.courtId) !== courtId) return false;
-            if ((b as any).isCapacity === true) return false;
+            if (b.isCapacity === true) return false;
+            if (!isSameDay(parseISO(b.timeSlotStart), date)) return false;
             return true;
         });
 
@@ -377,7 +771,12 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
     };
 
     const handleBookingPress = async (bookingId: string, isCapacity: boolean = false, mergedIds?: string[]) => {
+        detailAbortRef.current?.abort();
+        const controller = new AbortController();
+        detailAbortRef.current = controller;
+
         setLoadingDetail(true);
+        setDetailTab('DETAILS');
         setModalVisible(true);
         // Clear previous selection while loading to show spinner
         setSelectedBooking(null);
@@ -405,52 +804,79 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                 }
             } else {
                 // For regular bookings, fetch full detail from API
-                const detail = await bookingService.getBookingDetail(bookingId);
+                const detail = await bookingService.getBookingDetail(bookingId, controller.signal);
+                if (controller.signal.aborted) return;
                 setSelectedBooking(detail);
             }
         } catch (error) {
             console.error('Error fetching details:', error);
         } finally {
-            setLoadingDetail(false);
+            if (!controller.signal.aborted) setLoadingDetail(false);
         }
     };
 
+    // Closing the detail modal drops a detail fetch that is still loading
+    useEffect(() => {
+        if (!modalVisible) detailAbortRef.current?.abort();
+    }, [modalVisible]);
+
+
+
+    // Price quote for the add / edit form from the selected court's pricing rules
+    const getFormQuote = (
+        values: Pick<typeof newBooking, 'courtId' | 'date' | 'startTime' | 'endTime'>,
+        tierId: string | null = memberTierId
+    ): PriceQuote | null => {
+        const court = courts.find(c => c.id === values.courtId);
+        if (!hasPricing(court) || !values.date || !values.startTime || !values.endTime) return null;
+        const { start, end } = getBookingRange(values.date, values.startTime, values.endTime);
+        return calculatePrice({ court, start, end, memberTierId: tierId });
+    };
+
+    // Quoted price as form text, or the fallback when the court has no pricing
+    const getFormPrice = (
+        values: Pick<typeof newBooking, 'courtId' | 'date' | 'startTime' | 'endTime'>,
+        fallback: string,
+        tierId: string | null = memberTierId
+    ): string => {
+        const quote = getFormQuote(values, tierId);
+        return quote && quote.total > 0 ? quote.total.toString() : fallback;
+    };
 
+    const handleSelectMemberTier = (tierId: string | null) => {
+        setMemberTierId(tierId);
+        setNewBooking(prev => ({ ...prev, price: getFormPrice(prev, prev.price, tierId) }));
+    };
 
     const openAddModal = (options: Partial<typeof newBooking> = {}) => {
         setEditingBookingId(null);
         setEditingBookingIds([]);
+        setRecurrenceRule(null);
+        setSeriesEdit(null);
+        setMemberTierId(null);
         // Initial calculations
-        let initialPrice = options.price || '';
         const initialCourtId = options.courtId || (courts.length > 0 ? courts[0].id : '');
+        const initialDate = options.date || format(selectedDate, 'yyyy-MM-dd');
         const initialStartTime = options.startTime || '10:00';
         const initialEndTime = options.endTime || '11:00';
-
-        if (!initialPrice && initialCourtId) {
-            const court = courts.find(c => c.id === initialCourtId);
-            if (court && court.hourlyRate) {
-                const [sH, sM] = initialStartTime.split(':').map(Number);
-                const [eH, eM] = initialEndTime.split(':').map(Number);
-                let sMin = sH * 60 + sM;
-                let eMin = eH * 60 + eM;
-                if (eMin <= sMin) eMin += 24 * 60;
-                const durationHours = (eMin - sMin) / 60;
-                if (durationHours > 0) {
-                    initialPrice = Math.round(durationHours * Number(court.hourlyRate)).toString();
-                }
-            }
-        }
+        const initialPrice = options.price || getFormPrice(
+            { courtId: initialCourtId, date: initialDate, startTime: initialStartTime, endTime: initialEndTime },
+            '',
+            null
+        );
 
         setNewBooking({
             courtId: initialCourtId,
-            date: options.date || format(selectedDate, 'yyyy-MM-dd'),
+            date: initialDate,
             startTime: initialStartTime,
             endTime: initialEndTime,
             customerName: options.customerName || '',
             customerPhone: options.customerPhone || '',
+            serviceUserId: options.serviceUserId || '',
             price: initialPrice,
             status: options.status || 'CONFIRMED'
         });
+        setMemberQuery('');
         setAddModalVisible(true);
     };
 
@@ -458,6 +884,7 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
         if (!selectedBooking) return;
 
         const booking = selectedBooking as any;
+        setSeriesEdit(null);
 
         // Check if this is part of a merged booking with multiple IDs
         if (relatedBookingIds.length > 1) {
@@ -532,9 +959,11 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                     endTime: formattedEndTime,
                     customerName: booking.serviceUser?.name || booking.customerName || '',
                     customerPhone: phone,
+                    serviceUserId: booking.serviceUserId || '',
                     price: totalPrice > 0 ? totalPrice.toString() : '',
                     status: booking.status
                 });
+                setMemberQuery('');
 
                 console.log('[BulkEdit] newBooking set with endTime:', formattedEndTime);
 
@@ -557,14 +986,74 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
             endTime: format(endDate, 'HH:mm'),
             customerName: booking.serviceUser?.name || booking.customerName || '',
             customerPhone: phone,
+            serviceUserId: booking.serviceUserId || '',
             price: booking.totalPrice ? booking.totalPrice.toString() : '',
             status: booking.status
         });
+        setMemberQuery('');
 
         setModalVisible(false);
         setAddModalVisible(true);
     };
 
+    // Check the slot in the add/edit form against the bookings already on the court
+    const findSlotProblem = async (court: Court): Promise<{ problems: string[]; conflicts: Booking[] } | null> => {
+        const { start, end } = getBookingRange(newBooking.date, newBooking.startTime, newBooking.endTime);
+
+        // Only the visible days are loaded; bookings for any other date are fetched for the check
+        let existing = bookings;
+        let periods = blockedPeriods;
+        if (!visibleDays.some(day => isSameDay(day, start))) {
+            const dayStart = new Date(start);
+            dayStart.setHours(0, 0, 0, 0);
+            const dayEnd = addDays(dayStart, 2);
+            const [regularBookings, capacityBookings, dayPeriods] = await Promise.all([
+                bookingService.getBookingsInRange(dayStart.toISOString(), dayEnd.toISOString()),
+                bookingService.getCapacityBookingsInRange(dayStart.toISOString(), dayEnd.toISOString(), businessId || '9999'),
+                courtBlockService.getBlockedPeriods(dayStart, dayEnd, court.id)
+            ]);
+            // Best effort: if some pages failed, the server still rejects a double booking with a ConflictError
+            existing = [...regularBookings.items, ...capacityBookings.items];
+            periods = dayPeriods;
+        }
+
+        const capacity = getCourtCapacity(court);
+        const result = checkSlotAvailability({
+            court,
+            capacity,
+            start,
+            end,
+            bookings: existing,
+            blockedPeriods: periods,
+            excludeIds: editingBookingIds.length > 0 ? editingBookingIds : (editingBookingId ? [editingBookingId] : []),
+        });
+        if (result.isAvailable) return null;
+        return { problems: describeSlotProblems(result, capacity), conflicts: result.conflicts };
+    };
+
+    // Show a booking from the conflict list in the grid
+    const jumpToBooking = (booking: Booking) => {
+        const isCapacity = booking.isCapacity === true;
+        setSlotConflict(null);
+        setAddModalVisible(false);
+        setModalVisible(false);
+        setSelectedSport('ALL');
+        setManagementMode(isCapacity ? 'CAPACITY' : 'SLOT');
+        if (isCapacity) {
+            setExpandedFacilityId(booking.court?.id || booking.courtId || null);
+        } else {
+            setViewMode('DAY');
+        }
+        setSelectedDate(parseISO(booking.timeSlotStart));
+        setHighlightedBookingId(booking.id);
+    };
+
+    const handleSearchSelect = (booking: Booking) => {
+        setSearchVisible(false);
+        setCapacitySearchQuery(''); // Would otherwise hide the booking in the capacity list
+        jumpToBooking(booking);
+    };
+
     const handleAddBooking = async () => {
         if (!newBooking.courtId || !newBooking.customerName || !newBooking.customerPhone) {
             console.error('Missing required fields');
@@ -584,7 +1073,41 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
             const selectedCourt = courts.find(c => c.id === newBooking.courtId);
             const isCapacity = selectedCourt ? getCourtCapacity(selectedCourt) > 1 : false;
 
-            if (editingBookingId) {
+            // Catch double bookings before sending. Bulk edits of merged slots keep their times,
+            // and new recurring series already skip the dates that are taken.
+            const keepsTimes = !!editingBookingId && !seriesEdit && editingBookingIds.length > 1;
+            const isNewSeries = !editingBookingId && !isCapacity && !!recurrenceRule;
+            const quote = keepsTimes ? null : getFormQuote(newBooking);
+            if (quote?.belowMinimum) {
+                Alert.alert('ระยะเวลาสั้นเกินไป', `สนามนี้ต้องจองขั้นต่ำ ${quote.minDurationMinutes} นาที`);
+                return;
+            }
+
+            if (selectedCourt && !keepsTimes && !isNewSeries) {
+                const problem = await findSlotProblem(selectedCourt);
+                if (problem) {
+                    setSlotConflict(problem);
+                    return;
+                }
+            }
+
+            if (editingBookingId && seriesEdit) {
+                // Recurring series: same changes for every targeted occurrence (each keeps its own date)
+                const result = await recurringBookingService.updateSeries(seriesEdit.series, seriesEdit.scope, seriesEdit.bookingId, {
+                    courtId: newBooking.courtId,
+                    startTime: newBooking.startTime,
+                    endTime: newBooking.endTime,
+                    customerName: newBooking.customerName,
+                    customerPhone: newBooking.customerPhone,
+                    serviceUserId: newBooking.serviceUserId || undefined,
+                    price: newBooking.price ? parseFloat(newBooking.price) : undefined,
+                    status: newBooking.status,
+                });
+                Alert.alert(
+                    result.queued ? 'บันทึกแบบออฟไลน์' : 'สำเร็จ',
+                    `แก้ไขการจองประจำ ${result.updatedCount} รายการ${result.queued ? ' ระบบจะซิงค์เมื่อกลับมาออนไลน์' : 'เรียบร้อยแล้ว'}`
+                );
+            } else if (editingBookingId) {
                 // Bulk edit: apply to all editingBookingIds
                 const idsToUpdate = editingBookingIds.length > 0 ? editingBookingIds : [editingBookingId];
                 const isBulkEdit = idsToUpdate.length > 1;
@@ -630,14 +1153,23 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
 
                     return {
                         ...basePayload,
-                        courtId
+                        courtId,
+                        serviceUserId: newBooking.serviceUserId || undefined,
                     };
                 });
 
-                await bookingService.bulkUpdateDetails(updates);
+                const previous = getBookingsByIds(idsToUpdate);
+                const res = await bookingService.bulkUpdateDetails(updates);
+                if (!res.success) {
+                    throw new Error('ไม่สามารถบันทึกการจองได้');
+                }
 
-                if (idsToUpdate.length > 1) {
-                    Alert.alert('สำเร็จ', `แก้ไขการจอง ${idsToUpdate.length} รายการเรียบร้อยแล้ว`);
+                const edited = previous.filter(b => !res.data?.failedIds?.includes(b.id));
+                if (edited.length > 0) {
+                    bookingUndoService.push('DETAILS', edited.length > 1 ? `แก้ไขการจอง ${edited.length} รายการ` : 'แก้ไขการจอง', edited);
+                }
+                if (edited.length < previous.length) {
+                    Alert.alert('ผิดพลาด', `แก้ไขการจองสำเร็จ ${edited.length}/${previous.length} รายการ`);
                 }
             } else {
                 // Create new booking
@@ -647,6 +1179,7 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                     endTime: newBooking.endTime,
                     customerName: newBooking.customerName,
                     customerPhone: newBooking.customerPhone,
+                    serviceUserId: newBooking.serviceUserId || undefined,
                     price: newBooking.price ? parseFloat(newBooking.price) : undefined,
                     status: newBooking.status
                 };
@@ -658,6 +1191,20 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                         businessId: businessId || '99999',
                         quantity: 1
                     });
+                } else if (recurrenceRule) {
+                    // Recurring series: create every occurrence, skipping dates that are already taken
+                    // Quoted prices follow each occurrence's own rate (weekends, holidays); a manual price applies to all
+                    const isQuotedPrice = !!quote && newBooking.price === quote.total.toString();
+                    const result = await recurringBookingService.createSeries({
+                        ...createPayload,
+                        courtId: newBooking.courtId,
+                        startDate: newBooking.date,
+                    }, recurrenceRule, isQuotedPrice ? date => getFormQuote({ ...newBooking, date })?.total ?? quote.total : undefined);
+
+                    let message = `สร้างการจอง ${describeRecurrence(recurrenceRule)} ${result.createdCount} รายการ`;
+                    if (result.skippedCount > 0) message += `\nข้าม ${result.skippedCount} รายการเนื่องจากชนกับการจองอื่นหรือช่วงปิดสนาม`;
+                    if (result.queued) message += '\nระบบจะซิงค์เมื่อกลับมาออนไลน์';
+                    Alert.alert(result.queued ? 'บันทึกแบบออฟไลน์' : 'สร้างการจองประจำ', message);
                 } else {
                     await bookingService.createBooking({
                         ...createPayload,
@@ -670,10 +1217,12 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
             setEditingBookingId(null);
             setEditingBookingIds([]);
             setEditingIsCapacity(false);
+            setRecurrenceRule(null);
+            setSeriesEdit(null);
             loadData(); // Refresh bookings
         } catch (error) {
             console.error('Error saving booking:', error);
-            Alert.alert('Error', 'Failed to save booking');
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถบันทึกการจองได้'));
         } finally {
             setAddingBooking(false);
         }
@@ -717,10 +1266,13 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
     // Execute action for single or multiple bookings
     const executeBulkAction = async (action: 'pending' | 'confirm' | 'cancel' | 'noshow' | 'completed' | 'markPaid' | 'markUnpaid', targetIds?: string[]) => {
         const ids = targetIds || [selectedBooking!.id];
+        const previous = getBookingsByIds(ids);
 
         setLoadingDetail(true);
         try {
             let successCount = 0;
+            let failedIds: string[] = [];
+            let queued = false;
 
             // Check if action is supported by bulk API
             const bulkMap: Record<string, 'PENDING' | 'CONFIRMED' | 'NO_SHOW' | 'CANCELLED' | 'COMPLETED'> = {
@@ -742,6 +1294,8 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                     const res = await bookingService.bulkUpdateStatus(ids, bulkStatus, reason);
                     if (res && res.success) {
                         successCount = res.data?.successCount || 0;
+                        failedIds = res.data?.failedIds || [];
+                        queued = !!res.queued;
                     }
                 } catch (e) {
                     console.error('Bulk update failed', e);
@@ -753,11 +1307,15 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                         const res = await bookingService.bulkMarkAsPaid(ids);
                         if (res && res.success) {
                             successCount = res.data?.successCount || 0;
+                            failedIds = res.data?.failedIds || [];
+                            queued = !!res.queued;
                         }
                     } else if (action === 'markUnpaid') {
                         const res = await bookingService.bulkUnmarkAsPaid(ids);
                         if (res && res.success) {
                             successCount = res.data?.successCount || 0;
+                            failedIds = res.data?.failedIds || [];
+                            queued = !!res.queued;
                         }
                     }
                 } catch (e) {
@@ -765,13 +1323,39 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                 }
             }
 
-            if (successCount === ids.length) {
-                const actionText = action === 'confirm' ? 'ยืนยันการจอง' :
+            const actionText = action === 'confirm' ? 'ยืนยันการจอง' :
+                action === 'pending' ? 'เปลี่ยนสถานะเป็นรอยืนยัน' :
                     action === 'cancel' ? 'ยกเลิกการจอง' :
                         action === 'noshow' ? 'บันทึกสถานะไม่มาใช้บริการ' :
                             action === 'markPaid' ? 'บันทึกการชำระเงิน' :
                                 action === 'markUnpaid' ? 'ยกเลิกการชำระเงิน' : 'บันทึกสถานะลูกค้ามาใช้บริการแล้ว';
-                Alert.alert('สำเร็จ', ids.length > 1 ? `${actionText} ${successCount} รายการเรียบร้อยแล้ว` : `${actionText}เรียบร้อยแล้ว`);
+
+            // Destructive actions can be undone for a few seconds, even after switching tabs
+            const undoKind = UNDOABLE_ACTIONS[action];
+            const changed = previous.filter(b => !failedIds.includes(b.id));
+            const undoEntry = undoKind && (queued || successCount > 0)
+                ? bookingUndoService.push(undoKind, changed.length > 1 ? `${actionText} ${changed.length} รายการ` : actionText, changed)
+                : null;
+
+            if ((action === 'cancel' || action === 'noshow') && (queued || successCount > 0)) {
+                highlightWaitlist(changed);
+            }
+
+            if (queued) {
+                // Offline: apply the change locally, the outbox will replay it when back online
+                const patch: Partial<Booking> = bulkStatus
+                    ? { status: bulkStatus as BookingStatus }
+                    : { isPaid: action === 'markPaid', paidAt: action === 'markPaid' ? new Date().toISOString() : undefined };
+                setBookings(prev => prev.map(b => ids.includes(b.id) ? { ...b, ...patch } : b));
+                if (selectedBooking && ids.includes(selectedBooking.id)) {
+                    setSelectedBooking({ ...selectedBooking, ...patch });
+                }
+                Alert.alert('บันทึกแบบออฟไลน์', 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต รายการจะถูกซิงค์อัตโนมัติเมื่อกลับมาออนไลน์');
+            } else if (successCount === ids.length) {
+                // The undo snackbar already tells staff it went through
+                if (!undoEntry) {
+                    Alert.alert('สำเร็จ', ids.length > 1 ? `${actionText} ${successCount} รายการเรียบร้อยแล้ว` : `${actionText}เรียบร้อยแล้ว`);
+                }
 
                 // Keep modal open and refresh data
                 loadData();
@@ -832,32 +1416,104 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
         }
     };
 
-    const handleTogglePayment = async () => {
+    // Payments recorded in the ledger; the paid flag follows the balance
+    const handlePaymentsChanged = (fullyPaid: boolean) => {
+        const ids = paymentBookingIds;
+        const patch: Partial<Booking> = { isPaid: fullyPaid, paidAt: fullyPaid ? new Date().toISOString() : undefined };
+        setBookings(prev => prev.map(b => (ids.includes(b.id) ? { ...b, ...patch } : b)));
+        if (selectedBooking && ids.includes(selectedBooking.id) && !!selectedBooking.isPaid !== fullyPaid) {
+            setSelectedBooking({ ...selectedBooking, ...patch });
+        } else {
+            loadPaymentSummary();
+        }
+    };
+
+    const openDiscountFor = (ids: string[]) => {
         if (!selectedBooking) return;
+        const targets = bookings.filter(b => ids.includes(b.id));
+        setDiscountTarget((targets.length > 0 ? targets : [selectedBooking]).map(b => ({ id: b.id, totalPrice: Number(b.totalPrice || 0) })));
+    };
 
-        const isCurrentlyPaid = selectedBooking.isPaid;
-        const action = isCurrentlyPaid ? 'markUnpaid' : 'markPaid';
-        const title = isCurrentlyPaid ? 'ยกเลิกการชำระเงิน' : 'บันทึกการชำระเงิน';
+    const handleOpenDiscount = () => {
+        if (!selectedBooking) return;
+
+        // An existing discount keeps the bookings it was given on
+        if (selectedDiscount) {
+            setDiscountTarget(selectedDiscount.lines.map(line => ({ id: line.bookingId, totalPrice: line.discountedAmount })));
+            return;
+        }
 
-        // Check if this is part of a merged booking with multiple IDs
         if (relatedBookingIds.length > 1) {
             Alert.alert(
-                title,
-                `การจองนี้เป็นส่วนหนึ่งของการจองต่อเนื่อง ${relatedBookingIds.length} รายการ ต้องการ${title}รายการไหน?`,
+                'ให้ส่วนลด',
+                `การจองนี้เป็นส่วนหนึ่งของการจองต่อเนื่อง ${relatedBookingIds.length} รายการ ต้องการให้ส่วนลดรายการไหน?`,
                 [
                     { text: 'ปิด', style: 'cancel' },
                     {
-                        text: 'บันทึกรายการเดียว',
-                        onPress: () => executeBulkAction(action, [selectedBooking.id])
+                        text: 'รายการเดียว',
+                        onPress: () => openDiscountFor([selectedBooking.id])
                     },
                     {
-                        text: `บันทึกทั้งหมด (${relatedBookingIds.length})`,
-                        onPress: () => executeBulkAction(action, relatedBookingIds)
+                        text: `ทั้งหมด (${relatedBookingIds.length})`,
+                        onPress: () => openDiscountFor(relatedBookingIds)
                     }
                 ]
             );
         } else {
-            executeBulkAction(action);
+            openDiscountFor([selectedBooking.id]);
+        }
+    };
+
+    // Show the new price of the opened booking after its discount changed
+    const refreshDiscountedBooking = async (prices: Record<string, number>, queued: boolean) => {
+        setBookings(prev => prev.map(b => (prices[b.id] !== undefined ? { ...b, totalPrice: prices[b.id] } : b)));
+        if (selectedBooking && prices[selectedBooking.id] !== undefined) {
+            setSelectedBooking({ ...selectedBooking, totalPrice: prices[selectedBooking.id] });
+        }
+        if (queued) {
+            Alert.alert('บันทึกแบบออฟไลน์', 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต ราคาจะถูกซิงค์อัตโนมัติเมื่อกลับมาออนไลน์');
+        } else {
+            loadData();
+        }
+    };
+
+    const handleApplyDiscount = async (draft: DiscountDraft) => {
+        if (!selectedBooking || !discountTarget) return;
+        setSavingDiscount(true);
+        try {
+            const { discount, queued } = await discountService.applyDiscount({
+                ...draft,
+                bookings: discountTarget,
+                bookingDate: format(parseISO(selectedBooking.timeSlotStart), 'yyyy-MM-dd'),
+            });
+            setSelectedDiscount(discount);
+            setDiscountTarget(null);
+            await refreshDiscountedBooking(
+                Object.fromEntries(discount.lines.map(line => [line.bookingId, line.discountedAmount])),
+                queued
+            );
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'เกิดข้อผิดพลาด';
+            Alert.alert('ไม่สามารถให้ส่วนลดได้', message);
+        } finally {
+            setSavingDiscount(false);
+        }
+    };
+
+    const handleRemoveDiscount = async () => {
+        if (!selectedDiscount) return;
+        setSavingDiscount(true);
+        try {
+            const { queued } = await discountService.removeDiscount(selectedDiscount);
+            const prices = Object.fromEntries(selectedDiscount.lines.map(line => [line.bookingId, line.originalAmount]));
+            setSelectedDiscount(null);
+            setDiscountTarget(null);
+            await refreshDiscountedBooking(prices, queued);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'เกิดข้อผิดพลาด';
+            Alert.alert('ไม่สามารถยกเลิกส่วนลดได้', message);
+        } finally {
+            setSavingDiscount(false);
         }
     };
 
@@ -899,6 +1555,66 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
         }
     };
 
+    const handleEditSeries = () => {
+        if (!selectedBooking || !selectedSeries) return;
+        const booking = selectedBooking;
+
+        const editWithScope = (scope: SeriesScope) => {
+            setEditingBookingIds([booking.id]);
+            proceedToEditBooking(booking);
+            // proceedToEditBooking does not touch seriesEdit, so set it after
+            setSeriesEdit({ series: selectedSeries, scope, bookingId: booking.id });
+        };
+
+        Alert.alert(
+            'แก้ไขการจองประจำ',
+            'ต้องการนำการแก้ไขไปใช้กับรายการใด?',
+            [
+                { text: 'ยกเลิก', style: 'cancel' },
+                { text: 'เฉพาะครั้งนี้', onPress: () => editWithScope('THIS') },
+                { text: 'ครั้งนี้และครั้งถัดไป', onPress: () => editWithScope('FOLLOWING') },
+                { text: 'ทั้งซีรีส์', onPress: () => editWithScope('ALL') }
+            ]
+        );
+    };
+
+    const handleCancelSeries = () => {
+        if (!selectedBooking || !selectedSeries) return;
+
+        const cancelWithScope = async (scope: SeriesScope) => {
+            setLoadingDetail(true);
+            try {
+                const result = await recurringBookingService.cancelSeries(selectedSeries, scope, selectedBooking.id);
+                if (result.failedCount > 0) {
+                    Alert.alert('ผิดพลาด', `ยกเลิกการจองประจำสำเร็จ ${result.cancelledCount}/${result.cancelledCount + result.failedCount} รายการ`);
+                } else {
+                    Alert.alert(
+                        result.queued ? 'บันทึกแบบออฟไลน์' : 'สำเร็จ',
+                        `ยกเลิกการจองประจำ ${result.cancelledCount} รายการ${result.queued ? ' ระบบจะซิงค์เมื่อกลับมาออนไลน์' : 'เรียบร้อยแล้ว'}`
+                    );
+                }
+                setModalVisible(false);
+                loadData();
+            } catch (error) {
+                console.error('Error cancelling series:', error);
+                Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถยกเลิกการจองประจำได้'));
+            } finally {
+                setLoadingDetail(false);
+            }
+        };
+
+        Alert.alert(
+            'ยกเลิกการจองประจำ',
+            'ต้องการยกเลิกรายการใด?',
+            [
+                { text: 'ปิด', style: 'cancel' },
+                { text: 'เฉพาะครั้งนี้', style: 'destructive', onPress: () => cancelWithScope('THIS') },
+                { text: 'ครั้งนี้และครั้งถัดไป', style: 'destructive', onPress: () => cancelWithScope('FOLLOWING') },
+                { text: 'ทั้งซีรีส์', style: 'destructive', onPress: () => cancelWithScope('ALL') }
+            ]
+        );
+    };
+
     const handleMarkNoShow = async () => {
         if (!selectedBooking) return;
 
@@ -966,20 +1682,98 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
 
     // Separate courts by type for rendering
     const slotCourts = useMemo(() => filteredCourts.filter(c => getCourtCapacity(c) <= 1), [filteredCourts]);
+
+    // Waiting customers can ask for any court, whatever sport tab is selected
+    const waitlistCourts = useMemo(() => courts.filter(c => getCourtCapacity(c) <= 1), [courts]);
+    const waitlistSports = useMemo(
+        () => Array.from(new Set(waitlistCourts.map(getCourtSportType).filter((t): t is string => !!t)))
+            .map(id => ({ id, label: getSportName(id) })),
+        [waitlistCourts]
+    );
     const capacityCourts = useMemo(() => filteredCourts.filter(c => getCourtCapacity(c) > 1), [filteredCourts]);
 
     // Calculate dynamic court column width based on number of courts
+    // Columns of the timeline grid for the current view
+    const gridColumns = useMemo<GridColumn[]>(() => {
+        if (effectiveViewMode === 'WEEK') {
+            const court = slotCourts.find(c => c.id === weekCourtId) || slotCourts[0];
+            if (!court) return [];
+            return visibleDays.map(date => ({ key: `${court.id}-${format(date, 'yyyy-MM-dd')}`, court, date }));
+        }
+        return visibleDays.flatMap(date =>
+            slotCourts.map(court => ({ key: `${court.id}-${format(date, 'yyyy-MM-dd')}`, court, date }))
+        );
+    }, [effectiveViewMode, slotCourts, weekCourtId, visibleDays]);
+
     const courtColumnWidth = useMemo(() => {
-        const numCourts = slotCourts.length;
-        if (numCourts === 0) return MIN_COURT_COL_WIDTH;
+        const numColumns = gridColumns.length;
+        if (numColumns === 0) return MIN_COURT_COL_WIDTH;
 
         // Available width = window width - time column - some padding
         const availableWidth = windowWidth - TIME_COL_WIDTH - 100; // 100px for padding/scrollbar
-        const calculatedWidth = Math.floor(availableWidth / numCourts);
+        const calculatedWidth = Math.floor(availableWidth / numColumns);
 
         // Clamp between min and max
         return Math.min(MAX_COURT_COL_WIDTH, Math.max(MIN_COURT_COL_WIDTH, calculatedWidth));
-    }, [slotCourts.length, windowWidth]);
+    }, [gridColumns.length, windowWidth]);
+
+    // Scroll a "jump to" booking into view once its day is loaded, then drop the highlight
+    useEffect(() => {
+        if (!highlightedBookingId || loading) return;
+        const booking = bookings.find(b => b.id === highlightedBookingId);
+        if (booking && booking.isCapacity !== true) {
+            const columnIndex = gridColumns.findIndex(column => column.court.id === (booking.court?.id || booking.courtId));
+            const top = (toMinutesOfDay(parseISO(booking.timeSlotStart)) / 60 - START_HOUR) * ROW_HEIGHT;
+            verticalScrollRef.current?.scrollTo({ y: Math.max(0, top - ROW_HEIGHT), animated: true });
+            if (columnIndex >= 0) {
+                horizontalScrollRef.current?.scrollTo({ x: columnIndex * courtColumnWidth, animated: true });
+            }
+        }
+        const timer = setTimeout(() => setHighlightedBookingId(null), 4000);
+        return () => clearTimeout(timer);
+    }, [highlightedBookingId, loading, bookings, gridColumns, courtColumnWidth]);
+
+    // Blocked periods of a court on one grid day, as minutes from that day's midnight
+    const getBlockedPeriodsForColumn = (courtId: string, date: Date) => {
+        const dayStart = new Date(date);
+        dayStart.setHours(0, 0, 0, 0);
+        const dayEnd = addDays(dayStart, 1);
+        return findBlockedPeriods(blockedPeriods, courtId, dayStart, dayEnd).map(period => ({
+            period,
+            startMinutes: Math.max(0, (period.start.getTime() - dayStart.getTime()) / 60000),
+            endMinutes: Math.min(1440, (period.end.getTime() - dayStart.getTime()) / 60000),
+        }));
+    };
+
+    const handleBlockedPeriodPress = (period: BlockedPeriod) => {
+        const court = courts.find(c => c.id === period.courtId);
+        Alert.alert(
+            'สนามปิด',
+            `${court?.name || ''}\n${courtBlockService.describeBlock(period.block)}\nจัดการช่วงปิดสนามได้ที่เมนูจัดการสนาม`,
+            [
+                { text: 'ปิด', style: 'cancel' },
+                {
+                    text: 'ลบช่วงปิดสนามนี้',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await courtBlockService.deleteBlock(period.block.id);
+                            loadData();
+                        } catch (error) {
+                            console.error('Failed to delete court block:', error);
+                            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถลบช่วงปิดสนามได้'));
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    // Date arrows move by the number of visible days
+    const shiftSelectedDate = (direction: 1 | -1) => {
+        const step = effectiveViewMode === 'WEEK' ? 7 : visibleDays.length;
+        setSelectedDate(d => addDays(d, direction * step));
+    };
 
     // Generate time options for picker
     const timeOptions = useMemo(() => {
@@ -988,17 +1782,324 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
             times.push(`${String(h).padStart(2, '0')}:00`);
             if (h < END_HOUR) times.push(`${String(h).padStart(2, '0')}:30`);
         }
-        return times;
-    }, []);
+        return times;
+    }, []);
+
+    // Active bookings on a court that overlap [startMinutes, endMinutes) of the selected day
+    const findCourtConflicts = (courtId: string, startMinutes: number, endMinutes: number, excludeIds: string[]): string[] => {
+        return bookings
+            .filter(b => {
+                if (excludeIds.includes(b.id)) return false;
+                if ((b.court?.id || b.courtId) !== courtId) return false;
+                if (b.isCapacity === true) return false;
+                if (b.status === BookingStatus.CANCELLED || b.status === BookingStatus.NO_SHOW) return false;
+                const bStart = toMinutesOfDay(parseISO(b.timeSlotStart));
+                const bEnd = toMinutesOfDay(parseISO(b.timeSlotEnd), true);
+                return bStart < endMinutes && bEnd > startMinutes;
+            })
+            .map(b => b.id);
+    };
+
+    // Whether [startMinutes, endMinutes) of the selected day overlaps a blocked period of the court
+    const isRangeBlocked = (courtId: string, startMinutes: number, endMinutes: number): boolean => {
+        const dayStart = new Date(selectedDate);
+        dayStart.setHours(0, 0, 0, 0);
+        return findBlockedPeriods(blockedPeriods, courtId, addMinutes(dayStart, startMinutes), addMinutes(dayStart, endMinutes)).length > 0;
+    };
+
+    // Snap a dragged block to a court column / hour row and check it against the grid
+    const getMoveDraft = (mergedBooking: MergedBooking, sourceCourtId: string, dx: number, dy: number): BookingMoveDraft => {
+        const sourceIndex = slotCourts.findIndex(c => c.id === sourceCourtId);
+        const targetIndex = Math.min(Math.max(sourceIndex + Math.round(dx / courtColumnWidth), 0), slotCourts.length - 1);
+        const targetCourt = slotCourts[targetIndex];
+
+        const originalStart = toMinutesOfDay(parseISO(mergedBooking.timeSlotStart));
+        const duration = toMinutesOfDay(parseISO(mergedBooking.timeSlotEnd), true) - originalStart;
+        const startMinutes = Math.min(
+            Math.max(originalStart + Math.round(dy / ROW_HEIGHT) * 60, START_HOUR * 60),
+            END_HOUR * 60 - duration
+        );
+        const endMinutes = startMinutes + duration;
+
+        const conflictIds = findCourtConflicts(targetCourt.id, startMinutes, endMinutes, mergedBooking.ids);
+
+        const courtChanged = targetCourt.id !== sourceCourtId;
+        const price = mergedBooking.bookings.reduce(
+            (sum, b) => sum + (courtChanged ? getSlotPriceOnCourt(b, targetCourt) : Number(b.totalPrice || 0)),
+            0
+        );
+
+        return {
+            mergedBooking,
+            sourceCourtId,
+            targetCourtId: targetCourt.id,
+            startMinutes,
+            endMinutes,
+            price,
+            conflictIds,
+            outsideHours: !isCourtOpenForRange(targetCourt, startMinutes, endMinutes),
+            blocked: isRangeBlocked(targetCourt.id, startMinutes, endMinutes),
+        };
+    };
+
+    const handleDragMove = (mergedBooking: MergedBooking, courtId: string, dx: number, dy: number) => {
+        const draft = getMoveDraft(mergedBooking, courtId, dx, dy);
+        // Only re-render when the snapped target changes
+        setDragPreview(prev => prev && prev.targetCourtId === draft.targetCourtId && prev.startMinutes === draft.startMinutes ? prev : draft);
+    };
+
+    const handleDragEnd = (mergedBooking: MergedBooking, courtId: string, dx: number, dy: number) => {
+        const draft = getMoveDraft(mergedBooking, courtId, dx, dy);
+        setDragPreview(null);
+
+        const originalStart = toMinutesOfDay(parseISO(mergedBooking.timeSlotStart));
+        if (draft.targetCourtId === courtId && draft.startMinutes === originalStart) return;
+
+        if (draft.conflictIds.length > 0) {
+            Alert.alert('ไม่สามารถย้ายการจองได้', 'ช่วงเวลาที่เลือกมีการจองอื่นอยู่แล้ว');
+            return;
+        }
+        if (draft.outsideHours) {
+            Alert.alert('ไม่สามารถย้ายการจองได้', 'ช่วงเวลาที่เลือกอยู่นอกเวลาทำการของสนาม');
+            return;
+        }
+        if (draft.blocked) {
+            Alert.alert('ไม่สามารถย้ายการจองได้', 'สนามปิดในช่วงเวลาที่เลือก');
+            return;
+        }
+        setPendingMove(draft);
+    };
+
+    const handleConfirmMove = async () => {
+        if (!pendingMove) return;
+
+        const { mergedBooking, sourceCourtId, targetCourtId, startMinutes } = pendingMove;
+        const targetCourt = courts.find(c => c.id === targetCourtId);
+        const courtChanged = targetCourtId !== sourceCourtId;
+        const delta = startMinutes - toMinutesOfDay(parseISO(mergedBooking.timeSlotStart));
+
+        // Shift every slot of the merged booking by the same offset
+        const moved = mergedBooking.bookings.map(b => ({
+            booking: b,
+            start: addMinutes(parseISO(b.timeSlotStart), delta),
+            end: addMinutes(parseISO(b.timeSlotEnd), delta),
+            price: courtChanged ? getSlotPriceOnCourt(b, targetCourt) : undefined,
+        }));
+
+        setSavingMove(true);
+        try {
+            const previous = getBookingsByIds(moved.map(m => m.booking.id));
+            const res = await bookingService.bulkUpdateDetails(moved.map(m => ({
+                id: m.booking.id,
+                date: format(m.start, 'yyyy-MM-dd'),
+                startTime: format(m.start, 'HH:mm'),
+                endTime: format(m.end, 'HH:mm'),
+                courtId: targetCourtId,
+                price: m.price,
+            })));
+            if (!res.success) {
+                throw new Error('ไม่สามารถย้ายการจองได้');
+            }
+
+            const movedBookings = previous.filter(b => !res.data?.failedIds?.includes(b.id));
+            if (movedBookings.length > 0) {
+                bookingUndoService.push('DETAILS', 'ย้ายการจอง', movedBookings);
+            }
+
+            if (res.queued) {
+                // Offline: move the blocks locally, the outbox will replay the update
+                setBookings(prev => prev.map(b => {
+                    const m = moved.find(x => x.booking.id === b.id);
+                    if (!m) return b;
+                    return {
+                        ...b,
+                        courtId: targetCourtId,
+                        court: targetCourt || b.court,
+                        timeSlotStart: m.start.toISOString(),
+                        timeSlotEnd: m.end.toISOString(),
+                        totalPrice: m.price ?? b.totalPrice,
+                    };
+                }));
+                Alert.alert('บันทึกแบบออฟไลน์', 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต รายการจะถูกซิงค์อัตโนมัติเมื่อกลับมาออนไลน์');
+            } else {
+                const failedCount = res.data?.failedIds?.length || 0;
+                if (failedCount > 0) {
+                    Alert.alert('ผิดพลาด', `ย้ายการจองสำเร็จ ${moved.length - failedCount}/${moved.length} รายการ`);
+                }
+                loadData();
+            }
+            setPendingMove(null);
+        } catch (error) {
+            console.error('Error moving booking:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถย้ายการจองได้'));
+        } finally {
+            setSavingMove(false);
+        }
+    };
+
+    // Snap the bottom edge of a block to an hour row; at least one hour (or the original length) remains
+    const getResizeDraft = (mergedBooking: MergedBooking, courtId: string, dy: number): BookingMoveDraft => {
+        const court = courts.find(c => c.id === courtId);
+        const startMinutes = toMinutesOfDay(parseISO(mergedBooking.timeSlotStart));
+        const originalEnd = toMinutesOfDay(parseISO(mergedBooking.timeSlotEnd), true);
+        const endMinutes = Math.min(
+            Math.max(originalEnd + Math.round(dy / ROW_HEIGHT) * 60, Math.min(startMinutes + 60, originalEnd)),
+            END_HOUR * 60
+        );
+
+        return {
+            mergedBooking,
+            sourceCourtId: courtId,
+            targetCourtId: courtId,
+            startMinutes,
+            endMinutes,
+            price: planResize(mergedBooking, court, endMinutes).price,
+            conflictIds: findCourtConflicts(courtId, startMinutes, endMinutes, mergedBooking.ids),
+            outsideHours: court ? !isCourtOpenForRange(court, startMinutes, endMinutes) : false,
+            blocked: isRangeBlocked(courtId, startMinutes, endMinutes),
+        };
+    };
+
+    const handleResizeMove = (mergedBooking: MergedBooking, courtId: string, dy: number) => {
+        const draft = getResizeDraft(mergedBooking, courtId, dy);
+        setResizePreview(prev => prev && prev.endMinutes === draft.endMinutes ? prev : draft);
+    };
+
+    const handleResizeEnd = (mergedBooking: MergedBooking, courtId: string, dy: number) => {
+        const draft = getResizeDraft(mergedBooking, courtId, dy);
+        setResizePreview(null);
+
+        const originalEnd = toMinutesOfDay(parseISO(mergedBooking.timeSlotEnd), true);
+        if (draft.endMinutes === originalEnd) return;
+
+        if (draft.conflictIds.length > 0) {
+            Alert.alert('ไม่สามารถขยายเวลาได้', 'ช่วงเวลาที่ขยายชนกับการจองอื่นในสนามนี้');
+            return;
+        }
+        if (draft.outsideHours) {
+            Alert.alert('ไม่สามารถขยายเวลาได้', 'ช่วงเวลาที่ขยายอยู่นอกเวลาทำการของสนาม');
+            return;
+        }
+        if (draft.blocked) {
+            Alert.alert('ไม่สามารถขยายเวลาได้', 'สนามปิดในช่วงเวลาที่ขยาย');
+            return;
+        }
+        const minDuration = courts.find(c => c.id === courtId)?.pricingRules?.minDurationMinutes;
+        if (minDuration && draft.endMinutes - draft.startMinutes < minDuration) {
+            Alert.alert('ไม่สามารถลดเวลาได้', `สนามนี้ต้องจองขั้นต่ำ ${minDuration} นาที`);
+            return;
+        }
+
+        const isExtending = draft.endMinutes > originalEnd;
+        const currentTotal = mergedBooking.bookings.reduce((sum, b) => sum + Number(b.totalPrice || 0), 0);
+        Alert.alert(
+            isExtending ? 'ขยายเวลาการจอง' : 'ลดเวลาการจอง',
+            `${mergedBooking.customerName}\n` +
+            `${minutesToTime(draft.startMinutes)} - ${minutesToTime(originalEnd)} → ${minutesToTime(draft.startMinutes)} - ${minutesToTime(draft.endMinutes)}\n` +
+            `ราคา ฿${currentTotal.toLocaleString()} → ฿${draft.price.toLocaleString()}`,
+            [
+                { text: 'ยกเลิก', style: 'cancel' },
+                { text: 'ยืนยัน', onPress: () => applyResize(draft) }
+            ]
+        );
+    };
+
+    const applyResize = async (draft: BookingMoveDraft) => {
+        const { mergedBooking, targetCourtId, endMinutes } = draft;
+        const plan = planResize(mergedBooking, courts.find(c => c.id === targetCourtId), endMinutes);
+        const date = format(selectedDate, 'yyyy-MM-dd');
+        const lastBooking = mergedBooking.bookings[mergedBooking.bookings.length - 1];
+
+        setLoadingDetail(true);
+        try {
+            // One request, so a failure leaves the original slots untouched
+            const { queued } = await bookingService.bulkChange({
+                creates: plan.creates.map(slot => ({
+                    courtId: targetCourtId,
+                    date,
+                    startTime: minutesToTime(slot.startMinutes),
+                    endTime: minutesToTime(slot.endMinutes),
+                    customerName: mergedBooking.customerName,
+                    customerPhone: mergedBooking.customerPhone,
+                    serviceUserId: lastBooking?.serviceUserId,
+                    price: slot.price,
+                    status: lastBooking?.status,
+                })),
+                updates: plan.updates.map(u => ({
+                    id: u.booking.id,
+                    date,
+                    startTime: format(parseISO(u.booking.timeSlotStart), 'HH:mm'),
+                    endTime: minutesToTime(u.endMinutes),
+                    price: u.price,
+                })),
+                cancelIds: plan.cancelIds,
+                reason: 'ลดเวลาการจองโดยเจ้าของสนาม',
+            });
+
+            if (queued) {
+                Alert.alert('บันทึกแบบออฟไลน์', 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต รายการจะถูกซิงค์อัตโนมัติเมื่อกลับมาออนไลน์');
+            }
+            loadData();
+        } catch (error) {
+            console.error('Error resizing booking:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถเปลี่ยนระยะเวลาการจองได้'));
+            loadData();
+        } finally {
+            setLoadingDetail(false);
+        }
+    };
+
+    const getMoveSlotSummary = (draft: BookingMoveDraft | null, side: 'from' | 'to') => {
+        if (!draft) return null;
+        const courtId = side === 'from' ? draft.sourceCourtId : draft.targetCourtId;
+        const start = side === 'from' ? toMinutesOfDay(parseISO(draft.mergedBooking.timeSlotStart)) : draft.startMinutes;
+        const end = side === 'from' ? toMinutesOfDay(parseISO(draft.mergedBooking.timeSlotEnd), true) : draft.endMinutes;
+        return {
+            courtName: courts.find(c => c.id === courtId)?.name || '-',
+            dateLabel: format(selectedDate, 'EEEE d MMM', { locale: th }),
+            startTime: minutesToTime(start),
+            endTime: minutesToTime(end),
+            price: side === 'from'
+                ? draft.mergedBooking.bookings.reduce((sum, b) => sum + Number(b.totalPrice || 0), 0)
+                : draft.price,
+        };
+    };
 
     return (
         <View style={styles.container}>
             <View style={styles.header}>
                 <View>
                     <Text style={styles.title}>ตารางการจอง</Text>
-                    <Text style={styles.subtitle}>{format(selectedDate, 'd MMMM yyyy', { locale: th })}</Text>
+                    <Text style={styles.subtitle}>
+                        {visibleDays.length > 1
+                            ? `${format(visibleDays[0], 'd MMM', { locale: th })} - ${format(visibleDays[visibleDays.length - 1], 'd MMMM yyyy', { locale: th })}`
+                            : format(selectedDate, 'd MMMM yyyy', { locale: th })}
+                    </Text>
                 </View>
                 <View style={styles.headerActions}>
+                    {managementMode === 'SLOT' && (
+                        <View style={styles.modeSwitcher}>
+                            {([
+                                { mode: 'DAY', label: 'วัน', icon: 'calendar-today' },
+                                { mode: 'WEEK', label: 'สัปดาห์', icon: 'calendar-week' },
+                                { mode: 'MULTI_DAY', label: 'หลายวัน', icon: 'calendar-range' },
+                            ] as const).map(option => (
+                                <TouchableOpacity
+                                    key={option.mode}
+                                    style={[styles.modeButton, viewMode === option.mode && styles.modeButtonActive]}
+                                    onPress={() => setViewMode(option.mode)}
+                                >
+                                    <MaterialCommunityIcons
+                                        name={option.icon}
+                                        size={18}
+                                        color={viewMode === option.mode ? colors.white : colors.neutral[400]}
+                                    />
+                                    <Text style={[styles.modeButtonText, viewMode === option.mode && styles.modeButtonTextActive]}>{option.label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    )}
+
                     <View style={styles.modeSwitcher}>
                         <TouchableOpacity
                             style={[styles.modeButton, managementMode === 'SLOT' && styles.modeButtonActive]}
@@ -1024,6 +2125,28 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                         </TouchableOpacity>
                     </View>
 
+                    <TouchableOpacity style={styles.headerPill} onPress={() => setSearchVisible(true)}>
+                        <MaterialCommunityIcons name="magnify" size={18} color={colors.neutral[600]} />
+                        <Text style={styles.headerPillText}>ค้นหา</Text>
+                    </TouchableOpacity>
+
+                    {businessId && (
+                        <TouchableOpacity style={styles.headerPill} onPress={() => setExportVisible(true)}>
+                            <MaterialCommunityIcons name="export-variant" size={18} color={colors.neutral[600]} />
+                            <Text style={styles.headerPillText}>ส่งออก</Text>
+                        </TouchableOpacity>
+                    )}
+
+                    <TouchableOpacity style={styles.headerPill} onPress={() => openWaitlist(format(selectedDate, 'yyyy-MM-dd'))}>
+                        <MaterialCommunityIcons name="account-clock-outline" size={18} color={colors.neutral[600]} />
+                        <Text style={styles.headerPillText}>รอคิว</Text>
+                        {waitingCount > 0 && (
+                            <View style={styles.waitlistBadge}>
+                                <Text style={styles.waitlistBadgeText}>{waitingCount}</Text>
+                            </View>
+                        )}
+                    </TouchableOpacity>
+
                     <TouchableOpacity
                         style={{
                             width: 36,
@@ -1046,19 +2169,60 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                     </TouchableOpacity>
 
                     <View style={styles.dateControls}>
-                        <TouchableOpacity onPress={() => setSelectedDate(d => new Date(d.setDate(d.getDate() - 1)))}>
+                        <TouchableOpacity onPress={() => shiftSelectedDate(-1)}>
                             <MaterialCommunityIcons name="chevron-left" size={30} color={colors.neutral[600]} />
                         </TouchableOpacity>
                         <TouchableOpacity style={styles.todayButton} onPress={() => setSelectedDate(new Date())}>
                             <Text style={styles.todayText}>{'วันนี้'}</Text>
                         </TouchableOpacity>
-                        <TouchableOpacity onPress={() => setSelectedDate(d => new Date(d.setDate(d.getDate() + 1)))}>
+                        <TouchableOpacity onPress={() => shiftSelectedDate(1)}>
                             <MaterialCommunityIcons name="chevron-right" size={30} color={colors.neutral[600]} />
                         </TouchableOpacity>
                     </View>
                 </View>
             </View>
 
+            {/* Week: pick the court, Multi-day: pick how many days */}
+            {effectiveViewMode !== 'DAY' && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.viewToolbar} contentContainerStyle={styles.viewToolbarContent}>
+                    {effectiveViewMode === 'WEEK'
+                        ? slotCourts.map(court => {
+                            const isSelected = (gridColumns[0]?.court.id) === court.id;
+                            return (
+                                <TouchableOpacity
+                                    key={court.id}
+                                    style={[styles.timeChip, isSelected && styles.timeChipSelected]}
+                                    onPress={() => setWeekCourtId(court.id)}
+                                >
+                                    <Text style={[styles.timeChipText, isSelected && styles.timeChipTextSelected]}>{court.name}</Text>
+                                </TouchableOpacity>
+                            );
+                        })
+                        : MULTI_DAY_OPTIONS.map(count => (
+                            <TouchableOpacity
+                                key={count}
+                                style={[styles.timeChip, multiDayCount === count && styles.timeChipSelected]}
+                                onPress={() => setMultiDayCount(count)}
+                            >
+                                <Text style={[styles.timeChipText, multiDayCount === count && styles.timeChipTextSelected]}>{count} วัน</Text>
+                            </TouchableOpacity>
+                        ))}
+                </ScrollView>
+            )}
+
+            <OfflineQueueBanner onSynced={loadData} />
+
+            {bookingsIncomplete && !loading && (
+                <View style={styles.incompleteBanner}>
+                    <MaterialCommunityIcons name="alert-outline" size={20} color={colors.warning} />
+                    <Text style={styles.incompleteBannerText}>โหลดการจองได้ไม่ครบ บางรายการอาจไม่แสดงในตาราง</Text>
+                    <TouchableOpacity style={styles.incompleteRetryButton} onPress={loadData}>
+                        <MaterialCommunityIcons name="refresh" size={16} color={colors.primary.main} />
+                        <Text style={styles.incompleteRetryText}>โหลดใหม่</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+
             {loading ? (
                 <View style={styles.loadingContainer}>
                     <ActivityIndicator size="large" color={colors.primary.main} />
@@ -1086,21 +2250,33 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                         scrollEnabled={false}
                                         ref={headerScrollRef}
                                     >
-                                        {slotCourts.map(court => (
-                                            <View key={court.id} style={[styles.columnHeader, { width: courtColumnWidth }]}>
+                                        {gridColumns.map((column, columnIndex) => (
+                                            <View
+                                                key={column.key}
+                                                style={[
+                                                    styles.columnHeader,
+                                                    { width: courtColumnWidth },
+                                                    effectiveViewMode !== 'DAY' && isToday(column.date) && styles.columnHeaderToday,
+                                                    effectiveViewMode === 'MULTI_DAY' && columnIndex > 0 && column.court.id === slotCourts[0]?.id && styles.dayGroupStart,
+                                                ]}
+                                            >
                                                 <View style={styles.sportBadgeSmall}>
                                                     <Text style={styles.sportBadgeTextSmall}>
-                                                        {getSportName(getCourtSportType(court) || 'ทั่วไป')}
+                                                        {effectiveViewMode === 'DAY'
+                                                            ? getSportName(getCourtSportType(column.court) || 'ทั่วไป')
+                                                            : format(column.date, 'EEE d MMM', { locale: th })}
                                                     </Text>
                                                 </View>
-                                                <Text style={styles.columnHeaderText} numberOfLines={1}>{court.name}</Text>
+                                                <Text style={styles.columnHeaderText} numberOfLines={1}>
+                                                    {effectiveViewMode === 'WEEK' ? format(column.date, 'EEEE', { locale: th }) : column.court.name}
+                                                </Text>
                                             </View>
                                         ))}
                                     </ScrollView>
                                 </View>
 
                                 <View style={{ flex: 1 }}>
-                                    <ScrollView style={styles.verticalScroll}>
+                                    <ScrollView ref={verticalScrollRef} style={styles.verticalScroll} scrollEnabled={!activeDraft}>
                                         <View style={styles.bodyContainer}>
                                             <View style={styles.timeColumn}>
                                                 {timeSlots.map((time, index) => (
@@ -1117,7 +2293,9 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                             </View>
 
                                             <ScrollView
+                                                ref={horizontalScrollRef}
                                                 horizontal
+                                                scrollEnabled={!activeDraft}
                                                 onScroll={(e: NativeSyntheticEvent<NativeScrollEvent>) => {
                                                     const x = e.nativeEvent.contentOffset.x;
                                                     headerScrollRef.current?.scrollTo({ x, animated: false });
@@ -1125,50 +2303,30 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                 scrollEventThrottle={16}
                                             >
                                                 <View style={styles.grid}>
-                                                    {/* Current Time Line across grid */}
-                                                    {currentTimeIndicator && (
-                                                        <View style={[styles.currentTimeLine, { top: currentTimeIndicator.top }]} />
-                                                    )}
-                                                    {slotCourts.map((court) => {
+                                                    {gridColumns.map((column, columnIndex) => {
+                                                        const court = column.court;
+                                                        const columnDate = format(column.date, 'yyyy-MM-dd');
                                                         return (
-                                                            <View key={court.id} style={[styles.courtColumn, { width: courtColumnWidth }]}>
+                                                            <View
+                                                                key={column.key}
+                                                                style={[
+                                                                    styles.courtColumn,
+                                                                    { width: courtColumnWidth },
+                                                                    effectiveViewMode === 'MULTI_DAY' && columnIndex > 0 && court.id === slotCourts[0]?.id && styles.dayGroupStart,
+                                                                    // Keep the dragged block above neighbouring columns
+                                                                    dragPreview?.sourceCourtId === court.id && styles.courtColumnDragging,
+                                                                ]}
+                                                            >
+                                                                {/* Current Time Line (today's columns only) */}
+                                                                {currentTimeIndicator && isToday(column.date) && (
+                                                                    <View style={[styles.currentTimeLine, { top: currentTimeIndicator.top }]} />
+                                                                )}
                                                                 {/* Background Grid Cells */}
                                                                 {/* Background Grid Cells */}
                                                                 {timeSlots.map((time, tIndex) => {
                                                                     // Operating Hours Check
                                                                     const [h, m] = time.split(':').map(Number);
-                                                                    const currentMins = h * 60 + m;
-
-                                                                    const [openH, openM] = (court.openingHour || '06:00').split(':').map(Number);
-                                                                    const openMins = openH * 60 + openM;
-
-                                                                    // If closing is not set, assume 24:00 (or handle appropriately)
-                                                                    // For now defaulting to 24:00 if not set, or 22:00? 
-                                                                    // Ideally backend sets these. Using 24:00 equivalent if null for safety?
-                                                                    // Default to 23:59 if undefined for Closing?
-                                                                    // Or assume '00:00' implies next day start?
-
-                                                                    // Let's use simple logic: if undefined, assume open 24h (00:00-24:00) if no data?
-                                                                    // Actually, let's stick to a reasonable default like 06:00 - 00:00 if null.
-                                                                    const closingStr = court.closingHour || '00:00';
-                                                                    const [closeH, closeM] = closingStr.split(':').map(Number);
-                                                                    const closeMins = closeH * 60 + closeM;
-
-                                                                    let isOpen = false;
-                                                                    if (closeMins < openMins) {
-                                                                        // Overnight
-                                                                        isOpen = currentMins >= openMins || currentMins < closeMins;
-                                                                    } else {
-                                                                        // Same day (e.g. 08:00 - 22:00)
-                                                                        // If closeMins is 0 (00:00), treats as 24:00?
-                                                                        // Usually 00:00 closing means midnight. 
-                                                                        // If we want to support 08:00 - 00:00, then current < 0 is false.
-                                                                        // So we need to treat 00:00 as 24h (1440) if strict same day?
-                                                                        // Or just handle standard range.
-
-                                                                        const effectiveClose = (closeMins === 0 && openMins < 1440) ? 1440 : closeMins;
-                                                                        isOpen = currentMins >= openMins && currentMins < effectiveClose;
-                                                                    }
+                                                                    const isOpen = isCourtOpenAt(court, h * 60 + m);
 
                                                                     if (!isOpen) {
                                                                         return (
@@ -1186,6 +2344,7 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                                             activeOpacity={1}
                                                                             onPress={() => openAddModal({
                                                                                 courtId: court.id,
+                                                                                date: columnDate,
                                                                                 startTime: time,
                                                                                 endTime: `${String(h + 1).padStart(2, '0')}:${String(m).padStart(2, '0')}` // Default 1 hour
                                                                             })}
@@ -1193,12 +2352,37 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                                     );
                                                                 })}
 
+                                                                {/* Blocked / maintenance periods, clipped to this day */}
+                                                                {getBlockedPeriodsForColumn(court.id, column.date).map(({ period, startMinutes, endMinutes }) => (
+                                                                    <BlockedPeriodBlock
+                                                                        key={`${period.block.id}-${period.start.toISOString()}`}
+                                                                        style={{ top: ((startMinutes / 60) - START_HOUR) * ROW_HEIGHT }}
+                                                                        width={courtColumnWidth}
+                                                                        height={((endMinutes - startMinutes) / 60) * ROW_HEIGHT}
+                                                                        label={period.block.note || BLOCK_REASON_LABELS[period.block.reason]}
+                                                                        timeLabel={`${format(period.start, 'HH:mm')} - ${format(period.end, 'HH:mm')}`}
+                                                                        onPress={() => handleBlockedPeriodPress(period)}
+                                                                    />
+                                                                ))}
+
                                                                 {/* Standard: Render Stacked Bookings (Merged) */}
-                                                                {getMergedBookingsForCourt(court.id).map(mergedBooking => {
+                                                                {getMergedBookingsForCourt(court.id, column.date).map(mergedBooking => {
                                                                     const bookingStyle = getMergedBookingStyle(mergedBooking);
+                                                                    const isConflicting = !!activeDraft && mergedBooking.ids.some(id => activeDraft.conflictIds.includes(id));
+                                                                    const isResizing = resizePreview?.mergedBooking.id === mergedBooking.id;
                                                                     return (
-                                                                        <TouchableOpacity
+                                                                        <DraggableBookingBlock
                                                                             key={mergedBooking.id}
+                                                                            // Moving / resizing is only supported in the single-day grid
+                                                                            dragEnabled={effectiveViewMode === 'DAY' && !bookingStyle.isCancelled && mergedBooking.status !== BookingStatus.COMPLETED}
+                                                                            onDragStart={() => setDragPreview(getMoveDraft(mergedBooking, court.id, 0, 0))}
+                                                                            onDragMove={(dx, dy) => handleDragMove(mergedBooking, court.id, dx, dy)}
+                                                                            onDragEnd={(dx, dy) => handleDragEnd(mergedBooking, court.id, dx, dy)}
+                                                                            onDragCancel={() => setDragPreview(null)}
+                                                                            onResizeStart={() => setResizePreview(getResizeDraft(mergedBooking, court.id, 0))}
+                                                                            onResizeMove={(dy) => handleResizeMove(mergedBooking, court.id, dy)}
+                                                                            onResizeEnd={(dy) => handleResizeEnd(mergedBooking, court.id, dy)}
+                                                                            onResizeCancel={() => setResizePreview(null)}
                                                                             style={[
                                                                                 styles.bookingBlock,
                                                                                 {
@@ -1213,7 +2397,14 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                                                         right: 0,
                                                                                         left: undefined,
                                                                                     }),
-                                                                                }
+                                                                                },
+                                                                                isConflicting && styles.bookingBlockConflict,
+                                                                                !!highlightedBookingId && mergedBooking.ids.includes(highlightedBookingId) && styles.bookingBlockHighlighted,
+                                                                                isResizing && resizePreview && {
+                                                                                    height: ((resizePreview.endMinutes - resizePreview.startMinutes) / 60) * ROW_HEIGHT,
+                                                                                    zIndex: 10,
+                                                                                },
+                                                                                isResizing && resizePreview && (resizePreview.conflictIds.length > 0 || resizePreview.outsideHours || resizePreview.blocked) && styles.bookingBlockConflict,
                                                                             ]}
                                                                             onPress={() => {
                                                                                 console.log('[MergedBooking] Pressed:', mergedBooking.id, 'ids:', mergedBooking.ids);
@@ -1221,12 +2412,15 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                                                 setSelectedMergedBooking(mergedBooking);
                                                                                 setMergedModalVisible(true);
                                                                             }}
-                                                                            activeOpacity={0.8}
                                                                         >
                                                                             <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
                                                                                 <Text style={[styles.bookingText, { flex: 1, marginRight: 4 }]} numberOfLines={1}>
                                                                                     {mergedBooking.bookings[0].serviceUser?.name || 'ลูกค้า'}
                                                                                 </Text>
+                                                                                {/* Unsynced Offline Action Indicator */}
+                                                                                {mergedBooking.ids.some(id => unsyncedBookingIds.has(id)) && (
+                                                                                    <MaterialCommunityIcons name="cloud-upload-outline" size={14} color="#B45309" style={{ marginLeft: 2 }} />
+                                                                                )}
                                                                                 {/* Payment Status Indicator */}
                                                                                 {(mergedBooking.bookings[0].isPaid) && (
                                                                                     <View style={{ backgroundColor: '#DCFCE7', borderRadius: 6, padding: 1, marginLeft: 2 }}>
@@ -1239,9 +2433,35 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                                                     ? (mergedBooking.bookings[0].serviceUser?.phone || '')
                                                                                     : (mergedBooking.bookings[0].serviceUser?.phone ? `xxx-xxx-${mergedBooking.bookings[0].serviceUser.phone.slice(-4)}` : '')}
                                                                             </Text>
-                                                                        </TouchableOpacity>
+                                                                        </DraggableBookingBlock>
                                                                     );
                                                                 })}
+
+                                                                {/* Drop target while dragging a booking */}
+                                                                {dragPreview?.targetCourtId === court.id && (
+                                                                    <View
+                                                                        pointerEvents="none"
+                                                                        style={[
+                                                                            styles.dropPreview,
+                                                                            {
+                                                                                top: ((dragPreview.startMinutes / 60) - START_HOUR) * ROW_HEIGHT,
+                                                                                height: ((dragPreview.endMinutes - dragPreview.startMinutes) / 60) * ROW_HEIGHT,
+                                                                            },
+                                                                            (dragPreview.conflictIds.length > 0 || dragPreview.outsideHours || dragPreview.blocked) && styles.dropPreviewInvalid,
+                                                                        ]}
+                                                                    >
+                                                                        <Text style={styles.dropPreviewText}>
+                                                                            {minutesToTime(dragPreview.startMinutes)} - {minutesToTime(dragPreview.endMinutes)}
+                                                                        </Text>
+                                                                        {dragPreview.conflictIds.length > 0 ? (
+                                                                            <Text style={styles.dropPreviewWarning}>ชนกับการจองอื่น</Text>
+                                                                        ) : dragPreview.outsideHours ? (
+                                                                            <Text style={styles.dropPreviewWarning}>นอกเวลาทำการ</Text>
+                                                                        ) : dragPreview.blocked ? (
+                                                                            <Text style={styles.dropPreviewWarning}>สนามปิด</Text>
+                                                                        ) : null}
+                                                                    </View>
+                                                                )}
                                                             </View>
                                                         );
                                                     })}
@@ -1364,7 +2584,7 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                                     .map(booking => (
                                                                         <TouchableOpacity
                                                                             key={booking.id}
-                                                                            style={styles.capacityBookingItem}
+                                                                            style={[styles.capacityBookingItem, booking.id === highlightedBookingId && styles.capacityBookingItemHighlighted]}
                                                                             onPress={() => handleBookingPress(booking.id, true)}
                                                                         >
                                                                             <View style={styles.checkInTime}>
@@ -1447,8 +2667,22 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                             </TouchableOpacity>
                         </View>
 
+                        <View style={styles.detailTabs}>
+                            {([['DETAILS', 'รายละเอียด'], ['HISTORY', 'ประวัติ']] as const).map(([tab, label]) => (
+                                <TouchableOpacity
+                                    key={tab}
+                                    style={[styles.detailTab, detailTab === tab && styles.detailTabActive]}
+                                    onPress={() => setDetailTab(tab)}
+                                >
+                                    <Text style={[styles.detailTabText, detailTab === tab && styles.detailTabTextActive]}>{label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
                         {loadingDetail ? (
                             <ActivityIndicator size="large" color={colors.primary.main} style={{ marginVertical: 20 }} />
+                        ) : selectedBooking && detailTab === 'HISTORY' ? (
+                            <BookingHistoryTimeline bookingIds={paymentBookingIds} />
                         ) : selectedBooking ? (
                             <ScrollView
                                 showsVerticalScrollIndicator={windowWidth < 600}
@@ -1540,6 +2774,27 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                             </View>
                                         </View>
 
+                                        {/* Discount */}
+                                        {selectedDiscount && (
+                                            <View style={[styles.detailRow, windowWidth < 600 && styles.detailRowMobile]}>
+                                                <MaterialCommunityIcons name="ticket-percent-outline" size={windowWidth < 600 ? 16 : 20} color={colors.neutral[500]} style={[styles.detailIcon, windowWidth < 600 && styles.detailIconMobile]} />
+                                                <View style={styles.discountDetail}>
+                                                    <Text style={[styles.detailLabel, windowWidth < 600 && styles.detailLabelMobile]}>
+                                                        ส่วนลด{selectedDiscount.lines.length > 1 ? ` (ทั้งกลุ่ม ${selectedDiscount.lines.length} รายการ)` : ''}
+                                                    </Text>
+                                                    <Text style={[styles.detailValue, windowWidth < 600 && styles.detailValueMobile]}>
+                                                        ฿{selectedDiscount.originalAmount.toLocaleString()} - ฿{selectedDiscount.discountAmount.toLocaleString()} = ฿{selectedDiscount.discountedAmount.toLocaleString()}
+                                                    </Text>
+                                                    <Text style={styles.discountDetailNote}>
+                                                        {selectedDiscount.promoCode
+                                                            ? `โค้ด ${selectedDiscount.promoCode}`
+                                                            : selectedDiscount.kind === 'PERCENT' ? `ลด ${selectedDiscount.value}%` : 'ลดเป็นจำนวนเงิน'}
+                                                        {selectedDiscount.reason ? ` • ${selectedDiscount.reason}` : ''}
+                                                    </Text>
+                                                </View>
+                                            </View>
+                                        )}
+
                                         {/* Payment Status */}
                                         <View style={[styles.detailRow, windowWidth < 600 && styles.detailRowMobile]}>
                                             <MaterialCommunityIcons name={selectedBooking.isPaid ? "check-circle-outline" : "alert-circle-outline"} size={windowWidth < 600 ? 16 : 20} color={colors.neutral[500]} style={[styles.detailIcon, windowWidth < 600 && styles.detailIconMobile]} />
@@ -1555,6 +2810,12 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                         </Text>
                                                     )}
                                                 </View>
+                                                {paymentSummary && paymentSummary.outstanding > 0 && (paymentSummary.paid > 0 || paymentSummary.depositRequired > 0) && (
+                                                    <Text style={styles.paymentBalanceNote}>
+                                                        ชำระแล้ว ฿{paymentSummary.paid.toLocaleString()} • ค้าง ฿{paymentSummary.outstanding.toLocaleString()}
+                                                        {!paymentSummary.depositPaid ? ` • ต้องมัดจำ ฿${paymentSummary.depositRequired.toLocaleString()}` : ''}
+                                                    </Text>
+                                                )}
                                             </View>
                                         </View>
 
@@ -1588,12 +2849,125 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                             <Text style={[styles.editButtonText, windowWidth < 600 && { fontSize: 13 }]}>แก้ไขการจอง</Text>
                                         </TouchableOpacity>
 
+                                        <TouchableOpacity
+                                            style={[styles.discountButton, windowWidth < 600 && styles.discountButtonMobile]}
+                                            onPress={handleOpenDiscount}
+                                        >
+                                            <MaterialCommunityIcons name="ticket-percent-outline" size={windowWidth < 600 ? 16 : 20} color={colors.primary.main} />
+                                            <Text style={[styles.discountButtonText, windowWidth < 600 && styles.discountButtonTextMobile]}>
+                                                {selectedDiscount ? 'แก้ไขส่วนลด' : 'ให้ส่วนลด'}
+                                            </Text>
+                                        </TouchableOpacity>
+
+                                        <TouchableOpacity
+                                            style={[styles.discountButton, windowWidth < 600 && styles.discountButtonMobile]}
+                                            onPress={() => setPaymentView('LEDGER')}
+                                        >
+                                            <MaterialCommunityIcons name="cash-register" size={windowWidth < 600 ? 16 : 20} color={colors.primary.main} />
+                                            <Text style={[styles.discountButtonText, windowWidth < 600 && styles.discountButtonTextMobile]}>
+                                                {paymentSummary && paymentSummary.outstanding === 0 ? 'ประวัติการชำระเงิน' : 'รับชำระเงิน'}
+                                            </Text>
+                                        </TouchableOpacity>
+
+                                        {paymentSummary && paymentSummary.outstanding > 0 && (
+                                            <TouchableOpacity
+                                                style={[styles.discountButton, windowWidth < 600 && styles.discountButtonMobile]}
+                                                onPress={() => setPaymentView('PROMPTPAY')}
+                                            >
+                                                <MaterialCommunityIcons name="qrcode" size={windowWidth < 600 ? 16 : 20} color={colors.primary.main} />
+                                                <Text style={[styles.discountButtonText, windowWidth < 600 && styles.discountButtonTextMobile]}>
+                                                    QR พร้อมเพย์
+                                                </Text>
+                                            </TouchableOpacity>
+                                        )}
+
+                                        <TouchableOpacity
+                                            style={[styles.discountButton, windowWidth < 600 && styles.discountButtonMobile]}
+                                            onPress={() => setReceiptModalVisible(true)}
+                                        >
+                                            <MaterialCommunityIcons name="receipt" size={windowWidth < 600 ? 16 : 20} color={colors.primary.main} />
+                                            <Text style={[styles.discountButtonText, windowWidth < 600 && styles.discountButtonTextMobile]}>
+                                                ใบเสร็จ / ใบกำกับภาษี
+                                            </Text>
+                                        </TouchableOpacity>
+
+                                        {/* Recurring Series */}
+                                        {selectedSeries && (
+                                            <View style={styles.seriesBox}>
+                                                <View style={styles.seriesHeader}>
+                                                    <MaterialCommunityIcons name="repeat" size={18} color={colors.primary.main} />
+                                                    <Text style={styles.seriesTitle}>การจองประจำ • {describeRecurrence(selectedSeries.rule)}</Text>
+                                                </View>
+                                                <Text style={styles.seriesMeta}>
+                                                    ครั้งที่ {selectedSeries.occurrences.findIndex(o => o.bookingId === selectedBooking.id) + 1} จาก {selectedSeries.occurrences.length} •
+                                                    {' '}{selectedSeries.startTime} - {selectedSeries.endTime}
+                                                </Text>
+                                                <View style={styles.seriesActions}>
+                                                    <TouchableOpacity style={styles.seriesButton} onPress={handleEditSeries}>
+                                                        <MaterialCommunityIcons name="calendar-edit" size={16} color={colors.primary.main} />
+                                                        <Text style={styles.seriesButtonText}>แก้ไขซีรีส์</Text>
+                                                    </TouchableOpacity>
+                                                    <TouchableOpacity style={[styles.seriesButton, styles.seriesButtonDanger]} onPress={handleCancelSeries}>
+                                                        <MaterialCommunityIcons name="calendar-remove" size={16} color={colors.error} />
+                                                        <Text style={[styles.seriesButtonText, { color: colors.error }]}>ยกเลิกซีรีส์</Text>
+                                                    </TouchableOpacity>
+                                                </View>
+                                            </View>
+                                        )}
                                     </View>
                                 </View>
                             </ScrollView>
                         ) : null}
                     </View>
                 </TouchableOpacity>
+
+                {/* The detail modal covers the screen-level snackbar */}
+                <UndoSnackbar />
+
+                <DiscountModal
+                    visible={!!discountTarget}
+                    originalAmount={selectedDiscount
+                        ? selectedDiscount.originalAmount
+                        : (discountTarget || []).reduce((sum, b) => sum + b.totalPrice, 0)}
+                    bookingCount={discountTarget?.length || 1}
+                    existing={selectedDiscount}
+                    saving={savingDiscount}
+                    onApply={handleApplyDiscount}
+                    onRemove={handleRemoveDiscount}
+                    onClose={() => setDiscountTarget(null)}
+                />
+
+                <PaymentLedgerModal
+                    visible={paymentView === 'LEDGER'}
+                    businessId={businessId || undefined}
+                    bookingIds={paymentBookingIds}
+                    courtId={selectedBooking?.courtId}
+                    totalDue={paymentTotalDue}
+                    markedPaid={!!selectedBooking?.isPaid}
+                    onClose={() => setPaymentView(null)}
+                    onChanged={handlePaymentsChanged}
+                />
+
+                <PromptPayQrModal
+                    visible={paymentView === 'PROMPTPAY'}
+                    businessId={businessId || undefined}
+                    bookingIds={paymentBookingIds}
+                    courtId={selectedBooking?.courtId}
+                    totalDue={paymentTotalDue}
+                    markedPaid={!!selectedBooking?.isPaid}
+                    description={selectedBooking
+                        ? `${selectedBooking.court?.name || ''} ${format(parseISO(selectedBooking.timeSlotStart), 'd MMM HH:mm', { locale: th })}`.trim()
+                        : undefined}
+                    onClose={() => setPaymentView(null)}
+                    onPaid={handlePaymentsChanged}
+                />
+
+                <ReceiptModal
+                    visible={receiptModalVisible}
+                    businessId={businessId || undefined}
+                    bookings={paymentBookings}
+                    onClose={() => setReceiptModalVisible(false)}
+                />
             </Modal>
 
             {/* Add Booking Modal */}
@@ -1624,7 +2998,10 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                     <TextInput
                                         style={styles.textInputReal}
                                         value={newBooking.customerName}
-                                        onChangeText={(text) => setNewBooking(prev => ({ ...prev, customerName: text }))}
+                                        onChangeText={(text) => {
+                                            setNewBooking(prev => ({ ...prev, customerName: text }));
+                                            setMemberQuery(text);
+                                        }}
                                         placeholder="กรอกชื่อลูกค้า"
                                         placeholderTextColor={colors.neutral[400]}
                                     />
@@ -1638,7 +3015,11 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                     <TextInput
                                         style={styles.textInputReal}
                                         value={newBooking.customerPhone}
-                                        onChangeText={(text) => setNewBooking(prev => ({ ...prev, customerPhone: text }))}
+                                        onChangeText={(text) => {
+                                            // A different number is a different customer
+                                            setNewBooking(prev => ({ ...prev, customerPhone: text, serviceUserId: '' }));
+                                            setMemberQuery(text);
+                                        }}
                                         placeholder="0812345678"
                                         placeholderTextColor={colors.neutral[400]}
                                         keyboardType="phone-pad"
@@ -1661,6 +3042,23 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                 </View>
                             </View>
                         </View>
+
+                        <MemberAutocomplete
+                            query={memberQuery}
+                            businessId={businessId || undefined}
+                            memberId={newBooking.serviceUserId || undefined}
+                            onSelect={member => {
+                                setNewBooking(prev => ({
+                                    ...prev,
+                                    customerName: member.name || prev.customerName,
+                                    customerPhone: member.phone || prev.customerPhone,
+                                    serviceUserId: member.id,
+                                }));
+                                setMemberQuery('');
+                            }}
+                            onUnlink={() => setNewBooking(prev => ({ ...prev, serviceUserId: '' }))}
+                        />
+
                         {/* Court Selection */}
                         <View style={styles.formGroup}>
                             <Text style={styles.formLabel}>สนาม *</Text>
@@ -1685,23 +3083,9 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                     newBooking.courtId === court.id && styles.pickerItemSelected
                                                 ]}
                                                 onPress={() => {
-                                                    // Calculate price for new court
-                                                    let newPrice = newBooking.price;
-                                                    const foundCourt = courts.find(c => c.id === court.id); // Re-find to be safe or use 'court' from map
-                                                    // Note: 'court' inside map is the loop variable.
-
-                                                    if (foundCourt && foundCourt.hourlyRate) {
-                                                        const [sH, sM] = newBooking.startTime.split(':').map(Number);
-                                                        const [eH, eM] = newBooking.endTime.split(':').map(Number);
-                                                        let sMin = sH * 60 + sM;
-                                                        let eMin = eH * 60 + eM;
-                                                        if (eMin <= sMin) eMin += 24 * 60;
-                                                        const durationHours = (eMin - sMin) / 60;
-                                                        if (durationHours > 0) {
-                                                            newPrice = Math.round(durationHours * Number(foundCourt.hourlyRate)).toString();
-                                                        }
-                                                    }
-
+                                                    // Member tiers belong to a court's rules, so the discount resets with the court
+                                                    setMemberTierId(null);
+                                                    const newPrice = getFormPrice({ ...newBooking, courtId: court.id }, newBooking.price, null);
                                                     setNewBooking(prev => ({ ...prev, courtId: court.id, price: newPrice }));
                                                 }}
                                             >
@@ -1763,7 +3147,7 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                 const bStart = new Date(b.timeSlotStart);
                                                 const bEnd = new Date(b.timeSlotEnd);
                                                 const [h, m] = time.split(':').map(Number);
-                                                const slotTime = new Date(selectedDate);
+                                                const slotTime = parseISO(newBooking.date);
                                                 slotTime.setHours(h, m, 0, 0);
 
                                                 return slotTime >= bStart && slotTime < bEnd;
@@ -1786,23 +3170,7 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                         const newEndTime = `${String(endH).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
 
                                                         // Calculate Price
-                                                        let newPrice = newBooking.price;
-                                                        const court = courts.find(c => c.id === newBooking.courtId);
-                                                        if (court && court.hourlyRate) {
-                                                            const [sH, sM] = time.split(':').map(Number);
-                                                            const [eH, eM] = newEndTime.split(':').map(Number);
-
-                                                            let sMin = sH * 60 + sM;
-                                                            let eMin = eH * 60 + eM;
-
-                                                            if (eMin <= sMin) eMin += 24 * 60; // Should handle next day/midnight
-
-                                                            const durationHours = (eMin - sMin) / 60;
-                                                            if (durationHours > 0) {
-                                                                const calculated = Math.round(durationHours * Number(court.hourlyRate));
-                                                                newPrice = calculated.toString();
-                                                            }
-                                                        }
+                                                        const newPrice = getFormPrice({ ...newBooking, startTime: time, endTime: newEndTime }, newBooking.price);
 
                                                         setNewBooking(prev => ({
                                                             ...prev,
@@ -1919,24 +3287,7 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                                                         const newEndTime = time;
 
                                                         // Calculate price
-                                                        let newPrice = newBooking.price;
-
-                                                        const court = courts.find(c => c.id === newBooking.courtId);
-                                                        if (court && court.hourlyRate) {
-                                                            const [sH, sM] = newBooking.startTime.split(':').map(Number);
-                                                            const [eH, eM] = newEndTime.split(':').map(Number);
-
-                                                            let sMin = sH * 60 + sM;
-                                                            let eMin = eH * 60 + eM;
-
-                                                            if (eMin <= sMin) eMin += 24 * 60;
-
-                                                            const durationHours = (eMin - sMin) / 60;
-                                                            if (durationHours > 0) {
-                                                                const calculated = Math.round(durationHours * Number(court.hourlyRate));
-                                                                newPrice = calculated.toString();
-                                                            }
-                                                        }
+                                                        const newPrice = getFormPrice({ ...newBooking, endTime: newEndTime }, newBooking.price);
 
                                                         setNewBooking(prev => ({
                                                             ...prev,
@@ -1992,6 +3343,33 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                             </Text>
                         </View>
 
+                        {/* Price Breakdown */}
+                        {editingBookingIds.length <= 1 && (() => {
+                            const quote = getFormQuote(newBooking);
+                            const tiers = courts.find(c => c.id === newBooking.courtId)?.pricingRules?.memberTiers || [];
+                            return quote ? (
+                                <PriceBreakdown
+                                    quote={quote}
+                                    memberTiers={tiers}
+                                    selectedTierId={memberTierId}
+                                    onSelectTier={handleSelectMemberTier}
+                                    priceOverridden={newBooking.price !== '' && newBooking.price !== quote.total.toString()}
+                                />
+                            ) : null;
+                        })()}
+
+                        {/* Recurring Series (new court bookings only) */}
+                        {!editingBookingId && managementMode === 'SLOT' && (
+                            <RecurringBookingSection
+                                rule={recurrenceRule}
+                                onChangeRule={setRecurrenceRule}
+                                courtId={newBooking.courtId}
+                                startDate={newBooking.date}
+                                startTime={newBooking.startTime}
+                                endTime={newBooking.endTime}
+                            />
+                        )}
+
                         {/* Status Row */}
                         <View style={styles.formGroup}>
                             <Text style={styles.formLabel}>สถานะ</Text>
@@ -2057,8 +3435,28 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                         </TouchableOpacity>
                     </View>
                 </View>
+
+                {/* Rendered inside the add modal so it can stack on top of it */}
+                <SlotConflictModal
+                    visible={!!slotConflict}
+                    problems={slotConflict?.problems || []}
+                    conflicts={slotConflict?.conflicts || []}
+                    onJumpTo={jumpToBooking}
+                    onClose={() => setSlotConflict(null)}
+                />
             </Modal >
             {/* Merged Booking Selection Modal */}
+            <RescheduleConfirmSheet
+                visible={!!pendingMove}
+                saving={savingMove}
+                customerName={pendingMove?.mergedBooking.customerName || ''}
+                slotCount={pendingMove?.mergedBooking.ids.length || 0}
+                from={getMoveSlotSummary(pendingMove, 'from')}
+                to={getMoveSlotSummary(pendingMove, 'to')}
+                onConfirm={handleConfirmMove}
+                onCancel={() => setPendingMove(null)}
+            />
+
             <MergedBookingSelectionModal
                 visible={mergedModalVisible}
                 onClose={() => {
@@ -2066,6 +3464,17 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                     setSelectedMergedBooking(null);
                 }}
                 mergedBooking={selectedMergedBooking}
+                onAddToWaitlist={() => {
+                    if (selectedMergedBooking) {
+                        const start = parseISO(selectedMergedBooking.timeSlotStart);
+                        setMergedModalVisible(false);
+                        openWaitlist(format(start, 'yyyy-MM-dd'), {
+                            courtId: selectedMergedBooking.bookings[0]?.court?.id || selectedMergedBooking.bookings[0]?.courtId,
+                            startTime: format(start, 'HH:mm'),
+                            endTime: format(parseISO(selectedMergedBooking.timeSlotEnd), 'HH:mm'),
+                        });
+                    }
+                }}
                 onSelectSlot={(bookingId) => {
                     // When a slot is selected, close this modal and open the detailed edit view
                     setMergedModalVisible(false);
@@ -2104,6 +3513,39 @@ export const BookingManagerView = ({ businessId }: BookingManagerViewProps) => {
                     }
                 }}
             />
+
+            <WaitlistModal
+                visible={waitlistVisible}
+                businessId={businessId || '9999'}
+                date={waitlistDate}
+                courts={waitlistCourts}
+                sports={waitlistSports}
+                draft={waitlistDraft}
+                matches={waitlistMatches}
+                onBook={handleBookFromWaitlist}
+                onChanged={loadWaitingCount}
+                onClose={() => {
+                    setWaitlistVisible(false);
+                    setWaitlistDraft(null);
+                }}
+            />
+
+            <BookingSearchModal
+                visible={searchVisible}
+                businessId={businessId || undefined}
+                courts={courts}
+                onSelect={handleSearchSelect}
+                onClose={() => setSearchVisible(false)}
+            />
+
+            {businessId && (
+                <BookingExportModal
+                    visible={exportVisible}
+                    businessId={businessId}
+                    initialMonth={selectedDate}
+                    onClose={() => setExportVisible(false)}
+                />
+            )}
         </View>
     );
 };
@@ -2171,6 +3613,14 @@ const styles = StyleSheet.create({
     modeButtonTextActive: {
         color: colors.white,
     },
+    viewToolbar: {
+        flexGrow: 0,
+        marginBottom: 12,
+    },
+    viewToolbarContent: {
+        paddingHorizontal: spacing.xs,
+        alignItems: 'center',
+    },
     dateControls: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -2188,6 +3638,40 @@ const styles = StyleSheet.create({
         fontFamily: fonts.medium,
         color: colors.neutral[700],
     },
+    incompleteBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        marginBottom: spacing.sm,
+        borderRadius: borderRadius.lg,
+        borderWidth: 1,
+        borderColor: '#FDE68A',
+        backgroundColor: '#FFFBEB',
+    },
+    incompleteBannerText: {
+        flex: 1,
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[800],
+    },
+    incompleteRetryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.primary[200],
+        backgroundColor: colors.white,
+    },
+    incompleteRetryText: {
+        fontFamily: fonts.medium,
+        fontSize: 12,
+        color: colors.primary.main,
+    },
     loadingContainer: {
         flex: 1,
         justifyContent: 'center',
@@ -2226,6 +3710,13 @@ const styles = StyleSheet.create({
         borderRightColor: colors.neutral[100],
         paddingHorizontal: 4,
     },
+    columnHeaderToday: {
+        backgroundColor: colors.primary[50],
+    },
+    dayGroupStart: {
+        borderLeftWidth: 2,
+        borderLeftColor: colors.neutral[300],
+    },
     columnHeaderText: {
         fontFamily: fonts.semiBold,
         fontSize: 12,
@@ -2266,6 +3757,10 @@ const styles = StyleSheet.create({
         borderRightColor: colors.neutral[100],
         position: 'relative',
     },
+    courtColumnDragging: {
+        zIndex: 10,
+        elevation: 10,
+    },
     gridCell: {
         height: ROW_HEIGHT,
         borderBottomWidth: 1,
@@ -2287,6 +3782,43 @@ const styles = StyleSheet.create({
         shadowRadius: 4,
         elevation: 3,
     },
+    bookingBlockConflict: {
+        borderWidth: 2,
+        borderColor: colors.error,
+        borderLeftColor: colors.error,
+    },
+    bookingBlockHighlighted: {
+        borderWidth: 3,
+        borderColor: colors.warning,
+        zIndex: 5,
+    },
+    dropPreview: {
+        position: 'absolute',
+        left: 4,
+        right: 4,
+        borderRadius: 8,
+        borderWidth: 2,
+        borderStyle: 'dashed',
+        borderColor: colors.success,
+        backgroundColor: 'rgba(16, 185, 129, 0.12)',
+        padding: 6,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    dropPreviewInvalid: {
+        borderColor: colors.error,
+        backgroundColor: 'rgba(239, 68, 68, 0.12)',
+    },
+    dropPreviewText: {
+        fontFamily: fonts.bold,
+        fontSize: 12,
+        color: colors.neutral[800],
+    },
+    dropPreviewWarning: {
+        fontFamily: fonts.medium,
+        fontSize: 11,
+        color: colors.error,
+    },
     bookingText: {
         fontFamily: fonts.bold,
         fontSize: 13,
@@ -2364,6 +3896,61 @@ const styles = StyleSheet.create({
         fontSize: 20,
         color: colors.neutral[900],
     },
+    headerPill: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        height: 36,
+        paddingHorizontal: spacing.sm,
+        borderRadius: 18,
+        borderWidth: 1,
+        borderColor: colors.neutral[300],
+        marginRight: 8,
+    },
+    headerPillText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    waitlistBadge: {
+        minWidth: 18,
+        height: 18,
+        borderRadius: 9,
+        paddingHorizontal: 4,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: colors.warning,
+    },
+    waitlistBadgeText: {
+        fontFamily: fonts.bold,
+        fontSize: 11,
+        color: colors.white,
+    },
+    detailTabs: {
+        flexDirection: 'row',
+        marginTop: -spacing.sm,
+        marginBottom: spacing.md,
+        backgroundColor: colors.neutral[100],
+        borderRadius: borderRadius.md,
+        padding: 2,
+    },
+    detailTab: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.md,
+    },
+    detailTabActive: {
+        backgroundColor: colors.white,
+    },
+    detailTabText: {
+        fontFamily: fonts.medium,
+        fontSize: 14,
+        color: colors.neutral[500],
+    },
+    detailTabTextActive: {
+        color: colors.primary.main,
+    },
     detailRow: {
         flexDirection: 'row',
         alignItems: 'flex-start',
@@ -2681,6 +4268,93 @@ const styles = StyleSheet.create({
         fontSize: 16,
         color: colors.white,
     },
+    discountButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: spacing.md,
+        paddingHorizontal: spacing.lg,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.primary[200],
+        backgroundColor: colors.white,
+        gap: spacing.sm,
+        marginTop: spacing.sm,
+    },
+    discountButtonMobile: {
+        paddingVertical: spacing.sm,
+    },
+    discountButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: 16,
+        color: colors.primary.main,
+    },
+    discountButtonTextMobile: {
+        fontSize: 13,
+    },
+    discountDetail: {
+        flex: 1,
+    },
+    paymentBalanceNote: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.warning,
+        marginTop: 2,
+    },
+    discountDetailNote: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    seriesBox: {
+        marginTop: spacing.md,
+        padding: spacing.md,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.primary[50],
+        borderWidth: 1,
+        borderColor: colors.primary[100],
+        gap: spacing.xs,
+    },
+    seriesHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+    },
+    seriesTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: 14,
+        color: colors.primary.main,
+    },
+    seriesMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 13,
+        color: colors.neutral[600],
+    },
+    seriesActions: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+        marginTop: spacing.xs,
+    },
+    seriesButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 4,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.primary[200],
+        backgroundColor: colors.white,
+    },
+    seriesButtonDanger: {
+        borderColor: '#FECACA',
+    },
+    seriesButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: 13,
+        color: colors.primary.main,
+    },
 
 
     sportBadgeSmall: {
@@ -2817,6 +4491,11 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: colors.neutral[100],
     },
+    capacityBookingItemHighlighted: {
+        borderWidth: 2,
+        borderColor: colors.warning,
+        backgroundColor: colors.warning + '15',
+    },
     checkInTime: {
         backgroundColor: colors.white,
         paddingVertical: 4,
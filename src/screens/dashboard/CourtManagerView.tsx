@@ -16,8 +16,13 @@ import {
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { colors, fonts, spacing, borderRadius, fontSize } from '../../theme/tokens';
 import { courtService } from '../../services/court.service';
-import { Court } from '../../types/court';
+import { responseCacheService } from '../../services/responseCache.service';
+import { Court, PricingRules } from '../../types/court';
 import { SportFilterTabs } from '../../components/common/SportFilterTabs';
+import { CourtBlocksModal } from '../../components/CourtBlocksModal';
+import { courtBlockService } from '../../services/courtBlock.service';
+import { EMPTY_PRICING_RULES } from '../../services/pricingRules.service';
+import { PricingRulesEditor, validatePricingRules } from '../../components/PricingRulesEditor';
 
 interface CourtManagerViewProps {
     businessId?: string | null;
@@ -92,8 +97,25 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
         closingHour: '',
         hourlyRate: '',
     });
+    const [pricingRules, setPricingRules] = useState<PricingRules>(EMPTY_PRICING_RULES);
     const [saving, setSaving] = useState(false);
 
+    // Blocked / maintenance periods
+    const [blocksCourt, setBlocksCourt] = useState<Court | null>(null);
+    const [blockCounts, setBlockCounts] = useState<Record<string, number>>({});
+
+    const loadBlockCounts = useCallback(async () => {
+        const today = new Date().toISOString().split('T')[0];
+        const blocks = await courtBlockService.getBlocks();
+        const counts: Record<string, number> = {};
+        blocks
+            .filter(b => (b.endDate || (b.weekdays?.length ? today : b.date)) >= today)
+            .forEach(b => {
+                counts[b.courtId] = (counts[b.courtId] || 0) + 1;
+            });
+        setBlockCounts(counts);
+    }, []);
+
     const loadCourts = useCallback(async () => {
         try {
             setLoading(true);
@@ -131,6 +153,11 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
 
     useEffect(() => {
         loadCourts();
+        loadBlockCounts();
+    }, [loadCourts, loadBlockCounts]);
+
+    useEffect(() => {
+        return responseCacheService.subscribe(['/api/owner/courts', '/api/owner/capacity-facilities'], () => loadCourts());
     }, [loadCourts]);
 
     useEffect(() => {
@@ -154,8 +181,9 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
         setFilteredCourts(result);
     }, [selectedSport, courts, managementMode]);
 
-    const handleRefresh = () => {
+    const handleRefresh = async () => {
         setRefreshing(true);
+        await responseCacheService.invalidate(['/api/owner/courts', '/api/owner/capacity-facilities']);
         loadCourts();
     };
 
@@ -166,6 +194,7 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
             closingHour: court.closingHour || '00:00',
             hourlyRate: court.hourlyRate ? court.hourlyRate.toString() : '',
         });
+        setPricingRules(court.pricingRules || EMPTY_PRICING_RULES);
         setEditModalVisible(true);
     };
 
@@ -185,12 +214,19 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
             return;
         }
 
+        const rulesError = validatePricingRules(pricingRules);
+        if (rulesError) {
+            Alert.alert(rulesError);
+            return;
+        }
+
         setSaving(true);
         try {
             const updated = await courtService.updateCourt(editingCourt.id, {
                 openingHour: editForm.openingHour,
                 closingHour: editForm.closingHour,
                 hourlyRate: Number(editForm.hourlyRate),
+                pricingRules,
             });
 
             if (updated) {
@@ -221,16 +257,27 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
                             <Text style={styles.sportBadgeText}>{sportLabel}</Text>
                         </View>
                     </View>
-                    {/* Hide Edit button for capacity bookings for now as they have different update logic */}
-                    {getCourtCapacity(item) <= 1 && (
+                    <View style={styles.headerActions}>
                         <TouchableOpacity
-                            style={styles.editButton}
-                            onPress={() => handleEditCourt(item)}
+                            style={styles.blockButton}
+                            onPress={() => setBlocksCourt(item)}
                         >
-                            <MaterialCommunityIcons name="pencil" size={18} color={colors.primary.main} />
-                            <Text style={styles.editButtonText}>แก้ไข</Text>
+                            <MaterialCommunityIcons name="wrench" size={18} color={colors.neutral[700]} />
+                            <Text style={styles.blockButtonText}>
+                                ปิดสนาม{blockCounts[item.id] ? ` (${blockCounts[item.id]})` : ''}
+                            </Text>
                         </TouchableOpacity>
-                    )}
+                        {/* Hide Edit button for capacity bookings for now as they have different update logic */}
+                        {getCourtCapacity(item) <= 1 && (
+                            <TouchableOpacity
+                                style={styles.editButton}
+                                onPress={() => handleEditCourt(item)}
+                            >
+                                <MaterialCommunityIcons name="pencil" size={18} color={colors.primary.main} />
+                                <Text style={styles.editButtonText}>แก้ไข</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
                 </View>
 
                 <View style={styles.courtDetails}>
@@ -244,6 +291,7 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
                         <MaterialCommunityIcons name="cash" size={16} color={colors.success} />
                         <Text style={[styles.detailValue, { color: colors.success }]} numberOfLines={1}>
                             ฿{item.hourlyRate?.toLocaleString() || '-'}
+                            {item.pricingRules && item.pricingRules.bands.length > 0 ? ` • ${item.pricingRules.bands.length} ช่วงราคา` : ''}
                         </Text>
                     </View>
                 </View>
@@ -292,7 +340,7 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
                         </TouchableOpacity>
                     </View>
                 </View>
-                <Text style={styles.headerSubtitle}>ตั้งค่าเวลาเปิด-ปิด และราคา ({filteredCourts.length} สนาม)</Text>
+                <Text style={styles.headerSubtitle}>ตั้งค่าเวลาเปิด-ปิด ราคา และช่วงปิดสนาม ({filteredCourts.length} สนาม)</Text>
             </View>
 
             {/* Loading / List */}
@@ -396,6 +444,8 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
                                     />
                                 </View>
                             </View>
+
+                            <PricingRulesEditor rules={pricingRules} onChange={setPricingRules} />
                         </ScrollView>
 
                         <View style={styles.modalFooter}>
@@ -421,6 +471,15 @@ export const CourtManagerView = ({ businessId }: CourtManagerViewProps) => {
                     </View>
                 </View>
             </Modal >
+
+            <CourtBlocksModal
+                visible={!!blocksCourt}
+                court={blocksCourt}
+                onClose={() => {
+                    setBlocksCourt(null);
+                    loadBlockCounts();
+                }}
+            />
         </View >
     );
 };
@@ -558,6 +617,25 @@ const styles = StyleSheet.create({
         borderRadius: borderRadius.md,
         gap: 4,
     },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+    },
+    blockButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: colors.neutral[100],
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 6,
+        borderRadius: borderRadius.md,
+        gap: 4,
+    },
+    blockButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+    },
     editButtonText: {
         fontFamily: fonts.medium,
         fontSize: fontSize.sm,
@@ -591,6 +669,7 @@ const styles = StyleSheet.create({
     modalContent: {
         width: '100%',
         maxWidth: 400,
+        maxHeight: '90%',
         backgroundColor: colors.white,
         borderRadius: borderRadius.xl,
         padding: spacing.lg,
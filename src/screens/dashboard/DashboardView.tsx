@@ -7,10 +7,17 @@ import {
     ActivityIndicator,
     RefreshControl,
     Dimensions,
+    TouchableOpacity,
 } from 'react-native';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { colors, spacing, fontSize, borderRadius, fonts } from '../../theme/tokens';
 import { analyticsService, AnalyticsSummary, AnalyticsByStatus, PeakHour } from '../../services/analytics.service';
+import { courtService } from '../../services/court.service';
+import { courtBlockService } from '../../services/courtBlock.service';
+import { discountService } from '../../services/discount.service';
+import { responseCacheService } from '../../services/responseCache.service';
+import { getAvailableCourtHours } from '../../utils/availability';
+import { BookingExportModal } from '../../components/BookingExportModal';
 
 interface DashboardViewProps {
     businessId: string;
@@ -24,7 +31,10 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
     const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
     const [byStatus, setByStatus] = useState<AnalyticsByStatus | null>(null);
     const [peakHours, setPeakHours] = useState<PeakHour[]>([]);
+    const [overallUtilization, setOverallUtilization] = useState<number | null>(null);
+    const [discountsGiven, setDiscountsGiven] = useState<{ amount: number; count: number }>({ amount: 0, count: 0 });
     const [error, setError] = useState<string | null>(null);
+    const [exportVisible, setExportVisible] = useState(false);
 
     const fetchDashboardData = useCallback(async () => {
         try {
@@ -38,10 +48,18 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
             const dateFrom = thirtyDaysAgo.toISOString().split('T')[0];
             const dateTo = today.toISOString().split('T')[0];
 
-            const [analyticsResult, peakHoursResult] = await Promise.all([
+            const [analyticsResult, peakHoursResult, courts, blockedPeriods, discounts] = await Promise.all([
                 analyticsService.getAnalytics(dateFrom, dateTo, businessId),
                 analyticsService.getPeakHours(dateFrom, dateTo, businessId),
+                courtService.getCourts(businessId),
+                courtBlockService.getBlockedPeriods(thirtyDaysAgo, today),
+                // The rest of the dashboard still loads when the discount records can't be reached
+                discountService.getDiscountsGiven(dateFrom, dateTo).catch(discountError => {
+                    console.error('Failed to load discounts given:', discountError);
+                    return null;
+                }),
             ]);
+            if (discounts) setDiscountsGiven(discounts);
 
             if (analyticsResult.error) {
                 setError(analyticsResult.error);
@@ -54,7 +72,24 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
             }
 
             if (peakHoursResult.data) {
-                setPeakHours(peakHoursResult.data);
+                // Utilisation against bookable hours only: closed and blocked (maintenance) hours are left out
+                const days = Array.from({ length: 31 }, (_, i) => {
+                    const day = new Date(thirtyDaysAgo);
+                    day.setDate(thirtyDaysAgo.getDate() + i);
+                    return day;
+                });
+                const availableHours = getAvailableCourtHours(courts, days, blockedPeriods);
+                const hours = peakHoursResult.data.map(h => ({
+                    ...h,
+                    utilization: availableHours[h.hour] > 0
+                        ? Math.min(100, Math.round((h.bookingCount / availableHours[h.hour]) * 100))
+                        : 0,
+                }));
+                const totalAvailable = availableHours.reduce((sum, n) => sum + n, 0);
+                const totalBooked = peakHoursResult.data.reduce((sum, h) => sum + h.bookingCount, 0);
+
+                setPeakHours(hours);
+                setOverallUtilization(totalAvailable > 0 ? Math.min(100, Math.round((totalBooked / totalAvailable) * 100)) : null);
             }
         } catch (err) {
             setError('ไม่สามารถโหลดข้อมูลได้');
@@ -69,8 +104,14 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
         fetchDashboardData();
     }, [fetchDashboardData]);
 
-    const handleRefresh = () => {
+    // Shown from cache first; re-read once the background revalidation brings newer numbers
+    useEffect(() => {
+        return responseCacheService.subscribe(['/api/owner/analytics', '/api/owner/courts'], () => fetchDashboardData());
+    }, [fetchDashboardData]);
+
+    const handleRefresh = async () => {
         setRefreshing(true);
+        await responseCacheService.invalidate(['/api/owner/analytics', '/api/owner/courts']);
         fetchDashboardData();
     };
 
@@ -135,8 +176,14 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
         >
             {/* Header */}
             <View style={styles.header}>
-                <Text style={styles.headerTitle}>ภาพรวมธุรกิจ</Text>
-                <Text style={styles.headerSubtitle}>ข้อมูล 30 วันที่ผ่านมา</Text>
+                <View>
+                    <Text style={styles.headerTitle}>ภาพรวมธุรกิจ</Text>
+                    <Text style={styles.headerSubtitle}>ข้อมูล 30 วันที่ผ่านมา</Text>
+                </View>
+                <TouchableOpacity style={styles.exportButton} onPress={() => setExportVisible(true)}>
+                    <MaterialCommunityIcons name="export-variant" size={18} color={colors.primary.main} />
+                    <Text style={styles.exportButtonText}>ส่งออกรายการจอง</Text>
+                </TouchableOpacity>
             </View>
 
             {/* Summary Cards Row */}
@@ -155,6 +202,18 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
                     </Text>
                 </View>
 
+                {/* Discounts Card: revenue above is already net of these */}
+                <View style={[styles.summaryCard, styles.discountCard]}>
+                    <View style={styles.cardIconWrapper}>
+                        <MaterialCommunityIcons name="ticket-percent-outline" size={28} color={colors.warning} />
+                    </View>
+                    <Text style={styles.cardLabel}>ส่วนลดที่ให้</Text>
+                    <Text style={[styles.cardValue, { color: colors.warning }]}>
+                        {formatCurrency(discountsGiven.amount)}
+                    </Text>
+                    <Text style={styles.cardSubValue}>{formatNumber(discountsGiven.count)} รายการ</Text>
+                </View>
+
                 {/* Total Bookings Card */}
                 <View style={[styles.summaryCard, styles.bookingsCard]}>
                     <View style={styles.cardIconWrapper}>
@@ -245,7 +304,7 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
                                     <View style={styles.peakHourInfo}>
                                         <Text style={styles.peakHourLabel}>{peak.label}</Text>
                                         <Text style={styles.peakHourCount}>
-                                            {peak.bookingCount} การจอง
+                                            {peak.bookingCount} การจอง • ใช้งาน {peak.utilization}%
                                         </Text>
                                     </View>
                                     <View style={styles.peakHourBar}>
@@ -293,6 +352,14 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
                     </Text>
                 </View>
                 <View style={styles.quickStatDivider} />
+                <View style={styles.quickStatItem}>
+                    <MaterialCommunityIcons name="chart-donut" size={20} color={colors.warning} />
+                    <Text style={styles.quickStatLabel}>อัตราการใช้สนาม</Text>
+                    <Text style={styles.quickStatValue}>
+                        {overallUtilization !== null ? `${overallUtilization}%` : '-'}
+                    </Text>
+                </View>
+                <View style={styles.quickStatDivider} />
                 <View style={styles.quickStatItem}>
                     <MaterialCommunityIcons name="cancel" size={20} color={colors.error} />
                     <Text style={styles.quickStatLabel}>อัตราการยกเลิก</Text>
@@ -303,6 +370,12 @@ export const DashboardView = ({ businessId }: DashboardViewProps) => {
                     </Text>
                 </View>
             </View>
+
+            <BookingExportModal
+                visible={exportVisible}
+                businessId={businessId}
+                onClose={() => setExportVisible(false)}
+            />
         </ScrollView>
     );
 };
@@ -339,6 +412,11 @@ const styles = StyleSheet.create({
         color: colors.error,
     },
     header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: spacing.sm,
         marginBottom: spacing.lg,
     },
     headerTitle: {
@@ -352,6 +430,22 @@ const styles = StyleSheet.create({
         color: colors.neutral[500],
         marginTop: 2,
     },
+    exportButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        borderColor: colors.primary.main,
+        backgroundColor: colors.white,
+    },
+    exportButtonText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.primary.main,
+    },
     summaryRow: {
         flexDirection: 'row',
         flexWrap: 'wrap', // Allow wrapping for mobile
@@ -374,6 +468,10 @@ const styles = StyleSheet.create({
         borderLeftWidth: 4,
         borderLeftColor: colors.success,
     },
+    discountCard: {
+        borderLeftWidth: 4,
+        borderLeftColor: colors.warning,
+    },
     bookingsCard: {
         borderLeftWidth: 4,
         borderLeftColor: colors.primary.main,
@@ -0,0 +1,614 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TextInput,
+    TouchableOpacity,
+    ActivityIndicator,
+    RefreshControl,
+    Alert,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { addDays, format, isToday, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { colors, spacing, fontSize, borderRadius, fonts } from '../../theme/tokens';
+import { useAuth } from '../../context/AuthContext';
+import { DayClosing, PaymentMethod } from '../../types/booking';
+import { dayClosingService, DayReport } from '../../services/dayClosing.service';
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHOD_ICONS } from '../../services/payment.service';
+import { describeApiError } from '../../services/apiErrors';
+
+interface EndOfDayViewProps {
+    businessId: string;
+}
+
+const METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('th-TH', { style: 'currency', currency: 'THB', minimumFractionDigits: 0 }).format(amount);
+
+export const EndOfDayView = ({ businessId }: EndOfDayViewProps) => {
+    const { user } = useAuth();
+    const [day, setDay] = useState(() => new Date());
+    const [report, setReport] = useState<DayReport | null>(null);
+    const [closings, setClosings] = useState<DayClosing[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [countedCash, setCountedCash] = useState('');
+    const [note, setNote] = useState('');
+
+    const dateKey = format(day, 'yyyy-MM-dd');
+    const closing = closings.find(c => c.date === dateKey);
+
+    const fetchReport = useCallback(async () => {
+        try {
+            const [dayReport, history] = await Promise.all([
+                dayClosingService.getDayReport(businessId, day),
+                dayClosingService.getClosings(businessId),
+            ]);
+            setReport(dayReport);
+            setClosings(history);
+
+            const closed = history.find(c => c.date === dayReport.date);
+            setCountedCash(closed ? closed.countedCash.toString() : '');
+            setNote(closed?.note || '');
+        } catch (error) {
+            console.error('End of day fetch error:', error);
+            Alert.alert('ผิดพลาด', 'ไม่สามารถโหลดข้อมูลการชำระเงินได้');
+        } finally {
+            setLoading(false);
+            setRefreshing(false);
+        }
+    }, [businessId, day]);
+
+    useEffect(() => {
+        setLoading(true);
+        fetchReport();
+    }, [fetchReport]);
+
+    const handleRefresh = () => {
+        setRefreshing(true);
+        fetchReport();
+    };
+
+    const counted = parseFloat(countedCash);
+    const expectedCash = report?.totalsByMethod.CASH || 0;
+    const variance = Number.isNaN(counted) ? null : counted - expectedCash;
+
+    const saveClosing = async () => {
+        if (!report || variance === null) return;
+        setSaving(true);
+        try {
+            const saved = await dayClosingService.closeDay({
+                businessId,
+                report,
+                countedCash: counted,
+                note,
+                closedBy: user?.username,
+            });
+            setClosings(prev => [saved, ...prev.filter(c => c.date !== saved.date)].sort((a, b) => b.date.localeCompare(a.date)));
+            Alert.alert('ปิดยอดเรียบร้อย', `วันที่ ${format(day, 'd MMM yyyy', { locale: th })}`);
+        } catch (error) {
+            console.error('Failed to close day:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถบันทึกการปิดยอดได้'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCloseDay = () => {
+        if (variance === null || counted < 0) {
+            Alert.alert('กรุณากรอกจำนวนเงินสดที่นับได้');
+            return;
+        }
+        if (variance !== 0 && !note.trim()) {
+            Alert.alert('ยอดเงินสดไม่ตรง', 'กรุณาระบุหมายเหตุสาเหตุของส่วนต่าง');
+            return;
+        }
+        if (closing) {
+            Alert.alert('ปิดยอดซ้ำ', 'วันนี้ปิดยอดไปแล้ว ต้องการบันทึกทับหรือไม่?', [
+                { text: 'ยกเลิก', style: 'cancel' },
+                { text: 'บันทึกทับ', onPress: saveClosing },
+            ]);
+            return;
+        }
+        saveClosing();
+    };
+
+    if (loading || !report) {
+        return (
+            <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color={colors.primary.main} />
+                <Text style={styles.loadingText}>กำลังโหลดข้อมูล...</Text>
+            </View>
+        );
+    }
+
+    return (
+        <ScrollView
+            style={styles.container}
+            contentContainerStyle={styles.contentContainer}
+            showsVerticalScrollIndicator={false}
+            refreshControl={
+                <RefreshControl
+                    refreshing={refreshing}
+                    onRefresh={handleRefresh}
+                    colors={[colors.primary.main]}
+                    tintColor={colors.primary.main}
+                />
+            }
+        >
+            {/* Header */}
+            <View style={styles.header}>
+                <View>
+                    <Text style={styles.headerTitle}>ปิดยอดประจำวัน</Text>
+                    <Text style={styles.headerSubtitle}>ยอดรับชำระตามวันที่รับเงิน แยกตามวิธีชำระ</Text>
+                </View>
+                <View style={styles.dateNav}>
+                    <TouchableOpacity style={styles.dateNavButton} onPress={() => setDay(prev => addDays(prev, -1))}>
+                        <MaterialCommunityIcons name="chevron-left" size={24} color={colors.neutral[700]} />
+                    </TouchableOpacity>
+                    <Text style={styles.dateText}>{format(day, 'EEE d MMM yyyy', { locale: th })}</Text>
+                    <TouchableOpacity
+                        style={[styles.dateNavButton, isToday(day) && styles.dateNavButtonDisabled]}
+                        onPress={() => setDay(prev => addDays(prev, 1))}
+                        disabled={isToday(day)}
+                    >
+                        <MaterialCommunityIcons name="chevron-right" size={24} color={colors.neutral[700]} />
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            {closing && (
+                <View style={styles.closedBanner}>
+                    <MaterialCommunityIcons name="lock-check-outline" size={20} color={colors.success} />
+                    <Text style={styles.closedBannerText}>
+                        ปิดยอดแล้ว {format(parseISO(closing.closedAt), 'd MMM HH:mm', { locale: th })}
+                        {closing.closedBy ? ` โดย ${closing.closedBy}` : ''}
+                    </Text>
+                </View>
+            )}
+
+            {!report.bookingsComplete && (
+                <View style={styles.incompleteBanner}>
+                    <MaterialCommunityIcons name="alert-outline" size={20} color={colors.warning} />
+                    <Text style={styles.incompleteBannerText}>
+                        โหลดรายการจองของวันนี้ได้ไม่ครบ ยอดที่ทำเครื่องหมายจ่ายแล้วและยอดค้างชำระอาจไม่ครบถ้วน ดึงลงเพื่อโหลดใหม่
+                    </Text>
+                </View>
+            )}
+
+            {/* Totals per method */}
+            <View style={styles.summaryRow}>
+                {METHODS.map(method => (
+                    <View key={method} style={styles.summaryCard}>
+                        <View style={styles.cardIconWrapper}>
+                            <MaterialCommunityIcons name={PAYMENT_METHOD_ICONS[method]} size={24} color={colors.primary.main} />
+                        </View>
+                        <Text style={styles.cardLabel}>{PAYMENT_METHOD_LABELS[method]}</Text>
+                        <Text style={styles.cardValue}>{formatCurrency(report.totalsByMethod[method])}</Text>
+                        <Text style={styles.cardSubValue}>
+                            {report.payments.filter(p => p.method === method).length} รายการ
+                        </Text>
+                    </View>
+                ))}
+                {report.unrecordedPaidAmount > 0 && (
+                    <View style={styles.summaryCard}>
+                        <View style={styles.cardIconWrapper}>
+                            <MaterialCommunityIcons name="help-circle-outline" size={24} color={colors.warning} />
+                        </View>
+                        <Text style={styles.cardLabel}>ไม่ระบุวิธีชำระ</Text>
+                        <Text style={styles.cardValue}>{formatCurrency(report.unrecordedPaidAmount)}</Text>
+                        <Text style={styles.cardSubValue}>{report.unrecordedPaid.length} รายการ (ทำเครื่องหมายจ่ายแล้ว)</Text>
+                    </View>
+                )}
+                <View style={[styles.summaryCard, styles.totalCard]}>
+                    <View style={styles.cardIconWrapper}>
+                        <MaterialCommunityIcons name="cash-multiple" size={24} color={colors.success} />
+                    </View>
+                    <Text style={styles.cardLabel}>รับชำระรวม</Text>
+                    <Text style={[styles.cardValue, styles.totalValue]}>{formatCurrency(report.totalCollected)}</Text>
+                    <Text style={styles.cardSubValue}>{report.payments.length + report.unrecordedPaid.length} รายการ</Text>
+                </View>
+            </View>
+
+            <View style={styles.secondRow}>
+                {/* Cash count */}
+                <View style={styles.card}>
+                    <Text style={styles.sectionTitle}>นับเงินสดในลิ้นชัก</Text>
+                    <View style={styles.countRow}>
+                        <Text style={styles.countLabel}>เงินสดที่ควรมี</Text>
+                        <Text style={styles.countValue}>{formatCurrency(expectedCash)}</Text>
+                    </View>
+                    <Text style={styles.inputLabel}>เงินสดที่นับได้</Text>
+                    <View style={styles.inputWrapper}>
+                        <Text style={styles.currency}>฿</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={countedCash}
+                            onChangeText={setCountedCash}
+                            placeholder="0"
+                            placeholderTextColor={colors.neutral[400]}
+                            keyboardType="numeric"
+                        />
+                    </View>
+                    {variance !== null && (
+                        <View style={styles.countRow}>
+                            <Text style={styles.countLabel}>ส่วนต่าง</Text>
+                            <Text style={[
+                                styles.countValue,
+                                variance === 0 ? styles.varianceZero : variance > 0 ? styles.varianceOver : styles.varianceShort,
+                            ]}>
+                                {variance === 0 ? 'ตรงยอด' : `${variance > 0 ? 'เกิน' : 'ขาด'} ${formatCurrency(Math.abs(variance))}`}
+                            </Text>
+                        </View>
+                    )}
+                    <Text style={styles.inputLabel}>หมายเหตุ</Text>
+                    <View style={styles.inputWrapper}>
+                        <TextInput
+                            style={[styles.input, styles.noteInput]}
+                            value={note}
+                            onChangeText={setNote}
+                            placeholder="เช่น ทอนเงินผิด, นำเงินออกไปซื้อของ"
+                            placeholderTextColor={colors.neutral[400]}
+                            multiline
+                        />
+                    </View>
+                    <TouchableOpacity
+                        style={[styles.closeButton, saving && styles.closeButtonDisabled]}
+                        onPress={handleCloseDay}
+                        disabled={saving}
+                    >
+                        {saving ? (
+                            <ActivityIndicator size="small" color={colors.white} />
+                        ) : (
+                            <>
+                                <MaterialCommunityIcons name="lock-outline" size={20} color={colors.white} />
+                                <Text style={styles.closeButtonText}>{closing ? 'ปิดยอดใหม่' : 'ปิดยอด'}</Text>
+                            </>
+                        )}
+                    </TouchableOpacity>
+                </View>
+
+                {/* Unpaid completed bookings */}
+                <View style={styles.card}>
+                    <Text style={styles.sectionTitle}>
+                        ใช้บริการแล้วแต่ยังไม่ชำระ ({report.unpaidCompleted.length})
+                    </Text>
+                    {report.unpaidCompleted.length === 0 ? (
+                        <Text style={styles.emptyText}>ไม่มีรายการค้างชำระ</Text>
+                    ) : (
+                        <>
+                            {report.unpaidCompleted.map(booking => (
+                                <View key={booking.id} style={styles.listItem}>
+                                    <View style={styles.listInfo}>
+                                        <Text style={styles.listTitle}>
+                                            {booking.serviceUser?.name || booking.customerName || 'Guest'}
+                                        </Text>
+                                        <Text style={styles.listMeta}>
+                                            {booking.court?.name || '-'} • {format(parseISO(booking.timeSlotStart), 'HH:mm')} - {format(parseISO(booking.timeSlotEnd), 'HH:mm')}
+                                        </Text>
+                                    </View>
+                                    <Text style={styles.unpaidAmount}>{formatCurrency(Number(booking.totalPrice || 0))}</Text>
+                                </View>
+                            ))}
+                            <View style={styles.countRow}>
+                                <Text style={styles.countLabel}>รวมค้างชำระ</Text>
+                                <Text style={[styles.countValue, styles.varianceShort]}>{formatCurrency(report.unpaidCompletedAmount)}</Text>
+                            </View>
+                        </>
+                    )}
+                </View>
+            </View>
+
+            {/* History */}
+            <View style={[styles.card, styles.historyCard]}>
+                <Text style={styles.sectionTitle}>ประวัติการปิดยอด</Text>
+                {closings.length === 0 ? (
+                    <Text style={styles.emptyText}>ยังไม่มีการปิดยอด</Text>
+                ) : (
+                    closings.map(c => (
+                        <TouchableOpacity key={c.id} style={styles.listItem} onPress={() => setDay(parseISO(c.date))}>
+                            <View style={styles.listInfo}>
+                                <Text style={styles.listTitle}>{format(parseISO(c.date), 'EEE d MMM yyyy', { locale: th })}</Text>
+                                <Text style={styles.listMeta}>
+                                    รับชำระ {formatCurrency(c.totalCollected)} • เงินสด {formatCurrency(c.countedCash)}
+                                    {c.closedBy ? ` • ${c.closedBy}` : ''}
+                                    {c.note ? ` • ${c.note}` : ''}
+                                </Text>
+                            </View>
+                            <Text style={[
+                                styles.historyVariance,
+                                c.variance === 0 ? styles.varianceZero : c.variance > 0 ? styles.varianceOver : styles.varianceShort,
+                            ]}>
+                                {c.variance === 0 ? 'ตรงยอด' : `${c.variance > 0 ? '+' : '-'}${formatCurrency(Math.abs(c.variance))}`}
+                            </Text>
+                        </TouchableOpacity>
+                    ))
+                )}
+            </View>
+        </ScrollView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    contentContainer: {
+        padding: spacing.lg,
+        paddingLeft: 10,
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: spacing.md,
+    },
+    loadingText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[500],
+    },
+    header: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        gap: spacing.md,
+        marginBottom: spacing.lg,
+    },
+    headerTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: 28,
+        color: colors.neutral[900],
+    },
+    headerSubtitle: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[500],
+        marginTop: 2,
+    },
+    dateNav: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.lg,
+        padding: spacing.xs,
+    },
+    dateNavButton: {
+        padding: spacing.xs,
+    },
+    dateNavButtonDisabled: {
+        opacity: 0.3,
+    },
+    dateText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[800],
+        minWidth: 150,
+        textAlign: 'center',
+    },
+    closedBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.md,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.success + '15',
+        marginBottom: spacing.lg,
+    },
+    closedBannerText: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.success,
+    },
+    incompleteBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.md,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.warning + '15',
+        marginBottom: spacing.lg,
+    },
+    incompleteBannerText: {
+        flex: 1,
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.md,
+        marginBottom: spacing.lg,
+    },
+    summaryCard: {
+        flex: 1,
+        minWidth: '30%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.06,
+        shadowRadius: 12,
+        elevation: 3,
+    },
+    totalCard: {
+        borderLeftWidth: 4,
+        borderLeftColor: colors.success,
+    },
+    cardIconWrapper: {
+        width: 40,
+        height: 40,
+        borderRadius: 12,
+        backgroundColor: colors.neutral[50],
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginBottom: spacing.sm,
+    },
+    cardLabel: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[500],
+    },
+    cardValue: {
+        fontFamily: fonts.bold,
+        fontSize: 22,
+        color: colors.neutral[900],
+        marginTop: 4,
+    },
+    totalValue: {
+        color: colors.success,
+    },
+    cardSubValue: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.xs,
+        color: colors.neutral[400],
+        marginTop: 2,
+    },
+    secondRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.md,
+        marginBottom: spacing.lg,
+    },
+    card: {
+        flex: 1,
+        minWidth: 300,
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.xl,
+        padding: spacing.lg,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.06,
+        shadowRadius: 12,
+        elevation: 3,
+    },
+    historyCard: {
+        marginBottom: spacing.lg,
+    },
+    sectionTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.lg,
+        color: colors.neutral[800],
+        marginBottom: spacing.md,
+    },
+    countRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    countLabel: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[600],
+    },
+    countValue: {
+        fontFamily: fonts.bold,
+        fontSize: fontSize.lg,
+        color: colors.neutral[900],
+    },
+    varianceZero: {
+        color: colors.success,
+    },
+    varianceOver: {
+        color: colors.warning,
+    },
+    varianceShort: {
+        color: colors.error,
+    },
+    inputLabel: {
+        fontFamily: fonts.medium,
+        fontSize: fontSize.sm,
+        color: colors.neutral[700],
+        marginBottom: spacing.sm,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        borderWidth: 1,
+        borderColor: colors.neutral[200],
+        borderRadius: borderRadius.lg,
+        paddingHorizontal: spacing.md,
+        backgroundColor: colors.neutral[50],
+        marginBottom: spacing.md,
+    },
+    currency: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.neutral[500],
+    },
+    input: {
+        flex: 1,
+        paddingVertical: spacing.sm,
+        fontFamily: fonts.regular,
+        fontSize: fontSize.md,
+        color: colors.neutral[900],
+    },
+    noteInput: {
+        minHeight: 60,
+        textAlignVertical: 'top',
+    },
+    closeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: spacing.sm,
+        height: 50,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.primary.main,
+    },
+    closeButtonDisabled: {
+        opacity: 0.7,
+    },
+    closeButtonText: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.md,
+        color: colors.white,
+    },
+    emptyText: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.sm,
+        color: colors.neutral[400],
+    },
+    listItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.neutral[100],
+    },
+    listInfo: {
+        flex: 1,
+    },
+    listTitle: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.neutral[800],
+    },
+    listMeta: {
+        fontFamily: fonts.regular,
+        fontSize: 12,
+        color: colors.neutral[500],
+    },
+    unpaidAmount: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+        color: colors.error,
+    },
+    historyVariance: {
+        fontFamily: fonts.semiBold,
+        fontSize: fontSize.sm,
+    },
+});
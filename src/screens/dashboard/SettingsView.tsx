@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     View,
     Text,
@@ -8,11 +8,16 @@ import {
     Alert,
     ScrollView,
     ActivityIndicator,
+    Switch,
 } from 'react-native';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { colors, fonts, spacing, borderRadius, fontSize } from '../../theme/tokens';
 import { useAuth } from '../../context/AuthContext';
 import { authService } from '../../services/auth.service';
+import { PromoCodeManager } from '../../components/PromoCodeManager';
+import { businessSettingsService } from '../../services/businessSettings.service';
+import { describeApiError } from '../../services/apiErrors';
+import { getPromptPayIdType } from '../../utils/promptpay';
 
 interface SettingsViewProps {
     businessId?: string | null;
@@ -29,6 +34,23 @@ export const SettingsView = ({ businessId }: SettingsViewProps) => {
         new: false,
         confirm: false,
     });
+    const [promptPayId, setPromptPayId] = useState('');
+    const [savingPromptPay, setSavingPromptPay] = useState(false);
+    const [taxId, setTaxId] = useState('');
+    const [vatRegistered, setVatRegistered] = useState(false);
+    const [savingTax, setSavingTax] = useState(false);
+
+    useEffect(() => {
+        if (!businessId) return;
+        businessSettingsService.getSettings(businessId).then(settings => {
+            setPromptPayId(settings.promptPayId || '');
+            setTaxId(settings.taxId || '');
+            setVatRegistered(!!settings.vatRegistered);
+        }).catch(error => {
+            console.error('Failed to load business settings:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถโหลดการตั้งค่าธุรกิจได้'));
+        });
+    }, [businessId]);
 
     const handleChangePassword = async () => {
         // Validation
@@ -63,6 +85,52 @@ export const SettingsView = ({ businessId }: SettingsViewProps) => {
         }
     };
 
+    const handleSavePromptPay = async () => {
+        if (!businessId) return;
+        const id = promptPayId.replace(/\D/g, '');
+        if (id && !getPromptPayIdType(id)) {
+            Alert.alert('หมายเลขพร้อมเพย์ไม่ถูกต้อง', 'กรอกเบอร์มือถือ 10 หลัก เลขประจำตัวผู้เสียภาษี 13 หลัก หรือ e-Wallet ID 15 หลัก');
+            return;
+        }
+
+        setSavingPromptPay(true);
+        try {
+            await businessSettingsService.saveSettings(businessId, { promptPayId: id || null });
+            setPromptPayId(id);
+            Alert.alert('สำเร็จ', id ? 'บันทึกหมายเลขพร้อมเพย์เรียบร้อยแล้ว' : 'ลบหมายเลขพร้อมเพย์แล้ว');
+        } catch (error) {
+            console.error('Failed to save PromptPay ID:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถบันทึกหมายเลขพร้อมเพย์ได้'));
+        } finally {
+            setSavingPromptPay(false);
+        }
+    };
+
+    const handleSaveTax = async () => {
+        if (!businessId) return;
+        const id = taxId.replace(/\D/g, '');
+        if (id && id.length !== 13) {
+            Alert.alert('เลขประจำตัวผู้เสียภาษีไม่ถูกต้อง', 'กรอกเลขประจำตัวผู้เสียภาษี 13 หลัก');
+            return;
+        }
+        if (vatRegistered && !id) {
+            Alert.alert('กรุณากรอกเลขประจำตัวผู้เสียภาษี', 'ผู้จดทะเบียนภาษีมูลค่าเพิ่มต้องแสดงเลขประจำตัวผู้เสียภาษีในใบกำกับภาษี');
+            return;
+        }
+
+        setSavingTax(true);
+        try {
+            await businessSettingsService.saveSettings(businessId, { taxId: id || null, vatRegistered });
+            setTaxId(id);
+            Alert.alert('สำเร็จ', 'บันทึกข้อมูลภาษีเรียบร้อยแล้ว');
+        } catch (error) {
+            console.error('Failed to save tax settings:', error);
+            Alert.alert('ผิดพลาด', describeApiError(error, 'ไม่สามารถบันทึกข้อมูลภาษีได้'));
+        } finally {
+            setSavingTax(false);
+        }
+    };
+
     const toggleShowPassword = (field: 'current' | 'new' | 'confirm') => {
         setShowPassword(prev => ({ ...prev, [field]: !prev[field] }));
     };
@@ -181,6 +249,100 @@ export const SettingsView = ({ businessId }: SettingsViewProps) => {
                     </TouchableOpacity>
                 </View>
             </View>
+
+            {/* PromptPay Section */}
+            {businessId && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>พร้อมเพย์</Text>
+                    <View style={styles.card}>
+                        <Text style={styles.cardHeader}>รับชำระเงินด้วย QR พร้อมเพย์</Text>
+
+                        <View style={styles.formGroup}>
+                            <Text style={styles.inputLabel}>หมายเลขพร้อมเพย์ของธุรกิจ</Text>
+                            <View style={styles.inputWrapper}>
+                                <MaterialCommunityIcons name="qrcode" size={20} color={colors.neutral[400]} />
+                                <TextInput
+                                    style={styles.input}
+                                    value={promptPayId}
+                                    onChangeText={setPromptPayId}
+                                    keyboardType="number-pad"
+                                    placeholder="เบอร์มือถือ / เลขผู้เสียภาษี / e-Wallet ID"
+                                    placeholderTextColor={colors.neutral[400]}
+                                />
+                            </View>
+                        </View>
+
+                        <TouchableOpacity
+                            style={[styles.button, savingPromptPay && styles.buttonDisabled]}
+                            onPress={handleSavePromptPay}
+                            disabled={savingPromptPay}
+                        >
+                            {savingPromptPay ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                            ) : (
+                                <>
+                                    <MaterialCommunityIcons name="content-save-outline" size={20} color={colors.white} />
+                                    <Text style={styles.buttonText}>บันทึกหมายเลขพร้อมเพย์</Text>
+                                </>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            )}
+
+            {/* Receipts Section */}
+            {businessId && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>ใบเสร็จ / ใบกำกับภาษี</Text>
+                    <View style={styles.card}>
+                        <View style={styles.formGroup}>
+                            <Text style={styles.inputLabel}>เลขประจำตัวผู้เสียภาษีของธุรกิจ</Text>
+                            <View style={styles.inputWrapper}>
+                                <MaterialCommunityIcons name="card-account-details-outline" size={20} color={colors.neutral[400]} />
+                                <TextInput
+                                    style={styles.input}
+                                    value={taxId}
+                                    onChangeText={setTaxId}
+                                    keyboardType="number-pad"
+                                    placeholder="13 หลัก"
+                                    placeholderTextColor={colors.neutral[400]}
+                                />
+                            </View>
+                        </View>
+
+                        <View style={styles.switchRow}>
+                            <View style={styles.switchLabel}>
+                                <Text style={styles.inputLabel}>จดทะเบียนภาษีมูลค่าเพิ่ม</Text>
+                                <Text style={styles.switchHint}>ราคารวม VAT 7% และออกใบกำกับภาษีได้</Text>
+                            </View>
+                            <Switch value={vatRegistered} onValueChange={setVatRegistered} />
+                        </View>
+
+                        <TouchableOpacity
+                            style={[styles.button, savingTax && styles.buttonDisabled]}
+                            onPress={handleSaveTax}
+                            disabled={savingTax}
+                        >
+                            {savingTax ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                            ) : (
+                                <>
+                                    <MaterialCommunityIcons name="content-save-outline" size={20} color={colors.white} />
+                                    <Text style={styles.buttonText}>บันทึกข้อมูลภาษี</Text>
+                                </>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            )}
+
+            {/* Promo Codes Section */}
+            <View style={styles.section}>
+                <Text style={styles.sectionTitle}>โค้ดส่วนลด</Text>
+                <View style={styles.card}>
+                    <PromoCodeManager />
+                </View>
+            </View>
         </ScrollView>
     );
 };
@@ -297,6 +459,20 @@ const styles = StyleSheet.create({
         fontSize: fontSize.md,
         color: colors.neutral[900],
     },
+    switchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.md,
+        marginBottom: spacing.lg,
+    },
+    switchLabel: {
+        flex: 1,
+    },
+    switchHint: {
+        fontFamily: fonts.regular,
+        fontSize: fontSize.xs,
+        color: colors.neutral[500],
+    },
     button: {
         backgroundColor: 'rgba(2, 38, 99, 0.9)', // Deep Blue
         borderRadius: borderRadius.lg,
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
     View,
     Text,
@@ -46,7 +46,16 @@ export const UserManagerView = ({ businessId }: UserManagerViewProps) => {
     const [statistics, setStatistics] = useState<MemberStatistics | null>(null);
     const [bookingHistory, setBookingHistory] = useState<MemberBooking[]>([]);
 
+    // In-flight requests, cancelled when superseded or no longer needed
+    const membersAbortRef = useRef<AbortController | null>(null);
+    const detailAbortRef = useRef<AbortController | null>(null);
+
     const fetchMembers = useCallback(async () => {
+        // A new search, sort or page replaces the one still loading
+        membersAbortRef.current?.abort();
+        const controller = new AbortController();
+        membersAbortRef.current = controller;
+
         try {
             const response = await memberService.getMembers({
                 page,
@@ -55,7 +64,9 @@ export const UserManagerView = ({ businessId }: UserManagerViewProps) => {
                 sortOrder,
                 search,
                 businessId: selectedBusinessFilter || businessId || undefined,
+                signal: controller.signal,
             });
+            if (controller.signal.aborted) return;
 
             setMembers(response.members || []);
             setTotal(response.total || 0);
@@ -63,8 +74,10 @@ export const UserManagerView = ({ businessId }: UserManagerViewProps) => {
         } catch (error) {
             console.error('Failed to fetch members:', error);
         } finally {
-            setLoading(false);
-            setRefreshing(false);
+            if (!controller.signal.aborted) {
+                setLoading(false);
+                setRefreshing(false);
+            }
         }
     }, [page, sortBy, sortOrder, search, selectedBusinessFilter, businessId]);
 
@@ -72,6 +85,18 @@ export const UserManagerView = ({ businessId }: UserManagerViewProps) => {
         fetchMembers();
     }, [fetchMembers]);
 
+    useEffect(() => {
+        return () => {
+            membersAbortRef.current?.abort();
+            detailAbortRef.current?.abort();
+        };
+    }, []);
+
+    // Closing the detail modal drops a detail fetch that is still loading
+    useEffect(() => {
+        if (!modalVisible) detailAbortRef.current?.abort();
+    }, [modalVisible]);
+
     const handleRefresh = () => {
         setRefreshing(true);
         fetchMembers();
@@ -93,6 +118,10 @@ export const UserManagerView = ({ businessId }: UserManagerViewProps) => {
     };
 
     const handleViewDetails = async (memberId: string) => {
+        detailAbortRef.current?.abort();
+        const controller = new AbortController();
+        detailAbortRef.current = controller;
+
         setLoadingDetail(true);
         setModalVisible(true);
         setSelectedMember(null);
@@ -100,7 +129,8 @@ export const UserManagerView = ({ businessId }: UserManagerViewProps) => {
         setBookingHistory([]);
 
         try {
-            const response = await memberService.getMemberDetail(memberId);
+            const response = await memberService.getMemberDetail(memberId, controller.signal);
+            if (controller.signal.aborted) return;
             if (response) {
                 setSelectedMember(response.member);
                 setStatistics(response.statistics);
@@ -110,7 +140,7 @@ export const UserManagerView = ({ businessId }: UserManagerViewProps) => {
             console.error('Failed to fetch member details:', error);
             setModalVisible(false);
         } finally {
-            setLoadingDetail(false);
+            if (!controller.signal.aborted) setLoadingDetail(false);
         }
     };
 
@@ -1,4 +1,5 @@
 import { apiService } from './api.service';
+import { analyticsResponseSchema, peakHoursResponseSchema } from './apiSchemas';
 
 export interface AnalyticsSummary {
     totalBookings: number;
@@ -73,7 +74,7 @@ export const analyticsService = {
             endpoint += `&courtId=${courtId}`;
         }
 
-        const response = await apiService.get<AnalyticsResponse>(endpoint);
+        const response = await apiService.get<AnalyticsResponse>(endpoint, { schema: analyticsResponseSchema });
 
         if (response.error) {
             return { data: null, error: response.error };
@@ -96,7 +97,7 @@ export const analyticsService = {
             endpoint += `&courtId=${courtId}`;
         }
 
-        const response = await apiService.get<PeakHoursResponse>(endpoint);
+        const response = await apiService.get<PeakHoursResponse>(endpoint, { schema: peakHoursResponseSchema });
 
         if (response.error) {
             return { data: null, error: response.error };
@@ -1,4 +1,10 @@
+import { AppState } from 'react-native';
+import crashlytics from '@react-native-firebase/crashlytics';
+import { ZodType } from 'zod';
 import { authService } from './auth.service';
+import { offlineQueueService } from './offlineQueue.service';
+import { responseCacheService } from './responseCache.service';
+import { ApiError, CancelledError, MalformedResponseError, NetworkError, TimeoutError, toApiError } from './apiErrors';
 import env from '../config/env';
 
 const API_BASE_URL = env.apiUrl;
@@ -10,12 +16,31 @@ interface ApiRequestOptions {
     body?: any;
     headers?: Record<string, string>;
     skipAuth?: boolean;
+    // Queue the mutation in the offline outbox instead of failing when there is no connection
+    queueOffline?: {
+        label: string;
+        bookingIds?: string[];
+    };
+    // Expected shape of a successful response. A mismatch is reported to Crashlytics; GETs then
+    // return an error, mutations still return their data since the change was already made.
+    schema?: ZodType;
+    // Per-attempt limit before the request fails with a TimeoutError
+    timeoutMs?: number;
+    // Extra attempts for GETs (mutations are never retried)
+    retries?: number;
+    // Aborting it cancels the request; the response then carries a CancelledError
+    signal?: AbortSignal;
+    // Go to the server even when responseCacheService holds a response (the result is still stored)
+    skipCache?: boolean;
 }
 
 interface ApiResponse<T = any> {
     data: T | null;
-    error: string | null;
+    error: string | null;     // Message of apiError, kept for callers that only show it
+    apiError: ApiError | null;
     status: number;
+    queued?: boolean; // true when the request was stored in the offline outbox
+    stale?: boolean;  // true when served from an expired cache entry that is being revalidated
 }
 
 // Track if we're currently refreshing to avoid multiple refresh calls
@@ -25,16 +50,160 @@ let refreshPromise: Promise<string | null> | null = null;
 // Callback to notify AuthContext when refresh fails
 let onAuthFailure: (() => void) | null = null;
 
+// Offline outbox replay state
+let isFlushing = false;
+
+// Cached GETs with a background revalidation in flight
+const revalidating = new Set<string>();
+const OFFLINE_SYNC_INTERVAL = 30000;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_GET_RETRIES = 2;
+// Backoff before retry n: RETRY_BASE_MS * 2^n plus up to RETRY_BASE_MS of jitter
+const RETRY_BASE_MS = 500;
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+const isRetryable = (response: ApiResponse): boolean =>
+    response.apiError instanceof NetworkError ||
+    response.apiError instanceof TimeoutError ||
+    RETRYABLE_STATUSES.includes(response.status);
+
+// Resolves false instead of waiting out the delay when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal): Promise<boolean> =>
+    new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve(false);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, ms);
+        signal?.addEventListener('abort', onAbort);
+    });
+
+// Report a response that failed its schema. Only field paths are sent, never values (customer data).
+const reportMalformedResponse = (method: HttpMethod, endpoint: string, error: MalformedResponseError) => {
+    console.error(`Malformed response from ${method} ${endpoint}:`, error.issues);
+    try {
+        crashlytics().log(`${method} ${endpoint.split('?')[0]} -> ${error.status}: ${error.issues.join('; ')}`);
+        crashlytics().recordError(error, 'MalformedResponseError');
+    } catch (reportError) {
+        console.warn('Failed to report malformed response:', reportError);
+    }
+};
+
 export const apiService = {
     setOnAuthFailure(callback: () => void) {
         onAuthFailure = callback;
     },
 
+    /**
+     * Sends a request. GETs are retried on network errors, timeouts and 429/502/503/504
+     * with exponential backoff; each attempt is cut off after `timeoutMs`.
+     * GETs of cached endpoints are answered from responseCacheService when possible,
+     * and successful mutations invalidate the cached responses they affect.
+     */
     async request<T = any>(
         endpoint: string,
         options: ApiRequestOptions = {}
     ): Promise<ApiResponse<T>> {
-        const { method = 'GET', body, headers = {}, skipAuth = false } = options;
+        const { method = 'GET', signal } = options;
+        const cached = method === 'GET' && responseCacheService.ttlFor(endpoint) !== null;
+
+        if (cached && !options.skipCache) {
+            const entry = await responseCacheService.get(endpoint);
+            if (entry) {
+                if (!entry.fresh) {
+                    this.revalidate(endpoint, options);
+                }
+                return { data: entry.data as T, error: null, apiError: null, status: 200, stale: !entry.fresh };
+            }
+        }
+
+        // Only GETs are safe to send twice
+        const retries = method === 'GET' ? options.retries ?? DEFAULT_GET_RETRIES : 0;
+
+        for (let attempt = 0; ; attempt++) {
+            const response = await this.send<T>(endpoint, options);
+            if (attempt >= retries || !isRetryable(response)) {
+                if (!response.error && !response.queued) {
+                    if (cached) {
+                        await responseCacheService.set(endpoint, response.data);
+                    } else if (method !== 'GET') {
+                        await responseCacheService.invalidateAfterMutation(endpoint);
+                    }
+                }
+                return response;
+            }
+            const delay = RETRY_BASE_MS * 2 ** attempt + Math.random() * RETRY_BASE_MS;
+            if (!(await sleep(delay, signal))) {
+                const apiError = new CancelledError();
+                return { data: null, error: apiError.message, apiError, status: 0 };
+            }
+        }
+    },
+
+    // Refreshes an expired cache entry without holding up the caller, who already has the cached data
+    revalidate(endpoint: string, options: ApiRequestOptions) {
+        if (revalidating.has(endpoint)) return;
+        revalidating.add(endpoint);
+        this.request(endpoint, { ...options, signal: undefined, skipCache: true })
+            .finally(() => revalidating.delete(endpoint));
+    },
+
+    // A single attempt of `request`
+    async send<T = any>(
+        endpoint: string,
+        options: ApiRequestOptions
+    ): Promise<ApiResponse<T>> {
+        const {
+            method = 'GET',
+            body,
+            headers = {},
+            skipAuth = false,
+            queueOffline,
+            schema,
+            timeoutMs = DEFAULT_TIMEOUT_MS,
+            signal,
+        } = options;
+
+        if (signal?.aborted) {
+            const apiError = new CancelledError();
+            return { data: null, error: apiError.message, apiError, status: 0 };
+        }
+
+        const enqueueOffline = async (): Promise<ApiResponse<T>> => {
+            await offlineQueueService.enqueue({
+                endpoint,
+                method: method as Exclude<HttpMethod, 'GET'>,
+                body,
+                label: queueOffline!.label,
+                bookingIds: queueOffline!.bookingIds || [],
+            });
+            return { data: null, error: null, apiError: null, status: 0, queued: true };
+        };
+
+        // Keep mutations ordered: while older ones are still waiting, new ones go behind them
+        if (queueOffline && method !== 'GET' && await offlineQueueService.hasPending()) {
+            const queuedResponse = await enqueueOffline();
+            this.flushOfflineQueue();
+            return queuedResponse;
+        }
+
+        // Aborted by the timeout or by the caller's signal, whichever comes first
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+        const abortFromCaller = () => controller.abort();
+        signal?.addEventListener('abort', abortFromCaller);
 
         const makeRequest = async (token: string | null): Promise<Response> => {
             const requestHeaders: Record<string, string> = {
@@ -50,6 +219,7 @@ export const apiService = {
                 method,
                 headers: requestHeaders,
                 body: body ? JSON.stringify(body) : undefined,
+                signal: controller.signal,
             });
         };
 
@@ -88,50 +258,146 @@ export const apiService = {
                         if (onAuthFailure) {
                             onAuthFailure();
                         }
-                        return {
-                            data: null,
-                            error: 'Session expired. Please login again.',
-                            status: 401,
-                        };
+                        const apiError = new ApiError('Session expired. Please login again.', 401, 'UNAUTHORIZED');
+                        return { data: null, error: apiError.message, apiError, status: 401 };
                     }
                 } else {
                     // Not a token expiry issue
                     if (onAuthFailure) {
                         onAuthFailure();
                     }
-                    return {
-                        data: null,
-                        error: responseData.error || 'Unauthorized',
-                        status: 401,
-                    };
+                    const apiError = new ApiError(responseData.error || 'Unauthorized', 401, 'UNAUTHORIZED');
+                    return { data: null, error: apiError.message, apiError, status: 401 };
                 }
             }
 
             const data = await response.json().catch(() => null);
+            // An abort while the body was streaming surfaces as unparseable JSON, not as a throw
+            if (controller.signal.aborted) {
+                throw new Error('Aborted');
+            }
+
+            // We reached the server, so replay anything left over from an offline period
+            if (!isFlushing) {
+                this.flushOfflineQueue();
+            }
 
             if (!response.ok) {
-                return {
-                    data: null,
-                    error: data?.error || data?.message || `Request failed with status ${response.status}`,
-                    status: response.status,
-                };
+                const apiError = toApiError(response.status, data);
+                return { data: null, error: apiError.message, apiError, status: response.status };
+            }
+
+            if (schema) {
+                const result = schema.safeParse(data);
+                if (!result.success) {
+                    const apiError = new MalformedResponseError(
+                        endpoint.split('?')[0],
+                        response.status,
+                        result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+                    );
+                    reportMalformedResponse(method, endpoint, apiError);
+                    if (method === 'GET') {
+                        return { data: null, error: apiError.message, apiError, status: response.status };
+                    }
+                }
             }
 
             return {
                 data,
                 error: null,
+                apiError: null,
                 status: response.status,
             };
         } catch (error) {
+            if (controller.signal.aborted && !timedOut) {
+                const apiError = new CancelledError();
+                return { data: null, error: apiError.message, apiError, status: 0 };
+            }
             console.error('API request error:', error);
-            return {
-                data: null,
-                error: error instanceof Error ? error.message : 'Network error',
-                status: 0,
-            };
+            // A timed-out mutation may have reached the server, so it is not queued for replay
+            if (queueOffline && method !== 'GET' && !timedOut) {
+                return enqueueOffline();
+            }
+            const apiError = timedOut
+                ? new TimeoutError()
+                : new NetworkError(error instanceof Error ? error.message : undefined);
+            return { data: null, error: apiError.message, apiError, status: 0 };
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', abortFromCaller);
+        }
+    },
+
+    /**
+     * Replay queued offline mutations in order.
+     * Stops at the first network failure (still offline); 409 marks the item as a
+     * conflict and other server errors mark it failed so staff can retry or discard it.
+     */
+    async flushOfflineQueue(): Promise<void> {
+        if (isFlushing) return;
+        isFlushing = true;
+        try {
+            const items = await offlineQueueService.getItems();
+            for (const item of items) {
+                if (item.status !== 'pending') continue;
+
+                await offlineQueueService.update(item.id, {
+                    status: 'syncing',
+                    attempts: item.attempts + 1,
+                    lastAttemptAt: new Date().toISOString(),
+                });
+
+                const response = await this.request(item.endpoint, { method: item.method, body: item.body });
+
+                if (response.apiError instanceof TimeoutError) {
+                    // The server may have applied it before the timeout; resending could apply it twice
+                    await offlineQueueService.update(item.id, {
+                        status: 'failed',
+                        error: 'หมดเวลารอเซิร์ฟเวอร์ กรุณาตรวจสอบว่ารายการนี้บันทึกแล้วหรือไม่ก่อนส่งใหม่',
+                    });
+                    continue;
+                }
+
+                if (response.status === 0) {
+                    await offlineQueueService.update(item.id, { status: 'pending' });
+                    break;
+                }
+
+                if (response.error) {
+                    await offlineQueueService.update(item.id, {
+                        status: response.status === 409 ? 'conflict' : 'failed',
+                        error: response.error,
+                    });
+                    continue;
+                }
+
+                await offlineQueueService.remove(item.id);
+            }
+        } catch (error) {
+            console.error('Offline queue replay error:', error);
+        } finally {
+            isFlushing = false;
         }
     },
 
+    /**
+     * Periodically retry the offline outbox and whenever the app returns to the foreground.
+     * Returns a cleanup function.
+     */
+    startOfflineSync(): () => void {
+        this.flushOfflineQueue();
+        const interval = setInterval(() => this.flushOfflineQueue(), OFFLINE_SYNC_INTERVAL);
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'active') {
+                this.flushOfflineQueue();
+            }
+        });
+        return () => {
+            clearInterval(interval);
+            subscription.remove();
+        };
+    },
+
     // Convenience methods
     async get<T = any>(endpoint: string, options?: Omit<ApiRequestOptions, 'method' | 'body'>) {
         return this.request<T>(endpoint, { ...options, method: 'GET' });
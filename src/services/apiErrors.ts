@@ -0,0 +1,171 @@
+export type ApiErrorCode =
+    | 'VALIDATION'
+    | 'CONFLICT'
+    | 'FORBIDDEN'
+    | 'NOT_YOUR_BUSINESS'
+    | 'UNAUTHORIZED'
+    | 'NOT_FOUND'
+    | 'NETWORK_ERROR'
+    | 'TIMEOUT'
+    | 'CANCELLED'
+    | 'SERVER_ERROR'
+    | 'MALFORMED_RESPONSE'
+    | 'REQUEST_FAILED';
+
+// One rejected field of a request body
+export interface FieldIssue {
+    field: string;
+    message: string;
+}
+
+/**
+ * A failed API request. `status` is 0 when the server was never reached.
+ */
+export class ApiError extends Error {
+    readonly status: number;
+    readonly code: ApiErrorCode;
+
+    constructor(message: string, status: number, code: ApiErrorCode = 'REQUEST_FAILED') {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+// 400 / 422: the server rejected the request body
+export class ValidationError extends ApiError {
+    readonly issues: FieldIssue[];
+
+    constructor(message: string, status: number, issues: FieldIssue[] = []) {
+        super(message, status, 'VALIDATION');
+        this.name = 'ValidationError';
+        this.issues = issues;
+    }
+}
+
+// 409: e.g. the slot was booked in the meantime
+export class ConflictError extends ApiError {
+    constructor(message: string) {
+        super(message, 409, 'CONFLICT');
+        this.name = 'ConflictError';
+    }
+}
+
+// 403; NOT_YOUR_BUSINESS when the resource belongs to another business
+export class ForbiddenError extends ApiError {
+    constructor(message: string, code: 'FORBIDDEN' | 'NOT_YOUR_BUSINESS' = 'FORBIDDEN') {
+        super(message, 403, code);
+        this.name = 'ForbiddenError';
+    }
+}
+
+export class NetworkError extends ApiError {
+    constructor(message: string = 'Network error') {
+        super(message, 0, 'NETWORK_ERROR');
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends ApiError {
+    constructor(message: string = 'Request timed out') {
+        super(message, 0, 'TIMEOUT');
+        this.name = 'TimeoutError';
+    }
+}
+
+// The caller aborted the request, e.g. the screen moved on to another date
+export class CancelledError extends ApiError {
+    constructor(message: string = 'Request cancelled') {
+        super(message, 0, 'CANCELLED');
+        this.name = 'CancelledError';
+    }
+}
+
+// 5xx
+export class ServerError extends ApiError {
+    constructor(message: string, status: number) {
+        super(message, status, 'SERVER_ERROR');
+        this.name = 'ServerError';
+    }
+}
+
+// The response did not have the shape the app relies on
+export class MalformedResponseError extends ApiError {
+    readonly issues: string[];
+
+    constructor(endpoint: string, status: number, issues: string[]) {
+        super(`Unexpected response from ${endpoint}`, status, 'MALFORMED_RESPONSE');
+        this.name = 'MalformedResponseError';
+        this.issues = issues;
+    }
+}
+
+// Error bodies are whatever the server sent, so every field is checked before use
+interface ErrorBody {
+    error?: unknown;
+    message?: unknown;
+    code?: unknown;
+    details?: unknown;
+    issues?: unknown;
+    errors?: unknown;
+}
+
+interface RawFieldIssue {
+    path?: unknown;
+    field?: unknown;
+    message?: unknown;
+}
+
+// Field errors as the API sends them: `details` / `issues` lists, or an `errors` map of field -> message(s)
+const toFieldIssues = (body: ErrorBody): FieldIssue[] => {
+    const list = Array.isArray(body.details) ? body.details : Array.isArray(body.issues) ? body.issues : null;
+    if (list) {
+        return list.map((issue: RawFieldIssue | null) => ({
+            field: Array.isArray(issue?.path) ? issue.path.join('.') : String(issue?.field ?? issue?.path ?? ''),
+            message: String(issue?.message ?? ''),
+        }));
+    }
+    if (body.errors && typeof body.errors === 'object') {
+        return Object.entries(body.errors).map(([field, messages]) => ({
+            field,
+            message: Array.isArray(messages) ? messages.join(', ') : String(messages),
+        }));
+    }
+    return [];
+};
+
+/**
+ * Typed error for an unsuccessful HTTP response
+ */
+export const toApiError = (status: number, rawBody: unknown): ApiError => {
+    const body: ErrorBody = rawBody && typeof rawBody === 'object' ? rawBody as ErrorBody : {};
+    const message = String(body.error || body.message || `Request failed with status ${status}`);
+
+    if (status === 400 || status === 422) return new ValidationError(message, status, toFieldIssues(body));
+    if (status === 401) return new ApiError(message, status, 'UNAUTHORIZED');
+    if (status === 403) return new ForbiddenError(message, body.code === 'NOT_YOUR_BUSINESS' ? 'NOT_YOUR_BUSINESS' : 'FORBIDDEN');
+    if (status === 404) return new ApiError(message, status, 'NOT_FOUND');
+    if (status === 409) return new ConflictError(message);
+    if (status >= 500) return new ServerError(message, status);
+    return new ApiError(message, status);
+};
+
+/**
+ * Message for staff: typed errors get a specific explanation, anything else the fallback
+ */
+export const describeApiError = (error: unknown, fallback: string): string => {
+    if (error instanceof ConflictError) return 'ช่วงเวลานี้ถูกจองไปแล้ว กรุณาเลือกเวลาอื่น';
+    if (error instanceof ValidationError) {
+        return error.issues.length > 0
+            ? `ข้อมูลไม่ถูกต้อง: ${error.issues.map(issue => issue.field ? `${issue.field} - ${issue.message}` : issue.message).join(', ')}`
+            : error.message;
+    }
+    if (error instanceof ForbiddenError) {
+        return error.code === 'NOT_YOUR_BUSINESS' ? 'การจองนี้ไม่ได้อยู่ในธุรกิจของคุณ' : 'คุณไม่มีสิทธิ์ทำรายการนี้';
+    }
+    if (error instanceof TimeoutError) return 'เซิร์ฟเวอร์ตอบสนองช้าเกินไป กรุณาลองใหม่อีกครั้ง';
+    if (error instanceof NetworkError) return 'ไม่มีการเชื่อมต่ออินเทอร์เน็ต';
+    if (error instanceof ServerError || error instanceof MalformedResponseError) return `${fallback} (ระบบขัดข้อง กรุณาลองใหม่ภายหลัง)`;
+    return error instanceof Error && error.message ? error.message : fallback;
+};
@@ -0,0 +1,385 @@
+import { z } from 'zod';
+
+/**
+ * Runtime shapes of the API responses the app reads. Only the fields screens rely on are
+ * checked; everything else passes through untouched, so additive API changes stay harmless.
+ */
+
+// Decimal columns (prices, totals) arrive as numbers or numeric strings
+const numeric = z.union([z.number(), z.string()]);
+const text = z.string().nullish();
+
+// ---- Bookings ----
+
+export const bookingSchema = z.looseObject({
+    id: z.string(),
+    courtId: z.string(),
+    timeSlotStart: z.string(),
+    timeSlotEnd: z.string(),
+    status: z.string(),
+    totalPrice: numeric.nullish(),
+    isPaid: z.boolean().nullish(),
+    customerName: text,
+    customerPhone: text,
+});
+
+export const bookingPageSchema = z.looseObject({
+    items: z.array(bookingSchema),
+    hasMore: z.boolean().optional(),
+    nextCursor: text,
+});
+
+export const capacityBookingSchema = z.looseObject({
+    id: z.string(),
+    facilityId: z.string(),
+    facilityName: text,
+    entryTime: z.string(),
+    exitTime: z.string(),
+    status: z.string(),
+    customerName: text,
+    customerPhone: text,
+    totalPrice: numeric.nullish(),
+    capacityBookingId: text,
+});
+
+export type CapacityBookingItem = z.infer<typeof capacityBookingSchema>;
+
+export const capacityBookingPageSchema = z.looseObject({
+    items: z.array(capacityBookingSchema),
+    hasMore: z.boolean().optional(),
+    nextCursor: text,
+});
+
+// Created capacity bookings only need an id for the audit log
+export const createdCapacityBookingSchema = z.looseObject({
+    id: z.string(),
+});
+
+export const bookingLookupSchema = z.looseObject({
+    scannedBookingId: z.string(),
+    bookings: z.array(z.looseObject({
+        id: z.string(),
+        status: z.string(),
+        timeSlotStart: z.string(),
+        timeSlotEnd: z.string(),
+        totalPrice: numeric.nullish(),
+        customer: z.looseObject({ id: z.string(), name: text, phone: text }).nullish(),
+        facility: z.looseObject({ id: z.string(), name: text }).nullish(),
+    })),
+    customer: z.looseObject({ id: z.string(), name: text, phone: text }).nullish(),
+});
+
+// Plain acknowledgements of booking actions
+export const successSchema = z.looseObject({
+    success: z.boolean(),
+});
+
+export const bulkChangeResultSchema = z.looseObject({
+    created: z.array(bookingSchema),
+});
+
+export const bulkResultSchema = z.looseObject({
+    success: z.boolean(),
+    data: z.looseObject({
+        successCount: z.number(),
+        failedIds: z.array(z.string()),
+        updatedBookings: z.array(z.unknown()),
+    }).nullish(),
+});
+
+// ---- Recurring series ----
+
+export const bookingSeriesSchema = z.looseObject({
+    id: z.string(),
+    courtId: z.string(),
+    startTime: z.string(),
+    endTime: z.string(),
+    occurrences: z.array(z.looseObject({
+        date: z.string(),
+        bookingId: z.string().nullable(),
+        status: z.enum(['created', 'skipped', 'cancelled']),
+    })),
+});
+
+export const bookingSeriesListSchema = z.looseObject({
+    items: z.array(bookingSeriesSchema),
+});
+
+// ---- Booking history ----
+
+export const bookingAuditEntrySchema = z.looseObject({
+    id: z.string(),
+    bookingId: z.string(),
+    action: z.string(),
+    changes: z.array(z.looseObject({ field: z.string() })),
+    at: z.string(),
+});
+
+export const bookingAuditListSchema = z.looseObject({
+    items: z.array(bookingAuditEntrySchema),
+});
+
+// ---- Payments ----
+
+export const paymentSchema = z.looseObject({
+    id: z.string(),
+    bookingIds: z.array(z.string()),
+    amount: z.number(),
+    method: z.string(),
+    paidAt: z.string(),
+});
+
+export const paymentListSchema = z.looseObject({
+    items: z.array(paymentSchema),
+});
+
+export const dayClosingSchema = z.looseObject({
+    id: z.string(),
+    businessId: z.string(),
+    date: z.string(),
+    expectedCash: z.number(),
+    countedCash: z.number(),
+    closedAt: z.string(),
+});
+
+export const dayClosingListSchema = z.looseObject({
+    items: z.array(dayClosingSchema),
+});
+
+// ---- Discounts ----
+
+export const promoCodeSchema = z.looseObject({
+    code: z.string(),
+    type: z.enum(['PERCENT', 'FIXED']),
+    value: z.number(),
+    validFrom: z.string(),
+    validTo: z.string(),
+    usageLimit: z.number().optional(), // Left out when unlimited
+    usedCount: z.number(),
+});
+
+export const promoCodeListSchema = z.looseObject({
+    items: z.array(promoCodeSchema),
+});
+
+export const discountSchema = z.looseObject({
+    id: z.string(),
+    lines: z.array(z.looseObject({
+        bookingId: z.string(),
+        originalAmount: z.number(),
+        discountedAmount: z.number(),
+    })),
+    originalAmount: z.number(),
+    discountAmount: z.number(),
+    bookingDate: z.string(),
+});
+
+export const discountListSchema = z.looseObject({
+    items: z.array(discountSchema),
+});
+
+// ---- Receipts ----
+
+export const receiptNumberSchema = z.looseObject({
+    number: z.string(),
+});
+
+export const receiptSchema = z.looseObject({
+    id: z.string(),
+    number: z.string(),
+    kind: z.enum(['RECEIPT', 'TAX_INVOICE']),
+    businessId: z.string(),
+    bookingIds: z.array(z.string()),
+    total: z.number(),
+    issuedAt: z.string(),
+    voidedAt: z.string().nullish(),
+});
+
+export const receiptListSchema = z.looseObject({
+    items: z.array(receiptSchema),
+});
+
+// ---- Waitlist ----
+
+export const waitlistEntrySchema = z.looseObject({
+    id: z.string(),
+    businessId: z.string(),
+    customerName: z.string(),
+    date: z.string(),
+    startTime: z.string(),
+    endTime: z.string(),
+    status: z.enum(['WAITING', 'BOOKED', 'REMOVED']),
+    createdAt: z.string(),
+});
+
+export const waitlistListSchema = z.looseObject({
+    items: z.array(waitlistEntrySchema),
+});
+
+// ---- Businesses ----
+
+export const businessSchema = z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    promptPayId: z.string().nullish(),
+    taxId: z.string().nullish(),
+    vatRegistered: z.boolean().nullish(),
+});
+
+// ---- Courts ----
+
+export const pricingRulesSchema = z.looseObject({
+    bands: z.array(z.looseObject({
+        id: z.string(),
+        label: z.string(),
+        startTime: z.string(),
+        endTime: z.string(),
+        weekdays: z.array(z.number()),
+        hourlyRate: z.number(),
+    })),
+    holidays: z.array(z.looseObject({
+        date: z.string(),
+        label: z.string(),
+        hourlyRate: z.number(),
+    })),
+    memberTiers: z.array(z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        discountPercent: z.number(),
+    })),
+    minDurationMinutes: z.number().optional(),
+    depositPercent: z.number().optional(),
+});
+
+export const courtListSchema = z.array(z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    businessId: z.string(),
+    pricingRules: pricingRulesSchema.nullish(), // Null until the owner sets rules
+}));
+
+// Capacity facilities use their own field names; courtService maps them onto Court
+export const capacityFacilitySchema = z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    businessId: z.string(),
+    capacity: z.number().nullish(),
+    maxCapacity: z.number().nullish(),
+    openTime: text,
+    openingHoursStart: text,
+    closeTime: text,
+    operatingHoursEnd: text,
+    pricePerSlot: z.number().nullish(),
+    pricePerHour: z.number().nullish(),
+    sportTypeIds: z.array(z.string()).nullish(),
+    sportType: text,
+    pricingRules: pricingRulesSchema.nullish(),
+});
+
+export type CapacityFacilityItem = z.infer<typeof capacityFacilitySchema>;
+
+export const capacityFacilityListSchema = z.array(capacityFacilitySchema);
+
+export const courtSchema = z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    pricingRules: pricingRulesSchema.nullish(),
+});
+
+export const courtBlockSchema = z.looseObject({
+    id: z.string(),
+    courtId: z.string(),
+    date: z.string(),
+    startTime: z.string(),
+    endTime: z.string(),
+});
+
+export const courtBlockListSchema = z.looseObject({
+    items: z.array(courtBlockSchema),
+});
+
+// ---- Members ----
+
+const memberSchema = z.looseObject({
+    id: z.string(),
+    name: text,
+    phone: text,
+    totalBookings: z.number().nullish(),
+    lastBookingDate: text,
+});
+
+export const membersResponseSchema = z.looseObject({
+    members: z.array(memberSchema),
+    total: z.number().nullish(),
+    page: z.number().nullish(),
+    totalPages: z.number().nullish(),
+});
+
+export const memberDetailResponseSchema = z.looseObject({
+    member: z.looseObject({
+        id: z.string(),
+        name: text,
+        phone: text,
+        lastBookingAt: text,
+    }),
+    statistics: z.looseObject({
+        totalBookings: z.number(),
+        noShowBookings: z.number(),
+        totalSpent: numeric,
+    }),
+    bookingHistory: z.array(z.looseObject({
+        id: z.string(),
+        startTime: z.string(),
+        endTime: z.string(),
+        status: z.string(),
+    })),
+});
+
+// ---- Analytics ----
+
+const statusCountsSchema = z.looseObject({
+    PENDING: z.number(),
+    CONFIRMED: z.number(),
+    NO_SHOW: z.number(),
+    CANCELLED: z.number(),
+    COMPLETED: z.number(),
+});
+
+export const analyticsResponseSchema = z.looseObject({
+    data: z.looseObject({
+        summary: z.looseObject({
+            totalBookings: z.number(),
+            confirmed: z.number(),
+            noShow: z.number(),
+            cancelled: z.number(),
+            completed: z.number(),
+            totalRevenue: numeric,
+            avgPrice: numeric,
+        }),
+        byDate: z.array(z.looseObject({ date: z.string(), count: z.number(), revenue: numeric })),
+        byStatus: statusCountsSchema,
+    }),
+});
+
+export const peakHoursResponseSchema = z.looseObject({
+    data: z.array(z.looseObject({
+        hour: z.number(),
+        bookingCount: z.number(),
+    })),
+});
+
+// ---- Notifications ----
+
+export const notificationSchema = z.looseObject({
+    id: z.string(),
+    title: text,
+    message: text,
+    type: text,
+    isRead: z.boolean().nullish(),
+    createdAt: text,
+});
+
+export const notificationsResponseSchema = z.looseObject({
+    notifications: z.array(notificationSchema),
+    unreadCount: z.number(),
+});
@@ -1,4 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { offlineQueueService } from './offlineQueue.service';
+import { responseCacheService } from './responseCache.service';
 import { LoginCredentials, LoginResponse, RefreshTokenResponse, User } from '../types/auth';
 import env from '../config/env';
 
@@ -54,6 +56,7 @@ export const authService = {
             await AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.accessToken);
             await AsyncStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken);
             await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(data.user));
+            await offlineQueueService.setAccount(data.user.id);
 
             return data;
         } catch (error) {
@@ -103,6 +106,10 @@ export const authService = {
                 STORAGE_KEYS.REFRESH_TOKEN,
                 STORAGE_KEYS.USER,
             ]);
+            // Cached courts and analytics belong to the account that signed out; its offline
+            // outbox stays stored and replays once that account signs in again
+            await responseCacheService.clear();
+            await offlineQueueService.setAccount(null);
         } catch (error) {
             console.error('Logout error:', error);
             throw error;
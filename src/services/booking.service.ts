@@ -1,45 +1,261 @@
 import { apiService } from './api.service';
-import { Booking } from '../types/booking';
+import { bookingAuditService, AuditSnapshot, formatAuditTime } from './bookingAudit.service';
+import { CancelledError, ForbiddenError } from './apiErrors';
+import {
+    bookingSchema,
+    bookingPageSchema,
+    bookingLookupSchema,
+    bulkChangeResultSchema,
+    bulkResultSchema,
+    capacityBookingPageSchema,
+    createdCapacityBookingSchema,
+    successSchema,
+    CapacityBookingItem,
+} from './apiSchemas';
+import { Booking, BookingLookupResult, BookingRange, BookingStatus, BulkResult } from '../types/booking';
+import { Court } from '../types/court';
+
+const LOOKUP_ACTION_LABELS: Record<'check-in' | 'confirm' | 'no-show' | 'cancel', string> = {
+    'check-in': 'Check-in การจอง',
+    'confirm': 'ยืนยันการจอง',
+    'no-show': 'บันทึกไม่มาใช้บริการ',
+    'cancel': 'ยกเลิกการจอง',
+};
+
+const LOOKUP_ACTION_STATUS: Record<'check-in' | 'confirm' | 'no-show' | 'cancel', string> = {
+    'check-in': 'COMPLETED',
+    'confirm': 'CONFIRMED',
+    'no-show': 'NO_SHOW',
+    'cancel': 'CANCELLED',
+};
+
+// Values of a create / edit payload, as recorded in the audit log
+const toAuditSnapshot = (payload: {
+    courtId?: string;
+    date?: string;
+    startTime?: string;
+    endTime?: string;
+    customerName?: string;
+    customerPhone?: string;
+    price?: number;
+    status?: string;
+}): AuditSnapshot => ({
+    courtId: payload.courtId,
+    time: payload.date && payload.startTime && payload.endTime
+        ? formatAuditTime(payload.date, payload.startTime, payload.endTime)
+        : undefined,
+    customerName: payload.customerName,
+    customerPhone: payload.customerPhone,
+    price: payload.price,
+    status: payload.status,
+});
+
+// Ids a bulk endpoint reported as changed
+const succeededIds = (ids: string[], result: { data?: { failedIds?: string[] } | null } | null) =>
+    ids.filter(id => !result?.data?.failedIds?.includes(id));
+
+// Optimistic result for bulk actions stored in the offline outbox
+const queuedBulkResult = (ids: string[]) => ({
+    success: true,
+    queued: true,
+    data: { successCount: ids.length, failedIds: [], updatedBookings: [] },
+});
+
+// Normalize a capacity booking from the API to the Booking interface.
+// entryTime / exitTime are full ISO timestamps, which is what the grid expects in timeSlotStart / timeSlotEnd.
+export const toCapacityBooking = (item: CapacityBookingItem): Booking => ({
+    id: item.id,
+    courtId: item.facilityId,
+    court: { id: item.facilityId, name: item.facilityName || '' } as Court, // Include facility name
+    timeSlotStart: item.entryTime,
+    timeSlotEnd: item.exitTime,
+    customerName: item.customerName || undefined,
+    customerPhone: item.customerPhone || undefined,
+    status: item.status as BookingStatus,
+    totalPrice: Number(item.totalPrice) || 0, // Map price to totalPrice
+    isCapacity: true,
+    capacityBookingId: item.capacityBookingId || undefined,
+});
+
+// Range queries page through results; stop after this many pages as a safety net
+const RANGE_PAGE_SIZE = 200;
+const MAX_RANGE_PAGES = 25;
+
+// One page of a booking list; `hasMore` when the range continues on the next page
+export interface BookingPage {
+    items: Booking[];
+    hasMore: boolean;
+}
+
+// Paging parameters: the server's cursor when it sent one, the offset otherwise
+const pageQuery = (cursor: string | null | undefined, offset: number) =>
+    cursor
+        ? `&limit=${RANGE_PAGE_SIZE}&cursor=${encodeURIComponent(cursor)}`
+        : `&limit=${RANGE_PAGE_SIZE}&offset=${offset}`;
+
+// Reads pages until the range ends. A failed page or the page limit returns what was loaded, marked incomplete.
+const collectRange = async (pages: AsyncGenerator<BookingPage>, label: string): Promise<BookingRange> => {
+    const items: Booking[] = [];
+    let pageCount = 0;
+
+    try {
+        for await (const page of pages) {
+            items.push(...page.items);
+            pageCount++;
+            if (page.hasMore && pageCount >= MAX_RANGE_PAGES) {
+                console.warn(`${label} was not fully loaded (${items.length} items)`);
+                return { items, complete: false };
+            }
+        }
+    } catch (error) {
+        if (!(error instanceof CancelledError)) {
+            console.error(`Error fetching ${label}:`, error);
+        }
+        return { items, complete: false };
+    }
+
+    return { items, complete: true };
+};
+
+// Search reads pages until it has this many matches or the range runs out
+const SEARCH_PAGE_SIZE = 100;
+const SEARCH_MIN_RESULTS = 20;
+const SEARCH_MAX_PAGES = 5;
+
+export interface BookingSearchPage {
+    items: Booking[];
+    nextOffset: number;      // Pass back as offset to load more
+    hasMore: boolean;
+}
+
+// Customer name, phone (digits only), booking ID prefix or notes
+const matchesSearch = (booking: Booking, query: string) => {
+    const text = query.trim().toLowerCase();
+    const digits = text.replace(/\D/g, '');
+    const phone = (booking.serviceUser?.phone || booking.customerPhone || '').replace(/\D/g, '');
+    const name = (booking.serviceUser?.name || booking.customerName || '').toLowerCase();
+
+    return name.includes(text)
+        || booking.id.toLowerCase().startsWith(text)
+        || (booking.notes || '').toLowerCase().includes(text)
+        || (digits.length >= 3 && phone.includes(digits));
+};
 
 export const bookingService = {
+    /**
+     * All bookings between dateFrom and dateTo; use getBookingsInRange to know whether the list is complete
+     */
     async getBookings(
         dateFrom: string, // ISO string
         dateTo: string,   // ISO string
-        businessId?: string,
-        courtId?: string,
-        limit: number = 200
+        businessId?: string, // API doesn't support businessId directly, but filters by owner's context
+        courtId?: string
     ): Promise<Booking[]> {
-        let query = `/api/owner/bookings?dateFrom=${encodeURIComponent(dateFrom)}&dateTo=${encodeURIComponent(dateTo)}`;
-
-        if (businessId) {
-            // API doesn't support businessId directly, but filters by owner's context
-        }
+        return (await this.getBookingsInRange(dateFrom, dateTo, courtId)).items;
+    },
 
-        if (courtId) {
-            query += `&courtId=${courtId}`;
+    /**
+     * Bookings between dateFrom and dateTo, one page per iteration, fetched as the caller consumes them.
+     * Throws the ApiError of a failed page (a CancelledError once `signal` aborts).
+     */
+    async *iterateBookings(params: {
+        dateFrom: string;
+        dateTo: string;
+        courtId?: string;
+        signal?: AbortSignal;
+    }): AsyncGenerator<BookingPage> {
+        const { dateFrom, dateTo, courtId, signal } = params;
+        let cursor: string | null | undefined;
+
+        for (let offset = 0; ; offset += RANGE_PAGE_SIZE) {
+            let query = `/api/owner/bookings?dateFrom=${encodeURIComponent(dateFrom)}&dateTo=${encodeURIComponent(dateTo)}`;
+            if (courtId) query += `&courtId=${courtId}`;
+            query += pageQuery(cursor, offset);
+
+            const response = await apiService.get<{ items: Booking[], hasMore?: boolean, nextCursor?: string | null }>(
+                query,
+                { schema: bookingPageSchema, signal }
+            );
+            if (response.error) throw response.apiError;
+
+            const items = response.data?.items || [];
+            bookingAuditService.remember(items);
+            cursor = response.data?.nextCursor;
+            const hasMore = !!response.data?.hasMore && items.length > 0;
+            yield { items, hasMore };
+            if (!hasMore) return;
         }
+    },
 
-        // Add limit
-        query += `&limit=${limit}`;
+    /**
+     * All bookings between dateFrom and dateTo, following hasMore until the range is complete
+     */
+    async getBookingsInRange(dateFrom: string, dateTo: string, courtId?: string, signal?: AbortSignal): Promise<BookingRange> {
+        return collectRange(this.iterateBookings({ dateFrom, dateTo, courtId, signal }), `Bookings ${dateFrom} - ${dateTo}`);
+    },
 
-        const response = await apiService.get<{ items: Booking[], hasMore: boolean }>(query);
+    /**
+     * Regular and capacity bookings between dateFrom and dateTo matching a search, one batch at a time.
+     * The server narrows each page with `search`; matches are re-checked here in case it doesn't.
+     * Throws a CancelledError when `signal` aborts.
+     */
+    async searchBookings(params: {
+        query: string;
+        dateFrom: string;
+        dateTo: string;
+        businessId?: string;
+        offset?: number;
+        signal?: AbortSignal;
+    }): Promise<BookingSearchPage> {
+        const { query, dateFrom, dateTo, businessId, signal } = params;
+        const items: Booking[] = [];
+        let offset = params.offset || 0;
+        let hasMore = true;
+
+        for (let page = 0; page < SEARCH_MAX_PAGES && hasMore && items.length < SEARCH_MIN_RESULTS; page++) {
+            const range = `dateFrom=${encodeURIComponent(dateFrom)}&dateTo=${encodeURIComponent(dateTo)}`
+                + `&search=${encodeURIComponent(query.trim())}&limit=${SEARCH_PAGE_SIZE}&offset=${offset}`;
+            const [regular, capacity] = await Promise.all([
+                apiService.get<{ items: Booking[], hasMore: boolean }>(`/api/owner/bookings?${range}`, { schema: bookingPageSchema, signal }),
+                apiService.get<{ items: CapacityBookingItem[], hasMore?: boolean }>(
+                    `/api/owner/capacity-bookings?${range}${businessId ? `&businessId=${businessId}` : ''}`,
+                    { schema: capacityBookingPageSchema, signal }
+                ),
+            ]);
+
+            if (signal?.aborted) throw new CancelledError();
+            if (regular.error && capacity.error) {
+                console.error('Error searching bookings:', regular.error);
+                throw regular.apiError;
+            }
 
-        if (response.error) {
-            console.error('Error fetching bookings:', response.error);
-            return [];
+            const pageItems = [
+                ...(regular.data?.items || []),
+                ...(capacity.data?.items || []).map(toCapacityBooking),
+            ];
+            bookingAuditService.remember(pageItems);
+            items.push(...pageItems.filter(booking => matchesSearch(booking, query)));
+            offset += SEARCH_PAGE_SIZE;
+            hasMore = !!regular.data?.hasMore || !!capacity.data?.hasMore;
         }
 
-        return response.data?.items || [];
+        return {
+            items: items.sort((a, b) => a.timeSlotStart.localeCompare(b.timeSlotStart)),
+            nextOffset: offset,
+            hasMore,
+        };
     },
 
-    async getBookingDetail(id: string): Promise<Booking | null> {
-        const response = await apiService.get<Booking>(`/api/owner/bookings/${id}`);
+    async getBookingDetail(id: string, signal?: AbortSignal): Promise<Booking | null> {
+        const response = await apiService.get<Booking>(`/api/owner/bookings/${id}`, { schema: bookingSchema, signal });
 
+        if (response.apiError instanceof CancelledError) return null;
         if (response.error) {
             console.error('Error fetching booking detail:', response.error);
             return null;
         }
 
+        if (response.data) bookingAuditService.remember([response.data]);
         return response.data;
     },
 
@@ -50,17 +266,23 @@ export const bookingService = {
         endTime: string;
         customerName: string;
         customerPhone: string;
+        serviceUserId?: string;  // Member the booking belongs to; guests have none
         price?: number;
         status?: string;
     }): Promise<Booking | null> {
-        const response = await apiService.post<Booking>('/api/owner/bookings', payload);
+        const response = await apiService.post<Booking>('/api/owner/bookings', payload, {
+            schema: bookingSchema,
+            queueOffline: { label: `สร้างการจอง ${payload.customerName} ${payload.date} ${payload.startTime}-${payload.endTime}` }
+        });
 
         if (response.error) {
             console.error('Error creating booking:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
-        return response.data;
+        if (response.data?.id) {
+            await bookingAuditService.record('CREATED', [{ id: response.data.id, after: toAuditSnapshot(payload) }]);
+        }
         return response.data;
     },
 
@@ -72,6 +294,7 @@ export const bookingService = {
         endTime: string;
         customerName: string;
         customerPhone: string;
+        serviceUserId?: string;
         price?: number;
         status?: string;
         quantity?: number;
@@ -93,74 +316,79 @@ export const bookingService = {
             exitTime: exitTime,
             customerName: payload.customerName,
             customerPhone: payload.customerPhone,
+            serviceUserId: payload.serviceUserId,
             totalPrice: payload.price, // Map price to totalPrice
             status: payload.status
         };
 
-        const response = await apiService.post<Booking>('/api/owner/capacity-bookings/create', apiPayload);
+        const response = await apiService.post<Booking>('/api/owner/capacity-bookings/create', apiPayload, {
+            schema: createdCapacityBookingSchema,
+            queueOffline: { label: `สร้างการจอง ${payload.customerName} ${payload.date} ${payload.startTime}-${payload.endTime}` }
+        });
 
         if (response.error) {
             console.error('Error creating capacity booking:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        if (response.data?.id) {
+            await bookingAuditService.record('CREATED', [{ id: response.data.id, after: toAuditSnapshot({ ...payload, courtId: payload.facilityId }) }]);
+        }
         return response.data;
     },
 
 
+    /**
+     * All capacity bookings between dateFrom and dateTo; use getCapacityBookingsInRange to know whether the list is complete
+     */
     async getCapacityBookings(
         dateFrom: string, // ISO string
         dateTo: string, // ISO string
         businessId?: string
     ): Promise<Booking[]> {
-        let query = `/api/owner/capacity-bookings?dateFrom=${encodeURIComponent(dateFrom)}&dateTo=${encodeURIComponent(dateTo)}`;
-        if (businessId) query += `&businessId=${businessId}`;
-
-        const response = await apiService.get<{ items: any[] }>(query);
+        return (await this.getCapacityBookingsInRange(dateFrom, dateTo, businessId)).items;
+    },
 
-        if (response.error) {
-            console.error('Error fetching capacity bookings:', response.error);
-            return [];
+    /**
+     * Capacity bookings between dateFrom and dateTo, one page per iteration (see iterateBookings)
+     */
+    async *iterateCapacityBookings(params: {
+        dateFrom: string;
+        dateTo: string;
+        businessId?: string;
+        signal?: AbortSignal;
+    }): AsyncGenerator<BookingPage> {
+        const { dateFrom, dateTo, businessId, signal } = params;
+        let cursor: string | null | undefined;
+
+        for (let offset = 0; ; offset += RANGE_PAGE_SIZE) {
+            let query = `/api/owner/capacity-bookings?dateFrom=${encodeURIComponent(dateFrom)}&dateTo=${encodeURIComponent(dateTo)}`;
+            if (businessId) query += `&businessId=${businessId}`;
+            query += pageQuery(cursor, offset);
+
+            const response = await apiService.get<{ items: CapacityBookingItem[], hasMore?: boolean, nextCursor?: string | null }>(
+                query,
+                { schema: capacityBookingPageSchema, signal }
+            );
+            if (response.error) throw response.apiError;
+
+            const items = (response.data?.items || []).map(toCapacityBooking);
+            bookingAuditService.remember(items);
+            cursor = response.data?.nextCursor;
+            const hasMore = !!response.data?.hasMore && items.length > 0;
+            yield { items, hasMore };
+            if (!hasMore) return;
         }
+    },
 
-        // Normalize to Booking interface
-        return (response.data?.items || []).map(item => {
-            const start = new Date(item.entryTime);
-            const end = new Date(item.exitTime);
-            // Format YYYY-MM-DD
-            const dateStr = start.toISOString().split('T')[0];
-            // Format HH:mm
-            const startTimeStr = start.toISOString().split('T')[1].substring(0, 5); // Assumes UTC ISO, might need local conversion if UI expects local string
-            const endTimeStr = end.toISOString().split('T')[1].substring(0, 5);
-
-            // NOTE: Converting UTC ISO time '10:00Z' to Local Time String for UI?
-            // The UI uses date string comparisons. If API returns UTC, we should probably keep as ISO or convert to local.
-            // But existing code uses `parseISO(booking.startTime)` which handles full ISO string fine.
-            // If `booking.startTime` is strictly HH:mm in some places, it might break.
-            // Let's check existing `getBookings`. It maps directly.
-
-            // However, `booking.startTime` in `Booking` interface seems to serve as both Full ISO sometimes OR HH:mm?
-            // Let's use Full ISO from entryTime/exitTime as startTime/endTime to be safe and consistent with modern app.
-            // BUT wait, existing getBookings returns `startTime` (ISO) too?
-            // Let's assume full ISO is best.
-
-            return {
-                id: item.id,
-                courtId: item.facilityId,
-                court: { id: item.facilityId, name: item.facilityName }, // Include facility name
-                date: dateStr,
-                timeSlotStart: item.entryTime, // Use full ISO
-                timeSlotEnd: item.exitTime,     // Use full ISO
-                customerName: item.customerName,
-                customerPhone: item.customerPhone,
-                status: item.status,
-                totalPrice: item.totalPrice, // Map price to totalPrice
-                paymentStatus: 'PENDING', // Default
-                // Add specific flag
-                isCapacity: true,
-                capacityBookingId: item.capacityBookingId
-            } as any; // Cast as any if some fields missing from strict Booking type
-        });
+    /**
+     * Capacity bookings between dateFrom and dateTo, following hasMore until the range is complete
+     */
+    async getCapacityBookingsInRange(dateFrom: string, dateTo: string, businessId?: string, signal?: AbortSignal): Promise<BookingRange> {
+        return collectRange(
+            this.iterateCapacityBookings({ dateFrom, dateTo, businessId, signal }),
+            `Capacity bookings ${dateFrom} - ${dateTo}`
+        );
     },
 
     async updateBooking(id: string, payload: {
@@ -170,16 +398,21 @@ export const bookingService = {
         endTime?: string;
         customerName?: string;
         customerPhone?: string;
+        serviceUserId?: string;
         price?: number;
         status?: string;
     }): Promise<Booking | null> {
-        const response = await apiService.put<Booking>(`/api/owner/bookings/${id}`, payload);
+        const response = await apiService.put<Booking>(`/api/owner/bookings/${id}`, payload, {
+            schema: bookingSchema,
+            queueOffline: { label: 'แก้ไขการจอง', bookingIds: [id] }
+        });
 
         if (response.error) {
             console.error('Error updating booking:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record('EDITED', [{ id, after: toAuditSnapshot(payload) }], { queued: response.queued });
         return response.data;
     },
 
@@ -190,17 +423,22 @@ export const bookingService = {
         endTime?: string;
         customerName?: string;
         customerPhone?: string;
+        serviceUserId?: string;
         price?: number;
         status?: string;
     }): Promise<Booking | null> {
         // Use the same endpoint as regular bookings - the backend handles both types
-        const response = await apiService.put<Booking>(`/api/owner/bookings/${id}`, payload);
+        const response = await apiService.put<Booking>(`/api/owner/bookings/${id}`, payload, {
+            schema: bookingSchema,
+            queueOffline: { label: 'แก้ไขการจอง', bookingIds: [id] }
+        });
 
         if (response.error) {
             console.error('Error updating capacity booking:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record('EDITED', [{ id, after: toAuditSnapshot({ ...payload, courtId: payload.facilityId }) }], { queued: response.queued });
         return response.data;
     },
 
@@ -211,145 +449,210 @@ export const bookingService = {
      */
     async lookupByQRCode(qrCode: string): Promise<{
         scannedBookingId: string;
-        bookings: any[];
-        customer: any;
+        bookings: BookingLookupResult[];
+        customer: BookingLookupResult['customer'];
     }> {
         const response = await apiService.get<{
             scannedBookingId: string;
-            bookings: any[];
-            customer: any;
+            bookings: BookingLookupResult[];
+            customer: BookingLookupResult['customer'];
         }>(
-            `/api/court-owner/booking-lookup?qrCode=${encodeURIComponent(qrCode)}`
+            `/api/court-owner/booking-lookup?qrCode=${encodeURIComponent(qrCode)}`,
+            { schema: bookingLookupSchema }
         );
 
         if (response.error) {
-            const error: any = new Error(response.error);
-            // Check if it's a "not your business" error
-            if (response.status === 403) {
-                error.code = 'NOT_YOUR_BUSINESS';
-            }
-            throw error;
+            // Lookups are only refused for bookings of another business.
+            // NetworkError and TimeoutError let callers fall back to the offline roster.
+            throw response.status === 403 ? new ForbiddenError(response.error, 'NOT_YOUR_BUSINESS') : response.apiError;
         }
 
         // Backend GET returns the booking object directly (wrapped in successResponse's data)
-        return response.data || { scannedBookingId: '', bookings: [], customer: null };
+        const result = response.data || { scannedBookingId: '', bookings: [], customer: null };
+        bookingAuditService.remember(result.bookings.map(b => ({
+            id: b.id,
+            status: b.status as BookingStatus,
+            isPaid: b.isPaid,
+            courtId: b.facility?.id,
+            timeSlotStart: b.timeSlotStart,
+            timeSlotEnd: b.timeSlotEnd,
+            customerName: b.customer?.name,
+            customerPhone: b.customer?.phone,
+            totalPrice: b.totalPrice,
+        })));
+        return result;
     },
 
     /**
      * Check-in a booking (mark as COMPLETED)
      */
-    async checkInBooking(bookingId: string): Promise<{ success: boolean }> {
+    async checkInBooking(bookingId: string): Promise<{ success: boolean; queued?: boolean }> {
         const response = await apiService.post<{ success: boolean }>(
             '/api/court-owner/booking-lookup',
-            { bookingId, action: 'check-in' }
+            { bookingId, action: 'check-in' },
+            { schema: successSchema, queueOffline: { label: LOOKUP_ACTION_LABELS['check-in'], bookingIds: [bookingId] } }
         );
 
         if (response.error) {
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record('STATUS_CHANGED', [{ id: bookingId, after: { status: 'COMPLETED' } }], {
+            source: 'QR_SCANNER',
+            queued: response.queued,
+        });
+
+        if (response.queued) return { success: true, queued: true };
         return response.data || { success: false };
     },
 
-    async updateBookingStatus(bookingId: string, action: 'check-in' | 'confirm' | 'no-show' | 'cancel'): Promise<{ success: boolean }> {
+    async updateBookingStatus(bookingId: string, action: 'check-in' | 'confirm' | 'no-show' | 'cancel'): Promise<{ success: boolean; queued?: boolean }> {
         const response = await apiService.post<{ success: boolean }>(
             '/api/court-owner/booking-lookup',
-            { bookingId, action }
+            { bookingId, action },
+            { schema: successSchema, queueOffline: { label: LOOKUP_ACTION_LABELS[action], bookingIds: [bookingId] } }
         );
 
         if (response.error) {
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record('STATUS_CHANGED', [{ id: bookingId, after: { status: LOOKUP_ACTION_STATUS[action] } }], {
+            source: 'QR_SCANNER',
+            queued: response.queued,
+        });
+
+        if (response.queued) return { success: true, queued: true };
         return response.data || { success: false };
     },
 
-    async markNoShow(bookingId: string): Promise<{ success: boolean }> {
+    async markNoShow(bookingId: string): Promise<{ success: boolean; queued?: boolean }> {
         const response = await apiService.post<{ success: boolean }>(
             '/api/court-owner/booking-lookup',
-            { bookingId, action: 'no-show' }
+            { bookingId, action: 'no-show' },
+            { schema: successSchema, queueOffline: { label: LOOKUP_ACTION_LABELS['no-show'], bookingIds: [bookingId] } }
         );
 
         if (response.error) {
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record('STATUS_CHANGED', [{ id: bookingId, after: { status: 'NO_SHOW' } }], {
+            source: 'QR_SCANNER',
+            queued: response.queued,
+        });
+
+        if (response.queued) return { success: true, queued: true };
         return response.data || { success: false };
     },
 
     async confirmBooking(id: string, notes?: string): Promise<boolean> {
-        const response = await apiService.post(`/api/owner/bookings/${id}/confirm`, { notes });
+        const response = await apiService.post(`/api/owner/bookings/${id}/confirm`, { notes }, {
+            queueOffline: { label: 'ยืนยันการจอง', bookingIds: [id] }
+        });
+        if (!response.error) {
+            await bookingAuditService.record('STATUS_CHANGED', [{ id, after: { status: 'CONFIRMED' } }], { reason: notes, queued: response.queued });
+        }
         return !response.error;
     },
 
     async cancelBooking(id: string, reason?: string): Promise<boolean> {
-        const response = await apiService.post(`/api/owner/bookings/${id}/cancel`, { reason });
+        const response = await apiService.post(`/api/owner/bookings/${id}/cancel`, { reason }, {
+            queueOffline: { label: 'ยกเลิกการจอง', bookingIds: [id] }
+        });
+        if (!response.error) {
+            await bookingAuditService.record('STATUS_CHANGED', [{ id, after: { status: 'CANCELLED' } }], { reason: reason, queued: response.queued });
+        }
         return !response.error;
     },
 
     async markBookingNoShow(id: string, reason?: string): Promise<boolean> {
-        const response = await apiService.post(`/api/owner/bookings/${id}/no-show`, { reason });
+        const response = await apiService.post(`/api/owner/bookings/${id}/no-show`, { reason }, {
+            queueOffline: { label: 'บันทึกไม่มาใช้บริการ', bookingIds: [id] }
+        });
+        if (!response.error) {
+            await bookingAuditService.record('STATUS_CHANGED', [{ id, after: { status: 'NO_SHOW' } }], { reason: reason, queued: response.queued });
+        }
         return !response.error;
     },
 
     async markBookingCompleted(id: string): Promise<boolean> {
-        const response = await apiService.post(`/api/owner/bookings/${id}/complete`, {});
+        const response = await apiService.post(`/api/owner/bookings/${id}/complete`, {}, {
+            queueOffline: { label: 'บันทึกลูกค้ามาใช้บริการแล้ว', bookingIds: [id] }
+        });
+        if (!response.error) {
+            await bookingAuditService.record('STATUS_CHANGED', [{ id, after: { status: 'COMPLETED' } }], { queued: response.queued });
+        }
         return !response.error;
     },
 
     async markAsPaid(id: string): Promise<boolean> {
-        const response = await apiService.post(`/api/owner/bookings/${id}/payment`, {});
+        const response = await apiService.post(`/api/owner/bookings/${id}/payment`, {}, {
+            queueOffline: { label: 'บันทึกการชำระเงิน', bookingIds: [id] }
+        });
+        if (!response.error) {
+            await bookingAuditService.record('PAYMENT_CHANGED', [{ id, after: { isPaid: true } }], { queued: response.queued });
+        }
         return !response.error;
     },
 
     async unmarkAsPaid(id: string): Promise<boolean> {
-        const response = await apiService.delete(`/api/owner/bookings/${id}/payment`);
+        const response = await apiService.delete(`/api/owner/bookings/${id}/payment`, undefined, {
+            queueOffline: { label: 'ยกเลิกการชำระเงิน', bookingIds: [id] }
+        });
+        if (!response.error) {
+            await bookingAuditService.record('PAYMENT_CHANGED', [{ id, after: { isPaid: false } }], { queued: response.queued });
+        }
         return !response.error;
     },
 
     /**
      * Bulk mark bookings as paid with single consolidated notification
      */
-    async bulkMarkAsPaid(ids: string[]): Promise<{ success: boolean; data: any }> {
-        const response = await apiService.post<{
-            success: boolean,
-            data: {
-                successCount: number;
-                failedIds: string[];
-                updatedBookings: any[];
-            }
-        }>('/api/owner/bookings/bulk-payment', {
+    async bulkMarkAsPaid(ids: string[]): Promise<BulkResult> {
+        const response = await apiService.post<BulkResult>('/api/owner/bookings/bulk-payment', {
             bookingIds: ids
+        }, {
+            schema: bulkResultSchema,
+            queueOffline: { label: `บันทึกการชำระเงิน ${ids.length} รายการ`, bookingIds: ids }
         });
 
         if (response.error) {
             console.error('Error bulk marking as paid:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record(
+            'PAYMENT_CHANGED',
+            (response.queued ? ids : succeededIds(ids, response.data)).map(id => ({ id, after: { isPaid: true } })),
+            { queued: response.queued }
+        );
+        if (response.queued) return queuedBulkResult(ids);
         return response.data || { success: false, data: null };
     },
 
     /**
      * Bulk unmark bookings as paid
      */
-    async bulkUnmarkAsPaid(ids: string[]): Promise<{ success: boolean; data: any }> {
-        const response = await apiService.delete<{
-            success: boolean,
-            data: {
-                successCount: number;
-                failedIds: string[];
-                updatedBookings: any[];
-            }
-        }>('/api/owner/bookings/bulk-payment', {
+    async bulkUnmarkAsPaid(ids: string[]): Promise<BulkResult> {
+        const response = await apiService.delete<BulkResult>('/api/owner/bookings/bulk-payment', {
             bookingIds: ids
+        }, {
+            schema: bulkResultSchema,
+            queueOffline: { label: `ยกเลิกการชำระเงิน ${ids.length} รายการ`, bookingIds: ids }
         });
 
         if (response.error) {
             console.error('Error bulk unmarking as paid:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record(
+            'PAYMENT_CHANGED',
+            (response.queued ? ids : succeededIds(ids, response.data)).map(id => ({ id, after: { isPaid: false } })),
+            { queued: response.queued }
+        );
+        if (response.queued) return queuedBulkResult(ids);
         return response.data || { success: false, data: null };
     },
 
@@ -357,25 +660,27 @@ export const bookingService = {
         ids: string[],
         status: 'PENDING' | 'CONFIRMED' | 'NO_SHOW' | 'CANCELLED' | 'COMPLETED',
         reason?: string
-    ): Promise<{ success: boolean; data: any }> {
-        const response = await apiService.post<{
-            success: boolean,
-            data: {
-                successCount: number;
-                failedIds: string[];
-                updatedBookings: any[];
-            }
-        }>('/api/owner/bookings/bulk', {
+    ): Promise<BulkResult> {
+        const response = await apiService.post<BulkResult>('/api/owner/bookings/bulk', {
             bookingIds: ids,
             status,
             reason
+        }, {
+            schema: bulkResultSchema,
+            queueOffline: { label: `เปลี่ยนสถานะเป็น ${status} ${ids.length} รายการ`, bookingIds: ids }
         });
 
         if (response.error) {
             console.error('Error bulk updating bookings:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        await bookingAuditService.record(
+            'STATUS_CHANGED',
+            (response.queued ? ids : succeededIds(ids, response.data)).map(id => ({ id, after: { status } })),
+            { reason, queued: response.queued }
+        );
+        if (response.queued) return queuedBulkResult(ids);
         return response.data || { success: false, data: null };
     },
 
@@ -388,26 +693,75 @@ export const bookingService = {
             courtId?: string;
             customerName?: string;
             customerPhone?: string;
+            serviceUserId?: string;
             price?: number;
             status?: string;
         }>
-    ): Promise<{ success: boolean; data: any }> {
-        const response = await apiService.post<{
-            success: boolean,
-            data: {
-                successCount: number;
-                failedIds: string[];
-                updatedBookings: any[];
-            }
-        }>('/api/owner/bookings/bulk-update', {
+    ): Promise<BulkResult> {
+        const response = await apiService.post<BulkResult>('/api/owner/bookings/bulk-update', {
             updates
+        }, {
+            schema: bulkResultSchema,
+            queueOffline: { label: `แก้ไขการจอง ${updates.length} รายการ`, bookingIds: updates.map(u => u.id) }
         });
 
         if (response.error) {
             console.error('Error bulk updating booking details:', response.error);
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
+        const changed = response.queued ? updates : updates.filter(u => succeededIds([u.id], response.data).length > 0);
+        await bookingAuditService.record(
+            'EDITED',
+            changed.map(u => ({ id: u.id, after: toAuditSnapshot(u) })),
+            { queued: response.queued }
+        );
+        if (response.queued) return queuedBulkResult(updates.map(u => u.id));
         return response.data || { success: false, data: null };
+    },
+
+    /**
+     * Create, edit and cancel slots of one booking in a single request. The server applies
+     * all of it or none, so a failure never leaves the booking half changed.
+     */
+    async bulkChange(change: {
+        creates: Array<{
+            courtId: string;
+            date: string;
+            startTime: string;
+            endTime: string;
+            customerName: string;
+            customerPhone: string;
+            serviceUserId?: string;
+            price?: number;
+            status?: string;
+        }>;
+        updates: Array<{ id: string; date: string; startTime: string; endTime: string; price?: number }>;
+        cancelIds: string[];
+        reason?: string;
+    }): Promise<{ queued: boolean }> {
+        const changedIds = [...change.updates.map(u => u.id), ...change.cancelIds];
+        const response = await apiService.post<{ created: Booking[] }>('/api/owner/bookings/bulk-change', change, {
+            schema: bulkChangeResultSchema,
+            queueOffline: { label: `แก้ไขการจอง ${changedIds.length + change.creates.length} รายการ`, bookingIds: changedIds }
+        });
+
+        if (response.error) {
+            console.error('Error changing bookings:', response.error);
+            throw response.apiError;
+        }
+
+        const queued = !!response.queued;
+        await bookingAuditService.record(
+            'CREATED',
+            (response.data?.created || []).map((booking, i) => ({ id: booking.id, after: toAuditSnapshot(change.creates[i] || {}) }))
+        );
+        await bookingAuditService.record('EDITED', change.updates.map(u => ({ id: u.id, after: toAuditSnapshot(u) })), { queued });
+        await bookingAuditService.record(
+            'STATUS_CHANGED',
+            change.cancelIds.map(id => ({ id, after: { status: 'CANCELLED' } })),
+            { reason: change.reason, queued }
+        );
+        return { queued };
     }
 };
@@ -0,0 +1,187 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format, parseISO } from 'date-fns';
+import { apiService } from './api.service';
+import { bookingAuditListSchema } from './apiSchemas';
+import { offlineQueueService } from './offlineQueue.service';
+import {
+    Booking,
+    BookingAuditAction,
+    BookingAuditEntry,
+    BookingAuditField,
+    BookingAuditValue,
+} from '../types/booking';
+
+const AUDIT_ENDPOINT = '/api/owner/booking-audit';
+// Entries recorded before the history moved to the server; uploaded once, then removed
+const LEGACY_STORAGE_KEY = 'booking_audit_log';
+
+export type AuditSnapshot = Partial<Record<BookingAuditField, BookingAuditValue>>;
+
+export interface AuditTarget {
+    id: string;
+    after: AuditSnapshot;
+}
+
+export interface AuditOptions {
+    reason?: string;
+    source?: BookingAuditEntry['source'];
+    queued?: boolean;
+}
+
+export const AUDIT_ACTION_LABELS: Record<BookingAuditAction, string> = {
+    CREATED: 'สร้างการจอง',
+    EDITED: 'แก้ไขการจอง',
+    STATUS_CHANGED: 'เปลี่ยนสถานะ',
+    PAYMENT_CHANGED: 'การชำระเงิน',
+};
+
+export const AUDIT_FIELD_LABELS: Record<BookingAuditField, string> = {
+    status: 'สถานะ',
+    isPaid: 'ชำระเงิน',
+    courtId: 'สนาม',
+    time: 'เวลา',
+    customerName: 'ชื่อลูกค้า',
+    customerPhone: 'เบอร์โทร',
+    price: 'ราคา',
+};
+
+// Last known values per booking, from whatever was loaded or changed in this session
+const snapshots = new Map<string, AuditSnapshot>();
+const courtNames = new Map<string, string>();
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of the history that was only ever stored on this device
+const uploadLegacyLog = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!raw) return;
+            const legacy: BookingAuditEntry[] = JSON.parse(raw);
+            const response = await apiService.post(AUDIT_ENDPOINT, { entries: legacy, legacy: true });
+            if (response.error) {
+                legacyUpload = null; // Try again next time
+                return;
+            }
+            await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+        })().catch(error => {
+            console.error('Failed to upload local booking history:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+// Entries still waiting in the offline outbox, so changes made offline show up right away
+const getPendingEntries = async (): Promise<BookingAuditEntry[]> => {
+    const pending = (await offlineQueueService.getItems())
+        .filter(item => item.endpoint === AUDIT_ENDPOINT && item.method === 'POST' && item.status !== 'failed');
+    return pending.flatMap(item => (item.body?.entries || []) as BookingAuditEntry[]);
+};
+
+const generateId = () => `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Time of a booking as one comparable value, e.g. "2026-03-14 18:00-20:00"
+ */
+export const formatAuditTime = (date: string, startTime: string, endTime: string) => `${date} ${startTime}-${endTime}`;
+
+const toSnapshot = (booking: Partial<Booking>): AuditSnapshot => {
+    const snapshot: AuditSnapshot = {};
+    if (booking.status !== undefined) snapshot.status = booking.status;
+    if (booking.isPaid !== undefined) snapshot.isPaid = !!booking.isPaid;
+    if (booking.courtId !== undefined) snapshot.courtId = booking.courtId;
+    if (booking.timeSlotStart && booking.timeSlotEnd) {
+        const start = parseISO(booking.timeSlotStart);
+        snapshot.time = formatAuditTime(format(start, 'yyyy-MM-dd'), format(start, 'HH:mm'), format(parseISO(booking.timeSlotEnd), 'HH:mm'));
+    }
+    const name = booking.serviceUser?.name || booking.customerName;
+    if (name !== undefined) snapshot.customerName = name;
+    const phone = booking.serviceUser?.phone || booking.customerPhone;
+    if (phone !== undefined) snapshot.customerPhone = phone;
+    if (booking.totalPrice !== undefined) snapshot.price = Number(booking.totalPrice);
+    return snapshot;
+};
+
+/**
+ * Who did what to each booking and when. Changes made through bookingService are sent to the
+ * server with the values before and after, so staff on every device can trace cancellations
+ * and payment changes. The server stamps each entry with the signed-in account.
+ */
+export const bookingAuditService = {
+    /**
+     * Keeps the values of loaded bookings as the "before" side of the next change
+     */
+    remember(bookings: Array<Partial<Booking> & { id: string }>) {
+        bookings.forEach(booking => {
+            snapshots.set(booking.id, { ...snapshots.get(booking.id), ...toSnapshot(booking) });
+            if (booking.courtId && booking.court?.name) courtNames.set(booking.courtId, booking.court.name);
+        });
+    },
+
+    getCourtName(courtId: string): string {
+        return courtNames.get(courtId) || courtId;
+    },
+
+    /**
+     * Records one entry per booking. Never throws: a failed write must not fail the change itself.
+     */
+    async record(action: BookingAuditAction, targets: AuditTarget[], options: AuditOptions = {}): Promise<void> {
+        if (targets.length === 0) return;
+        try {
+            const at = new Date().toISOString();
+            const entries: BookingAuditEntry[] = targets.map(({ id, after }) => {
+                const before = snapshots.get(id);
+                const changes = (Object.keys(after) as BookingAuditField[])
+                    .filter(field => after[field] !== undefined && (!before || before[field] !== after[field]))
+                    .map(field => ({ field, before: before?.[field], after: after[field] as BookingAuditValue }));
+                snapshots.set(id, { ...before, ...after });
+                return {
+                    id: generateId(),
+                    bookingId: id,
+                    action,
+                    changes,
+                    at,
+                    reason: options.reason?.trim() || undefined,
+                    source: options.source,
+                    batchSize: targets.length > 1 ? targets.length : undefined,
+                    queued: options.queued || undefined,
+                };
+            });
+
+            const bookingIds = targets.map(target => target.id);
+            const response = await apiService.post(AUDIT_ENDPOINT, { entries }, {
+                queueOffline: { label: `บันทึกประวัติ ${AUDIT_ACTION_LABELS[action]}`, bookingIds },
+            });
+            if (response.error) {
+                console.error('Failed to record booking audit:', response.error);
+            }
+        } catch (error) {
+            console.error('Failed to record booking audit:', error);
+        }
+    },
+
+    /**
+     * History of the given bookings from every device, newest first
+     */
+    async getHistory(bookingIds: string[]): Promise<BookingAuditEntry[]> {
+        if (bookingIds.length === 0) return [];
+        await uploadLegacyLog();
+
+        const response = await apiService.get<{ items: BookingAuditEntry[] }>(
+            `${AUDIT_ENDPOINT}?bookingIds=${bookingIds.map(encodeURIComponent).join(',')}`,
+            { schema: bookingAuditListSchema }
+        );
+        if (response.error) {
+            console.error('Error fetching booking history:', response.error);
+            throw response.apiError;
+        }
+
+        const entries = response.data?.items || [];
+        const ids = new Set(entries.map(entry => entry.id));
+        const pending = (await getPendingEntries()).filter(entry => !ids.has(entry.id));
+        return [...entries, ...pending.map(entry => ({ ...entry, queued: true }))]
+            .filter(entry => bookingIds.includes(entry.bookingId))
+            .sort((a, b) => b.at.localeCompare(a.at));
+    },
+};
@@ -0,0 +1,115 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { bookingService } from './booking.service';
+import { courtService } from './court.service';
+import { Booking } from '../types/booking';
+import { Court } from '../types/court';
+import { translateBookingStatus } from '../utils/statusTranslation';
+import { toCsv, toXlsx, SpreadsheetRow } from '../utils/spreadsheet';
+
+export type ExportFormat = 'CSV' | 'XLSX';
+
+const SPORT_LABELS: Record<string, string> = {
+    'badminton': 'แบดมินตัน',
+    'football': 'ฟุตบอล',
+    'futsal': 'ฟุตซอล',
+    'tennis': 'เทนนิส',
+    'basketball': 'บาสเกตบอล',
+    'volleyball': 'วอลเลย์บอล',
+    'swimming': 'ว่ายน้ำ',
+    'fitness': 'ฟิตเนส',
+    'yoga': 'โยคะ',
+    'gym': 'ยิม'
+};
+
+const HEADER = ['วันที่', 'สนาม', 'กีฬา', 'ลูกค้า', 'เบอร์โทร', 'เวลาเริ่ม', 'เวลาสิ้นสุด', 'สถานะ', 'ราคา', 'ชำระแล้ว', 'เวลาชำระ', 'รหัสการจอง'];
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string; UTI: string }> = {
+    CSV: { extension: 'csv', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+    XLSX: {
+        extension: 'xlsx',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        UTI: 'org.openxmlformats.spreadsheetml.sheet',
+    },
+};
+
+// Older endpoints send sports as ids or as { id, name } objects
+type SportRef = string | { id?: string; name?: string };
+
+// First sport of a court, whichever shape the API sent it in
+const getCourtSport = (court?: Court & { sports?: SportRef[]; sportType?: SportRef }): string => {
+    const raw = court?.sportTypeIds?.[0] ?? court?.sports?.[0] ?? court?.sportType;
+    const id = typeof raw === 'string' ? raw : raw?.name || raw?.id;
+    return id ? SPORT_LABELS[id] || id : '';
+};
+
+const toRow = (booking: Booking, courtsById: Map<string, Court>): SpreadsheetRow => {
+    const court = courtsById.get(booking.courtId);
+    const start = parseISO(booking.timeSlotStart);
+    return [
+        format(start, 'yyyy-MM-dd'),
+        booking.court?.name || court?.name || booking.courtId,
+        getCourtSport(court || booking.court),
+        booking.serviceUser?.name || booking.customerName || '',
+        booking.serviceUser?.phone || booking.customerPhone || '',
+        format(start, 'HH:mm'),
+        format(parseISO(booking.timeSlotEnd), 'HH:mm'),
+        translateBookingStatus(booking.status),
+        Number(booking.totalPrice) || 0,
+        booking.isPaid ? 'ใช่' : 'ไม่',
+        booking.paidAt ? format(parseISO(booking.paidAt), 'yyyy-MM-dd HH:mm') : '',
+        booking.id,
+    ];
+};
+
+/**
+ * Booking lists for the accountant, as files handed to the system share sheet
+ */
+export const bookingExportService = {
+    /**
+     * Exports the business's regular and capacity bookings for the days from `from` to `to`, inclusive.
+     * Returns how many bookings were written; nothing is shared when there were none.
+     */
+    async exportBookings(params: {
+        from: Date;
+        to: Date;
+        businessId: string;
+        format: ExportFormat;
+    }): Promise<number> {
+        const { businessId } = params;
+        const dateFrom = startOfDay(params.from).toISOString();
+        const dateTo = endOfDay(params.to).toISOString();
+
+        const [courts, facilities, regular, capacity] = await Promise.all([
+            courtService.getCourts(businessId),
+            courtService.getCapacityFacilities(),
+            bookingService.getBookingsInRange(dateFrom, dateTo),
+            bookingService.getCapacityBookingsInRange(dateFrom, dateTo, businessId),
+        ]);
+
+        const courtsById = new Map([
+            ...courts,
+            ...facilities.filter(f => f.businessId === businessId),
+        ].map(court => [court.id, court]));
+        // A partial export would look complete to the accountant
+        if (!regular.complete || !capacity.complete) {
+            throw new Error('Bookings for the export could not be fully loaded');
+        }
+
+        const bookings = [...regular.items, ...capacity.items]
+            .filter(b => courtsById.has(b.courtId))
+            .sort((a, b) => a.timeSlotStart.localeCompare(b.timeSlotStart));
+        if (bookings.length === 0) return 0;
+
+        const rows = [HEADER, ...bookings.map(booking => toRow(booking, courtsById))];
+
+        const type = FILE_TYPES[params.format];
+        const file = new File(Paths.cache, `bookings_${format(params.from, 'yyyyMMdd')}-${format(params.to, 'yyyyMMdd')}.${type.extension}`);
+        file.create({ overwrite: true });
+        file.write(params.format === 'CSV' ? toCsv(rows) : toXlsx('การจอง', rows));
+
+        await Sharing.shareAsync(file.uri, { mimeType: type.mimeType, UTI: type.UTI, dialogTitle: 'ส่งออกรายการจอง' });
+        return bookings.length;
+    },
+};
@@ -0,0 +1,133 @@
+import { format, parseISO } from 'date-fns';
+import { bookingService } from './booking.service';
+import { Booking, BulkResult } from '../types/booking';
+
+// How long an action can be undone after it was made
+export const UNDO_WINDOW_MS = 15000;
+
+const MAX_ENTRIES = 10;
+
+type RestorableStatus = 'PENDING' | 'CONFIRMED' | 'NO_SHOW' | 'CANCELLED' | 'COMPLETED';
+
+const RESTORABLE_STATUSES: string[] = ['PENDING', 'CONFIRMED', 'NO_SHOW', 'CANCELLED', 'COMPLETED'];
+
+export type UndoKind = 'STATUS' | 'PAYMENT' | 'DETAILS';
+
+export interface UndoEntry {
+    id: string;
+    label: string;          // What was done, e.g. "ยกเลิกการจอง 3 รายการ"
+    kind: UndoKind;
+    previous: Booking[];    // The bookings as they were before the action
+    createdAt: number;
+}
+
+type Listener = (entries: UndoEntry[]) => void;
+
+// Kept in memory only: undo is meant for the last few seconds, not across app restarts
+let entries: UndoEntry[] = [];
+const listeners = new Set<Listener>();
+const revertListeners = new Set<(entry: UndoEntry) => void>();
+
+const generateId = () => `undo-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const notify = () => {
+    listeners.forEach(listener => listener([...entries]));
+};
+
+const isLive = (entry: UndoEntry) => Date.now() - entry.createdAt < UNDO_WINDOW_MS;
+
+const groupIds = <K extends string>(bookings: Booking[], keyOf: (booking: Booking) => K | undefined) =>
+    bookings.reduce((groups, booking) => {
+        const key = keyOf(booking);
+        if (key !== undefined) groups[key] = [...(groups[key] || []), booking.id];
+        return groups;
+    }, {} as Partial<Record<K, string[]>>);
+
+const countFailed = (result: BulkResult, ids: string[]) =>
+    result.queued ? 0 : result.success ? (result.data?.failedIds?.length || 0) : ids.length;
+
+/**
+ * Short-lived undo for booking actions. Entries live at module level so they survive
+ * switching tabs; undoing sends the previous values back through the bulk endpoints.
+ */
+export const bookingUndoService = {
+    /**
+     * Remembers the bookings as they were before an action; call after the action succeeded
+     */
+    push(kind: UndoKind, label: string, previous: Booking[]): UndoEntry | null {
+        if (previous.length === 0) return null;
+        const entry: UndoEntry = { id: generateId(), label, kind, previous, createdAt: Date.now() };
+        entries = [...entries.filter(isLive), entry].slice(-MAX_ENTRIES);
+        notify();
+        return entry;
+    },
+
+    getEntries(): UndoEntry[] {
+        return entries.filter(isLive);
+    },
+
+    dismiss(id: string) {
+        entries = entries.filter(entry => entry.id !== id);
+        notify();
+    },
+
+    /**
+     * Restores the previous values. Returns how many bookings could not be restored.
+     */
+    async undo(id: string): Promise<number> {
+        const entry = entries.find(e => e.id === id);
+        if (!entry) return 0;
+        this.dismiss(id);
+
+        let failed = 0;
+        if (entry.kind === 'STATUS') {
+            const byStatus = groupIds(entry.previous, b =>
+                RESTORABLE_STATUSES.includes(b.status) ? b.status as RestorableStatus : undefined
+            );
+            for (const [status, ids = []] of Object.entries(byStatus) as Array<[RestorableStatus, string[]]>) {
+                failed += countFailed(await bookingService.bulkUpdateStatus(ids, status, 'ย้อนกลับการดำเนินการ'), ids);
+            }
+        } else if (entry.kind === 'PAYMENT') {
+            const byPaid = groupIds(entry.previous, b => (b.isPaid ? 'PAID' : 'UNPAID'));
+            if (byPaid.PAID) failed += countFailed(await bookingService.bulkMarkAsPaid(byPaid.PAID), byPaid.PAID);
+            if (byPaid.UNPAID) failed += countFailed(await bookingService.bulkUnmarkAsPaid(byPaid.UNPAID), byPaid.UNPAID);
+        } else {
+            const updates = entry.previous.map(b => {
+                const start = parseISO(b.timeSlotStart);
+                return {
+                    id: b.id,
+                    date: format(start, 'yyyy-MM-dd'),
+                    startTime: format(start, 'HH:mm'),
+                    endTime: format(parseISO(b.timeSlotEnd), 'HH:mm'),
+                    courtId: b.courtId,
+                    customerName: b.serviceUser?.name || b.customerName,
+                    customerPhone: b.serviceUser?.phone || b.customerPhone,
+                    price: Number(b.totalPrice),
+                    status: b.status,
+                };
+            });
+            failed += countFailed(await bookingService.bulkUpdateDetails(updates), updates.map(u => u.id));
+        }
+
+        revertListeners.forEach(listener => listener(entry));
+        return failed;
+    },
+
+    subscribe(listener: Listener): () => void {
+        listeners.add(listener);
+        listener([...entries]);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+
+    /**
+     * Called after an undo was sent, so open screens can reload
+     */
+    onReverted(listener: (entry: UndoEntry) => void): () => void {
+        revertListeners.add(listener);
+        return () => {
+            revertListeners.delete(listener);
+        };
+    },
+};
@@ -6,7 +6,7 @@ export const businessService = {
         const response = await apiService.get<{ data: Business[] }>(`/api/court-owner/businesses?limit=${limit}`);
 
         if (response.error) {
-            throw new Error(response.error);
+            throw response.apiError;
         }
 
         const responseData = response.data;
@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api.service';
+import { businessSchema } from './apiSchemas';
+import { businessService } from './business.service';
+import { Business, BusinessSettings } from '../types/business';
+
+const BUSINESSES_ENDPOINT = '/api/court-owner/businesses';
+// Settings saved before they moved onto the business record; uploaded once, then removed
+const LEGACY_STORAGE_KEY = 'business_settings';
+
+// Null clears a setting on the business record
+export type BusinessSettingsChanges = { [K in keyof BusinessSettings]?: BusinessSettings[K] | null };
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of settings that were only ever stored on this device
+const uploadLegacySettings = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!raw) return;
+            const legacy: Record<string, BusinessSettings> = JSON.parse(raw);
+            const failed: Record<string, BusinessSettings> = {};
+            for (const [businessId, settings] of Object.entries(legacy)) {
+                const response = await apiService.patch(`${BUSINESSES_ENDPOINT}/${businessId}`, settings, { schema: businessSchema });
+                if (response.error) failed[businessId] = settings;
+            }
+            if (Object.keys(failed).length > 0) {
+                await AsyncStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(failed));
+                legacyUpload = null; // Try again next time
+            } else {
+                await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+            }
+        })().catch(error => {
+            console.error('Failed to upload local business settings:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+const toSettings = (business?: Business | null): BusinessSettings => ({
+    promptPayId: business?.promptPayId || undefined,
+    taxId: business?.taxId || undefined,
+    vatRegistered: business?.vatRegistered || undefined,
+});
+
+/**
+ * Payment and tax settings of a business, such as the PromptPay ID used for payment QRs.
+ * They are saved on the business record so every device and receipt uses the same values.
+ */
+export const businessSettingsService = {
+    async getSettings(businessId: string): Promise<BusinessSettings> {
+        await uploadLegacySettings();
+        const { businesses } = await businessService.getBusinesses();
+        return toSettings(businesses.find(b => b.id === businessId));
+    },
+
+    async saveSettings(businessId: string, changes: BusinessSettingsChanges): Promise<BusinessSettings> {
+        const response = await apiService.patch<Business>(`${BUSINESSES_ENDPOINT}/${businessId}`, changes, { schema: businessSchema });
+        if (response.error) {
+            console.error('Error saving business settings:', response.error);
+            throw response.apiError;
+        }
+        return toSettings(response.data);
+    },
+};
@@ -0,0 +1,227 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format } from 'date-fns';
+import { bookingService } from './booking.service';
+import { describeApiError, NetworkError, TimeoutError } from './apiErrors';
+import { Booking, BookingStatus } from '../types/booking';
+
+const ROSTER_KEY_PREFIX = 'checkin_roster';
+const LOCAL_CHECKINS_KEY = 'offline_checkins';
+const QR_PREFIX = 'JONGSANAM-CHECKIN:';
+
+export interface CheckInRoster {
+    businessId: string;
+    date: string; // yyyy-MM-dd (local)
+    fetchedAt: string;
+    bookings: Booking[];
+}
+
+export type LocalCheckInAction = 'check-in' | 'confirm';
+
+export interface LocalCheckIn {
+    bookingId: string;
+    action: LocalCheckInAction;
+    recordedAt: string;
+    status: 'pending' | 'synced' | 'rejected';
+    error?: string;
+    customerName?: string;
+    courtName?: string;
+}
+
+const rosterKey = (businessId: string, date: string) => `${ROSTER_KEY_PREFIX}:${businessId}:${date}`;
+const todayKey = () => format(new Date(), 'yyyy-MM-dd');
+
+const readLocalCheckIns = async (): Promise<LocalCheckIn[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(LOCAL_CHECKINS_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+        console.error('Failed to read offline check-ins:', error);
+        return [];
+    }
+};
+
+const writeLocalCheckIns = async (checkIns: LocalCheckIn[]) => {
+    await AsyncStorage.setItem(LOCAL_CHECKINS_KEY, JSON.stringify(checkIns));
+};
+
+const isSameCustomer = (a: Booking, b: Booking) => {
+    if (a.serviceUserId && b.serviceUserId) return a.serviceUserId === b.serviceUserId;
+    const phoneA = a.serviceUser?.phone || a.customerPhone;
+    const phoneB = b.serviceUser?.phone || b.customerPhone;
+    return !!phoneA && phoneA === phoneB;
+};
+
+let isReconciling = false;
+
+/**
+ * Local copy of today's bookings so QR check-in keeps working without signal.
+ */
+export const checkInRosterService = {
+    parseBookingId(qrCode: string): string | null {
+        const value = qrCode.trim();
+        if (!value.startsWith(QR_PREFIX)) return null;
+        return value.substring(QR_PREFIX.length).trim() || null;
+    },
+
+    /**
+     * Download today's bookings for the business and store them as the offline roster
+     */
+    async prefetchRoster(businessId: string): Promise<CheckInRoster | null> {
+        const dateFrom = new Date();
+        dateFrom.setHours(0, 0, 0, 0);
+        const dateTo = new Date();
+        dateTo.setHours(23, 59, 59, 999);
+
+        try {
+            const [regularBookings, capacityBookings] = await Promise.all([
+                bookingService.getBookings(dateFrom.toISOString(), dateTo.toISOString()),
+                bookingService.getCapacityBookings(dateFrom.toISOString(), dateTo.toISOString(), businessId)
+            ]);
+
+            // Regular bookings are not filtered by business on the API side
+            const businessBookings = regularBookings.filter(b => !b.court?.businessId || b.court.businessId === businessId);
+
+            const roster: CheckInRoster = {
+                businessId,
+                date: todayKey(),
+                fetchedAt: new Date().toISOString(),
+                bookings: [...businessBookings, ...capacityBookings],
+            };
+
+            // Keep local check-ins that have not reached the server yet
+            const localCheckIns = await readLocalCheckIns();
+            roster.bookings = roster.bookings.map(b => {
+                const local = localCheckIns.find(c => c.bookingId === b.id && c.status === 'pending');
+                if (!local) return b;
+                return { ...b, status: local.action === 'check-in' ? BookingStatus.COMPLETED : BookingStatus.CONFIRMED };
+            });
+
+            await AsyncStorage.setItem(rosterKey(businessId, roster.date), JSON.stringify(roster));
+            return roster;
+        } catch (error) {
+            console.error('Failed to prefetch check-in roster:', error);
+            return null;
+        }
+    },
+
+    async getRoster(businessId: string): Promise<CheckInRoster | null> {
+        try {
+            const raw = await AsyncStorage.getItem(rosterKey(businessId, todayKey()));
+            return raw ? JSON.parse(raw) : null;
+        } catch (error) {
+            console.error('Failed to read check-in roster:', error);
+            return null;
+        }
+    },
+
+    /**
+     * Resolve a JONGSANAM-CHECKIN code against the cached roster.
+     * Returns the same shape as bookingService.lookupByQRCode, or null when not found.
+     */
+    async lookupOffline(qrCode: string, businessId: string): Promise<{
+        scannedBookingId: string;
+        bookings: Booking[];
+        customer: { id: string; name: string; phone: string; email: string | null } | null;
+    } | null> {
+        const bookingId = this.parseBookingId(qrCode);
+        if (!bookingId) return null;
+
+        const roster = await this.getRoster(businessId);
+        if (!roster) return null;
+
+        const scanned = roster.bookings.find(b => b.id === bookingId);
+        if (!scanned) return null;
+
+        const customerBookings = roster.bookings.filter(b => b.id === scanned.id || isSameCustomer(b, scanned));
+
+        return {
+            scannedBookingId: scanned.id,
+            bookings: customerBookings,
+            customer: {
+                id: scanned.serviceUserId || 'guest',
+                name: scanned.serviceUser?.name || scanned.customerName || 'Guest',
+                phone: scanned.serviceUser?.phone || scanned.customerPhone || '',
+                email: scanned.serviceUser?.email || null,
+            },
+        };
+    },
+
+    /**
+     * Record a check-in made while offline and reflect it in the cached roster
+     */
+    async recordCheckIn(businessId: string, bookingIds: string[], action: LocalCheckInAction): Promise<void> {
+        const roster = await this.getRoster(businessId);
+        const checkIns = await readLocalCheckIns();
+        const recordedAt = new Date().toISOString();
+
+        for (const bookingId of bookingIds) {
+            const booking = roster?.bookings.find(b => b.id === bookingId);
+            checkIns.push({
+                bookingId,
+                action,
+                recordedAt,
+                status: 'pending',
+                customerName: booking?.serviceUser?.name || booking?.customerName,
+                courtName: booking?.court?.name,
+            });
+        }
+        await writeLocalCheckIns(checkIns);
+
+        if (roster) {
+            const newStatus = action === 'check-in' ? BookingStatus.COMPLETED : BookingStatus.CONFIRMED;
+            roster.bookings = roster.bookings.map(b => bookingIds.includes(b.id) ? { ...b, status: newStatus } : b);
+            await AsyncStorage.setItem(rosterKey(businessId, roster.date), JSON.stringify(roster));
+        }
+    },
+
+    async getLocalCheckIns(): Promise<LocalCheckIn[]> {
+        return readLocalCheckIns();
+    },
+
+    /**
+     * Remove rejected check-ins the staff has reviewed, plus anything already synced
+     */
+    async dismissRejected(): Promise<void> {
+        const checkIns = await readLocalCheckIns();
+        await writeLocalCheckIns(checkIns.filter(c => c.status === 'pending'));
+    },
+
+    /**
+     * Send offline check-ins to the server. Each booking is re-validated through the
+     * booking lookup first; anything the server refuses is flagged as rejected.
+     * Returns false if the device is still offline or the server did not answer in time;
+     * the check-ins then stay pending.
+     */
+    async reconcile(): Promise<boolean> {
+        if (isReconciling) return true;
+        isReconciling = true;
+
+        try {
+            const checkIns = await readLocalCheckIns();
+
+            for (const checkIn of checkIns) {
+                if (checkIn.status !== 'pending') continue;
+
+                try {
+                    await bookingService.lookupByQRCode(`${QR_PREFIX}${checkIn.bookingId}`);
+                    await bookingService.updateBookingStatus(checkIn.bookingId, checkIn.action);
+                    checkIn.status = 'synced';
+                    checkIn.error = undefined;
+                } catch (err) {
+                    if (err instanceof NetworkError || err instanceof TimeoutError) {
+                        await writeLocalCheckIns(checkIns);
+                        return false;
+                    }
+                    checkIn.status = 'rejected';
+                    checkIn.error = describeApiError(err, 'ระบบปฏิเสธการเช็คอิน');
+                }
+            }
+
+            // Synced entries are no longer needed
+            await writeLocalCheckIns(checkIns.filter(c => c.status !== 'synced'));
+            return true;
+        } finally {
+            isReconciling = false;
+        }
+    },
+};
@@ -1,12 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiService } from './api.service';
-import { Court } from '../types/court';
+import { CancelledError } from './apiErrors';
+import { CapacityFacilityItem, capacityFacilityListSchema, courtListSchema, courtSchema } from './apiSchemas';
+import { Court, PricingRules } from '../types/court';
+
+const COURT_UPDATE_ENDPOINT = '/api/court-owner/courts';
+// Pricing rules saved before they moved onto the court record; uploaded once, then removed
+const LEGACY_PRICING_RULES_KEY = 'court_pricing_rules';
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of pricing rules that were only ever stored on this device
+const uploadLegacyPricingRules = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_PRICING_RULES_KEY);
+            if (!raw) return;
+            const legacy: Record<string, PricingRules> = JSON.parse(raw);
+            const failed: Record<string, PricingRules> = {};
+            for (const [courtId, pricingRules] of Object.entries(legacy)) {
+                const response = await apiService.put(`${COURT_UPDATE_ENDPOINT}/${courtId}`, { pricingRules }, { schema: courtSchema });
+                if (response.error) failed[courtId] = pricingRules;
+            }
+            if (Object.keys(failed).length > 0) {
+                await AsyncStorage.setItem(LEGACY_PRICING_RULES_KEY, JSON.stringify(failed));
+                legacyUpload = null; // Try again next time
+            } else {
+                await AsyncStorage.removeItem(LEGACY_PRICING_RULES_KEY);
+            }
+        })().catch(error => {
+            console.error('Failed to upload local pricing rules:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
 
 export const courtService = {
     async getCourts(businessId: string): Promise<Court[]> {
+        await uploadLegacyPricingRules();
         // Using the unified owner/courts endpoint which likely supports filtering generally or just returns all
         // We can filter client side if needed, or if API supports it.
         // Based on ownerBookingService, getOwnerCourts fetches all.
-        const response = await apiService.get<Court[]>(`/api/owner/courts`);
+        const response = await apiService.get<Court[]>(`/api/owner/courts`, { schema: courtListSchema });
 
         if (response.error) {
             console.error('Error fetching courts:', response.error);
@@ -18,14 +54,17 @@ export const courtService = {
         return allCourts.filter(c => c.businessId === businessId);
     },
 
-    async getAllOwnerCourts(): Promise<Court[]> {
-        const response = await apiService.get<Court[]>(`/api/owner/courts`);
+    async getAllOwnerCourts(signal?: AbortSignal): Promise<Court[]> {
+        await uploadLegacyPricingRules();
+        const response = await apiService.get<Court[]>(`/api/owner/courts`, { schema: courtListSchema, signal });
         if (response.error) return [];
         return response.data || [];
     },
 
-    async getCapacityFacilities(): Promise<Court[]> {
-        const response = await apiService.get<any[]>('/api/owner/capacity-facilities');
+    async getCapacityFacilities(signal?: AbortSignal): Promise<Court[]> {
+        await uploadLegacyPricingRules();
+        const response = await apiService.get<CapacityFacilityItem[]>('/api/owner/capacity-facilities', { schema: capacityFacilityListSchema, signal });
+        if (response.apiError instanceof CancelledError) return [];
         if (response.error) {
             console.error('Error fetching capacity facilities:', response.error);
             return [];
@@ -42,6 +81,8 @@ export const courtService = {
             openingHour: item.openTime || item.openingHoursStart || '00:00',
             closingHour: item.closeTime || item.operatingHoursEnd || '23:59',
             hourlyRate: item.pricePerSlot || item.pricePerHour || 0,
+            pricePerSlot: item.pricePerSlot ?? undefined,
+            pricingRules: item.pricingRules ?? undefined,
             // Ensure sportTypeIds exists if logical
             sportTypeIds: item.sportTypeIds || (item.sportType ? [item.sportType] : [])
         })) || [];
@@ -53,7 +94,7 @@ export const courtService = {
         if (data.closingHour) payload.closeTime = data.closingHour;
         if (data.hourlyRate) payload.pricePerHour = Number(data.hourlyRate);
 
-        const response = await apiService.put<Court>(`/api/court-owner/courts/${id}`, payload);
+        const response = await apiService.put<Court>(`${COURT_UPDATE_ENDPOINT}/${id}`, payload, { schema: courtSchema });
 
         if (response.error) {
             console.error('Error updating court:', response.error);
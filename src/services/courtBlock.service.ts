@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addDays, format, parseISO } from 'date-fns';
+import { apiService } from './api.service';
+import { courtBlockListSchema, courtBlockSchema } from './apiSchemas';
+import { BlockedPeriod, CourtBlock, CourtBlockReason } from '../types/court';
+
+const BLOCKS_ENDPOINT = '/api/owner/court-blocks';
+// Blocks created before they moved to the server; uploaded once, then removed
+const LEGACY_STORAGE_KEY = 'court_blocked_periods';
+
+export const BLOCK_REASON_LABELS: Record<CourtBlockReason, string> = {
+    MAINTENANCE: 'ปิดปรับปรุง',
+    EVENT: 'งานส่วนตัว / อีเวนต์',
+    OTHER: 'อื่นๆ',
+};
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of blocks that were only ever stored on this device
+const uploadLegacyBlocks = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!raw) return;
+            const legacy: CourtBlock[] = JSON.parse(raw);
+            const failed: CourtBlock[] = [];
+            for (const block of legacy) {
+                const response = await apiService.post(BLOCKS_ENDPOINT, block, { schema: courtBlockSchema });
+                if (response.error) failed.push(block);
+            }
+            if (failed.length > 0) {
+                await AsyncStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(failed));
+                legacyUpload = null; // Try again next time
+            } else {
+                await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+            }
+        })().catch(error => {
+            console.error('Failed to upload local court blocks:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+const isBlockedOnDay = (block: CourtBlock, day: string): boolean => {
+    if (day < block.date) return false;
+    if (block.endDate && day > block.endDate) return false;
+    if (block.weekdays && block.weekdays.length > 0) {
+        return block.weekdays.includes(parseISO(day).getDay());
+    }
+    // One-off blocks without an end date cover a single day
+    return !!block.endDate || day === block.date;
+};
+
+/**
+ * Blocked / maintenance periods per court. They are kept on the server, which rejects bookings
+ * in a blocked window from any device or the customer app; here they close the court in the
+ * booking grid and in availability checks.
+ */
+export const courtBlockService = {
+    async getBlocks(courtId?: string): Promise<CourtBlock[]> {
+        await uploadLegacyBlocks();
+        const response = await apiService.get<{ items: CourtBlock[] }>(
+            courtId ? `${BLOCKS_ENDPOINT}?courtId=${courtId}` : BLOCKS_ENDPOINT,
+            { schema: courtBlockListSchema }
+        );
+        if (response.error) {
+            // Availability checks carry on without blocks; the server still rejects blocked slots
+            console.error('Error fetching court blocks:', response.error);
+            return [];
+        }
+        const blocks = response.data?.items || [];
+        return courtId ? blocks.filter(b => b.courtId === courtId) : blocks;
+    },
+
+    async saveBlock(block: Omit<CourtBlock, 'id' | 'createdAt'> & { id?: string }): Promise<CourtBlock> {
+        const response = block.id
+            ? await apiService.put<CourtBlock>(`${BLOCKS_ENDPOINT}/${block.id}`, block, { schema: courtBlockSchema })
+            : await apiService.post<CourtBlock>(BLOCKS_ENDPOINT, block, { schema: courtBlockSchema });
+        if (response.error || !response.data) {
+            throw response.apiError;
+        }
+        return response.data;
+    },
+
+    async deleteBlock(id: string): Promise<void> {
+        const response = await apiService.delete(`${BLOCKS_ENDPOINT}/${id}`);
+        if (response.error) {
+            throw response.apiError;
+        }
+    },
+
+    /**
+     * Concrete blocked windows starting on any day between dateFrom and dateTo (inclusive)
+     */
+    expandBlocks(blocks: CourtBlock[], dateFrom: Date, dateTo: Date): BlockedPeriod[] {
+        const periods: BlockedPeriod[] = [];
+        const lastDay = format(dateTo, 'yyyy-MM-dd');
+
+        // Start a day early so windows running past midnight into the range are included
+        for (let date = addDays(dateFrom, -1); format(date, 'yyyy-MM-dd') <= lastDay; date = addDays(date, 1)) {
+            const day = format(date, 'yyyy-MM-dd');
+            for (const block of blocks) {
+                if (!isBlockedOnDay(block, day)) continue;
+                const start = new Date(`${day}T${block.startTime}:00`);
+                const end = new Date(`${day}T${block.endTime}:00`);
+                if (end.getTime() <= start.getTime()) end.setDate(end.getDate() + 1);
+                periods.push({ block, courtId: block.courtId, start, end });
+            }
+        }
+        return periods;
+    },
+
+    /**
+     * Blocked windows of one court (or every court) over a date range
+     */
+    async getBlockedPeriods(dateFrom: Date, dateTo: Date, courtId?: string): Promise<BlockedPeriod[]> {
+        const blocks = await this.getBlocks(courtId);
+        return this.expandBlocks(blocks, dateFrom, dateTo);
+    },
+
+    describeBlock(block: CourtBlock): string {
+        const reason = block.note || BLOCK_REASON_LABELS[block.reason];
+        return `${reason} (${block.startTime} - ${block.endTime})`;
+    },
+};
@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { endOfDay, format, isWithinInterval, parseISO, startOfDay } from 'date-fns';
+import { apiService } from './api.service';
+import { dayClosingListSchema, dayClosingSchema } from './apiSchemas';
+import { bookingService } from './booking.service';
+import { courtService } from './court.service';
+import { paymentService, PAYMENT_METHOD_LABELS } from './payment.service';
+import { Booking, BookingStatus, DayClosing, PaymentEntry, PaymentMethod } from '../types/booking';
+
+const CLOSINGS_ENDPOINT = '/api/owner/day-closings';
+// Closings saved before they moved to the server; still listed in the history
+const LEGACY_STORAGE_KEY = 'day_closings';
+
+export interface DayReport {
+    date: string;                    // yyyy-MM-dd
+    payments: PaymentEntry[];
+    totalsByMethod: Record<PaymentMethod, number>;
+    unrecordedPaid: Booking[];       // Marked paid that day without a ledger entry
+    unrecordedPaidAmount: number;
+    totalCollected: number;
+    unpaidCompleted: Booking[];
+    unpaidCompletedAmount: number;
+    bookingsComplete: boolean;       // false when the day's bookings could not all be loaded
+}
+
+export interface CloseDayInput {
+    businessId: string;
+    report: DayReport;
+    countedCash: number;
+    note?: string;
+    closedBy?: string;
+}
+
+const readLegacyClosings = async (): Promise<DayClosing[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+        console.error('Failed to read day closings:', error);
+        return [];
+    }
+};
+
+const generateId = () => `closing-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const emptyTotals = () =>
+    Object.keys(PAYMENT_METHOD_LABELS).reduce(
+        (totals, method) => ({ ...totals, [method]: 0 }),
+        {} as Record<PaymentMethod, number>
+    );
+
+/**
+ * Day-end cash-up: what was collected per payment method against what was counted in the drawer.
+ * Built from the server's bookings and payment ledger, so it covers every device of the business.
+ */
+export const dayClosingService = {
+    async getDayReport(businessId: string, day: Date): Promise<DayReport> {
+        const from = startOfDay(day);
+        const to = endOfDay(day);
+
+        const [courts, facilities, regularBookings, capacityBookings, dayPayments] = await Promise.all([
+            courtService.getCourts(businessId),
+            courtService.getCapacityFacilities(),
+            bookingService.getBookingsInRange(from.toISOString(), to.toISOString()),
+            bookingService.getCapacityBookingsInRange(from.toISOString(), to.toISOString(), businessId),
+            paymentService.getPaymentsBetween(from, to, businessId),
+        ]);
+
+        const courtIds = new Set([
+            ...courts.map(c => c.id),
+            ...facilities.filter(f => f.businessId === businessId).map(f => f.id),
+        ]);
+        const bookings = [...regularBookings.items, ...capacityBookings.items].filter(b => courtIds.has(b.courtId));
+        const bookingIds = bookings.map(b => b.id);
+
+        // Older payments carry no business; they count when they cover this business's bookings of the day
+        const payments = dayPayments.filter(entry =>
+            entry.businessId
+                ? entry.businessId === businessId
+                : entry.bookingIds.some(id => bookingIds.includes(id))
+        );
+
+        const totalsByMethod = emptyTotals();
+        payments.forEach(entry => {
+            totalsByMethod[entry.method] += entry.amount;
+        });
+
+        const ledgered = await paymentService.getPayments(bookingIds);
+        const unrecordedPaid = bookings.filter(b =>
+            b.isPaid
+            && b.paidAt
+            && isWithinInterval(parseISO(b.paidAt), { start: from, end: to })
+            && !ledgered.some(entry => entry.bookingIds.includes(b.id))
+        );
+        const unrecordedPaidAmount = unrecordedPaid.reduce((sum, b) => sum + Number(b.totalPrice || 0), 0);
+
+        const unpaidCompleted = bookings.filter(b => b.status === BookingStatus.COMPLETED && !b.isPaid);
+
+        return {
+            date: format(day, 'yyyy-MM-dd'),
+            payments,
+            totalsByMethod,
+            unrecordedPaid,
+            unrecordedPaidAmount,
+            totalCollected: payments.reduce((sum, entry) => sum + entry.amount, 0) + unrecordedPaidAmount,
+            unpaidCompleted,
+            unpaidCompletedAmount: unpaidCompleted.reduce((sum, b) => sum + Number(b.totalPrice || 0), 0),
+            bookingsComplete: regularBookings.complete && capacityBookings.complete,
+        };
+    },
+
+    async getClosings(businessId: string): Promise<DayClosing[]> {
+        const [response, legacy] = await Promise.all([
+            apiService.get<{ items: DayClosing[] }>(`${CLOSINGS_ENDPOINT}?businessId=${businessId}`, { schema: dayClosingListSchema }),
+            readLegacyClosings(),
+        ]);
+        if (response.error) {
+            throw response.apiError;
+        }
+
+        const closings = response.data?.items || [];
+        return [
+            ...closings,
+            ...legacy.filter(c => c.businessId === businessId && !closings.some(s => s.date === c.date)),
+        ].sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    /**
+     * Closes a day; closing it again replaces the earlier count
+     */
+    async closeDay(input: CloseDayInput): Promise<DayClosing> {
+        const { businessId, report, countedCash, note, closedBy } = input;
+        if (!report.bookingsComplete) {
+            throw new Error('โหลดรายการจองของวันนี้ได้ไม่ครบ กรุณาโหลดใหม่ก่อนปิดยอด');
+        }
+        const expectedCash = report.totalsByMethod.CASH;
+        const closing: DayClosing = {
+            id: generateId(),
+            businessId,
+            date: report.date,
+            totalsByMethod: report.totalsByMethod,
+            unrecordedPaid: report.unrecordedPaidAmount,
+            totalCollected: report.totalCollected,
+            expectedCash,
+            countedCash,
+            variance: countedCash - expectedCash,
+            note: note?.trim() || undefined,
+            paymentCount: report.payments.length,
+            unpaidCompletedCount: report.unpaidCompleted.length,
+            unpaidCompletedAmount: report.unpaidCompletedAmount,
+            closedAt: new Date().toISOString(),
+            closedBy,
+        };
+
+        // One closing per business and day, whichever device closes it
+        const response = await apiService.put<DayClosing>(`${CLOSINGS_ENDPOINT}/${businessId}/${report.date}`, closing, {
+            schema: dayClosingSchema,
+        });
+        if (response.error) {
+            throw response.apiError;
+        }
+        return response.data || closing;
+    },
+};
@@ -0,0 +1,326 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format } from 'date-fns';
+import { apiService } from './api.service';
+import { discountListSchema, discountSchema, promoCodeListSchema, promoCodeSchema } from './apiSchemas';
+import { bookingService } from './booking.service';
+import { offlineQueueService } from './offlineQueue.service';
+import { BookingDiscount, DiscountKind, DiscountLine, PromoCode } from '../types/booking';
+
+const PROMO_CODES_ENDPOINT = '/api/owner/promo-codes';
+const DISCOUNTS_ENDPOINT = '/api/owner/discounts';
+// Codes and discounts recorded before they moved to the server; uploaded once, then removed
+const LEGACY_PROMO_STORAGE_KEY = 'promo_codes';
+const LEGACY_DISCOUNT_STORAGE_KEY = 'booking_discounts';
+
+export const DISCOUNT_KIND_LABELS: Record<DiscountKind, string> = {
+    PERCENT: 'ลดเป็น %',
+    FIXED: 'ลดเป็นบาท',
+    PROMO: 'โค้ดส่วนลด',
+};
+
+export interface ApplyDiscountInput {
+    bookings: Array<{ id: string; totalPrice: number }>; // One booking or a merged group
+    kind: DiscountKind;
+    value: number;       // Ignored for promo codes
+    promoCode?: string;
+    reason?: string;
+    bookingDate: string; // yyyy-MM-dd
+}
+
+const generateId = () => `discount-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Baht taken off a total; never more than the total itself
+ */
+export const calculateDiscountAmount = (type: 'PERCENT' | 'FIXED', value: number, originalAmount: number): number => {
+    const amount = type === 'PERCENT' ? Math.round(originalAmount * value / 100) : Math.round(value);
+    return Math.min(Math.max(0, amount), originalAmount);
+};
+
+/**
+ * Why a promo code cannot be used today, or null when it can. `releasing` is a discount
+ * about to be replaced, whose use of the code does not count against the limit.
+ */
+export const getPromoCodeProblem = (promo: PromoCode | undefined, releasing?: BookingDiscount | null): string | null => {
+    if (!promo) return 'ไม่พบโค้ดส่วนลดนี้';
+    const today = format(new Date(), 'yyyy-MM-dd');
+    if (today < promo.validFrom) return `โค้ดนี้ใช้ได้ตั้งแต่ ${promo.validFrom}`;
+    if (today > promo.validTo) return 'โค้ดนี้หมดอายุแล้ว';
+    const used = promo.usedCount - (releasing?.promoCode === promo.code ? 1 : 0);
+    if (promo.usageLimit !== undefined && used >= promo.usageLimit) return 'โค้ดนี้ถูกใช้ครบจำนวนแล้ว';
+    return null;
+};
+
+// Spread a discounted total over the bookings of a group in proportion to their prices
+const splitAcrossLines = (originals: DiscountLine[], discountedAmount: number): DiscountLine[] => {
+    const originalAmount = originals.reduce((sum, line) => sum + line.originalAmount, 0);
+    let remaining = discountedAmount;
+    return originals.map((line, index) => {
+        const share = index === originals.length - 1
+            ? remaining
+            : originalAmount > 0
+                ? Math.round(discountedAmount * line.originalAmount / originalAmount)
+                : Math.round(discountedAmount / originals.length);
+        remaining -= share;
+        return { ...line, discountedAmount: share };
+    });
+};
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of the codes and discounts that were only ever stored on this device
+const uploadLegacyDiscounts = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const [rawCodes, rawDiscounts] = await Promise.all([
+                AsyncStorage.getItem(LEGACY_PROMO_STORAGE_KEY),
+                AsyncStorage.getItem(LEGACY_DISCOUNT_STORAGE_KEY),
+            ]);
+            if (!rawCodes && !rawDiscounts) return;
+            const codes: PromoCode[] = rawCodes ? JSON.parse(rawCodes) : [];
+            const discounts: BookingDiscount[] = rawDiscounts ? JSON.parse(rawDiscounts) : [];
+
+            let failed = false;
+            for (const promo of codes) {
+                const response = await apiService.put(`${PROMO_CODES_ENDPOINT}/${encodeURIComponent(promo.code)}`, promo);
+                failed = failed || !!response.error;
+            }
+            if (!failed) {
+                const response = await apiService.post(`${DISCOUNTS_ENDPOINT}/import`, { discounts });
+                failed = !!response.error;
+            }
+            if (failed) {
+                legacyUpload = null; // Try again next time
+                return;
+            }
+            await AsyncStorage.multiRemove([LEGACY_PROMO_STORAGE_KEY, LEGACY_DISCOUNT_STORAGE_KEY]);
+        })().catch(error => {
+            console.error('Failed to upload local discounts:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+// Discounts still waiting in the offline outbox, applied over the server's records
+const applyPending = async (discounts: BookingDiscount[]): Promise<BookingDiscount[]> => {
+    const pending = (await offlineQueueService.getItems())
+        .filter(item => item.endpoint.startsWith(DISCOUNTS_ENDPOINT) && item.status !== 'failed');
+    const removedIds = new Set([
+        ...pending
+            .filter(item => item.method === 'DELETE')
+            .map(item => item.endpoint.slice(DISCOUNTS_ENDPOINT.length + 1)),
+        ...pending
+            .filter(item => item.method === 'POST')
+            .flatMap(item => (item.body?.replacesIds || []) as string[]),
+    ]);
+    const ids = new Set(discounts.map(d => d.id));
+    const added = pending
+        .filter(item => item.method === 'POST' && item.body?.discount && !ids.has(item.body.discount.id))
+        .map(item => item.body.discount as BookingDiscount);
+    return [...discounts, ...added].filter(d => !removedIds.has(d.id));
+};
+
+const fetchDiscounts = async (query: string): Promise<BookingDiscount[]> => {
+    await uploadLegacyDiscounts();
+    const response = await apiService.get<{ items: BookingDiscount[] }>(`${DISCOUNTS_ENDPOINT}?${query}`, {
+        schema: discountListSchema,
+    });
+    if (response.error) {
+        console.error('Error fetching discounts:', response.error);
+        throw response.apiError;
+    }
+    return applyPending(response.data?.items || []);
+};
+
+const touches = (discount: BookingDiscount, bookingIds: string[]) =>
+    discount.lines.some(line => bookingIds.includes(line.bookingId));
+
+// Sets booking prices; when some bookings were not updated, the others are put back and it throws
+const updatePrices = async (
+    prices: Array<{ id: string; price: number }>,
+    previousPrices: Record<string, number>
+): Promise<{ queued: boolean }> => {
+    const result = await bookingService.bulkUpdateDetails(prices);
+    if (!result.success) throw new Error('ไม่สามารถแก้ไขราคาการจองได้');
+
+    const failedIds = result.data?.failedIds || [];
+    if (failedIds.length > 0) {
+        const updated = prices.filter(p => !failedIds.includes(p.id));
+        if (updated.length > 0) {
+            await bookingService.bulkUpdateDetails(updated.map(p => ({ id: p.id, price: previousPrices[p.id] })));
+        }
+        throw new Error(`แก้ไขราคาไม่สำเร็จ ${failedIds.length} จาก ${prices.length} รายการ จึงไม่ได้บันทึกส่วนลด`);
+    }
+    return { queued: !!result.queued };
+};
+
+/**
+ * Promo codes and discounts given on bookings. The bookings API only stores the final price,
+ * so the original amount, the discount and its reason are recorded on the server, which also
+ * counts promo code uses so usage limits hold across devices.
+ */
+export const discountService = {
+    async getPromoCodes(): Promise<PromoCode[]> {
+        await uploadLegacyDiscounts();
+        const response = await apiService.get<{ items: PromoCode[] }>(PROMO_CODES_ENDPOINT, { schema: promoCodeListSchema });
+        if (response.error) {
+            console.error('Error fetching promo codes:', response.error);
+            throw response.apiError;
+        }
+        return response.data?.items || [];
+    },
+
+    async savePromoCode(promo: Omit<PromoCode, 'usedCount' | 'createdAt'>): Promise<PromoCode> {
+        const code = normalizePromoCode(promo.code);
+        const response = await apiService.put<PromoCode>(
+            `${PROMO_CODES_ENDPOINT}/${encodeURIComponent(code)}`,
+            { ...promo, code },
+            { schema: promoCodeSchema }
+        );
+        if (response.error || !response.data) {
+            throw response.apiError;
+        }
+        return response.data;
+    },
+
+    async deletePromoCode(code: string): Promise<void> {
+        const response = await apiService.delete(`${PROMO_CODES_ENDPOINT}/${encodeURIComponent(code)}`);
+        if (response.error) {
+            throw response.apiError;
+        }
+    },
+
+    /**
+     * The code as the server knows it, with its current usage; undefined when there is no such code
+     */
+    async findPromoCode(code: string): Promise<PromoCode | undefined> {
+        const response = await apiService.get<PromoCode>(
+            `${PROMO_CODES_ENDPOINT}/${encodeURIComponent(normalizePromoCode(code))}`,
+            { schema: promoCodeSchema }
+        );
+        if (response.status === 404) return undefined;
+        if (response.error || !response.data) {
+            throw response.apiError;
+        }
+        return response.data;
+    },
+
+    async getDiscountsForBookings(bookingIds: string[]): Promise<BookingDiscount[]> {
+        if (bookingIds.length === 0) return [];
+        const discounts = await fetchDiscounts(`bookingIds=${bookingIds.map(encodeURIComponent).join(',')}`);
+        return discounts.filter(d => touches(d, bookingIds));
+    },
+
+    async getDiscountForBooking(bookingId: string): Promise<BookingDiscount | null> {
+        try {
+            const discounts = await discountService.getDiscountsForBookings([bookingId]);
+            return discounts[0] || null;
+        } catch (error) {
+            console.error('Failed to load booking discount:', error);
+            return null;
+        }
+    },
+
+    /**
+     * Total discount given on bookings dated between dateFrom and dateTo (yyyy-MM-dd, inclusive)
+     */
+    async getDiscountsGiven(dateFrom: string, dateTo: string): Promise<{ amount: number; count: number }> {
+        const discounts = await fetchDiscounts(`from=${dateFrom}&to=${dateTo}`);
+        const inRange = discounts.filter(d => d.bookingDate >= dateFrom && d.bookingDate <= dateTo);
+        return {
+            amount: inRange.reduce((sum, d) => sum + d.discountAmount, 0),
+            count: inRange.length,
+        };
+    },
+
+    /**
+     * Discount a booking or merged group: lowers the booking prices and records the original
+     * amounts. A discount already on these bookings is replaced, not stacked. When any booking
+     * of the group cannot be repriced, nothing is changed.
+     */
+    async applyDiscount(input: ApplyDiscountInput): Promise<{ discount: BookingDiscount; queued: boolean }> {
+        const ids = input.bookings.map(b => b.id);
+        const replaced = await discountService.getDiscountsForBookings(ids);
+
+        // Prices on the server are already discounted; start again from the recorded originals
+        const originals: DiscountLine[] = input.bookings.map(b => {
+            const previous = replaced.flatMap(d => d.lines).find(line => line.bookingId === b.id);
+            const originalAmount = previous ? previous.originalAmount : Number(b.totalPrice || 0);
+            return { bookingId: b.id, originalAmount, discountedAmount: originalAmount };
+        });
+        const originalAmount = originals.reduce((sum, line) => sum + line.originalAmount, 0);
+
+        let type: 'PERCENT' | 'FIXED' = input.kind === 'PERCENT' ? 'PERCENT' : 'FIXED';
+        let value = input.value;
+        let promoCode: string | undefined;
+        if (input.kind === 'PROMO') {
+            const promo = await discountService.findPromoCode(input.promoCode || '');
+            const problem = getPromoCodeProblem(promo, replaced[0]);
+            if (problem || !promo) throw new Error(problem || 'ไม่พบโค้ดส่วนลดนี้');
+            type = promo.type;
+            value = promo.value;
+            promoCode = promo.code;
+        }
+
+        const discountAmount = calculateDiscountAmount(type, value, originalAmount);
+        const lines = splitAcrossLines(originals, originalAmount - discountAmount);
+        const currentPrices = Object.fromEntries(input.bookings.map(b => [b.id, Number(b.totalPrice || 0)]));
+
+        const { queued } = await updatePrices(
+            lines.map(line => ({ id: line.bookingId, price: line.discountedAmount })),
+            currentPrices
+        );
+
+        const discount: BookingDiscount = {
+            id: generateId(),
+            kind: input.kind,
+            value,
+            promoCode,
+            reason: input.reason?.trim() || undefined,
+            lines,
+            originalAmount,
+            discountAmount,
+            discountedAmount: originalAmount - discountAmount,
+            bookingDate: input.bookingDate,
+            appliedAt: new Date().toISOString(),
+        };
+
+        // The server replaces the old records and moves promo code usage over in one step
+        const response = await apiService.post<BookingDiscount>(
+            DISCOUNTS_ENDPOINT,
+            { discount, replacesIds: replaced.map(d => d.id) },
+            { schema: discountSchema, queueOffline: { label: `บันทึกส่วนลด ${discountAmount} บาท`, bookingIds: ids } }
+        );
+        if (response.error) {
+            console.error('Error recording discount:', response.error);
+            await bookingService.bulkUpdateDetails(input.bookings.map(b => ({ id: b.id, price: currentPrices[b.id] })));
+            throw response.apiError;
+        }
+
+        return { discount, queued: queued || !!response.queued };
+    },
+
+    /**
+     * Put the original prices back and drop the discount record
+     */
+    async removeDiscount(discount: BookingDiscount): Promise<{ queued: boolean }> {
+        const discountedPrices = Object.fromEntries(discount.lines.map(line => [line.bookingId, line.discountedAmount]));
+        const { queued } = await updatePrices(
+            discount.lines.map(line => ({ id: line.bookingId, price: line.originalAmount })),
+            discountedPrices
+        );
+
+        const response = await apiService.delete(`${DISCOUNTS_ENDPOINT}/${discount.id}`, undefined, {
+            queueOffline: { label: `ยกเลิกส่วนลด ${discount.discountAmount} บาท`, bookingIds: discount.lines.map(line => line.bookingId) },
+        });
+        if (response.error) {
+            console.error('Error removing discount:', response.error);
+            await bookingService.bulkUpdateDetails(discount.lines.map(line => ({ id: line.bookingId, price: line.discountedAmount })));
+            throw response.apiError;
+        }
+        return { queued: queued || !!response.queued };
+    },
+};
@@ -1,4 +1,6 @@
 import { apiService } from './api.service';
+import { CancelledError } from './apiErrors';
+import { memberDetailResponseSchema, membersResponseSchema } from './apiSchemas';
 
 export interface Member {
     id: string;
@@ -52,10 +54,10 @@ export interface MemberStatistics {
 export interface MembersResponse {
     success: boolean;
     members: Member[];
-    total: number;
-    page: number;
+    total?: number | null;
+    page?: number | null;
     limit: number;
-    totalPages: number;
+    totalPages?: number | null;
     businesses: { id: string; name: string }[];
 }
 
@@ -74,6 +76,7 @@ export const memberService = {
         sortOrder?: 'asc' | 'desc';
         search?: string;
         businessId?: string;
+        signal?: AbortSignal;
     }): Promise<MembersResponse> {
         const queryParams = new URLSearchParams({
             page: (params.page || 1).toString(),
@@ -88,11 +91,14 @@ export const memberService = {
         }
 
         const response = await apiService.get<MembersResponse>(
-            `/api/court-owner/members?${queryParams.toString()}`
+            `/api/court-owner/members?${queryParams.toString()}`,
+            { schema: membersResponseSchema, signal: params.signal }
         );
 
         if (response.error) {
-            console.error('Error fetching members:', response.error);
+            if (!(response.apiError instanceof CancelledError)) {
+                console.error('Error fetching members:', response.error);
+            }
             return {
                 success: false,
                 members: [],
@@ -115,11 +121,13 @@ export const memberService = {
         };
     },
 
-    async getMemberDetail(memberId: string): Promise<MemberDetailResponse | null> {
+    async getMemberDetail(memberId: string, signal?: AbortSignal): Promise<MemberDetailResponse | null> {
         const response = await apiService.get<MemberDetailResponse>(
-            `/api/court-owner/members/${memberId}`
+            `/api/court-owner/members/${memberId}`,
+            { schema: memberDetailResponseSchema, signal }
         );
 
+        if (response.apiError instanceof CancelledError) return null;
         if (response.error) {
             console.error('Error fetching member detail:', response.error);
             return null;
@@ -1,12 +1,13 @@
 import { apiService } from './api.service';
+import { notificationsResponseSchema } from './apiSchemas';
 
 export interface Notification {
     id: string;
-    title: string;
-    message: string;
-    type: string;
-    isRead: boolean;
-    createdAt: string;
+    title?: string | null;
+    message?: string | null;
+    type?: string | null;
+    isRead?: boolean | null;
+    createdAt?: string | null;
     data: any;
 }
 
@@ -18,9 +19,14 @@ interface NotificationResponse {
 
 export const notificationService = {
     async getNotifications(limit = 20): Promise<NotificationResponse> {
-        const response = await apiService.get<NotificationResponse>(`/api/court-owner/notifications?limit=${limit}`);
-        if (response.error || !response.data) {
-            throw new Error(response.error || 'Failed to fetch notifications');
+        const response = await apiService.get<NotificationResponse>(`/api/court-owner/notifications?limit=${limit}`, {
+            schema: notificationsResponseSchema,
+        });
+        if (response.error) {
+            throw response.apiError;
+        }
+        if (!response.data) {
+            throw new Error('Failed to fetch notifications');
         }
         return response.data;
     },
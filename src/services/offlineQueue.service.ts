@@ -0,0 +1,156 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// One queue per account, so nothing queued by one account replays with another's token
+const STORAGE_KEY_PREFIX = 'offline_mutation_queue';
+// The single queue kept before it was split per account
+const LEGACY_STORAGE_KEY = 'offline_mutation_queue';
+
+export type OfflineQueueItemStatus = 'pending' | 'syncing' | 'conflict' | 'failed';
+
+export interface OfflineQueueItem {
+    id: string;
+    endpoint: string;
+    method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    body?: any;
+    label: string;          // Human readable description shown to staff
+    bookingIds: string[];   // Bookings touched by this mutation (for UI highlighting)
+    status: OfflineQueueItemStatus;
+    attempts: number;
+    error?: string;
+    createdAt: string;
+    lastAttemptAt?: string;
+}
+
+type Listener = (items: OfflineQueueItem[]) => void;
+
+// In-memory mirror of the signed-in account's queue, loaded lazily on first access
+let accountId: string | null = null;
+let items: OfflineQueueItem[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+const storageKey = (account: string) => `${STORAGE_KEY_PREFIX}:${account}`;
+
+// Items of the old shared queue may belong to any account: kept for staff to review, never replayed as is
+const takeLegacyItems = async (): Promise<OfflineQueueItem[]> => {
+    const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return [];
+    const legacy: OfflineQueueItem[] = JSON.parse(raw);
+    return legacy.map(item => ({
+        ...item,
+        status: 'failed',
+        error: 'บันทึกไว้ก่อนแยกรายการตามบัญชี กรุณาตรวจสอบก่อนส่งใหม่',
+    }));
+};
+
+const load = () => {
+    if (!loadPromise) {
+        const account = accountId;
+        loadPromise = (account
+            ? Promise.all([AsyncStorage.getItem(storageKey(account)), takeLegacyItems()])
+            : Promise.resolve<[string | null, OfflineQueueItem[]]>([null, []])
+        )
+            .then(([raw, legacy]) => {
+                const stored: OfflineQueueItem[] = raw ? JSON.parse(raw) : [];
+                // Anything left "syncing" was interrupted (app killed mid-replay) - retry it
+                items = [...legacy, ...stored].map(item => item.status === 'syncing' ? { ...item, status: 'pending' } : item);
+                if (legacy.length > 0) {
+                    // Only drop the shared queue once its items are saved under this account
+                    return AsyncStorage.setItem(storageKey(account!), JSON.stringify(items))
+                        .then(() => AsyncStorage.removeItem(LEGACY_STORAGE_KEY));
+                }
+            })
+            .catch(error => {
+                console.error('Failed to load offline queue:', error);
+                items = [];
+            });
+    }
+    return loadPromise;
+};
+
+const persist = async () => {
+    try {
+        if (accountId) await AsyncStorage.setItem(storageKey(accountId), JSON.stringify(items));
+    } catch (error) {
+        console.error('Failed to persist offline queue:', error);
+    }
+    listeners.forEach(listener => listener([...items]));
+};
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Persistent, ordered outbox for mutations made while the device is offline.
+ * Replay is driven by apiService; this module only owns storage and state.
+ */
+export const offlineQueueService = {
+    /**
+     * Switches to the queue of the account that signed in, or to none after sign-out.
+     * Items of other accounts stay stored until that account signs in again.
+     */
+    async setAccount(account: string | null): Promise<void> {
+        if (account === accountId) return;
+        accountId = account;
+        items = [];
+        loadPromise = null;
+        await load();
+        listeners.forEach(listener => listener([...items]));
+    },
+
+    async getItems(): Promise<OfflineQueueItem[]> {
+        await load();
+        return [...items];
+    },
+
+    async hasPending(): Promise<boolean> {
+        await load();
+        return items.some(item => item.status === 'pending' || item.status === 'syncing');
+    },
+
+    async enqueue(entry: Pick<OfflineQueueItem, 'endpoint' | 'method' | 'body' | 'label' | 'bookingIds'>): Promise<OfflineQueueItem> {
+        await load();
+        const item: OfflineQueueItem = {
+            ...entry,
+            id: generateId(),
+            status: 'pending',
+            attempts: 0,
+            createdAt: new Date().toISOString(),
+        };
+        items = [...items, item];
+        await persist();
+        return item;
+    },
+
+    async update(id: string, changes: Partial<OfflineQueueItem>): Promise<void> {
+        await load();
+        items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+        await persist();
+    },
+
+    async remove(id: string): Promise<void> {
+        await load();
+        items = items.filter(item => item.id !== id);
+        await persist();
+    },
+
+    /**
+     * Put a conflicted/failed item back in line for the next replay
+     */
+    async retry(id: string): Promise<void> {
+        await this.update(id, { status: 'pending', error: undefined });
+    },
+
+    async clear(): Promise<void> {
+        await load();
+        items = [];
+        await persist();
+    },
+
+    subscribe(listener: Listener): () => void {
+        listeners.add(listener);
+        load().then(() => listener([...items]));
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
@@ -0,0 +1,257 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api.service';
+import { paymentListSchema, paymentSchema } from './apiSchemas';
+import { bookingService } from './booking.service';
+import { offlineQueueService } from './offlineQueue.service';
+import { PaymentEntry, PaymentMethod, PaymentSummary } from '../types/booking';
+
+const PAYMENTS_ENDPOINT = '/api/owner/payments';
+
+// Last ledger entries the server returned, for showing balances while offline
+const CACHE_KEY = 'booking_payments_cache';
+// Entries recorded before the ledger moved to the server; uploaded once, then removed
+const LEGACY_STORAGE_KEY = 'booking_payments';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    CASH: 'เงินสด',
+    PROMPTPAY: 'พร้อมเพย์',
+    CARD: 'บัตร',
+    TRANSFER: 'โอนเงิน',
+};
+
+export const PAYMENT_METHOD_ICONS: Record<PaymentMethod, string> = {
+    CASH: 'cash',
+    PROMPTPAY: 'qrcode',
+    CARD: 'credit-card-outline',
+    TRANSFER: 'bank-transfer',
+};
+
+export interface RecordPaymentInput {
+    bookingIds: string[];
+    businessId?: string;
+    amount: number;
+    method: PaymentMethod;
+    isDeposit: boolean;
+    staff?: string;
+    note?: string;
+}
+
+const readCache = async (): Promise<PaymentEntry[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(CACHE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+        console.error('Failed to read cached payments:', error);
+        return [];
+    }
+};
+
+// Replaces the cached entries of the given bookings with what the server returned
+const updateCache = async (bookingIds: string[], entries: PaymentEntry[]) => {
+    try {
+        const cached = await readCache();
+        const ids = new Set(entries.map(entry => entry.id));
+        const kept = cached.filter(entry => !overlaps(entry, bookingIds) && !ids.has(entry.id));
+        await AsyncStorage.setItem(CACHE_KEY, JSON.stringify([...kept, ...entries]));
+    } catch (error) {
+        console.error('Failed to cache payments:', error);
+    }
+};
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of entries that were only ever stored on this device
+const uploadLegacyPayments = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+            const legacy: PaymentEntry[] = raw ? JSON.parse(raw) : [];
+            const failed: PaymentEntry[] = [];
+            for (const entry of legacy) {
+                const response = await apiService.post(PAYMENTS_ENDPOINT, entry, {
+                    queueOffline: { label: `ส่งบันทึกรับชำระเดิม ${entry.amount} บาท`, bookingIds: entry.bookingIds },
+                });
+                if (response.error) failed.push(entry);
+            }
+            if (failed.length > 0) {
+                await AsyncStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(failed));
+                legacyUpload = null; // Try again next time
+            } else if (raw) {
+                await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+            }
+        })().catch(error => {
+            console.error('Failed to upload local payments:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+// Ledger changes still waiting in the offline outbox, applied over the server's entries
+const applyPending = async (entries: PaymentEntry[]): Promise<PaymentEntry[]> => {
+    const pending = (await offlineQueueService.getItems())
+        .filter(item => item.endpoint.startsWith(PAYMENTS_ENDPOINT) && item.status !== 'failed');
+    const deletedIds = new Set(pending
+        .filter(item => item.method === 'DELETE')
+        .map(item => item.endpoint.slice(PAYMENTS_ENDPOINT.length + 1)));
+    const ids = new Set(entries.map(entry => entry.id));
+    const added = pending
+        .filter(item => item.method === 'POST' && !ids.has(item.body?.id))
+        .map(item => item.body as PaymentEntry);
+    return [...entries, ...added].filter(entry => !deletedIds.has(entry.id));
+};
+
+const sumPaid = (entries: PaymentEntry[]) => entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+const generateId = () => `payment-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const overlaps = (entry: PaymentEntry, bookingIds: string[]) => entry.bookingIds.some(id => bookingIds.includes(id));
+
+/**
+ * Deposit owed on a booking total under a court's deposit rule
+ */
+export const getDepositRequired = (totalDue: number, depositPercent?: number): number =>
+    depositPercent ? Math.round(totalDue * depositPercent / 100) : 0;
+
+/**
+ * Paid and outstanding amounts. Bookings marked paid before the ledger existed have no
+ * entries; they count as paid in full.
+ */
+export const summarizePayments = (
+    entries: PaymentEntry[],
+    totalDue: number,
+    markedPaid: boolean,
+    depositPercent?: number
+): PaymentSummary => {
+    const recorded = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    const paid = entries.length === 0 && markedPaid ? totalDue : recorded;
+    const depositRequired = getDepositRequired(totalDue, depositPercent);
+    return {
+        totalDue,
+        paid,
+        outstanding: Math.max(0, totalDue - paid),
+        depositRequired,
+        depositPaid: paid >= depositRequired,
+    };
+};
+
+/**
+ * Payments taken for bookings, per method, kept in the server's ledger so every device sees
+ * them. The bookings' paid flag follows the ledger: set once the balance is cleared, cleared
+ * again if a payment is removed.
+ */
+export const paymentService = {
+    /**
+     * Ledger entries of the bookings; falls back to the last known entries when the server can't be reached
+     */
+    async getPayments(bookingIds: string[]): Promise<PaymentEntry[]> {
+        if (bookingIds.length === 0) return [];
+        await uploadLegacyPayments();
+
+        const response = await apiService.get<{ items: PaymentEntry[] }>(
+            `${PAYMENTS_ENDPOINT}?bookingIds=${bookingIds.map(encodeURIComponent).join(',')}`,
+            { schema: paymentListSchema }
+        );
+        let entries: PaymentEntry[];
+        if (response.error) {
+            console.error('Error fetching payments:', response.error);
+            entries = (await readCache()).filter(entry => overlaps(entry, bookingIds));
+        } else {
+            entries = response.data?.items || [];
+            await updateCache(bookingIds, entries);
+        }
+
+        return (await applyPending(entries))
+            .filter(entry => overlaps(entry, bookingIds))
+            .sort((a, b) => a.paidAt.localeCompare(b.paidAt));
+    },
+
+    /**
+     * Payments taken between from and to, whatever the bookings' dates, on any device.
+     * With a businessId the server narrows the list to that business's bookings.
+     */
+    async getPaymentsBetween(from: Date, to: Date, businessId?: string): Promise<PaymentEntry[]> {
+        await uploadLegacyPayments();
+
+        const fromIso = from.toISOString();
+        const toIso = to.toISOString();
+        let query = `${PAYMENTS_ENDPOINT}?from=${encodeURIComponent(fromIso)}&to=${encodeURIComponent(toIso)}`;
+        if (businessId) query += `&businessId=${businessId}`;
+        const response = await apiService.get<{ items: PaymentEntry[] }>(query, { schema: paymentListSchema });
+        if (response.error) {
+            throw response.apiError;
+        }
+
+        return (await applyPending(response.data?.items || []))
+            .filter(entry => entry.paidAt >= fromIso && entry.paidAt <= toIso)
+            .sort((a, b) => a.paidAt.localeCompare(b.paidAt));
+    },
+
+    /**
+     * Records a payment. When it clears the balance the bookings are marked paid first; if any of
+     * them can't be marked or the entry can't be stored they are unmarked again, so a failure
+     * leaves neither change.
+     */
+    async recordPayment(input: RecordPaymentInput, totalDue: number): Promise<{ entry: PaymentEntry; fullyPaid: boolean; queued: boolean }> {
+        const previous = await this.getPayments(input.bookingIds);
+        const entry: PaymentEntry = {
+            ...input,
+            id: generateId(),
+            note: input.note?.trim() || undefined,
+            paidAt: new Date().toISOString(),
+        };
+
+        const fullyPaid = sumPaid(previous) + entry.amount >= totalDue;
+        let queued = false;
+        if (fullyPaid) {
+            const result = await bookingService.bulkMarkAsPaid(input.bookingIds);
+            const failedIds = result.data?.failedIds || [];
+            if (!result.success || failedIds.length > 0) {
+                // Some lines stayed unpaid: undo the rest so the payment is recorded all or nothing
+                const markedIds = result.success ? input.bookingIds.filter(id => !failedIds.includes(id)) : [];
+                if (markedIds.length > 0) {
+                    await bookingService.bulkUnmarkAsPaid(markedIds)
+                        .catch(rollbackError => console.error('Failed to unmark bookings after partial payment:', rollbackError));
+                }
+                throw new Error('ไม่สามารถบันทึกสถานะชำระเงินของการจองได้');
+            }
+            queued = !!result.queued;
+        }
+
+        const response = await apiService.post<PaymentEntry>(PAYMENTS_ENDPOINT, entry, {
+            schema: paymentSchema,
+            queueOffline: { label: `บันทึกรับชำระ ${entry.amount} บาท`, bookingIds: input.bookingIds },
+        });
+        if (response.error) {
+            console.error('Error recording payment:', response.error);
+            if (fullyPaid) {
+                await bookingService.bulkUnmarkAsPaid(input.bookingIds)
+                    .catch(rollbackError => console.error('Failed to unmark bookings after payment error:', rollbackError));
+            }
+            throw response.apiError;
+        }
+
+        await updateCache(input.bookingIds, [...previous, entry]);
+        return { entry, fullyPaid, queued: queued || !!response.queued };
+    },
+
+    async deletePayment(entry: PaymentEntry, totalDue: number): Promise<{ fullyPaid: boolean }> {
+        const payments = await this.getPayments(entry.bookingIds);
+        const response = await apiService.delete(`${PAYMENTS_ENDPOINT}/${entry.id}`, undefined, {
+            queueOffline: { label: `ลบรายการรับชำระ ${entry.amount} บาท`, bookingIds: entry.bookingIds },
+        });
+        if (response.error) {
+            console.error('Error deleting payment:', response.error);
+            throw response.apiError;
+        }
+        await updateCache(entry.bookingIds, payments.filter(e => e.id !== entry.id));
+
+        const paidBefore = sumPaid(payments);
+        const paidAfter = paidBefore - entry.amount;
+        const fullyPaid = paidAfter >= totalDue;
+        if (paidBefore >= totalDue && !fullyPaid) {
+            await bookingService.bulkUnmarkAsPaid(entry.bookingIds);
+        }
+        return { fullyPaid };
+    },
+};
@@ -0,0 +1,20 @@
+import { courtService } from './court.service';
+import { PricingRules } from '../types/court';
+
+export const EMPTY_PRICING_RULES: PricingRules = {
+    bands: [],
+    holidays: [],
+    memberTiers: [],
+};
+
+/**
+ * Pricing rules per court. They are saved on the court record through the courts API
+ * (see courtService.updateCourt), so every device and the customer app price alike.
+ */
+export const pricingRulesService = {
+    async getRules(courtId: string): Promise<PricingRules> {
+        const court = (await courtService.getAllOwnerCourts()).find(c => c.id === courtId)
+            || (await courtService.getCapacityFacilities()).find(c => c.id === courtId);
+        return court?.pricingRules || EMPTY_PRICING_RULES;
+    },
+};
@@ -0,0 +1,255 @@
+import { AppState } from 'react-native';
+import { authService } from './auth.service';
+import { bookingAuditService } from './bookingAudit.service';
+import { responseCacheService } from './responseCache.service';
+import { toCapacityBooking } from './booking.service';
+import { bookingSchema, capacityBookingSchema, notificationSchema } from './apiSchemas';
+import { Notification } from './notification.service';
+import { Booking } from '../types/booking';
+import env from '../config/env';
+
+const API_BASE_URL = env.apiUrl;
+const SOCKET_URL = `${API_BASE_URL.replace(/^http/, 'ws')}/api/owner/realtime`;
+const STREAM_URL = `${API_BASE_URL}/api/owner/realtime/stream`;
+
+// Reconnect backoff: 1s, 2s, 4s ... capped
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Server closes the socket with this code when the access token is rejected
+const AUTH_CLOSE_CODE = 4001;
+
+export type BookingEventType = 'booking.created' | 'booking.updated' | 'booking.cancelled';
+
+export type RealtimeEvent =
+    | { type: BookingEventType; booking: Booking }
+    | { type: 'notification.created'; notification: Notification; unreadCount?: number }
+    // Sent after every connect; `resumed` when events may have been missed while disconnected
+    | { type: 'connected'; resumed: boolean };
+
+type Listener = (event: RealtimeEvent) => void;
+
+interface Connection {
+    close: () => void;
+}
+
+const listeners = new Set<Listener>();
+let connection: Connection | null = null;
+let connected = false;
+let everConnected = false;
+let running = false;
+let attempt = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const emit = (event: RealtimeEvent) => {
+    listeners.forEach(listener => listener(event));
+};
+
+// Capacity bookings arrive in their API shape (entryTime / exitTime), court bookings as the API returns them
+const toPushedBooking = (data: unknown): Booking | null => {
+    const capacity = capacityBookingSchema.safeParse(data);
+    if (capacity.success) return toCapacityBooking(capacity.data);
+    // Like apiService, a payload that passes its schema is used as sent
+    return bookingSchema.safeParse(data).success ? data as Booking : null;
+};
+
+// Messages are `{ type, data }`; payloads that don't match their schema are dropped
+const toEvent = (type: string, data: unknown, unreadCount?: number): RealtimeEvent | null => {
+    if (!data) return null;
+    if (type === 'booking.created' || type === 'booking.updated' || type === 'booking.cancelled') {
+        const booking = toPushedBooking(data);
+        if (!booking) {
+            console.error(`Malformed ${type} payload`);
+            return null;
+        }
+        bookingAuditService.remember([booking]);
+        // Booking counts and revenue changed, possibly by another device
+        responseCacheService.invalidate(['/api/owner/analytics']);
+        return { type, booking };
+    }
+    if (type === 'notification.created') {
+        if (!notificationSchema.safeParse(data).success) {
+            console.error(`Malformed ${type} payload`);
+            return null;
+        }
+        return { type, notification: data as Notification, unreadCount };
+    }
+    return null;
+};
+
+const handleMessage = (raw: string, eventType?: string) => {
+    try {
+        const message = JSON.parse(raw);
+        const event = eventType
+            ? toEvent(eventType, message)
+            : toEvent(message.type, message.data, message.unreadCount);
+        if (event) emit(event);
+    } catch (error) {
+        console.error('Invalid realtime message:', error);
+    }
+};
+
+const handleOpen = () => {
+    attempt = 0;
+    connected = true;
+    emit({ type: 'connected', resumed: everConnected });
+    everConnected = true;
+};
+
+const scheduleReconnect = async (authRejected: boolean) => {
+    connection = null;
+    connected = false;
+    if (!running) return;
+
+    if (authRejected && !(await authService.refreshAccessToken())) {
+        // Signed out; apiService's auth failure handling takes it from here
+        running = false;
+        return;
+    }
+
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+    attempt++;
+    reconnectTimer = setTimeout(connect, delay);
+};
+
+/**
+ * Server-sent events over XMLHttpRequest, which React Native streams incrementally
+ * (there is no EventSource)
+ */
+const openStream = (token: string): Connection => {
+    const xhr = new XMLHttpRequest();
+    let read = 0;
+    let buffer = '';
+    let closed = false;
+
+    xhr.open('GET', STREAM_URL);
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+
+    xhr.onreadystatechange = () => {
+        if (xhr.readyState === 2 && xhr.status === 200) handleOpen();
+        if (xhr.readyState === 4 && !closed) {
+            closed = true;
+            scheduleReconnect(xhr.status === 401);
+        }
+    };
+    xhr.onprogress = () => {
+        buffer += xhr.responseText.slice(read);
+        read = xhr.responseText.length;
+
+        // Events are separated by a blank line; keep a trailing partial event for the next chunk
+        const blocks = buffer.split(/\r?\n\r?\n/);
+        buffer = blocks.pop() || '';
+        blocks.forEach(block => {
+            let eventType: string | undefined;
+            const data: string[] = [];
+            block.split(/\r?\n/).forEach(line => {
+                if (line.startsWith('event:')) eventType = line.slice(6).trim();
+                else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+            });
+            if (data.length > 0) handleMessage(data.join('\n'), eventType);
+        });
+    };
+    xhr.send();
+
+    return {
+        close: () => {
+            closed = true;
+            xhr.abort();
+        },
+    };
+};
+
+const openSocket = (token: string): Connection => {
+    const socket = new WebSocket(SOCKET_URL, null, { headers: { Authorization: `Bearer ${token}` } });
+    let opened = false;
+    let closed = false;
+
+    socket.onopen = () => {
+        opened = true;
+        handleOpen();
+    };
+    socket.onmessage = event => handleMessage(String(event.data));
+    socket.onclose = event => {
+        if (closed) return;
+        closed = true;
+        if (!opened && event.code !== AUTH_CLOSE_CODE) {
+            // WebSocket blocked (proxy, captive network): fall back to server-sent events
+            connection = openStream(token);
+            return;
+        }
+        scheduleReconnect(event.code === AUTH_CLOSE_CODE);
+    };
+
+    return {
+        close: () => {
+            closed = true;
+            socket.close();
+        },
+    };
+};
+
+const connect = async () => {
+    reconnectTimer = null;
+    if (!running || connection) return;
+
+    const token = await authService.getStoredAccessToken();
+    if (!running || connection) return;
+    if (!token) {
+        scheduleReconnect(true);
+        return;
+    }
+    connection = openSocket(token);
+};
+
+const disconnect = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    connection?.close();
+    connection = null;
+    connected = false;
+};
+
+/**
+ * Pushed booking and notification changes. One connection is shared by all subscribers;
+ * it uses a WebSocket, falls back to server-sent events, and reconnects with backoff.
+ */
+export const realtimeService = {
+    /**
+     * Connects while the app is in the foreground. Returns a cleanup function.
+     */
+    start(): () => void {
+        running = true;
+        attempt = 0;
+        everConnected = false;
+        connect();
+
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'active') {
+                attempt = 0;
+                connect();
+            } else if (state === 'background') {
+                disconnect();
+            }
+        });
+        return () => {
+            running = false;
+            subscription.remove();
+            disconnect();
+        };
+    },
+
+    /**
+     * Whether pushed changes are arriving right now; callers poll while they are not
+     */
+    isConnected(): boolean {
+        return connected;
+    },
+
+    subscribe(listener: Listener): () => void {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
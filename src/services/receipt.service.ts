@@ -0,0 +1,294 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format, parseISO, addHours, differenceInMinutes } from 'date-fns';
+import { apiService } from './api.service';
+import { MalformedResponseError, NetworkError, TimeoutError } from './apiErrors';
+import { receiptListSchema, receiptNumberSchema, receiptSchema } from './apiSchemas';
+import { businessService } from './business.service';
+import { businessSettingsService } from './businessSettings.service';
+import { discountService } from './discount.service';
+import { offlineQueueService } from './offlineQueue.service';
+import { paymentService } from './payment.service';
+import { Booking, Receipt, ReceiptKind, ReceiptLine, ReceiptParty } from '../types/booking';
+
+const RECEIPTS_ENDPOINT = '/api/owner/receipts';
+// Receipts issued before they moved to the server; uploaded once, then removed
+const LEGACY_STORAGE_KEY = 'booking_receipts';
+// Numbers this device handed out offline, so its offline sequence never repeats
+const OFFLINE_NUMBERS_KEY = 'receipt_offline_numbers';
+const DEVICE_CODE_KEY = 'receipt_device_code';
+
+// Thai VAT, included in booking prices
+export const VAT_RATE = 7;
+
+export const RECEIPT_KIND_LABELS: Record<ReceiptKind, string> = {
+    RECEIPT: 'ใบเสร็จรับเงิน',
+    TAX_INVOICE: 'ใบกำกับภาษี/ใบเสร็จรับเงิน',
+};
+
+const NUMBER_PREFIXES: Record<ReceiptKind, string> = {
+    RECEIPT: 'RC',
+    TAX_INVOICE: 'TX',
+};
+
+export interface IssueReceiptInput {
+    businessId: string;
+    kind: ReceiptKind;
+    bookings: Booking[];     // One booking or a merged group
+    customer: ReceiptParty;
+    issuedBy?: string;
+}
+
+type IssuedNumber = Pick<Receipt, 'businessId' | 'number'>;
+
+const readOfflineNumbers = async (): Promise<IssuedNumber[]> => {
+    const raw = await AsyncStorage.getItem(OFFLINE_NUMBERS_KEY);
+    return raw ? JSON.parse(raw) : [];
+};
+
+const rememberOfflineNumbers = async (numbers: IssuedNumber[]) => {
+    const stored = await readOfflineNumbers();
+    await AsyncStorage.setItem(OFFLINE_NUMBERS_KEY, JSON.stringify([...stored, ...numbers]));
+};
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of receipts that were only ever stored on this device
+const uploadLegacyReceipts = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!raw) return;
+            const receipts: Receipt[] = JSON.parse(raw);
+            const response = await apiService.post(`${RECEIPTS_ENDPOINT}/import`, { receipts });
+            if (response.error) {
+                legacyUpload = null; // Try again next time
+                return;
+            }
+            // Their offline numbers still count towards this device's sequence
+            await rememberOfflineNumbers(receipts.map(r => ({ businessId: r.businessId, number: r.number })));
+            await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+        })().catch(error => {
+            console.error('Failed to upload local receipts:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+// Receipts issued or voided offline but not yet synced, so reprints show them straight away
+const applyPending = async (receipts: Receipt[]): Promise<Receipt[]> => {
+    const pending = (await offlineQueueService.getItems())
+        .filter(item => item.endpoint.startsWith(RECEIPTS_ENDPOINT) && item.status !== 'failed');
+    const ids = new Set(receipts.map(receipt => receipt.id));
+    const added = pending
+        .filter(item => item.method === 'POST' && item.endpoint === RECEIPTS_ENDPOINT && !ids.has(item.body?.id))
+        .map(item => item.body as Receipt);
+    return [...receipts, ...added].map(receipt => {
+        const voided = pending.find(item => item.endpoint === `${RECEIPTS_ENDPOINT}/${receipt.id}/void`);
+        return voided ? { ...receipt, voidedAt: voided.body?.voidedAt } : receipt;
+    });
+};
+
+const generateId = () => `receipt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const roundSatang = (amount: number) => Math.round(amount * 100) / 100;
+
+// Random code of this device, generated once; keeps offline numbers of different tablets apart
+const getDeviceCode = async (): Promise<string> => {
+    const stored = await AsyncStorage.getItem(DEVICE_CODE_KEY);
+    if (stored) return stored;
+    const code = Math.random().toString(36).slice(2, 6).toUpperCase().padEnd(4, '0');
+    await AsyncStorage.setItem(DEVICE_CODE_KEY, code);
+    return code;
+};
+
+// Running number from the server's sequence for the business, kind and year, shared by all devices
+const allocateNumber = async (businessId: string, kind: ReceiptKind, issuedAt: Date): Promise<string> => {
+    const endpoint = '/api/owner/receipts/numbers';
+    const response = await apiService.post<{ number: string }>(
+        endpoint,
+        { businessId, kind, year: issuedAt.getFullYear() },
+        { schema: receiptNumberSchema }
+    );
+    if (response.error) throw response.apiError;
+    if (!response.data?.number) throw new MalformedResponseError(endpoint, response.status, ['number: missing']);
+    return response.data.number;
+};
+
+/**
+ * Running number for a receipt issued while offline: "RC{yyyy}-{device}-NNNNN", counted per
+ * device so two tablets never issue the same number. Voided receipts keep their numbers.
+ */
+export const getOfflineReceiptNumber = (
+    receipts: IssuedNumber[],
+    businessId: string,
+    kind: ReceiptKind,
+    issuedAt: Date,
+    deviceCode: string
+): string => {
+    const prefix = `${NUMBER_PREFIXES[kind]}${format(issuedAt, 'yyyy')}-${deviceCode}-`;
+    const last = receipts
+        .filter(r => r.businessId === businessId && r.number.startsWith(prefix))
+        .reduce((max, r) => Math.max(max, Number(r.number.slice(prefix.length)) || 0), 0);
+    return `${prefix}${String(last + 1).padStart(5, '0')}`;
+};
+
+/**
+ * VAT included in a total, split out as the tax invoice requires
+ */
+export const splitVat = (total: number, vatRate: number): { vatAmount: number; amountBeforeVat: number } => {
+    const amountBeforeVat = roundSatang(total * 100 / (100 + vatRate));
+    return { vatAmount: roundSatang(total - amountBeforeVat), amountBeforeVat };
+};
+
+/**
+ * One line per hour played; the booking's price is shared by minutes and the last line
+ * takes the rounding
+ */
+export const buildReceiptLines = (booking: Booking, originalAmount: number): ReceiptLine[] => {
+    const start = parseISO(booking.timeSlotStart);
+    const end = parseISO(booking.timeSlotEnd);
+    const totalMinutes = Math.max(1, differenceInMinutes(end, start));
+    const courtName = booking.court?.name || 'สนาม';
+    const lines: ReceiptLine[] = [];
+
+    let allocated = 0;
+    for (let from = start; from < end; from = addHours(from, 1)) {
+        const to = addHours(from, 1) < end ? addHours(from, 1) : end;
+        const isLast = to.getTime() === end.getTime();
+        const amount = isLast
+            ? roundSatang(originalAmount - allocated)
+            : roundSatang(originalAmount * differenceInMinutes(to, from) / totalMinutes);
+        allocated += amount;
+        lines.push({
+            description: `${courtName} ${format(from, 'HH:mm')} - ${format(to, 'HH:mm')}`,
+            date: format(from, 'yyyy-MM-dd'),
+            amount,
+        });
+    }
+    return lines;
+};
+
+/**
+ * Receipts and tax invoices for bookings. Numbers come from the server, which also keeps every
+ * receipt and void next to its number, so reprints on any device carry the same number.
+ */
+export const receiptService = {
+    async getReceipts(bookingIds: string[]): Promise<Receipt[]> {
+        await uploadLegacyReceipts();
+        const response = await apiService.get<{ items: Receipt[] }>(
+            `${RECEIPTS_ENDPOINT}?bookingIds=${bookingIds.join(',')}`,
+            { schema: receiptListSchema }
+        );
+        if (response.error) {
+            throw response.apiError;
+        }
+        return (await applyPending(response.data?.items || []))
+            .filter(r => r.bookingIds.some(id => bookingIds.includes(id)))
+            .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+    },
+
+    async issueReceipt(input: IssueReceiptInput): Promise<Receipt> {
+        const { businessId, kind, bookings, customer, issuedBy } = input;
+        const bookingIds = bookings.map(b => b.id);
+        const [{ businesses }, settings, payments, discounts] = await Promise.all([
+            businessService.getBusinesses(),
+            businessSettingsService.getSettings(businessId),
+            paymentService.getPayments(bookingIds),
+            discountService.getDiscountsForBookings(bookingIds),
+        ]);
+
+        if (kind === 'TAX_INVOICE' && !settings.vatRegistered) {
+            throw new Error('ธุรกิจนี้ยังไม่ได้จดทะเบียนภาษีมูลค่าเพิ่ม');
+        }
+
+        // Lines of discounts that touch this group, once each
+        const discountLines = discounts
+            .filter((d, index, all) => all.findIndex(o => o.id === d.id) === index)
+            .flatMap(d => d.lines)
+            .filter(line => bookingIds.includes(line.bookingId));
+
+        const lines = bookings
+            .slice()
+            .sort((a, b) => a.timeSlotStart.localeCompare(b.timeSlotStart))
+            .flatMap(booking => {
+                const discounted = discountLines.find(line => line.bookingId === booking.id);
+                return buildReceiptLines(booking, discounted ? discounted.originalAmount : Number(booking.totalPrice || 0));
+            });
+
+        const subtotal = roundSatang(lines.reduce((sum, line) => sum + line.amount, 0));
+        const discount = roundSatang(discountLines.reduce((sum, line) => sum + line.originalAmount - line.discountedAmount, 0));
+        const total = roundSatang(subtotal - discount);
+        const vatRate = settings.vatRegistered ? VAT_RATE : 0;
+        const business = businesses.find(b => b.id === businessId);
+        const issuedAt = new Date();
+
+        let number: string;
+        let offline = false;
+        try {
+            number = await allocateNumber(businessId, kind, issuedAt);
+        } catch (error) {
+            if (!(error instanceof NetworkError || error instanceof TimeoutError)) throw error;
+            // Tax invoice numbers are a legal sequence: only the server may hand them out
+            if (kind === 'TAX_INVOICE') throw new Error('ออกใบกำกับภาษีได้เฉพาะเมื่อเชื่อมต่ออินเทอร์เน็ต');
+            number = getOfflineReceiptNumber(await readOfflineNumbers(), businessId, kind, issuedAt, await getDeviceCode());
+            offline = true;
+        }
+
+        const receipt: Receipt = {
+            id: generateId(),
+            number,
+            kind,
+            businessId,
+            bookingIds,
+            seller: {
+                name: business?.name || '',
+                address: business?.address,
+                taxId: settings.taxId,
+            },
+            customer: {
+                name: customer.name.trim(),
+                address: customer.address?.trim() || undefined,
+                taxId: customer.taxId?.replace(/\D/g, '') || undefined,
+                phone: customer.phone?.trim() || undefined,
+            },
+            lines,
+            subtotal,
+            discount,
+            total,
+            vatRate,
+            ...(vatRate ? splitVat(total, vatRate) : { vatAmount: 0, amountBeforeVat: total }),
+            payments: payments.map(p => ({ method: p.method, amount: p.amount, paidAt: p.paidAt })),
+            // Bookings marked paid before the ledger existed count as paid in full
+            paid: payments.length || !bookings.every(b => b.isPaid)
+                ? roundSatang(payments.reduce((sum, p) => sum + p.amount, 0))
+                : total,
+            issuedAt: issuedAt.toISOString(),
+            issuedBy,
+        };
+
+        if (offline) await rememberOfflineNumbers([{ businessId, number }]);
+        const response = await apiService.post<Receipt>(RECEIPTS_ENDPOINT, receipt, {
+            schema: receiptSchema,
+            queueOffline: { label: `ออก${RECEIPT_KIND_LABELS[kind]} ${number}`, bookingIds },
+        });
+        if (response.error) {
+            console.error('Error saving receipt:', response.error);
+            throw response.apiError;
+        }
+        return receipt;
+    },
+
+    async voidReceipt(receipt: Receipt): Promise<Receipt> {
+        const voidedAt = new Date().toISOString();
+        const response = await apiService.post(`${RECEIPTS_ENDPOINT}/${receipt.id}/void`, { voidedAt }, {
+            schema: receiptSchema,
+            queueOffline: { label: `ยกเลิกเอกสาร ${receipt.number}`, bookingIds: receipt.bookingIds },
+        });
+        if (response.error) {
+            console.error('Error voiding receipt:', response.error);
+            throw response.apiError;
+        }
+        return { ...receipt, voidedAt };
+    },
+};
@@ -0,0 +1,264 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format } from 'date-fns';
+import { apiService } from './api.service';
+import { bookingSeriesListSchema, bookingSeriesSchema } from './apiSchemas';
+import { bookingAuditService, formatAuditTime } from './bookingAudit.service';
+import { bookingService } from './booking.service';
+import { courtBlockService } from './courtBlock.service';
+import { Booking, BookingStatus } from '../types/booking';
+import { CourtBlock } from '../types/court';
+import { generateOccurrenceDates, RecurrenceRule } from '../utils/recurrence';
+import { getBookingRange } from '../utils/pricing';
+
+const SERIES_ENDPOINT = '/api/owner/booking-series';
+// Series created before they moved to the server; uploaded once, then removed
+const LEGACY_STORAGE_KEY = 'recurring_booking_series';
+
+export type SeriesScope = 'THIS' | 'FOLLOWING' | 'ALL';
+
+export interface SeriesOccurrence {
+    date: string; // yyyy-MM-dd
+    bookingId: string | null;
+    status: 'created' | 'skipped' | 'cancelled';
+}
+
+export interface BookingSeries {
+    id: string;
+    courtId: string;
+    customerName: string;
+    customerPhone: string;
+    serviceUserId?: string;
+    startTime: string; // HH:mm
+    endTime: string;   // HH:mm
+    price?: number;
+    status?: string;
+    rule: RecurrenceRule;
+    occurrences: SeriesOccurrence[];
+    createdAt: string;
+}
+
+export interface OccurrencePreview {
+    date: string;
+    conflictingBooking: Booking | null;
+    blockedBy: CourtBlock | null; // Court is closed for maintenance / an event
+}
+
+export interface CreateSeriesPayload {
+    courtId: string;
+    startDate: string;
+    startTime: string;
+    endTime: string;
+    customerName: string;
+    customerPhone: string;
+    serviceUserId?: string;
+    price?: number;
+    status?: string;
+}
+
+export type SeriesChanges = Pick<CreateSeriesPayload, 'courtId' | 'startTime' | 'endTime' | 'customerName' | 'customerPhone' | 'serviceUserId' | 'price' | 'status'>;
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of series that were only ever stored on this device, so the server can link their bookings
+const uploadLegacySeries = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!raw) return;
+            const series: BookingSeries[] = JSON.parse(raw);
+            const response = await apiService.post(`${SERIES_ENDPOINT}/import`, { series });
+            if (response.error) {
+                legacyUpload = null; // Try again next time
+                return;
+            }
+            await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+        })().catch(error => {
+            console.error('Failed to upload local booking series:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+/**
+ * Recurring booking series for regular customers. Each occurrence is a normal booking; the series
+ * that links them is kept on the server, which creates all occurrences of a new series in one go.
+ */
+export const recurringBookingService = {
+    async getSeriesForBooking(bookingId: string): Promise<BookingSeries | null> {
+        await uploadLegacySeries();
+        const response = await apiService.get<{ items: BookingSeries[] }>(
+            `${SERIES_ENDPOINT}?bookingId=${bookingId}`,
+            { schema: bookingSeriesListSchema }
+        );
+        if (response.error) {
+            console.error('Error fetching booking series:', response.error);
+            return null;
+        }
+        return response.data?.items[0] || null;
+    },
+
+    /**
+     * Generate occurrence dates for a rule and flag the ones that overlap existing bookings
+     * or blocked periods of the court
+     */
+    async previewOccurrences(
+        payload: Pick<CreateSeriesPayload, 'courtId' | 'startDate' | 'startTime' | 'endTime'>,
+        rule: RecurrenceRule
+    ): Promise<OccurrencePreview[]> {
+        const dates = generateOccurrenceDates(payload.startDate, rule);
+        if (dates.length === 0) return [];
+
+        const rangeFrom = new Date(`${dates[0]}T00:00:00`);
+        const rangeTo = new Date(`${dates[dates.length - 1]}T23:59:59`);
+        rangeTo.setDate(rangeTo.getDate() + 1); // Overnight occurrences
+
+        const range = await bookingService.getBookingsInRange(rangeFrom.toISOString(), rangeTo.toISOString(), payload.courtId);
+        if (!range.complete) {
+            // A partial list would report conflicting dates as free
+            throw new Error('Existing bookings for the series could not be fully loaded');
+        }
+        const existing = range.items.filter(b =>
+            (b.court?.id || b.courtId) === payload.courtId &&
+            b.status !== BookingStatus.CANCELLED &&
+            b.status !== BookingStatus.NO_SHOW
+        );
+        const blockedPeriods = await courtBlockService.getBlockedPeriods(rangeFrom, rangeTo, payload.courtId);
+
+        return dates.map(date => {
+            const { start, end } = getBookingRange(date, payload.startTime, payload.endTime);
+            const conflictingBooking = existing.find(b =>
+                new Date(b.timeSlotStart).getTime() < end.getTime() &&
+                new Date(b.timeSlotEnd).getTime() > start.getTime()
+            );
+            const blockedPeriod = blockedPeriods.find(p =>
+                p.start.getTime() < end.getTime() &&
+                p.end.getTime() > start.getTime()
+            );
+            return { date, conflictingBooking: conflictingBooking || null, blockedBy: blockedPeriod?.block || null };
+        });
+    },
+
+    /**
+     * Create every non-conflicting occurrence and the series in a single request: either all of
+     * them are booked or none are. Offline, the request waits in the outbox and the server links
+     * the occurrences once it is replayed.
+     * priceForDate prices each occurrence on its own (weekend / holiday rates); otherwise payload.price is used.
+     */
+    async createSeries(payload: CreateSeriesPayload, rule: RecurrenceRule, priceForDate?: (date: string) => number): Promise<{
+        series: BookingSeries | null;
+        createdCount: number;
+        skippedCount: number;
+        queued: boolean;
+    }> {
+        const preview = await this.previewOccurrences(payload, rule);
+        const dates = preview.filter(o => !o.conflictingBooking && !o.blockedBy).map(o => o.date);
+        const skippedDates = preview.filter(o => o.conflictingBooking || o.blockedBy).map(o => o.date);
+        if (dates.length === 0) return { series: null, createdCount: 0, skippedCount: skippedDates.length, queued: false };
+
+        const { startDate, ...template } = payload;
+        const response = await apiService.post<BookingSeries>(SERIES_ENDPOINT, {
+            ...template,
+            rule,
+            occurrences: dates.map(date => ({ date, price: priceForDate ? priceForDate(date) : payload.price })),
+            skippedDates,
+        }, {
+            schema: bookingSeriesSchema,
+            queueOffline: { label: `สร้างการจองประจำ ${payload.customerName} ${startDate} ${payload.startTime}-${payload.endTime}` }
+        });
+
+        if (response.error) {
+            console.error('Error creating booking series:', response.error);
+            throw response.apiError;
+        }
+
+        const series = response.data || null;
+        if (series) {
+            await bookingAuditService.record('CREATED', series.occurrences
+                .filter(o => o.bookingId && o.status === 'created')
+                .map(o => ({
+                    id: o.bookingId!,
+                    after: {
+                        courtId: series.courtId,
+                        time: formatAuditTime(o.date, series.startTime, series.endTime),
+                        customerName: series.customerName,
+                        customerPhone: series.customerPhone,
+                        status: series.status,
+                    },
+                })));
+        }
+
+        return { series, createdCount: dates.length, skippedCount: skippedDates.length, queued: !!response.queued };
+    },
+
+    /**
+     * Occurrences targeted by a scope, relative to the occurrence the staff opened.
+     * The whole series only covers occurrences from today onwards - past ones are history.
+     */
+    getScopeOccurrences(series: BookingSeries, scope: SeriesScope, bookingId: string): SeriesOccurrence[] {
+        const active = series.occurrences.filter(o => o.bookingId && o.status === 'created');
+        if (scope === 'THIS') return active.filter(o => o.bookingId === bookingId);
+
+        const fromDate = scope === 'FOLLOWING'
+            ? series.occurrences.find(o => o.bookingId === bookingId)?.date
+            : format(new Date(), 'yyyy-MM-dd');
+        return active.filter(o => !fromDate || o.date >= fromDate);
+    },
+
+    /**
+     * Apply the same time / court / price / customer changes to part of a series
+     */
+    async updateSeries(
+        series: BookingSeries,
+        scope: SeriesScope,
+        bookingId: string,
+        changes: SeriesChanges
+    ): Promise<{ updatedCount: number; queued: boolean }> {
+        const targets = this.getScopeOccurrences(series, scope, bookingId);
+        if (targets.length === 0) return { updatedCount: 0, queued: false };
+
+        const res = await bookingService.bulkUpdateDetails(targets.map(o => ({
+            id: o.bookingId!,
+            date: o.date,
+            ...changes,
+        })));
+
+        // Future occurrences follow the new template; fields left out keep their stored value
+        if (scope !== 'THIS') {
+            const template = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+            const response = await apiService.patch(`${SERIES_ENDPOINT}/${series.id}`, template, {
+                schema: bookingSeriesSchema,
+                queueOffline: { label: 'แก้ไขการจองประจำ', bookingIds: targets.map(o => o.bookingId!) }
+            });
+            if (response.error) {
+                console.error('Error updating booking series:', response.error);
+                throw response.apiError;
+            }
+        }
+
+        return { updatedCount: res.data?.successCount ?? targets.length, queued: !!res.queued };
+    },
+
+    async cancelSeries(series: BookingSeries, scope: SeriesScope, bookingId: string): Promise<{ cancelledCount: number; failedCount: number; queued: boolean }> {
+        const targets = this.getScopeOccurrences(series, scope, bookingId);
+        if (targets.length === 0) return { cancelledCount: 0, failedCount: 0, queued: false };
+
+        const ids = targets.map(o => o.bookingId!);
+        const res = await bookingService.bulkUpdateStatus(ids, 'CANCELLED', 'ยกเลิกการจองประจำโดยเจ้าของสนาม');
+        // Only occurrences whose booking was actually cancelled leave the series
+        const cancelledIds = ids.filter(id => !res.data?.failedIds.includes(id));
+
+        if (cancelledIds.length > 0) {
+            const response = await apiService.post(`${SERIES_ENDPOINT}/${series.id}/cancel`, { bookingIds: cancelledIds }, {
+                schema: bookingSeriesSchema,
+                queueOffline: { label: 'ยกเลิกการจองประจำ', bookingIds: cancelledIds }
+            });
+            if (response.error) {
+                console.error('Error cancelling booking series:', response.error);
+                throw response.apiError;
+            }
+        }
+
+        return { cancelledCount: cancelledIds.length, failedCount: ids.length - cancelledIds.length, queued: !!res.queued };
+    },
+};
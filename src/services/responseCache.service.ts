@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'api_response_cache';
+
+// Oldest entries are dropped beyond this (analytics are keyed by date range and pile up)
+const MAX_ENTRIES = 50;
+
+const MINUTE = 60 * 1000;
+
+interface CachePolicy {
+    prefix: string;             // GET endpoints under this path are cached
+    ttlMs: number;              // Fresh for this long; older entries are served while they revalidate
+    invalidatedBy: string[];    // Mutation paths that make the cached responses outdated
+}
+
+const POLICIES: CachePolicy[] = [
+    { prefix: '/api/owner/courts', ttlMs: 10 * MINUTE, invalidatedBy: ['/api/court-owner/courts'] },
+    { prefix: '/api/owner/capacity-facilities', ttlMs: 10 * MINUTE, invalidatedBy: ['/api/court-owner/courts'] },
+    { prefix: '/api/owner/court-blocks', ttlMs: 5 * MINUTE, invalidatedBy: ['/api/owner/court-blocks'] },
+    { prefix: '/api/court-owner/businesses', ttlMs: 30 * MINUTE, invalidatedBy: ['/api/court-owner/businesses'] },
+    {
+        prefix: '/api/owner/analytics',
+        ttlMs: 5 * MINUTE,
+        invalidatedBy: ['/api/owner/bookings', '/api/owner/capacity-bookings', '/api/court-owner/booking-lookup'],
+    },
+];
+
+interface CacheEntry {
+    data: unknown;
+    storedAt: number;
+}
+
+type Listener = (endpoint: string) => void;
+
+// In-memory mirror of the persisted cache, loaded lazily on first access
+let entries: Record<string, CacheEntry> = {};
+let loadPromise: Promise<void> | null = null;
+const listeners = new Map<Listener, string[]>();
+
+// `/api/owner/courts` covers `/api/owner/courts?x=1` and `/api/owner/courts/1`, not `/api/owner/courts-x`
+const isUnder = (endpoint: string, prefix: string) =>
+    endpoint.startsWith(prefix) && ['', '/', '?'].includes(endpoint.charAt(prefix.length));
+
+const load = () => {
+    if (!loadPromise) {
+        loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+            .then(raw => {
+                entries = raw ? JSON.parse(raw) : {};
+            })
+            .catch(error => {
+                console.error('Failed to load response cache:', error);
+                entries = {};
+            });
+    }
+    return loadPromise;
+};
+
+const persist = async () => {
+    try {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.error('Failed to persist response cache:', error);
+    }
+};
+
+const removeWhere = async (predicate: (endpoint: string) => boolean) => {
+    await load();
+    const stale = Object.keys(entries).filter(predicate);
+    if (stale.length === 0) return;
+    stale.forEach(endpoint => delete entries[endpoint]);
+    await persist();
+};
+
+/**
+ * Persisted responses of slow-changing read endpoints (courts, court blocks, businesses, analytics).
+ * apiService serves them instantly and revalidates stale ones in the background;
+ * screens subscribe to re-render when a revalidation brings changed data.
+ */
+export const responseCacheService = {
+    /**
+     * TTL for a GET endpoint, or null when its responses are not cached
+     */
+    ttlFor(endpoint: string): number | null {
+        return POLICIES.find(policy => isUnder(endpoint, policy.prefix))?.ttlMs ?? null;
+    },
+
+    async get(endpoint: string): Promise<{ data: unknown; fresh: boolean } | null> {
+        const ttl = this.ttlFor(endpoint);
+        if (ttl === null) return null;
+        await load();
+        const entry = entries[endpoint];
+        if (!entry) return null;
+        return { data: entry.data, fresh: Date.now() - entry.storedAt < ttl };
+    },
+
+    /**
+     * Stores a response; subscribers are told when it replaced different data
+     */
+    async set(endpoint: string, data: unknown): Promise<void> {
+        await load();
+        const previous = entries[endpoint];
+        entries[endpoint] = { data, storedAt: Date.now() };
+
+        const endpoints = Object.keys(entries);
+        if (endpoints.length > MAX_ENTRIES) {
+            endpoints
+                .sort((a, b) => entries[a].storedAt - entries[b].storedAt)
+                .slice(0, endpoints.length - MAX_ENTRIES)
+                .forEach(oldest => delete entries[oldest]);
+        }
+        await persist();
+
+        if (previous && JSON.stringify(previous.data) !== JSON.stringify(data)) {
+            listeners.forEach((prefixes, listener) => {
+                if (prefixes.some(prefix => isUnder(endpoint, prefix))) listener(endpoint);
+            });
+        }
+    },
+
+    /**
+     * Drops the responses a successful mutation of `endpoint` made outdated
+     */
+    async invalidateAfterMutation(endpoint: string): Promise<void> {
+        const path = endpoint.split('?')[0];
+        const prefixes = POLICIES
+            .filter(policy => policy.invalidatedBy.some(mutation => isUnder(path, mutation)))
+            .map(policy => policy.prefix);
+        if (prefixes.length > 0) await this.invalidate(prefixes);
+    },
+
+    /**
+     * Drops cached responses under the given paths, e.g. before a pull-to-refresh
+     */
+    async invalidate(prefixes: string[]): Promise<void> {
+        await removeWhere(endpoint => prefixes.some(prefix => isUnder(endpoint, prefix)));
+    },
+
+    async clear(): Promise<void> {
+        await removeWhere(() => true);
+    },
+
+    /**
+     * Called with the endpoint whenever a background revalidation under one of `prefixes`
+     * brought changed data. Returns an unsubscribe function.
+     */
+    subscribe(prefixes: string[], listener: Listener): () => void {
+        listeners.set(listener, prefixes);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format, parseISO } from 'date-fns';
+import { apiService } from './api.service';
+import { waitlistEntrySchema, waitlistListSchema } from './apiSchemas';
+import { offlineQueueService } from './offlineQueue.service';
+import { Booking, WaitlistEntry } from '../types/booking';
+import { toMinutesOfDay, minutesToTime } from '../utils/availability';
+
+const WAITLIST_ENDPOINT = '/api/owner/waitlist';
+// Entries added before the waitlist moved to the server; uploaded once, then removed
+const LEGACY_STORAGE_KEY = 'booking_waitlist';
+
+export type WaitlistInput = Pick<
+    WaitlistEntry,
+    'businessId' | 'customerName' | 'customerPhone' | 'date' | 'startTime' | 'endTime' | 'courtId' | 'sportType' | 'note' | 'createdBy'
+>;
+
+// A court and time a waiting customer could take
+export interface FreedSlot {
+    courtId: string;
+    date: string;            // yyyy-MM-dd
+    startTime: string;       // HH:mm
+    endTime: string;         // HH:mm
+}
+
+let legacyUpload: Promise<void> | null = null;
+
+// One-time upload of entries that were only ever stored on this device
+const uploadLegacyEntries = () => {
+    if (!legacyUpload) {
+        legacyUpload = (async () => {
+            const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!raw) return;
+            const legacy: WaitlistEntry[] = JSON.parse(raw);
+            const failed: WaitlistEntry[] = [];
+            for (const entry of legacy) {
+                const response = await apiService.post(WAITLIST_ENDPOINT, entry, { schema: waitlistEntrySchema });
+                if (response.error) failed.push(entry);
+            }
+            if (failed.length > 0) {
+                await AsyncStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(failed));
+                legacyUpload = null; // Try again next time
+            } else {
+                await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+            }
+        })().catch(error => {
+            console.error('Failed to upload local waitlist:', error);
+            legacyUpload = null;
+        });
+    }
+    return legacyUpload;
+};
+
+// Entries added or changed offline but not yet synced, so the list reflects them straight away
+const applyPending = async (entries: WaitlistEntry[]): Promise<WaitlistEntry[]> => {
+    const pending = (await offlineQueueService.getItems())
+        .filter(item => item.endpoint.startsWith(WAITLIST_ENDPOINT) && item.status !== 'failed');
+    const ids = new Set(entries.map(entry => entry.id));
+    const added = pending
+        .filter(item => item.method === 'POST' && !ids.has(item.body?.id))
+        .map(item => item.body as WaitlistEntry);
+    return [...entries, ...added].map(entry => pending
+        .filter(item => item.method === 'PATCH' && item.endpoint === `${WAITLIST_ENDPOINT}/${entry.id}`)
+        .reduce((current, item) => ({ ...current, ...item.body }), entry));
+};
+
+const updateEntry = async (id: string, changes: Pick<WaitlistEntry, 'status' | 'bookingId'>, label: string) => {
+    const response = await apiService.patch<WaitlistEntry>(`${WAITLIST_ENDPOINT}/${id}`, changes, {
+        schema: waitlistEntrySchema,
+        queueOffline: { label, bookingIds: changes.bookingId ? [changes.bookingId] : [] },
+    });
+    if (response.error) {
+        console.error('Error updating waitlist entry:', response.error);
+        throw response.apiError;
+    }
+};
+
+const generateId = () => `waitlist-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// An end time of 00:00 means midnight at the end of the day
+const toMinutes = (time: string, isEnd: boolean = false) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const total = hours * 60 + minutes;
+    return isEnd && total === 0 ? 1440 : total;
+};
+
+export const slotsOverlap = (a: FreedSlot, b: FreedSlot) =>
+    a.courtId === b.courtId
+    && a.date === b.date
+    && toMinutes(a.startTime) < toMinutes(b.endTime, true)
+    && toMinutes(a.endTime, true) > toMinutes(b.startTime);
+
+/**
+ * Slots freed by cancelled / no-show bookings, with back-to-back slots on a court joined up
+ */
+export const toFreedSlots = (bookings: Booking[]): FreedSlot[] => {
+    const sorted = [...bookings].sort((a, b) =>
+        a.courtId.localeCompare(b.courtId) || a.timeSlotStart.localeCompare(b.timeSlotStart)
+    );
+    return sorted.reduce<FreedSlot[]>((slots, booking) => {
+        const start = parseISO(booking.timeSlotStart);
+        const slot: FreedSlot = {
+            courtId: booking.court?.id || booking.courtId,
+            date: format(start, 'yyyy-MM-dd'),
+            startTime: minutesToTime(toMinutesOfDay(start)),
+            endTime: minutesToTime(toMinutesOfDay(parseISO(booking.timeSlotEnd), true)),
+        };
+        const last = slots[slots.length - 1];
+        if (last && last.courtId === slot.courtId && last.date === slot.date && last.endTime === slot.startTime) {
+            last.endTime = slot.endTime;
+            return slots;
+        }
+        return [...slots, slot];
+    }, []);
+};
+
+/**
+ * Waiting customers a freed slot suits: same day, overlapping their time window, and the
+ * court they asked for (or one of their sport). Each customer gets the part of the slot
+ * inside their window.
+ */
+export const findWaitlistMatches = (
+    entries: WaitlistEntry[],
+    slots: FreedSlot[],
+    sportOf: (courtId: string) => string | null
+): Record<string, FreedSlot> => {
+    const matches: Record<string, FreedSlot> = {};
+    entries
+        .filter(entry => entry.status === 'WAITING')
+        .forEach(entry => {
+            const slot = slots.find(s =>
+                s.date === entry.date
+                && (entry.courtId ? s.courtId === entry.courtId : !entry.sportType || sportOf(s.courtId) === entry.sportType)
+                && toMinutes(s.startTime) < toMinutes(entry.endTime, true)
+                && toMinutes(s.endTime, true) > toMinutes(entry.startTime)
+            );
+            if (!slot) return;
+            matches[entry.id] = {
+                ...slot,
+                startTime: toMinutes(slot.startTime) > toMinutes(entry.startTime) ? slot.startTime : entry.startTime,
+                endTime: toMinutes(slot.endTime, true) < toMinutes(entry.endTime, true) ? slot.endTime : entry.endTime,
+            };
+        });
+    return matches;
+};
+
+/**
+ * Customers waiting for a fully booked time, kept on the server per business so every
+ * device sees the same list
+ */
+export const waitlistService = {
+    async getEntries(businessId: string, date?: string): Promise<WaitlistEntry[]> {
+        await uploadLegacyEntries();
+        let query = `${WAITLIST_ENDPOINT}?businessId=${businessId}`;
+        if (date) query += `&date=${date}`;
+        const response = await apiService.get<{ items: WaitlistEntry[] }>(query, { schema: waitlistListSchema });
+        if (response.error) {
+            throw response.apiError;
+        }
+        return (await applyPending(response.data?.items || []))
+            .filter(e => e.businessId === businessId && e.status !== 'REMOVED' && (!date || e.date === date))
+            .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime) || a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async addEntry(input: WaitlistInput): Promise<WaitlistEntry> {
+        if (!input.customerName.trim()) {
+            throw new Error('กรุณาระบุชื่อลูกค้า');
+        }
+        if (toMinutes(input.endTime, true) <= toMinutes(input.startTime)) {
+            throw new Error('เวลาสิ้นสุดต้องหลังเวลาเริ่ม');
+        }
+
+        const entry: WaitlistEntry = {
+            ...input,
+            id: generateId(),
+            customerName: input.customerName.trim(),
+            customerPhone: input.customerPhone?.trim() || undefined,
+            note: input.note?.trim() || undefined,
+            status: 'WAITING',
+            createdAt: new Date().toISOString(),
+        };
+        const response = await apiService.post<WaitlistEntry>(WAITLIST_ENDPOINT, entry, {
+            schema: waitlistEntrySchema,
+            queueOffline: { label: `เพิ่มรายชื่อรอ ${entry.customerName} ${entry.date} ${entry.startTime}-${entry.endTime}` },
+        });
+        if (response.error) {
+            console.error('Error adding waitlist entry:', response.error);
+            throw response.apiError;
+        }
+        return entry;
+    },
+
+    /**
+     * Converted into a booking; bookingId is missing when the booking was queued offline
+     */
+    async markBooked(id: string, bookingId?: string): Promise<void> {
+        await updateEntry(id, { status: 'BOOKED', bookingId }, 'จองให้ลูกค้าในรายชื่อรอ');
+    },
+
+    async removeEntry(id: string): Promise<void> {
+        await updateEntry(id, { status: 'REMOVED' }, 'ลบรายชื่อรอ');
+    },
+};
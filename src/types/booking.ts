@@ -36,11 +36,186 @@ export interface Booking {
     court?: Court;
     serviceUser?: ServiceUser;
 
+    // Set on bookings normalized from the capacity endpoints
+    isCapacity?: boolean;
+    capacityBookingId?: string;
+
     createdAt?: string;
     confirmedAt?: string;
     cancelledAt?: string;
 }
 
+// Result of the bulk booking endpoints; `queued` when the request went to the offline outbox
+export interface BulkResult {
+    success: boolean;
+    data: {
+        successCount: number;
+        failedIds: string[];
+        updatedBookings: Booking[];
+    } | null;
+    queued?: boolean;
+}
+
+// Bookings of a date range; `complete` is false when a page failed or the page limit was hit
+export interface BookingRange {
+    items: Booking[];
+    complete: boolean;
+}
+
+export type DiscountKind = 'PERCENT' | 'FIXED' | 'PROMO';
+
+export interface PromoCode {
+    code: string;            // Stored upper-case
+    type: 'PERCENT' | 'FIXED';
+    value: number;           // Percent off, or baht off the whole booking
+    validFrom: string;       // yyyy-MM-dd
+    validTo: string;         // yyyy-MM-dd, inclusive
+    usageLimit?: number;     // Unlimited when missing
+    usedCount: number;
+    createdAt: string;
+}
+
+export interface DiscountLine {
+    bookingId: string;
+    originalAmount: number;
+    discountedAmount: number;
+}
+
+export interface BookingDiscount {
+    id: string;
+    kind: DiscountKind;
+    value: number;           // Percent or baht as entered; for promo codes the code's value
+    promoCode?: string;
+    reason?: string;
+    lines: DiscountLine[];   // One line per booking of a merged group
+    originalAmount: number;
+    discountAmount: number;
+    discountedAmount: number;
+    bookingDate: string;     // yyyy-MM-dd of the booking, for reports
+    appliedAt: string;
+}
+
+export type PaymentMethod = 'CASH' | 'PROMPTPAY' | 'CARD' | 'TRANSFER';
+
+export interface PaymentEntry {
+    id: string;
+    bookingIds: string[];    // A merged group is paid as one
+    businessId?: string;     // Missing on payments recorded before end-of-day reports
+    amount: number;
+    method: PaymentMethod;
+    isDeposit: boolean;
+    paidAt: string;
+    staff?: string;          // Username of who took the payment
+    note?: string;
+}
+
+export interface PaymentSummary {
+    totalDue: number;
+    paid: number;
+    outstanding: number;
+    depositRequired: number;
+    depositPaid: boolean;
+}
+
+export type BookingAuditAction = 'CREATED' | 'EDITED' | 'STATUS_CHANGED' | 'PAYMENT_CHANGED';
+
+export type BookingAuditField = 'status' | 'isPaid' | 'courtId' | 'time' | 'customerName' | 'customerPhone' | 'price';
+
+export type BookingAuditValue = string | number | boolean | null;
+
+export interface BookingAuditChange {
+    field: BookingAuditField;
+    before?: BookingAuditValue;  // Missing when the booking had not been loaded on this device
+    after: BookingAuditValue;
+}
+
+export interface BookingAuditEntry {
+    id: string;
+    bookingId: string;
+    action: BookingAuditAction;
+    changes: BookingAuditChange[];
+    actor?: string;          // Account that made the change, set by the server
+    at: string;
+    reason?: string;
+    source?: 'QR_SCANNER';
+    batchSize?: number;      // Bookings changed together by one bulk action
+    queued?: boolean;        // Saved in the offline outbox, not yet on the server
+}
+
+export interface DayClosing {
+    id: string;
+    businessId: string;
+    date: string;            // yyyy-MM-dd
+    totalsByMethod: Record<PaymentMethod, number>;
+    unrecordedPaid: number;  // Marked paid that day without a ledger entry, so the method is unknown
+    totalCollected: number;
+    expectedCash: number;
+    countedCash: number;
+    variance: number;        // Counted minus expected; negative when the drawer is short
+    note?: string;
+    paymentCount: number;
+    unpaidCompletedCount: number;
+    unpaidCompletedAmount: number;
+    closedAt: string;
+    closedBy?: string;
+}
+
+export type ReceiptKind = 'RECEIPT' | 'TAX_INVOICE';
+
+export interface ReceiptParty {
+    name: string;
+    address?: string;
+    taxId?: string;
+    phone?: string;
+}
+
+export interface ReceiptLine {
+    description: string;     // Court and hour played, e.g. "คอร์ท 1 18:00 - 19:00"
+    date: string;            // yyyy-MM-dd
+    amount: number;          // Before discount
+}
+
+export interface Receipt {
+    id: string;
+    number: string;          // Running number per business, kind and year, e.g. RC2026-00012
+    kind: ReceiptKind;
+    businessId: string;
+    bookingIds: string[];
+    seller: ReceiptParty;
+    customer: ReceiptParty;
+    lines: ReceiptLine[];
+    subtotal: number;
+    discount: number;
+    total: number;
+    vatRate: number;         // Percent included in the total; 0 when the business is not VAT registered
+    vatAmount: number;
+    amountBeforeVat: number;
+    payments: Array<{ method: PaymentMethod; amount: number; paidAt: string }>;
+    paid: number;
+    issuedAt: string;
+    issuedBy?: string;
+    voidedAt?: string;       // Numbers of voided receipts are never reused
+}
+
+export type WaitlistStatus = 'WAITING' | 'BOOKED' | 'REMOVED';
+
+export interface WaitlistEntry {
+    id: string;
+    businessId: string;
+    customerName: string;
+    customerPhone?: string;
+    date: string;            // yyyy-MM-dd
+    startTime: string;       // HH:mm, earliest start the customer accepts
+    endTime: string;         // HH:mm, latest end
+    courtId?: string;        // A specific court, or
+    sportType?: string;      // any court of this sport; neither means any court
+    note?: string;
+    status: WaitlistStatus;
+    bookingId?: string;      // Set once converted into a booking
+    createdAt: string;
+    createdBy?: string;
+}
+
 export interface BookingLookupResult {
     id: string;
     status: string;
@@ -4,5 +4,15 @@ export interface Business {
     description?: string;
     logoUrl?: string;
     address?: string;
+    promptPayId?: string | null; // Mobile number, national / tax ID or e-wallet ID
+    taxId?: string | null;       // 13-digit tax ID printed on receipts
+    vatRegistered?: boolean | null; // Prices include VAT and tax invoices can be issued
     // Add other fields as needed from the API response
 }
+
+// Payment and tax settings of a business, as read from its record
+export interface BusinessSettings {
+    promptPayId?: string;
+    taxId?: string;
+    vatRegistered?: boolean;
+}
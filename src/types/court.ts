@@ -12,4 +12,60 @@ export interface Court {
     capacity?: number;
     isCapacity?: boolean;
     pricePerSlot?: number;
+    pricingRules?: PricingRules;
+}
+
+// Hourly rate for a time-of-day band, optionally only on some days of the week
+export interface PriceBand {
+    id: string;
+    label: string;       // e.g. "Peak", "Weekend"
+    startTime: string;   // HH:mm
+    endTime: string;     // HH:mm; at or before startTime runs past midnight
+    weekdays: number[];  // 0 = Sunday; empty = every day
+    hourlyRate: number;
+}
+
+// Flat hourly rate for the whole of a public holiday
+export interface HolidayRate {
+    date: string; // yyyy-MM-dd
+    label: string;
+    hourlyRate: number;
+}
+
+export interface MemberTier {
+    id: string;
+    name: string;
+    discountPercent: number;
+}
+
+export interface PricingRules {
+    bands: PriceBand[];
+    holidays: HolidayRate[];
+    memberTiers: MemberTier[];
+    minDurationMinutes?: number;
+    depositPercent?: number; // Share of the price to pay up front
+}
+
+export type CourtBlockReason = 'MAINTENANCE' | 'EVENT' | 'OTHER';
+
+// A period the court is closed for bookings (resurfacing, repairs, private events)
+export interface CourtBlock {
+    id: string;
+    courtId: string;
+    reason: CourtBlockReason;
+    note?: string;
+    date: string;       // yyyy-MM-dd, first day
+    endDate?: string;   // yyyy-MM-dd, inclusive; one-off blocks may span several days
+    startTime: string;  // HH:mm, applied on every blocked day
+    endTime: string;    // HH:mm; at or before startTime runs past midnight
+    weekdays?: number[]; // Recurring weekly on these days (0 = Sunday) until endDate
+    createdAt: string;
+}
+
+// One concrete window of a block on a given day
+export interface BlockedPeriod {
+    block: CourtBlock;
+    courtId: string;
+    start: Date;
+    end: Date;
 }
@@ -0,0 +1,154 @@
+import { format } from 'date-fns';
+import { Booking, BookingStatus } from '../types/booking';
+import { BlockedPeriod, Court } from '../types/court';
+
+// Minutes from midnight; a booking ending at 00:00 ends at 24:00
+export const toMinutesOfDay = (date: Date, isEnd: boolean = false): number => {
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return isEnd && minutes === 0 ? 1440 : minutes;
+};
+
+export const minutesToTime = (minutes: number): string =>
+    `${String(Math.floor(minutes / 60) % 24).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Operating hours check (closing defaults to 00:00, i.e. midnight)
+export const isCourtOpenAt = (court: Court, minutes: number): boolean => {
+    const [openH, openM] = (court.openingHour || '06:00').split(':').map(Number);
+    const openMins = openH * 60 + openM;
+    const [closeH, closeM] = (court.closingHour || '00:00').split(':').map(Number);
+    const closeMins = closeH * 60 + closeM;
+
+    if (closeMins < openMins) {
+        // Overnight
+        return minutes >= openMins || minutes < closeMins;
+    }
+    const effectiveClose = (closeMins === 0 && openMins < 1440) ? 1440 : closeMins;
+    return minutes >= openMins && minutes < effectiveClose;
+};
+
+// Ranges may run past midnight (endMinutes > 1440)
+export const isCourtOpenForRange = (court: Court, startMinutes: number, endMinutes: number): boolean => {
+    for (let m = startMinutes; m < endMinutes; m += 30) {
+        if (!isCourtOpenAt(court, m % 1440)) return false;
+    }
+    return isCourtOpenAt(court, (endMinutes - 1) % 1440);
+};
+
+export interface SlotCheckInput {
+    court: Court;
+    capacity: number;        // 1 for regular courts
+    start: Date;
+    end: Date;
+    bookings: Booking[];     // Bookings already loaded for the period
+    excludeIds?: string[];   // The booking(s) being edited
+    blockedPeriods?: BlockedPeriod[];
+}
+
+export interface SlotCheckResult {
+    isAvailable: boolean;
+    outsideHours: boolean;
+    capacityExceeded: boolean;
+    conflicts: Booking[];    // Overlapping bookings that make the slot unavailable
+    blocked: BlockedPeriod[]; // Maintenance / closed periods overlapping the slot
+    peakUsage: number;       // Highest number of existing bookings at any moment of the slot
+}
+
+/**
+ * Blocked periods of a court overlapping the given time range
+ */
+export const findBlockedPeriods = (periods: BlockedPeriod[], courtId: string, start: Date, end: Date): BlockedPeriod[] =>
+    periods.filter(p =>
+        p.courtId === courtId &&
+        p.start.getTime() < end.getTime() &&
+        p.end.getTime() > start.getTime()
+    );
+
+const isActive = (booking: Booking) =>
+    booking.status !== BookingStatus.CANCELLED && booking.status !== BookingStatus.NO_SHOW;
+
+/**
+ * Validate a proposed slot against opening hours and the bookings already on the court.
+ * Regular courts allow no overlap; capacity facilities allow overlaps up to their capacity.
+ */
+export const checkSlotAvailability = ({ court, capacity, start, end, bookings, excludeIds = [], blockedPeriods = [] }: SlotCheckInput): SlotCheckResult => {
+    const startMinutes = toMinutesOfDay(start);
+    const outsideHours = !isCourtOpenForRange(court, startMinutes, startMinutes + (end.getTime() - start.getTime()) / 60000);
+    const blocked = findBlockedPeriods(blockedPeriods, court.id, start, end);
+
+    const overlapping = bookings.filter(b =>
+        !excludeIds.includes(b.id) &&
+        (b.court?.id || b.courtId) === court.id &&
+        isActive(b) &&
+        new Date(b.timeSlotStart).getTime() < end.getTime() &&
+        new Date(b.timeSlotEnd).getTime() > start.getTime()
+    );
+
+    // Sweep the overlapping bookings to find the busiest moment within the slot
+    const events = overlapping.flatMap(b => [
+        { time: Math.max(new Date(b.timeSlotStart).getTime(), start.getTime()), delta: 1 },
+        { time: Math.min(new Date(b.timeSlotEnd).getTime(), end.getTime()), delta: -1 },
+    ]).sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+    let usage = 0;
+    let peakUsage = 0;
+    for (const event of events) {
+        usage += event.delta;
+        peakUsage = Math.max(peakUsage, usage);
+    }
+
+    const capacityExceeded = capacity > 1 && peakUsage >= capacity;
+    const conflicts = capacity > 1 ? (capacityExceeded ? overlapping : []) : overlapping;
+
+    return {
+        isAvailable: !outsideHours && blocked.length === 0 && conflicts.length === 0,
+        outsideHours,
+        capacityExceeded,
+        conflicts,
+        blocked,
+        peakUsage,
+    };
+};
+
+/**
+ * Human readable reasons a slot is unavailable
+ */
+export const describeSlotProblems = (result: SlotCheckResult, capacity: number): string[] => {
+    const problems: string[] = [];
+    if (result.outsideHours) problems.push('ช่วงเวลาที่เลือกอยู่นอกเวลาทำการของสนาม');
+    result.blocked.forEach(period => {
+        problems.push(`สนามปิดในช่วง ${format(period.start, 'HH:mm')} - ${format(period.end, 'HH:mm')}${period.block.note ? ` (${period.block.note})` : ''}`);
+    });
+    if (result.capacityExceeded) {
+        problems.push(`จำนวนผู้ใช้บริการเต็มแล้ว (${result.peakUsage}/${capacity})`);
+    } else if (result.conflicts.length > 0) {
+        problems.push(`ช่วงเวลานี้ชนกับการจองอื่น ${result.conflicts.length} รายการ`);
+    }
+    return problems;
+};
+
+/**
+ * Bookable court-hours for each hour of the day (index 0-23) over the given days.
+ * Hours outside opening hours or inside blocked periods are not bookable, so they
+ * don't count towards utilisation.
+ */
+export const getAvailableCourtHours = (courts: Court[], days: Date[], blockedPeriods: BlockedPeriod[]): number[] => {
+    const available: number[] = new Array(24).fill(0);
+
+    for (const court of courts) {
+        const courtPeriods = blockedPeriods.filter(p => p.courtId === court.id);
+        for (const day of days) {
+            for (let hour = 0; hour < 24; hour++) {
+                if (!isCourtOpenAt(court, hour * 60)) continue;
+
+                const hourStart = new Date(day);
+                hourStart.setHours(hour, 0, 0, 0);
+                const hourEnd = new Date(hourStart.getTime() + 3600000);
+                const blockedMs = findBlockedPeriods(courtPeriods, court.id, hourStart, hourEnd).reduce((sum, p) =>
+                    sum + Math.min(p.end.getTime(), hourEnd.getTime()) - Math.max(p.start.getTime(), hourStart.getTime()), 0);
+
+                available[hour] += Math.max(0, 1 - blockedMs / 3600000);
+            }
+        }
+    }
+    return available;
+};
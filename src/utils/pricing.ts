@@ -0,0 +1,119 @@
+import { format } from 'date-fns';
+import { Court, PriceBand } from '../types/court';
+
+export interface PriceLine {
+    label: string;
+    minutes: number;
+    hourlyRate: number;
+    amount: number;
+}
+
+export interface PriceQuote {
+    subtotal: number;
+    discount: { label: string; percent: number; amount: number } | null;
+    total: number;
+    lines: PriceLine[];        // Consecutive time charged at the same rate
+    belowMinimum: boolean;     // Shorter than the court's minimum duration
+    minDurationMinutes?: number;
+}
+
+export interface PriceInput {
+    court: Court;
+    start: Date;
+    end: Date;
+    memberTierId?: string | null;
+}
+
+// Resolution of the walk over the booking, so bands can start or end on any 5-minute mark
+const STEP_MINUTES = 5;
+
+/**
+ * Weekday the band's run covering this moment started on, or null outside the band. The part
+ * of an overnight band after midnight belongs to the day before, so a Friday-night band keeps
+ * applying into Saturday morning.
+ */
+const getBandStartDay = (band: PriceBand, at: Date): number | null => {
+    const [sH, sM] = band.startTime.split(':').map(Number);
+    const [eH, eM] = band.endTime.split(':').map(Number);
+    const start = sH * 60 + sM;
+    const end = eH * 60 + eM;
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const day = at.getDay();
+    if (end <= start) { // Overnight
+        if (minutes >= start) return day;
+        return minutes < end ? (day + 6) % 7 : null;
+    }
+    return minutes >= start && minutes < end ? day : null;
+};
+
+/**
+ * Rate for one moment: holiday first, then a band for the weekday it started on, then an
+ * every-day band, then the court's base hourly rate
+ */
+const resolveRate = (court: Court, at: Date): { label: string; hourlyRate: number } => {
+    const rules = court.pricingRules;
+    const baseRate = Number(court.hourlyRate || 0);
+    if (!rules) return { label: 'ราคาปกติ', hourlyRate: baseRate };
+
+    const day = format(at, 'yyyy-MM-dd');
+    const holiday = rules.holidays.find(h => h.date === day);
+    if (holiday) return { label: holiday.label || 'วันหยุดนักขัตฤกษ์', hourlyRate: holiday.hourlyRate };
+
+    const matching = rules.bands
+        .map(b => ({ band: b, startDay: getBandStartDay(b, at) }))
+        .filter((m): m is { band: PriceBand; startDay: number } => m.startDay !== null);
+    const band = matching.find(m => m.band.weekdays.length > 0 && m.band.weekdays.includes(m.startDay))?.band
+        || matching.find(m => m.band.weekdays.length === 0)?.band;
+    if (band) return { label: band.label || `${band.startTime} - ${band.endTime}`, hourlyRate: band.hourlyRate };
+
+    return { label: 'ราคาปกติ', hourlyRate: baseRate };
+};
+
+/**
+ * Price of playing on a court from start to end, with a line per rate band so staff can
+ * see how the total was reached
+ */
+export const calculatePrice = ({ court, start, end, memberTierId }: PriceInput): PriceQuote => {
+    const lines: PriceLine[] = [];
+    const totalMinutes = Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+
+    for (let offset = 0; offset < totalMinutes; offset += STEP_MINUTES) {
+        const minutes = Math.min(STEP_MINUTES, totalMinutes - offset);
+        const { label, hourlyRate } = resolveRate(court, new Date(start.getTime() + offset * 60000));
+        const last = lines[lines.length - 1];
+        if (last && last.label === label && last.hourlyRate === hourlyRate) {
+            last.minutes += minutes;
+        } else {
+            lines.push({ label, minutes, hourlyRate, amount: 0 });
+        }
+    }
+    lines.forEach(line => {
+        line.amount = Math.round((line.minutes / 60) * line.hourlyRate);
+    });
+
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    const tier = memberTierId ? court.pricingRules?.memberTiers.find(t => t.id === memberTierId) : undefined;
+    const discount = tier && tier.discountPercent > 0
+        ? { label: tier.name, percent: tier.discountPercent, amount: Math.round(subtotal * tier.discountPercent / 100) }
+        : null;
+    const minDurationMinutes = court.pricingRules?.minDurationMinutes;
+
+    return {
+        subtotal,
+        discount,
+        total: subtotal - (discount?.amount || 0),
+        lines,
+        belowMinimum: !!minDurationMinutes && totalMinutes < minDurationMinutes,
+        minDurationMinutes,
+    };
+};
+
+/**
+ * Start / end of a booking from form values; an end at or before the start runs past midnight
+ */
+export const getBookingRange = (date: string, startTime: string, endTime: string): { start: Date; end: Date } => {
+    const start = new Date(`${date}T${startTime}:00`);
+    const end = new Date(`${date}T${endTime}:00`);
+    if (end.getTime() <= start.getTime()) end.setDate(end.getDate() + 1);
+    return { start, end };
+};
@@ -0,0 +1,75 @@
+/* eslint-disable no-bitwise */
+/**
+ * Thai PromptPay QR payloads (EMVCo merchant-presented mode, as issued by Thai banks)
+ */
+
+const PROMPTPAY_AID = 'A000000677010111';
+
+// Tags of the merchant account template (29) for each kind of PromptPay ID
+const ID_TAGS = {
+    PHONE: '01',
+    TAX_ID: '02',
+    E_WALLET: '03',
+} as const;
+
+export type PromptPayIdType = keyof typeof ID_TAGS;
+
+const field = (tag: string, value: string) => `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+
+// CRC-16/CCITT-FALSE over the payload, as required by EMVCo tag 63
+const crc16 = (payload: string): string => {
+    let crc = 0xffff;
+    for (let i = 0; i < payload.length; i++) {
+        crc ^= payload.charCodeAt(i) << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+            crc &= 0xffff;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+/**
+ * Kind of a PromptPay ID from its digits: mobile number (10), national / tax ID (13)
+ * or e-wallet ID (15); null when it is none of these
+ */
+export const getPromptPayIdType = (id: string): PromptPayIdType | null => {
+    const digits = id.replace(/\D/g, '');
+    if (digits.length === 10 && digits.startsWith('0')) return 'PHONE';
+    if (digits.length === 13) return 'TAX_ID';
+    if (digits.length === 15) return 'E_WALLET';
+    return null;
+};
+
+/**
+ * PromptPay ID with the middle hidden, for showing on a customer-facing screen
+ */
+export const maskPromptPayId = (id: string): string => {
+    const digits = id.replace(/\D/g, '');
+    return digits.length > 6 ? `${digits.slice(0, 3)}${'x'.repeat(digits.length - 6)}${digits.slice(-3)}` : digits;
+};
+
+/**
+ * QR payload asking for `amount` baht to be paid to a PromptPay ID; without an amount the
+ * customer types it in their banking app
+ */
+export const buildPromptPayPayload = (promptPayId: string, amount?: number): string => {
+    const type = getPromptPayIdType(promptPayId);
+    if (!type) throw new Error('Invalid PromptPay ID');
+
+    const digits = promptPayId.replace(/\D/g, '');
+    // Mobile numbers are sent in international form without the leading zero: 0066 + 9 digits
+    const account = type === 'PHONE' ? `0066${digits.slice(1)}`.padStart(13, '0') : digits;
+    const hasAmount = amount !== undefined && amount > 0;
+
+    const payload = [
+        field('00', '01'),
+        field('01', hasAmount ? '12' : '11'), // 12: single use with amount, 11: reusable
+        field('29', field('00', PROMPTPAY_AID) + field(ID_TAGS[type], account)),
+        field('53', '764'), // THB
+        hasAmount ? field('54', amount.toFixed(2)) : '',
+        field('58', 'TH'),
+    ].join('') + '6304';
+
+    return payload + crc16(payload);
+};
@@ -0,0 +1,327 @@
+/* eslint-disable no-bitwise */
+/**
+ * Minimal QR code encoder (byte mode, error correction level M, versions 1-10) for payment
+ * payloads shown on screen. Follows ISO/IEC 18004; mask selection uses the standard penalty rules.
+ */
+
+// Per version at level M: error correction codewords per block, and data codewords of each block
+const VERSIONS: Array<{ ecPerBlock: number; blocks: number[] }> = [
+    { ecPerBlock: 10, blocks: [16] },
+    { ecPerBlock: 16, blocks: [28] },
+    { ecPerBlock: 26, blocks: [44] },
+    { ecPerBlock: 18, blocks: [32, 32] },
+    { ecPerBlock: 24, blocks: [43, 43] },
+    { ecPerBlock: 16, blocks: [27, 27, 27, 27] },
+    { ecPerBlock: 18, blocks: [31, 31, 31, 31] },
+    { ecPerBlock: 22, blocks: [38, 38, 39, 39] },
+    { ecPerBlock: 22, blocks: [36, 36, 36, 37, 37] },
+    { ecPerBlock: 26, blocks: [43, 43, 43, 43, 44] },
+];
+
+const ALIGNMENT_POSITIONS: number[][] = [
+    [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50],
+];
+
+const FORMAT_BITS_M = 0;
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+    (r, c) => (r + c) % 2 === 0,
+    (r) => r % 2 === 0,
+    (_r, c) => c % 3 === 0,
+    (r, c) => (r + c) % 3 === 0,
+    (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+    (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+    (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+    (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z & 0xff;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+    const result = new Array(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+    const result = new Array(divisor.length).fill(0);
+    for (const b of data) {
+        const factor = b ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coef, i) => {
+            result[i] ^= gfMultiply(coef, factor);
+        });
+    }
+    return result;
+};
+
+const toUtf8Bytes = (text: string): number[] => {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const code = char.codePointAt(0) as number;
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return bytes;
+};
+
+// Data codewords for a byte-mode segment, padded to the version's capacity
+const encodeData = (bytes: number[], version: number, capacity: number): number[] => {
+    const bits: number[] = [];
+    const push = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    push(0b0100, 4);
+    push(bytes.length, version < 10 ? 8 : 16);
+    bytes.forEach(b => push(b, 8));
+    push(0, Math.min(4, capacity * 8 - bits.length));
+    while (bits.length % 8 !== 0) bits.push(0);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+    }
+    for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad);
+    return codewords;
+};
+
+// Split into blocks, add error correction and interleave
+const addErrorCorrection = (data: number[], version: number): number[] => {
+    const { ecPerBlock, blocks } = VERSIONS[version - 1];
+    const divisor = reedSolomonDivisor(ecPerBlock);
+    const dataBlocks: number[][] = [];
+    let offset = 0;
+    for (const size of blocks) {
+        dataBlocks.push(data.slice(offset, offset + size));
+        offset += size;
+    }
+    const ecBlocks = dataBlocks.map(block => reedSolomonRemainder(block, divisor));
+
+    const result: number[] = [];
+    const longest = Math.max(...blocks);
+    for (let i = 0; i < longest; i++) {
+        dataBlocks.forEach(block => {
+            if (i < block.length) result.push(block[i]);
+        });
+    }
+    for (let i = 0; i < ecPerBlock; i++) {
+        ecBlocks.forEach(block => result.push(block[i]));
+    }
+    return result;
+};
+
+class QrMatrix {
+    readonly size: number;
+    readonly modules: boolean[][];
+    readonly isFunction: boolean[][];
+
+    constructor(readonly version: number) {
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+        this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    }
+
+    setFunction(col: number, row: number, dark: boolean) {
+        this.modules[row][col] = dark;
+        this.isFunction[row][col] = true;
+    }
+
+    drawFunctionPatterns() {
+        const { size } = this;
+        for (let i = 0; i < size; i++) {
+            this.setFunction(6, i, i % 2 === 0);
+            this.setFunction(i, 6, i % 2 === 0);
+        }
+
+        [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([x, y]) => {
+            for (let dy = -4; dy <= 4; dy++) {
+                for (let dx = -4; dx <= 4; dx++) {
+                    const dist = Math.max(Math.abs(dx), Math.abs(dy));
+                    const col = x + dx;
+                    const row = y + dy;
+                    if (col >= 0 && col < size && row >= 0 && row < size) {
+                        this.setFunction(col, row, dist !== 2 && dist !== 4);
+                    }
+                }
+            }
+        });
+
+        const positions = ALIGNMENT_POSITIONS[this.version - 1];
+        const last = positions.length - 1;
+        positions.forEach((y, i) => positions.forEach((x, j) => {
+            // Skip the three corners taken by finder patterns
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) {
+                    this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+                }
+            }
+        }));
+
+        // Reserve format areas; the real bits are drawn once the mask is chosen
+        this.drawFormatBits(0);
+
+        if (this.version >= 7) {
+            let rem = this.version;
+            for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+            const bits = (this.version << 12) | rem;
+            for (let i = 0; i < 18; i++) {
+                const dark = ((bits >>> i) & 1) === 1;
+                const a = size - 11 + (i % 3);
+                const b = Math.floor(i / 3);
+                this.setFunction(a, b, dark);
+                this.setFunction(b, a, dark);
+            }
+        }
+    }
+
+    drawFormatBits(mask: number) {
+        const { size } = this;
+        const data = (FORMAT_BITS_M << 3) | mask;
+        let rem = data;
+        for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+        const bits = ((data << 10) | rem) ^ 0x5412;
+        const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+        for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+        this.setFunction(8, 7, bit(6));
+        this.setFunction(8, 8, bit(7));
+        this.setFunction(7, 8, bit(8));
+        for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+        for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+        for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+        this.setFunction(8, size - 8, true); // Dark module
+    }
+
+    drawCodewords(codewords: number[]) {
+        const { size } = this;
+        let i = 0;
+        for (let right = size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5;
+            for (let vert = 0; vert < size; vert++) {
+                for (let j = 0; j < 2; j++) {
+                    const col = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const row = upward ? size - 1 - vert : vert;
+                    if (!this.isFunction[row][col] && i < codewords.length * 8) {
+                        this.modules[row][col] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    applyMask(mask: number) {
+        for (let row = 0; row < this.size; row++) {
+            for (let col = 0; col < this.size; col++) {
+                if (!this.isFunction[row][col] && MASKS[mask](row, col)) {
+                    this.modules[row][col] = !this.modules[row][col];
+                }
+            }
+        }
+    }
+
+    penalty(): number {
+        const { size, modules } = this;
+        let score = 0;
+
+        const line = (k: number, horizontal: boolean) =>
+            Array.from({ length: size }, (_, i) => (horizontal ? modules[k][i] : modules[i][k]));
+
+        for (let k = 0; k < size; k++) {
+            for (const horizontal of [true, false]) {
+                const cells = line(k, horizontal);
+                // Runs of five or more modules of one colour
+                let run = 1;
+                for (let i = 1; i <= size; i++) {
+                    if (i < size && cells[i] === cells[i - 1]) {
+                        run++;
+                    } else {
+                        if (run >= 5) score += 3 + (run - 5);
+                        run = 1;
+                    }
+                }
+                // Patterns that look like a finder: dark-light-dark x3-light-dark next to four light modules
+                const text = cells.map(c => (c ? '1' : '0')).join('');
+                for (const pattern of ['00001011101', '10111010000']) {
+                    for (let from = text.indexOf(pattern); from !== -1; from = text.indexOf(pattern, from + 1)) {
+                        score += 40;
+                    }
+                }
+            }
+        }
+
+        for (let row = 0; row < size - 1; row++) {
+            for (let col = 0; col < size - 1; col++) {
+                const c = modules[row][col];
+                if (c === modules[row][col + 1] && c === modules[row + 1][col] && c === modules[row + 1][col + 1]) score += 3;
+            }
+        }
+
+        const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+        const total = size * size;
+        score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+        return score;
+    }
+}
+
+/**
+ * Modules of a QR code for the text, true for dark. Throws when the text is too long.
+ */
+export const encodeQrCode = (text: string): boolean[][] => {
+    const bytes = toUtf8Bytes(text);
+    const version = VERSIONS.findIndex((v, i) => {
+        const capacity = v.blocks.reduce((sum, n) => sum + n, 0);
+        const headerBits = 4 + (i + 1 < 10 ? 8 : 16);
+        return headerBits + bytes.length * 8 <= capacity * 8;
+    }) + 1;
+    if (version === 0) throw new Error('Text is too long for a QR code');
+
+    const capacity = VERSIONS[version - 1].blocks.reduce((sum, n) => sum + n, 0);
+    const codewords = addErrorCorrection(encodeData(bytes, version, capacity), version);
+
+    const matrix = new QrMatrix(version);
+    matrix.drawFunctionPatterns();
+    matrix.drawCodewords(codewords);
+
+    let bestMask = 0;
+    let bestScore = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        matrix.applyMask(mask);
+        matrix.drawFormatBits(mask);
+        const score = matrix.penalty();
+        if (score < bestScore) {
+            bestScore = score;
+            bestMask = mask;
+        }
+        matrix.applyMask(mask); // XOR again to undo
+    }
+    matrix.applyMask(bestMask);
+    matrix.drawFormatBits(bestMask);
+    return matrix.modules;
+};
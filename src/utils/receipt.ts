@@ -0,0 +1,168 @@
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { Receipt } from '../types/booking';
+import { PAYMENT_METHOD_LABELS } from '../services/payment.service';
+import { RECEIPT_KIND_LABELS } from '../services/receipt.service';
+
+const formatAmount = (amount: number) =>
+    amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatIssuedAt = (receipt: Receipt) => format(parseISO(receipt.issuedAt), 'd MMM yyyy HH:mm', { locale: th });
+
+const formatLineDate = (date: string) => format(parseISO(date), 'd MMM yy', { locale: th });
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Totals shown under the lines, shared by the PDF and thermal layouts
+ */
+const getTotalRows = (receipt: Receipt): Array<[string, number]> => {
+    const rows: Array<[string, number]> = [['รวมเป็นเงิน', receipt.subtotal]];
+    if (receipt.discount > 0) rows.push(['ส่วนลด', -receipt.discount]);
+    if (receipt.vatRate > 0) {
+        rows.push(['มูลค่าก่อนภาษี', receipt.amountBeforeVat]);
+        rows.push([`ภาษีมูลค่าเพิ่ม ${receipt.vatRate}%`, receipt.vatAmount]);
+    }
+    rows.push(['ยอดสุทธิ', receipt.total]);
+    return rows;
+};
+
+/**
+ * Receipt as an A4 HTML page, for rendering to PDF
+ */
+export const renderReceiptHtml = (receipt: Receipt): string => {
+    const { seller, customer } = receipt;
+    const party = (lines: Array<string | undefined>) =>
+        lines.filter(Boolean).map(line => `<div>${escapeHtml(line as string)}</div>`).join('');
+
+    const lineRows = receipt.lines.map((line, index) => `
+        <tr>
+            <td class="center">${index + 1}</td>
+            <td>${escapeHtml(line.description)}<div class="muted">${formatLineDate(line.date)}</div></td>
+            <td class="right">${formatAmount(line.amount)}</td>
+        </tr>`).join('');
+
+    const totalRows = getTotalRows(receipt).map(([label, amount], index, all) => `
+        <tr class="${index === all.length - 1 ? 'grand' : ''}">
+            <td colspan="2" class="right">${label}</td>
+            <td class="right">${formatAmount(amount)}</td>
+        </tr>`).join('');
+
+    const paymentRows = receipt.payments.map(p => `
+        <div>${format(parseISO(p.paidAt), 'd MMM yy HH:mm', { locale: th })} ${PAYMENT_METHOD_LABELS[p.method]} ${formatAmount(p.amount)} บาท</div>`).join('');
+    const outstanding = receipt.total - receipt.paid;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+    body { font-family: sans-serif; font-size: 13px; color: #1f2937; margin: 32px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    .muted { color: #6b7280; font-size: 11px; }
+    .box { border: 1px solid #d1d5db; border-radius: 6px; padding: 12px; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    th { background: #f3f4f6; text-align: left; }
+    .center { text-align: center; }
+    .right { text-align: right; }
+    .grand td { font-weight: bold; font-size: 15px; border-bottom: 2px solid #1f2937; }
+    .void { color: #dc2626; font-weight: bold; font-size: 18px; }
+</style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1>${escapeHtml(seller.name)}</h1>
+            ${party([seller.address, seller.taxId && `เลขประจำตัวผู้เสียภาษี ${seller.taxId}`])}
+        </div>
+        <div class="right">
+            <h1>${RECEIPT_KIND_LABELS[receipt.kind]}</h1>
+            <div>เลขที่ ${escapeHtml(receipt.number)}</div>
+            <div>วันที่ ${formatIssuedAt(receipt)}</div>
+            ${receipt.voidedAt ? '<div class="void">ยกเลิกแล้ว</div>' : ''}
+        </div>
+    </div>
+    <div class="box">
+        <div class="muted">ลูกค้า</div>
+        ${party([customer.name, customer.address, customer.taxId && `เลขประจำตัวผู้เสียภาษี ${customer.taxId}`, customer.phone && `โทร ${customer.phone}`])}
+    </div>
+    <table>
+        <tr><th class="center">#</th><th>รายการ</th><th class="right">จำนวนเงิน (บาท)</th></tr>
+        ${lineRows}
+        ${totalRows}
+    </table>
+    ${paymentRows ? `<div class="box" style="margin-top: 16px;"><div class="muted">การชำระเงิน</div>${paymentRows}
+        ${outstanding > 0 ? `<div><b>ค้างชำระ ${formatAmount(outstanding)} บาท</b></div>` : ''}</div>` : ''}
+    ${receipt.issuedBy ? `<div class="muted">ผู้ออกเอกสาร ${escapeHtml(receipt.issuedBy)}</div>` : ''}
+</body>
+</html>`;
+};
+
+const ESC = '\x1b';
+const GS = '\x1d';
+const ESC_POS = {
+    init: `${ESC}@`,
+    alignLeft: `${ESC}a\x00`,
+    alignCenter: `${ESC}a\x01`,
+    boldOn: `${ESC}E\x01`,
+    boldOff: `${ESC}E\x00`,
+    doubleOn: `${GS}!\x11`,
+    doubleOff: `${GS}!\x00`,
+    cut: `${GS}V\x41\x03`, // Feed three lines, then partial cut
+};
+
+// Thai vowels and tone marks printed above or below the previous character take no column
+const THAI_COMBINING = /[\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]/g;
+
+const columnWidth = (text: string) => text.replace(THAI_COMBINING, '').length;
+
+const padRow = (left: string, right: string, columns: number) => {
+    const space = columns - columnWidth(left) - columnWidth(right);
+    return space > 0 ? `${left}${' '.repeat(space)}${right}` : `${left}\n${' '.repeat(Math.max(0, columns - columnWidth(right)))}${right}`;
+};
+
+/**
+ * Receipt as ESC/POS commands for a 58 mm (32 columns) or 80 mm (48 columns) thermal
+ * printer. Text is left as Unicode; the printing app maps it to the printer's Thai code page.
+ */
+export const renderReceiptEscPos = (receipt: Receipt, columns: number = 32): string => {
+    const rule = '-'.repeat(columns);
+    const { seller, customer } = receipt;
+    const out: string[] = [
+        `${ESC_POS.init}${ESC_POS.alignCenter}${ESC_POS.boldOn}${ESC_POS.doubleOn}${seller.name}${ESC_POS.doubleOff}${ESC_POS.boldOff}`,
+    ];
+
+    if (seller.address) out.push(seller.address);
+    if (seller.taxId) out.push(`เลขประจำตัวผู้เสียภาษี ${seller.taxId}`);
+    out.push('', `${ESC_POS.boldOn}${RECEIPT_KIND_LABELS[receipt.kind]}${ESC_POS.boldOff}`);
+    if (receipt.voidedAt) out.push(`${ESC_POS.boldOn}*** ยกเลิกแล้ว ***${ESC_POS.boldOff}`);
+
+    out.push(`${ESC_POS.alignLeft}${padRow('เลขที่', receipt.number, columns)}`, padRow('วันที่', formatIssuedAt(receipt), columns));
+    out.push(`ลูกค้า ${customer.name}`);
+    if (customer.taxId) out.push(`เลขผู้เสียภาษี ${customer.taxId}`);
+    if (customer.address) out.push(customer.address);
+    out.push(rule);
+
+    receipt.lines.forEach(line => {
+        out.push(padRow(line.description, formatAmount(line.amount), columns));
+        out.push(`  ${formatLineDate(line.date)}`);
+    });
+    out.push(rule);
+
+    getTotalRows(receipt).forEach(([label, amount], index, all) => {
+        const row = padRow(label, formatAmount(amount), columns);
+        out.push(index === all.length - 1 ? `${ESC_POS.boldOn}${row}${ESC_POS.boldOff}` : row);
+    });
+
+    if (receipt.payments.length > 0) {
+        out.push(rule);
+        receipt.payments.forEach(p => out.push(padRow(PAYMENT_METHOD_LABELS[p.method], formatAmount(p.amount), columns)));
+        if (receipt.total - receipt.paid > 0) out.push(padRow('ค้างชำระ', formatAmount(receipt.total - receipt.paid), columns));
+    }
+
+    out.push(rule, `${ESC_POS.alignCenter}ขอบคุณที่ใช้บริการ`);
+    return `${out.join('\n')}\n${ESC_POS.cut}`;
+};
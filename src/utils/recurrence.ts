@@ -0,0 +1,52 @@
+import { addDays, format, parseISO } from 'date-fns';
+
+export type RecurrenceFrequency = 'WEEKLY' | 'BIWEEKLY' | 'CUSTOM';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    weekdays: number[]; // 0 = Sunday ... 6 = Saturday (CUSTOM only)
+    endType: 'DATE' | 'COUNT';
+    endDate?: string;   // yyyy-MM-dd, inclusive
+    count?: number;
+}
+
+// Hard cap so a typo in the end date can't create years of bookings
+export const MAX_OCCURRENCES = 52;
+
+export const WEEKDAY_LABELS = ['อา', 'จ', 'อ', 'พ', 'พฤ', 'ศ', 'ส'];
+
+/**
+ * Dates (yyyy-MM-dd) of every occurrence of a rule, starting from startDate
+ */
+export const generateOccurrenceDates = (startDate: string, rule: RecurrenceRule): string[] => {
+    const dates: string[] = [];
+    const start = parseISO(startDate);
+    const limit = rule.endType === 'COUNT'
+        ? Math.min(rule.count || 0, MAX_OCCURRENCES)
+        : MAX_OCCURRENCES;
+    const isBeforeEnd = (date: Date) =>
+        rule.endType !== 'DATE' || !rule.endDate || format(date, 'yyyy-MM-dd') <= rule.endDate;
+
+    if (rule.frequency === 'CUSTOM') {
+        const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [start.getDay()];
+        for (let date = start; dates.length < limit && isBeforeEnd(date); date = addDays(date, 1)) {
+            if (weekdays.includes(date.getDay())) {
+                dates.push(format(date, 'yyyy-MM-dd'));
+            }
+        }
+        return dates;
+    }
+
+    const step = rule.frequency === 'BIWEEKLY' ? 14 : 7;
+    for (let date = start; dates.length < limit && isBeforeEnd(date); date = addDays(date, step)) {
+        dates.push(format(date, 'yyyy-MM-dd'));
+    }
+    return dates;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+    if (rule.frequency === 'WEEKLY') return 'ทุกสัปดาห์';
+    if (rule.frequency === 'BIWEEKLY') return 'ทุก 2 สัปดาห์';
+    const days = [...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join(', ');
+    return `ทุกวัน ${days}`;
+};
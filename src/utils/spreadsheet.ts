@@ -0,0 +1,152 @@
+/* eslint-disable no-bitwise */
+/**
+ * Tables as CSV or as a single-sheet XLSX workbook. The workbook is written by hand (inline
+ * strings, uncompressed zip) so exports need no spreadsheet library.
+ */
+
+export type SpreadsheetCell = string | number | null | undefined;
+export type SpreadsheetRow = SpreadsheetCell[];
+
+const escapeCsv = (cell: SpreadsheetCell) => {
+    const text = cell === null || cell === undefined ? '' : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a byte order mark so Excel reads Thai text as UTF-8
+ */
+export const toCsv = (rows: SpreadsheetRow[]): string =>
+    '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+
+// Control characters other than tab / newline are not allowed in XML
+const isXmlChar = (char: string) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || code === 0x09 || code === 0x0A || code === 0x0D;
+};
+
+const escapeXml = (text: string) =>
+    Array.from(text)
+        .filter(isXmlChar)
+        .join('')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string =>
+    (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const renderSheet = (rows: SpreadsheetRow[]) => {
+    const body = rows.map((row, r) => {
+        const cells = row.map((cell, c) => {
+            const ref = `${columnName(c)}${r + 1}`;
+            if (cell === null || cell === undefined || cell === '') return '';
+            if (typeof cell === 'number') return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : '';
+            return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+        });
+        return `<row r="${r + 1}">${cells.join('')}</row>`;
+    });
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + `<sheetData>${body.join('')}</sheetData></worksheet>`;
+};
+
+const workbookParts = (sheetName: string, rows: SpreadsheetRow[]): Array<[string, string]> => [
+    ['[Content_Types].xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>'],
+    ['_rels/.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'],
+    ['xl/workbook.xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'],
+    ['xl/_rels/workbook.xml.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>'],
+    ['xl/worksheets/sheet1.xml', renderSheet(rows)],
+];
+
+const utf8 = (text: string): Uint8Array => {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const code = char.codePointAt(0) || 0;
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xC0 | (code >> 6), 0x80 | (code & 0x3F));
+        } else if (code < 0x10000) {
+            bytes.push(0xE0 | (code >> 12), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+        } else {
+            bytes.push(0xF0 | (code >> 18), 0x80 | ((code >> 12) & 0x3F), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+        }
+    }
+    return Uint8Array.from(bytes);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const uint16 = (value: number) => [value & 0xFF, (value >>> 8) & 0xFF];
+const uint32 = (value: number) => [value & 0xFF, (value >>> 8) & 0xFF, (value >>> 16) & 0xFF, (value >>> 24) & 0xFF];
+
+// Zip archive with every entry stored (method 0), which all spreadsheet apps accept
+const zipStored = (files: Array<[string, Uint8Array]>): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    const central: number[] = [];
+    let offset = 0;
+
+    files.forEach(([name, data]) => {
+        const nameBytes = utf8(name);
+        const crc = crc32(data);
+        // version, flags, method, time, date, crc, compressed / uncompressed size, name length
+        const common = [...uint16(20), ...uint16(0), ...uint16(0), ...uint16(0), ...uint16(0x21),
+            ...uint32(crc), ...uint32(data.length), ...uint32(data.length), ...uint16(nameBytes.length)];
+
+        const local = Uint8Array.from([...uint32(0x04034B50), ...common, ...uint16(0)]);
+        chunks.push(local, nameBytes, data);
+
+        central.push(...uint32(0x02014B50), ...uint16(20), ...common,
+            ...uint16(0), ...uint16(0), ...uint16(0), ...uint16(0), ...uint32(0), ...uint32(offset), ...nameBytes);
+        offset += local.length + nameBytes.length + data.length;
+    });
+
+    const end = [...uint32(0x06054B50), ...uint16(0), ...uint16(0), ...uint16(files.length), ...uint16(files.length),
+        ...uint32(central.length), ...uint32(offset), ...uint16(0)];
+    chunks.push(Uint8Array.from(central), Uint8Array.from(end));
+
+    const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    chunks.reduce((position, chunk) => {
+        out.set(chunk, position);
+        return position + chunk.length;
+    }, 0);
+    return out;
+};
+
+/**
+ * Single-sheet XLSX workbook; numbers stay numeric so totals can be summed in Excel
+ */
+export const toXlsx = (sheetName: string, rows: SpreadsheetRow[]): Uint8Array => {
+    return zipStored(workbookParts(sheetName, rows).map(([name, xml]) => [name, utf8(xml)]));
+};